@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+
+/**
+ * Pricing Simulator Script
+ *
+ * Purpose: Re-prices saved scenarios against exported pricing tables and shows
+ * what changed per scenario - a regression run for Pricing Variables edits that
+ * needs no Airtable access.
+ *
+ * Usage:
+ *   Newest exports in src/assets:   npm run simulate-pricing -- --scenarios scripts/pricing-scenarios.example.json
+ *   Other folder:                   npm run simulate-pricing -- --scenarios scenarios.json --dir ~/Downloads
+ *   Draft Pricing Variables:        npm run simulate-pricing -- --scenarios scenarios.json --export "Pricing Variables-Draft.csv"
+ *   Prices in effect on a date:     npm run simulate-pricing -- --scenarios scenarios.json --as-of 2027-01-01
+ *   Tenant rounding policy:         npm run simulate-pricing -- --scenarios scenarios.json --rounding per-line:cent
+ *   Accept current results:         npm run simulate-pricing -- --scenarios scenarios.json --update
+ *   Machine-readable report:        npm run simulate-pricing -- --scenarios scenarios.json --json
+ *
+ * Scenarios are either a JSON array of {scenarioId, name, formData, expected}
+ * or an export of the Pricing Scenarios table (CSV or JSON).
+ *
+ * Exits with code 1 when any scenario changed or failed to price (2 when the
+ * pricing or scenarios can't be loaded).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PricingScenario, ScenarioResult, formatQuoteDifference, runScenarios, toBaseline } from '../src/utils/pricingSimulator';
+import {
+  AirtablePricingScenarioRecord,
+  PricingExportTables,
+  buildPricingScenarios,
+  buildPricingSnapshot,
+  buildScenariosFromExport,
+  detectExportTable,
+  parseTableExport
+} from '../src/utils/simulatorService';
+import { PricingConfigError } from '../src/utils/pricingService';
+import { fromPricingDate, parsePricingDate } from '../src/utils/pricingVersions';
+import { RoundingPolicy, parseRoundingPolicy } from '../src/utils/money';
+
+const parseArgs = (argv: string[]) => {
+  let scenarios: string | undefined;
+  let dir = path.join(process.cwd(), 'src', 'assets');
+  const exports: string[] = [];
+  let asOf: string | undefined;
+  let rounding: RoundingPolicy | undefined;
+  let update = false;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--scenarios') {
+      scenarios = argv[++i];
+    } else if (arg === '--dir') {
+      dir = argv[++i];
+    } else if (arg === '--export') {
+      exports.push(argv[++i]);
+    } else if (arg === '--as-of') {
+      asOf = parsePricingDate(argv[++i]);
+      if (!asOf) {
+        console.error(`❌ --as-of needs a date, e.g. 2027-01-01 (got ${argv[i]})`);
+        process.exit(2);
+      }
+    } else if (arg === '--rounding') {
+      // <mode>:<unit> as in Firm Info, e.g. per-total:dollar (the default) or per-line:cent
+      const [mode, unit] = (argv[++i] || '').split(':');
+      rounding = parseRoundingPolicy(mode, unit);
+      if (rounding.mode !== mode?.trim().toLowerCase() || rounding.unit !== unit?.trim().toLowerCase()) {
+        console.error(`❌ --rounding needs <per-line|per-total>:<cent|dollar> (got ${argv[i]})`);
+        process.exit(2);
+      }
+    } else if (arg === '--update') {
+      update = true;
+    } else if (arg === '--json') {
+      json = true;
+    } else {
+      console.error(`❌ Unknown argument: ${arg}`);
+      process.exit(2);
+    }
+  }
+
+  if (!scenarios) {
+    console.error('❌ --scenarios <file> is required');
+    process.exit(2);
+  }
+
+  return { scenarios, dir, exports, asOf, rounding, update, json };
+};
+
+const readExport = (file: string) => {
+  if (!fs.existsSync(file)) {
+    console.error(`❌ File not found: ${file}`);
+    process.exit(2);
+  }
+  return parseTableExport(file, fs.readFileSync(file, 'utf8'));
+};
+
+// Newest export of each table in a folder ("<Table>-Grid view (N).csv", highest N), then explicit files
+const loadTables = (dir: string, files: string[]): PricingExportTables => {
+  const tables: PricingExportTables = {};
+  const exportNumber = (file: string) => Number(file.match(/\((\d+)\)\.(csv|json)$/)?.[1] || 0);
+
+  if (fs.existsSync(dir)) {
+    fs.readdirSync(dir)
+      .filter(file => /\.(csv|json)$/.test(file))
+      .sort((a, b) => exportNumber(a) - exportNumber(b))
+      .forEach(file => {
+        const table = detectExportTable(file);
+        if (table && table !== 'Pricing Scenarios') tables[table] = readExport(path.join(dir, file));
+      });
+  }
+
+  files.forEach(file => {
+    const table = detectExportTable(file);
+    if (!table) {
+      console.error(`❌ Can't tell which table ${file} is - name it "<Table>-<anything>.csv", e.g. "Pricing Variables-Draft.csv"`);
+      process.exit(2);
+    }
+    tables[table] = readExport(file);
+  });
+
+  return tables;
+};
+
+// A plain JSON scenario list is validated through the same builder as the Airtable table
+const loadScenarios = (file: string): { scenarios: PricingScenario[]; editable: boolean } => {
+  if (detectExportTable(file) === 'Pricing Scenarios') {
+    return { scenarios: buildScenariosFromExport(readExport(file)), editable: false };
+  }
+
+  if (!fs.existsSync(file)) {
+    console.error(`❌ File not found: ${file}`);
+    process.exit(2);
+  }
+  const list = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(list)) {
+    throw new PricingConfigError([`${file}: expected a JSON array of scenarios`]);
+  }
+
+  const records: AirtablePricingScenarioRecord[] = list.map((scenario, index) => ({
+    id: `scenario ${index + 1}`,
+    fields: {
+      'Scenario ID': scenario.scenarioId,
+      'Name': scenario.name,
+      'Form Data': scenario.formData === undefined ? '' : JSON.stringify(scenario.formData),
+      'Expected Quote': scenario.expected === undefined ? undefined : JSON.stringify(scenario.expected),
+      'Notes': scenario.notes
+    }
+  }));
+  const issues: string[] = [];
+  const scenarios = buildPricingScenarios(records, issues);
+  if (issues.length > 0) {
+    throw new PricingConfigError(issues);
+  }
+  return { scenarios, editable: true };
+};
+
+// calculateQuote logs every step - keep the report readable
+const quietly = <T>(run: () => T): T => {
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return run();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+};
+
+const STATUS_ICONS: { [status in ScenarioResult['status']]: string } = {
+  'pass': '✅',
+  'fail': '❌',
+  'error': '💥',
+  'no-baseline': '🆕'
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  let results: ScenarioResult[];
+  let editable: boolean;
+  try {
+    const loaded = loadScenarios(options.scenarios);
+    editable = loaded.editable;
+    const tables = loadTables(options.dir, options.exports);
+    const snapshot = quietly(() => buildPricingSnapshot(tables));
+    if (options.asOf) snapshot.options.asOf = fromPricingDate(options.asOf);
+    if (options.rounding) snapshot.options.roundingPolicy = options.rounding;
+    results = quietly(() => runScenarios(loaded.scenarios, snapshot));
+  } catch (error) {
+    if (error instanceof PricingConfigError) {
+      console.error('❌ Pricing configuration has problems:');
+      error.issues.forEach(issue => console.error(`   ${issue}`));
+      process.exit(2);
+    }
+    throw error;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results.map(({ actual, ...result }) => ({ ...result, actual: actual && toBaseline(actual) })), null, 2));
+  } else {
+    console.log('');
+    results.forEach(result => {
+      console.log(`${STATUS_ICONS[result.status]} ${result.name} (${result.scenarioId})`);
+      if (result.error) console.log(`   ${result.error.split('\n').join('\n   ')}`);
+      if (result.status === 'no-baseline') console.log('   No expected quote yet - run with --update to save the current one');
+      result.differences.forEach(difference => console.log(`   ${formatQuoteDifference(difference)}`));
+    });
+
+    const count = (status: ScenarioResult['status']) => results.filter(result => result.status === status).length;
+    console.log('');
+    console.log(`📊 ${results.length} scenario(s): ${count('pass')} unchanged, ${count('fail')} changed, ${count('error')} failed, ${count('no-baseline')} without baseline`);
+  }
+
+  if (options.update) {
+    if (!editable) {
+      console.error('❌ --update needs a JSON scenario list - paste the new quotes into the Pricing Scenarios table instead');
+      process.exit(2);
+    }
+
+    const byId = new Map(results.map(result => [result.scenarioId, result]));
+    const list = JSON.parse(fs.readFileSync(options.scenarios, 'utf8'));
+    list.forEach((scenario: { scenarioId: string; expected?: unknown }) => {
+      const actual = byId.get(scenario.scenarioId)?.actual;
+      if (actual) scenario.expected = toBaseline(actual);
+    });
+    fs.writeFileSync(options.scenarios, `${JSON.stringify(list, null, 2)}\n`);
+    console.log(`💾 Saved ${results.filter(result => result.actual).length} expected quote(s) to ${options.scenarios}`);
+    process.exit(0);
+  }
+
+  process.exit(results.some(result => result.status === 'fail' || result.status === 'error') ? 1 : 0);
+};
+
+main();
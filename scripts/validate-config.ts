@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Configuration Validation Script
+ *
+ * Purpose: Checks Airtable CSV exports of Pricing Variables, Services and Form
+ * Fields against the same schema the calculator uses when it loads them, lints
+ * them against each other (see src/utils/configLinter.ts), and prints every
+ * problem by row and column - including the pricing rules the calculator would
+ * drop when it loads them.
+ *
+ * Usage:
+ *   Newest exports in src/assets:  npm run validate-config
+ *   Specific files:                npm run validate-config -- --pricing "Pricing Variables.csv" --services "Services.csv" --form-fields "Form Fields.csv"
+ *   Other folder:                  npm run validate-config -- --dir ~/Downloads
+ *   Machine-readable report:       npm run validate-config -- --json
+ *
+ * Exits with code 1 when any row has an error, so it can gate a CI job.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseCsvRecords } from '../src/utils/csv';
+import { ConfigIssue, ConfigTable, ConfigValidationReport, RawConfigRecord, formatConfigIssue, validateConfigRecords } from '../src/utils/configSchema';
+import { ConfigTables, lintConfiguration } from '../src/utils/configLinter';
+import { AirtablePricingRecord, PricingConfigError, buildPricingConfig } from '../src/utils/pricingService';
+
+const TABLE_ARGS: { [flag: string]: ConfigTable } = {
+  '--pricing': 'Pricing Variables',
+  '--services': 'Services',
+  '--form-fields': 'Form Fields'
+};
+
+const parseArgs = (argv: string[]) => {
+  const files: Partial<Record<ConfigTable, string>> = {};
+  let dir = path.join(process.cwd(), 'src', 'assets');
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--dir') {
+      dir = argv[++i];
+    } else if (TABLE_ARGS[arg]) {
+      files[TABLE_ARGS[arg]] = argv[++i];
+    } else {
+      console.error(`❌ Unknown argument: ${arg}`);
+      process.exit(2);
+    }
+  }
+
+  return { files, dir, json };
+};
+
+// Newest "<Table>-Grid view (N).csv" export in a folder (highest N)
+const findLatestExport = (dir: string, table: ConfigTable): string | undefined => {
+  if (!fs.existsSync(dir)) return undefined;
+
+  const exportNumber = (file: string) => Number(file.match(/\((\d+)\)\.csv$/)?.[1] || 0);
+  const candidates = fs.readdirSync(dir)
+    .filter(file => file.startsWith(`${table}-`) && file.endsWith('.csv'))
+    .sort((a, b) => exportNumber(b) - exportNumber(a));
+
+  return candidates[0] ? path.join(dir, candidates[0]) : undefined;
+};
+
+// Pricing rows the calculator's loader would drop, and why (beyond the schema issues)
+const dropPricingRows = (records: RawConfigRecord[]): { rows: number; issues: string[] } => {
+  const issues: string[] = [];
+  try {
+    const pricingConfig = buildPricingConfig(records as unknown as AirtablePricingRecord[], issues);
+    return { rows: records.length - pricingConfig.length, issues };
+  } catch (error) {
+    // A missing required column - already reported by the schema check
+    if (error instanceof PricingConfigError) return { rows: records.length, issues: [] };
+    throw error;
+  }
+};
+
+const main = () => {
+  const { files, dir, json } = parseArgs(process.argv.slice(2));
+  const explicit = Object.keys(files).length > 0;
+  const reports: (ConfigValidationReport & { file: string; dropped?: { rows: number; issues: string[] } })[] = [];
+  const tables: ConfigTables = {};
+
+  (Object.values(TABLE_ARGS)).forEach(table => {
+    const file = files[table] || (explicit ? undefined : findLatestExport(dir, table));
+    if (!file) {
+      if (!explicit) console.warn(`⚠️  No ${table} export found in ${dir} - skipped`);
+      return;
+    }
+
+    if (!fs.existsSync(file)) {
+      console.error(`❌ ${table} file not found: ${file}`);
+      process.exit(2);
+    }
+
+    const records = parseCsvRecords(fs.readFileSync(file, 'utf8'));
+    tables[table] = records;
+    reports.push({ ...validateConfigRecords(table, records), file, dropped: table === 'Pricing Variables' ? dropPricingRows(records) : undefined });
+  });
+
+  const lintIssues = lintConfiguration(tables);
+  const printIssues = (issues: ConfigIssue[]) => {
+    issues.filter(issue => issue.severity === 'error').forEach(issue => console.log(`   ❌ ${formatConfigIssue(issue)}`));
+    issues.filter(issue => issue.severity === 'warning').forEach(issue => console.log(`   ⚠️  ${formatConfigIssue(issue)}`));
+  };
+
+  if (json) {
+    console.log(JSON.stringify({ reports, lintIssues }, null, 2));
+  } else {
+    reports.forEach(report => {
+      const errors = report.issues.filter(issue => issue.severity === 'error');
+      const warnings = report.issues.filter(issue => issue.severity === 'warning');
+
+      console.log('');
+      console.log(`📋 ${report.table} - ${path.basename(report.file)}`);
+      console.log(`   ${report.rowsChecked} rows, ${errors.length} error(s), ${warnings.length} warning(s), ${report.dropped?.rows ?? report.quarantined.length} row(s) rejected`);
+      printIssues(report.issues);
+
+      // Problems only the loader finds (formulas, trigger conditions, effective dates...)
+      const schemaProblems = report.issues.map(formatConfigIssue);
+      report.dropped?.issues
+        .filter(issue => !schemaProblems.includes(issue))
+        .forEach(issue => console.log(`   ❌ ${issue.replace(/\n/g, '\n      ')}`));
+    });
+
+    const lintErrors = lintIssues.filter(issue => issue.severity === 'error');
+    console.log('');
+    console.log('🔗 Cross-table checks');
+    console.log(`   ${lintErrors.length} error(s), ${lintIssues.length - lintErrors.length} warning(s)`);
+    printIssues(lintIssues);
+    console.log('');
+  }
+
+  const hasErrors = [...reports.flatMap(report => report.issues), ...lintIssues].some(issue => issue.severity === 'error')
+    || reports.some(report => (report.dropped?.rows ?? 0) > 0);
+  if (!json) {
+    console.log(hasErrors ? '❌ Configuration has errors' : '✅ Configuration is valid');
+  }
+  process.exit(hasErrors ? 1 : 0);
+};
+
+main();
@@ -1,7 +1,10 @@
 import React from 'react';
 import QuoteCalculator from './components/QuoteCalculator';
+import AdminConfigReport from './components/AdminConfigReport';
+import AdminPricingSimulator from './components/AdminPricingSimulator';
 import { TenantProvider, useTenant } from './contexts/TenantContext';
 import { Loader2, AlertCircle } from 'lucide-react';
+import { isStaffMode } from './utils/staffMode';
 
 const AppContent: React.FC = () => {
   const { tenant, isLoading, error } = useTenant();
@@ -41,9 +44,14 @@ const AppContent: React.FC = () => {
     );
   }
 
+  // Admin screens for staff: ?staff=1&admin=config, ?staff=1&admin=simulator
+  const adminView = isStaffMode() ? new URLSearchParams(window.location.search).get('admin') : null;
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <QuoteCalculator />
+      {adminView === 'config' ? <AdminConfigReport />
+        : adminView === 'simulator' ? <AdminPricingSimulator />
+        : <QuoteCalculator />}
     </div>
   );
 };
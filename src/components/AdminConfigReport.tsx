@@ -0,0 +1,206 @@
+/**
+ * Admin Configuration Report Component
+ * Validates the tenant's Pricing Variables, Services and Form Fields tables
+ * against their schemas, lints them against each other and lists every problem
+ * by row and column
+ */
+
+import React, { useState } from 'react';
+import { ClipboardCheck, RefreshCw, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { useTenant } from '../contexts/TenantContext';
+import { fetchConfigValidationReports, ConfigValidationResult } from '../utils/configValidationService';
+import { ConfigIssue } from '../utils/configSchema';
+
+const IssueRow: React.FC<{ issue: ConfigIssue; showTable?: boolean }> = ({ issue, showTable }) => (
+  <tr className="border-t border-gray-100 align-top">
+    <td className="py-2 pr-2 w-5">
+      {issue.severity === 'error'
+        ? <XCircle className="w-4 h-4 text-red-600" />
+        : <AlertCircle className="w-4 h-4 text-yellow-600" />}
+    </td>
+    <td className="py-2 pr-3 text-gray-700">
+      {showTable && <div className="text-xs font-semibold text-gray-900">{issue.table}</div>}
+      <div className="font-mono text-xs">{issue.row}</div>
+      {issue.rowLabel && <div className="text-xs text-gray-500">{issue.rowLabel}</div>}
+    </td>
+    <td className="py-2 pr-3 font-medium text-gray-900">{issue.column}</td>
+    <td className="py-2 text-gray-700">{issue.problem}</td>
+  </tr>
+);
+
+const AdminConfigReport: React.FC = () => {
+  const { tenant } = useTenant();
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ConfigValidationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleValidate = async () => {
+    if (!tenant) {
+      setError('Tenant configuration not loaded');
+      return;
+    }
+
+    setRunning(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      console.log('[AdminConfigReport] Validating configuration tables...');
+      setResult(await fetchConfigValidationReports(tenant));
+    } catch (err) {
+      console.error('[AdminConfigReport] Validation failed:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center space-x-3 mb-6">
+          <ClipboardCheck className="w-8 h-8 text-blue-600" />
+          <h2 className="text-2xl font-bold text-gray-900">Configuration Report</h2>
+        </div>
+
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <h3 className="font-semibold text-blue-900 mb-2">What does this check?</h3>
+          <ul className="list-disc list-inside text-sm text-blue-800 space-y-1 ml-2">
+            <li>Every row of Pricing Variables, Services and Form Fields, active or not</li>
+            <li>Required columns, select values (Pricing Type, Billing Frequency, Comparison Logic, Field Type...), prices, numbers and JSON</li>
+            <li>Across tables: rule fields and values that no Form Field offers, formula variables that don't resolve, duplicate Pricing Rule IDs, unpriced services and unused pricing questions</li>
+            <li><strong>Errors</strong> stop the calculator (pricing rows) or hide the row (services, form fields)</li>
+            <li><strong>Warnings</strong> are shown but the row is still used</li>
+          </ul>
+        </div>
+
+        <button
+          onClick={handleValidate}
+          disabled={running || !tenant}
+          className="w-full px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+        >
+          <RefreshCw className={`w-5 h-5 ${running ? 'animate-spin' : ''}`} />
+          <span>{running ? 'Validating...' : 'Validate Configuration'}</span>
+        </button>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-start space-x-2">
+              <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-red-900 mb-1">Validation Failed</h3>
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-6 space-y-6">
+            {result.fetchErrors.length > 0 && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                <h3 className="font-semibold text-red-900 mb-2">Tables that couldn't be read</h3>
+                <ul className="text-sm text-red-800 space-y-1">
+                  {result.fetchErrors.map((message, index) => <li key={index}>{message}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {result.reports.map(report => {
+              const errors = report.issues.filter(issue => issue.severity === 'error').length;
+              const warnings = report.issues.length - errors;
+
+              return (
+                <div key={report.table} className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                  <h3 className="font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+                    {errors === 0
+                      ? <CheckCircle className="w-5 h-5 text-green-600" />
+                      : <XCircle className="w-5 h-5 text-red-600" />}
+                    <span>{report.table}</span>
+                  </h3>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                    <div className="text-center p-3 bg-white rounded-lg border border-gray-200">
+                      <div className="text-2xl font-bold text-gray-900">{report.rowsChecked}</div>
+                      <div className="text-xs text-gray-600">Rows Checked</div>
+                    </div>
+                    <div className="text-center p-3 bg-white rounded-lg border border-gray-200">
+                      <div className="text-2xl font-bold text-red-600">{errors}</div>
+                      <div className="text-xs text-gray-600">Errors</div>
+                    </div>
+                    <div className="text-center p-3 bg-white rounded-lg border border-gray-200">
+                      <div className="text-2xl font-bold text-yellow-600">{warnings}</div>
+                      <div className="text-xs text-gray-600">Warnings</div>
+                    </div>
+                    <div className="text-center p-3 bg-white rounded-lg border border-gray-200">
+                      <div className="text-2xl font-bold text-gray-900">{report.quarantined.length}</div>
+                      <div className="text-xs text-gray-600">Rows Rejected</div>
+                    </div>
+                  </div>
+
+                  {report.issues.length > 0 && (
+                    <div className="bg-white border border-gray-200 rounded p-3 max-h-96 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500 uppercase">
+                            <th className="pb-2" />
+                            <th className="pb-2 pr-3">Row</th>
+                            <th className="pb-2 pr-3">Column</th>
+                            <th className="pb-2">Problem</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.issues.map((issue, index) => <IssueRow key={index} issue={issue} />)}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+                {result.lintIssues.some(issue => issue.severity === 'error')
+                  ? <XCircle className="w-5 h-5 text-red-600" />
+                  : <CheckCircle className="w-5 h-5 text-green-600" />}
+                <span>Cross-table Checks</span>
+              </h3>
+
+              {result.lintIssues.length === 0 ? (
+                <p className="text-sm text-gray-700">Every rule, formula, service and pricing question lines up.</p>
+              ) : (
+                <div className="bg-white border border-gray-200 rounded p-3 max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="pb-2" />
+                        <th className="pb-2 pr-3">Row</th>
+                        <th className="pb-2 pr-3">Column</th>
+                        <th className="pb-2">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.lintIssues.map((issue, index) => <IssueRow key={index} issue={issue} showTable />)}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <h3 className="font-semibold text-gray-900 mb-2">Checking CSV exports</h3>
+          <p className="text-sm text-gray-700">
+            The same checks run from the command line over Airtable CSV downloads:{' '}
+            <code className="bg-gray-100 px-1 py-0.5 rounded">npm run validate-config -- --pricing "Pricing Variables.csv"</code>.
+            See <code className="bg-gray-100 px-1 py-0.5 rounded">scripts/README.md</code>.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminConfigReport;
@@ -0,0 +1,251 @@
+/**
+ * Admin Pricing Simulator Component
+ * Re-prices the tenant's saved Pricing Scenarios against the current pricing,
+ * or draft pricing from uploaded CSV / JSON exports, and shows what changed
+ */
+
+import React, { useState } from 'react';
+import { FlaskConical, Play, Upload, CheckCircle, XCircle, AlertCircle, PlusCircle, Copy, X } from 'lucide-react';
+import { useTenant } from '../contexts/TenantContext';
+import { ScenarioResult, formatQuoteDifference, runScenarios, toBaseline } from '../utils/pricingSimulator';
+import {
+  PricingExportTables,
+  buildPricingSnapshot,
+  detectExportTable,
+  fetchPricingScenarios,
+  fetchPricingSnapshot,
+  parseTableExport
+} from '../utils/simulatorService';
+import { PricingConfigError } from '../utils/pricingService';
+
+const STATUS_STYLES: { [status in ScenarioResult['status']]: { label: string; className: string; icon: React.ReactNode } } = {
+  'pass': { label: 'Unchanged', className: 'text-green-700 bg-green-50 border-green-200', icon: <CheckCircle className="w-5 h-5 text-green-600" /> },
+  'fail': { label: 'Changed', className: 'text-red-700 bg-red-50 border-red-200', icon: <XCircle className="w-5 h-5 text-red-600" /> },
+  'error': { label: 'Error', className: 'text-red-700 bg-red-50 border-red-200', icon: <AlertCircle className="w-5 h-5 text-red-600" /> },
+  'no-baseline': { label: 'No baseline', className: 'text-blue-700 bg-blue-50 border-blue-200', icon: <PlusCircle className="w-5 h-5 text-blue-600" /> }
+};
+
+const ScenarioCard: React.FC<{ result: ScenarioResult }> = ({ result }) => {
+  const [copied, setCopied] = useState(false);
+  const style = STATUS_STYLES[result.status];
+
+  const handleCopy = async () => {
+    if (!result.actual) return;
+    await navigator.clipboard.writeText(JSON.stringify(toBaseline(result.actual)));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`p-4 border rounded-lg ${style.className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {style.icon}
+          <span className="font-semibold text-gray-900">{result.name}</span>
+          <span className="font-mono text-xs text-gray-500">{result.scenarioId}</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm font-medium">{style.label}</span>
+          {result.actual && result.status !== 'pass' && (
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50 flex items-center space-x-1 text-gray-700"
+              title="Paste into the scenario's Expected Quote to accept this quote"
+            >
+              <Copy className="w-3 h-3" />
+              <span>{copied ? 'Copied' : 'Copy quote as expected'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {result.error && (
+        <pre className="mt-3 p-3 bg-white border border-red-200 rounded text-xs text-red-800 whitespace-pre-wrap">{result.error}</pre>
+      )}
+
+      {result.differences.length > 0 && (
+        <ul className="mt-3 p-3 bg-white border border-gray-200 rounded text-sm text-gray-800 space-y-1 max-h-64 overflow-y-auto font-mono">
+          {result.differences.map((difference, index) => (
+            <li key={index}>{formatQuoteDifference(difference)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const AdminPricingSimulator: React.FC = () => {
+  const { tenant, firmInfo } = useTenant();
+  const [draft, setDraft] = useState<PricingExportTables>({});
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<ScenarioResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftTables = Object.keys(draft);
+
+  const handleDraftFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    setError(null);
+
+    const tables: PricingExportTables = { ...draft };
+    for (const file of files) {
+      const table = detectExportTable(file.name);
+      if (!table || table === 'Pricing Scenarios') {
+        setError(`Can't tell which pricing table "${file.name}" is - keep Airtable's "<Table>-<View>.csv" file name`);
+        return;
+      }
+      try {
+        tables[table] = parseTableExport(file.name, await file.text());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Could not read ${file.name}`);
+        return;
+      }
+    }
+    setDraft(tables);
+  };
+
+  const handleRun = async () => {
+    if (!tenant) {
+      setError('Tenant configuration not loaded');
+      return;
+    }
+
+    setRunning(true);
+    setResults(null);
+    setError(null);
+
+    try {
+      console.log('[AdminPricingSimulator] Loading scenarios and pricing...');
+      const [scenarios, live] = await Promise.all([
+        fetchPricingScenarios({ baseId: tenant.airtable.pricingBaseId, apiKey: tenant.airtable.pricingApiKey }),
+        fetchPricingSnapshot(tenant)
+      ]);
+
+      if (scenarios.length === 0) {
+        setError('No active scenarios - add rows to the Pricing Scenarios table in the pricing base');
+        return;
+      }
+
+      const snapshot = draftTables.length > 0 ? buildPricingSnapshot(draft, live) : live;
+      snapshot.options.roundingPolicy = firmInfo?.roundingPolicy;
+      setResults(runScenarios(scenarios, snapshot));
+    } catch (err) {
+      console.error('[AdminPricingSimulator] Simulation failed:', err);
+      if (err instanceof PricingConfigError) {
+        setError(err.issues.join('\n'));
+      } else {
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const count = (status: ScenarioResult['status']) => results?.filter(result => result.status === status).length || 0;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center space-x-3 mb-6">
+          <FlaskConical className="w-8 h-8 text-blue-600" />
+          <h2 className="text-2xl font-bold text-gray-900">Pricing Simulator</h2>
+        </div>
+
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <h3 className="font-semibold text-blue-900 mb-2">How does it work?</h3>
+          <ul className="list-disc list-inside text-sm text-blue-800 space-y-1 ml-2">
+            <li>Each row of the <strong>Pricing Scenarios</strong> table is a saved set of answers and the quote it should give</li>
+            <li>Running re-prices every active scenario and lists each value that no longer matches</li>
+            <li>Upload CSV exports to try <strong>draft pricing</strong> - uploaded tables replace the live ones for this run only</li>
+            <li>To accept a new quote, copy it and paste it into the scenario's <strong>Expected Quote</strong></li>
+          </ul>
+        </div>
+
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-900">Pricing</h3>
+              <p className="text-sm text-gray-600">
+                {draftTables.length > 0 ? `Draft: ${draftTables.join(', ')} (other tables live)` : 'Live Airtable pricing'}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {draftTables.length > 0 && (
+                <button
+                  onClick={() => setDraft({})}
+                  className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-1"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Clear draft</span>
+                </button>
+              )}
+              <label className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-1 cursor-pointer">
+                <Upload className="w-4 h-4" />
+                <span>Upload draft exports</span>
+                <input type="file" accept=".csv,.json" multiple className="hidden" onChange={handleDraftFiles} />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={handleRun}
+          disabled={running || !tenant}
+          className="w-full px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+        >
+          <Play className={`w-5 h-5 ${running ? 'animate-pulse' : ''}`} />
+          <span>{running ? 'Running...' : 'Run Scenarios'}</span>
+        </button>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-start space-x-2">
+              <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-red-900 mb-1">Simulation Failed</h3>
+                <p className="text-sm text-red-800 whitespace-pre-line">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {results && (
+          <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-green-600">{count('pass')}</div>
+                <div className="text-xs text-gray-600">Unchanged</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-red-600">{count('fail')}</div>
+                <div className="text-xs text-gray-600">Changed</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-red-600">{count('error')}</div>
+                <div className="text-xs text-gray-600">Errors</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="text-2xl font-bold text-blue-600">{count('no-baseline')}</div>
+                <div className="text-xs text-gray-600">No Baseline</div>
+              </div>
+            </div>
+
+            {results.map(result => <ScenarioCard key={result.scenarioId} result={result} />)}
+          </div>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <h3 className="font-semibold text-gray-900 mb-2">Running without Airtable</h3>
+          <p className="text-sm text-gray-700">
+            The same scenarios run headless over exported tables:{' '}
+            <code className="bg-gray-100 px-1 py-0.5 rounded">npm run simulate-pricing -- --scenarios scenarios.json --dir exports</code>.
+            See <code className="bg-gray-100 px-1 py-0.5 rounded">scripts/README.md</code>.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPricingSimulator;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, CheckCircle, X, Search } from 'lucide-react';
+import { QuoteData, RuleTrace, RuleTraceStatus } from '../types/quote';
+import { BILLING_FREQUENCY_SUFFIXES } from '../utils/billingFrequencies';
+
+interface PriceExplanationPanelProps {
+  quote: QuoteData;
+}
+
+const STATUS_LABELS: { [status in RuleTraceStatus]: { label: string; className: string } } = {
+  'applied': { label: 'Applied', className: 'bg-emerald-100 text-emerald-800' },
+  'zero': { label: '$0', className: 'bg-gray-100 text-gray-700' },
+  'not-matched': { label: 'Not matched', className: 'bg-gray-100 text-gray-500' },
+  'inactive': { label: 'Inactive', className: 'bg-gray-100 text-gray-500' },
+  'service-not-selected': { label: 'Service not selected', className: 'bg-gray-100 text-gray-500' },
+  'hourly': { label: 'Hourly', className: 'bg-blue-100 text-blue-800' },
+  'discount': { label: 'Discount', className: 'bg-amber-100 text-amber-800' },
+  'review': { label: 'Needs review', className: 'bg-red-100 text-red-800' },
+  'error': { label: 'Error', className: 'bg-red-100 text-red-800' }
+};
+
+// Statuses that contributed something to the quote (or failed to) - the rest are hidden by default
+const CONTRIBUTING_STATUSES: RuleTraceStatus[] = ['applied', 'zero', 'hourly', 'discount', 'review', 'error'];
+
+const formatValue = (value: unknown): string =>
+  value === undefined || value === null || value === '' ? '(empty)' : JSON.stringify(value);
+
+const formatAmount = (amount: number): string =>
+  `${amount < 0 ? '−' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const RuleTraceCard: React.FC<{ rule: RuleTrace }> = ({ rule }) => {
+  const status = STATUS_LABELS[rule.status];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-semibold text-gray-900">{rule.ruleName}</div>
+          <div className="text-xs text-gray-500 font-mono">
+            {rule.ruleId} · {rule.pricingType} · {rule.method} · {rule.billingFrequency}
+          </div>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+          {rule.price !== undefined && (
+            <div className="font-bold text-gray-900 mt-1">{formatAmount(rule.price)}</div>
+          )}
+        </div>
+      </div>
+
+      {rule.conditions.length > 0 && (
+        <table className="w-full text-xs mt-3">
+          <tbody>
+            {rule.conditions.map((condition, idx) => (
+              <tr key={idx} className="border-t border-gray-100">
+                <td className="py-1 pr-2 w-5">
+                  {condition.matched
+                    ? <CheckCircle className="w-3.5 h-3.5 text-emerald-600" />
+                    : <X className="w-3.5 h-3.5 text-red-500" />}
+                </td>
+                <td className="py-1 pr-2 font-mono text-gray-700">{condition.field}</td>
+                <td className="py-1 pr-2 text-gray-500">
+                  {condition.operator}{condition.expected !== undefined ? ` "${condition.expected}"` : ''}
+                </td>
+                <td className="py-1 text-gray-700">
+                  form value <span className="font-mono">{formatValue(condition.actual)}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {rule.formula && (
+        <div className="mt-3 text-xs bg-gray-50 rounded p-2 font-mono text-gray-700 space-y-1 overflow-x-auto">
+          <div>{rule.formula.expression}</div>
+          <div className="text-gray-500">= {rule.formula.substituted}</div>
+          {Object.keys(rule.formula.inputs).length > 0 && (
+            <div className="text-gray-500">
+              {Object.entries(rule.formula.inputs).map(([variable, value]) => `${variable} = ${formatValue(value)}`).join(' · ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule.steps.length > 0 && (
+        <ul className="mt-3 text-xs text-gray-600 list-disc list-inside space-y-0.5">
+          {rule.steps.map((step, idx) => <li key={idx}>{step}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Staff-only "Explain this price" panel
+ * Renders the calculation trace returned with the quote: each rule's trigger
+ * checks, formula inputs and price steps, grouped by the service it was
+ * attributed to, followed by the discount / minimum fee adjustments.
+ */
+const PriceExplanationPanel: React.FC<PriceExplanationPanelProps> = ({ quote }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showAllRules, setShowAllRules] = useState(false);
+  const { trace } = quote;
+
+  const visibleRules = showAllRules
+    ? trace.rules
+    : trace.rules.filter(rule => CONTRIBUTING_STATUSES.includes(rule.status));
+
+  // Group by service, keeping the order rules were evaluated in
+  const rulesByService = new Map<string, RuleTrace[]>();
+  visibleRules.forEach(rule => {
+    rulesByService.set(rule.serviceId, [...(rulesByService.get(rule.serviceId) || []), rule]);
+  });
+
+  return (
+    <div className="border-t border-gray-200 bg-gray-50 p-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left font-semibold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <Search className="w-4 h-4" />
+          Explain this price
+          <span className="text-xs font-normal text-gray-500">(staff only)</span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-6">
+          {trace.notes.length > 0 && (
+            <ul className="text-sm text-gray-700 bg-amber-50 border border-amber-200 rounded-lg p-3 list-disc list-inside">
+              {trace.notes.map((note, idx) => <li key={idx}>{note}</li>)}
+            </ul>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={showAllRules} onChange={(e) => setShowAllRules(e.target.checked)} />
+            Show rules that didn't apply ({trace.rules.length - trace.rules.filter(rule => CONTRIBUTING_STATUSES.includes(rule.status)).length})
+          </label>
+
+          {Array.from(rulesByService.entries()).map(([serviceId, rules]) => (
+            <div key={serviceId}>
+              <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide mb-2">{serviceId}</h4>
+              <div className="space-y-2">
+                {rules.map(rule => <RuleTraceCard key={rule.ruleId} rule={rule} />)}
+              </div>
+            </div>
+          ))}
+
+          {trace.adjustments.length > 0 && (
+            <div>
+              <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide mb-2">Adjustments</h4>
+              <div className="space-y-2">
+                {trace.adjustments.map(({ adjustment, explanation }, idx) => (
+                  <div key={idx} className="border border-gray-200 rounded-lg p-3 bg-white text-sm">
+                    <div className="flex justify-between gap-4">
+                      <span className="font-semibold text-gray-900">
+                        {adjustment.label} <span className="text-xs font-normal text-gray-500 font-mono">{adjustment.ruleId} → {adjustment.serviceId}</span>
+                      </span>
+                      <span className="font-bold text-gray-900">
+                        {formatAmount(adjustment.amount)}{BILLING_FREQUENCY_SUFFIXES[adjustment.billingFrequency]}
+                      </span>
+                    </div>
+                    {explanation && <div className="text-xs text-gray-600 mt-1">{explanation}</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="text-sm text-gray-700 border-t border-gray-200 pt-3">
+            Totals: {formatAmount(quote.totalMonthlyFees)}/mo ·{' '}
+            {quote.totalQuarterlyFees > 0 && `${formatAmount(quote.totalQuarterlyFees)}/qtr · `}
+            {quote.totalSemiAnnualFees > 0 && `${formatAmount(quote.totalSemiAnnualFees)}/6 mo · `}
+            {quote.totalAnnualPrepayFees > 0 && `${formatAmount(quote.totalAnnualPrepayFees)} prepaid for the year · `}
+            {formatAmount(quote.totalOneTimeFees)} one-time · {formatAmount(quote.totalAnnual)} first year
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceExplanationPanel;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { AppliedPromoCode } from '../types/quote';
+
+interface PromoCodeEntryProps {
+  promoCode: string;                  // Code the quote is calculated with ('' = none)
+  result?: AppliedPromoCode;          // What calculateQuote made of it
+  onPromoCodeChange: (promoCode: string) => void;
+}
+
+// Promo/referral code field shown before the quote is submitted
+const PromoCodeEntry: React.FC<PromoCodeEntryProps> = ({ promoCode, result, onPromoCodeChange }) => {
+  const [draft, setDraft] = useState(promoCode);
+
+  // Follow the applied code (e.g. cleared by Start Over)
+  useEffect(() => {
+    setDraft(promoCode);
+  }, [promoCode]);
+
+  const applied = result?.status === 'applied';
+
+  return (
+    <div className="mb-4">
+      <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-1">
+        Promo or referral code
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          id="promo-code"
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && onPromoCodeChange(draft.trim())}
+          disabled={applied}
+          placeholder="Enter code"
+          className="flex-1 max-w-xs px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-gray-100"
+        />
+        {applied ? (
+          <button
+            onClick={() => onPromoCodeChange('')}
+            className="flex items-center space-x-1 px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Remove</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => onPromoCodeChange(draft.trim())}
+            disabled={!draft.trim()}
+            className="px-4 py-2 text-sm font-semibold text-white rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            style={{ backgroundColor: 'var(--tenant-primary-600, #10b981)' }}
+          >
+            Apply
+          </button>
+        )}
+      </div>
+      {promoCode && result && (
+        <p className={`mt-1 flex items-center gap-1 text-xs font-semibold ${applied ? 'text-emerald-700' : 'text-red-600'}`}>
+          {applied && <Tag className="w-3 h-3 flex-shrink-0" />}
+          <span>{result.message}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PromoCodeEntry;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { useMemo, useEffect } from 'react';
-import { Calculator, ArrowRight, ArrowLeft, CheckCircle } from 'lucide-react';
+import { useMemo, useEffect, useCallback } from 'react';
+import { Calculator, ArrowRight, ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react';
 import StepIndicator from './StepIndicator';
 import ContactForm from './ContactForm';
 import ContactFormDynamic from './ContactFormDynamic';
@@ -11,17 +11,32 @@ import IndividualTaxDynamic from './IndividualTaxDynamic';
 import AdditionalServicesDetails from './AdditionalServicesDetails';
 import DynamicServiceDetailStep from './DynamicServiceDetailStep';
 import QuoteResults from './QuoteResults';
+import PromoCodeEntry from './PromoCodeEntry';
 import TenantLogo from './TenantLogo';
-import { FormData, QuoteData } from '../types/quote';
+import { BillingChoice, FormData, QuoteData, PricingConfig, ServiceConfig, RateCard, ComplexityModel, RecommendationRule, SavingsEstimator, FilingDeadline, DiscountProgram, PromoCode } from '../types/quote';
 import { calculateQuote } from '../utils/quoteCalculator';
-import { getCachedPricingConfig, PricingConfig } from '../utils/pricingService';
-import { getCachedServiceConfig, ServiceConfig } from '../utils/serviceConfigService';
+import { getCachedPricingConfig, PricingConfigError } from '../utils/pricingService';
+import { getCachedServiceConfig } from '../utils/serviceConfigService';
+import { getCachedRateCards } from '../utils/rateCardService';
+import { getCachedComplexityModel } from '../utils/complexityService';
+import { getCachedRecommendationRules } from '../utils/recommendationService';
+import { getCachedSavingsEstimators } from '../utils/savingsService';
+import { getCachedFilingDeadlines } from '../utils/filingDeadlineService';
+import { getCachedDiscountPrograms } from '../utils/discountProgramService';
+import { getCachedPromoCodes, recordPromoCodeUse } from '../utils/promoCodeService';
+import { RateCardLookupError, validateRateCardReferences } from '../utils/rateCards';
+import { FormulaError } from '../utils/formulaParser';
+import { PricingRuleCycleError, sortRulesByDependency } from '../utils/ruleDependencies';
 import { sendQuoteToZapierWebhook } from '../utils/zapierIntegration';
 import { useTenant } from '../contexts/TenantContext';
 import { saveQuote } from '../utils/quoteStorage';
 import { fetchFormFields, FormField, getCachedFormFields } from '../utils/formFieldsService';
-import { createQuoteRecord } from '../utils/airtableWriteService';
+import { buildBillingChoiceUpdate, createQuoteRecord, fetchQuotePricingLock, updateQuoteRecord } from '../utils/airtableWriteService';
 import { syncFormFieldsToClientQuotes } from '../utils/airtableSchemaService';
+import { PricingLock, createPricingVersionSnapshot, createQuoteLock, fromPricingDate, isQuoteLocked } from '../utils/pricingVersions';
+import { clearOpenQuote, loadOpenQuote, saveOpenQuote } from '../utils/quoteLockStorage';
+import { isStaffMode } from '../utils/staffMode';
+import { TenantConfig } from '../utils/tenantService';
 
 // Feature flag: Set to true to use dynamic Airtable form fields for Individual Tax
 const USE_DYNAMIC_INDIVIDUAL_TAX = true;
@@ -29,6 +44,57 @@ const USE_DYNAMIC_INDIVIDUAL_TAX = true;
 // Feature flag: Set to true to use dynamic Airtable form fields for Contact Info
 const USE_DYNAMIC_CONTACT_FORM = true;
 
+// Client Quotes table the tenant's quotes are written to
+const getQuotesTableConfig = (tenant: TenantConfig) => ({
+  baseId: tenant.airtable.quotesBaseId || tenant.airtable.servicesBaseId,
+  apiKey: tenant.airtable.quotesApiKey || tenant.airtable.servicesApiKey,
+  tableName: tenant.airtable.quotesTableName || 'Client Quotes',
+});
+
+// Build dynamic step sequence based on selected services
+const buildStepSequence = (services: string[], serviceConfig: ServiceConfig[]): string[] => {
+  const stepSequence: string[] = [];
+
+  // Always start with contact and services
+  stepSequence.push('contact', 'services');
+
+  // Add service-specific detail pages dynamically based on hasDetailForm
+  if (services.length > 0 && serviceConfig.length > 0) {
+    // Get selected services with their config
+    const selectedServiceConfigs = services
+      .map(serviceId => serviceConfig.find(s => s.serviceId === serviceId))
+      .filter(Boolean) as ServiceConfig[];
+
+    // Handle advisory specially (no detail form but has sales page)
+    const hasAdvisory = services.includes('advisory');
+    if (hasAdvisory) {
+      stepSequence.push('advisory-sales');
+    }
+
+    // Handle additional-services specially (has custom component)
+    const hasAdditionalServices = services.includes('additional-services');
+
+    // Add all services with hasDetailForm = true
+    selectedServiceConfigs.forEach(service => {
+      if (service.serviceId !== 'advisory' && service.serviceId !== 'additional-services') {
+        if (service.hasDetailForm) {
+          stepSequence.push(service.serviceId);
+        }
+      }
+    });
+
+    // Add additional-services at the end if selected
+    if (hasAdditionalServices) {
+      stepSequence.push('additional-services');
+    }
+  }
+
+  // Always end with quote
+  stepSequence.push('quote');
+
+  return stepSequence;
+};
+
 const QuoteCalculator: React.FC = () => {
   const { tenant, firmInfo } = useTenant();
   const [currentStep, setCurrentStep] = useState(1);
@@ -36,9 +102,28 @@ const QuoteCalculator: React.FC = () => {
   const [quoteId, setQuoteId] = useState<string | null>(null);
   const [pricingConfig, setPricingConfig] = useState<PricingConfig[]>([]);
   const [serviceConfig, setServiceConfig] = useState<ServiceConfig[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [complexityModel, setComplexityModel] = useState<ComplexityModel | undefined>(undefined);
+  const [recommendationRules, setRecommendationRules] = useState<RecommendationRule[] | undefined>(undefined);
+  const [savingsEstimators, setSavingsEstimators] = useState<SavingsEstimator[]>([]);
+  const [filingDeadlines, setFilingDeadlines] = useState<FilingDeadline[] | undefined>(undefined);
+  const [discountPrograms, setDiscountPrograms] = useState<DiscountProgram[] | undefined>(undefined);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
   const [isLoadingPricing, setIsLoadingPricing] = useState(true);
   const [isLoadingServices, setIsLoadingServices] = useState(true);
   const [isSubmittingInitialQuote, setIsSubmittingInitialQuote] = useState(false);
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  // Set when the pricing config itself failed to load (bad rows, circular formulas) - no quote until it's fixed
+  const [isPricingConfigInvalid, setIsPricingConfigInvalid] = useState(false);
+  const [staffMode] = useState(isStaffMode);
+  // Pricing of the submitted quote, used instead of the live pricing until its lock date
+  const [pricingLock, setPricingLock] = useState<PricingLock | null>(null);
+  const [billingChoice, setBillingChoice] = useState<BillingChoice>('monthly');
+  // Airtable record of the submitted quote and the billing choice last written to it
+  const [quoteRecord, setQuoteRecord] = useState<{ recordId: string; billingChoice: BillingChoice } | null>(null);
+  // Promo/referral code the client entered, and the one the submitted quote was counted against
+  const [promoCode, setPromoCode] = useState('');
+  const [redeemedPromoCode, setRedeemedPromoCode] = useState<string | undefined>(undefined);
   const [formData, setFormData] = useState<FormData>({
     // Contact Information - Dynamic
     contactInfo: {},
@@ -109,49 +194,7 @@ const QuoteCalculator: React.FC = () => {
     }
   });
 
-  // Build dynamic step sequence based on selected services
-  const steps = useMemo(() => {
-    const stepSequence = [];
-
-    // Always start with contact and services
-    stepSequence.push('contact', 'services');
-
-    // Add service-specific detail pages dynamically based on hasDetailForm
-    if (formData.services.length > 0 && serviceConfig.length > 0) {
-      // Get selected services with their config
-      const selectedServiceConfigs = formData.services
-        .map(serviceId => serviceConfig.find(s => s.serviceId === serviceId))
-        .filter(Boolean) as ServiceConfig[];
-
-      // Handle advisory specially (no detail form but has sales page)
-      const hasAdvisory = formData.services.includes('advisory');
-      if (hasAdvisory) {
-        stepSequence.push('advisory-sales');
-      }
-
-      // Handle additional-services specially (has custom component)
-      const hasAdditionalServices = formData.services.includes('additional-services');
-
-      // Add all services with hasDetailForm = true
-      selectedServiceConfigs.forEach(service => {
-        if (service.serviceId !== 'advisory' && service.serviceId !== 'additional-services') {
-          if (service.hasDetailForm) {
-            stepSequence.push(service.serviceId);
-          }
-        }
-      });
-
-      // Add additional-services at the end if selected
-      if (hasAdditionalServices) {
-        stepSequence.push('additional-services');
-      }
-    }
-
-    // Always end with quote
-    stepSequence.push('quote');
-
-    return stepSequence;
-  }, [formData.services, serviceConfig]);
+  const steps = useMemo(() => buildStepSequence(formData.services, serviceConfig), [formData.services, serviceConfig]);
 
   const totalSteps = steps.length;
   const currentStepType = steps[currentStep - 1];
@@ -220,16 +263,74 @@ const QuoteCalculator: React.FC = () => {
           apiKey: tenant.airtable.servicesApiKey,
         };
 
-        // Load pricing and service configurations in parallel
-        const [pricingData, serviceData] = await Promise.all([
+        // Load pricing, service, rate card, complexity, recommendation, savings, filing deadline, discount program and promo code configurations in parallel
+        const [pricingData, serviceData, rateCardData, complexityData, recommendationData, savingsData, deadlineData, programData, promoCodeData] = await Promise.all([
           getCachedPricingConfig(airtableConfig),
-          getCachedServiceConfig(servicesConfig)
+          getCachedServiceConfig(servicesConfig),
+          getCachedRateCards(airtableConfig),
+          getCachedComplexityModel(airtableConfig),
+          getCachedRecommendationRules(airtableConfig),
+          getCachedSavingsEstimators(airtableConfig),
+          getCachedFilingDeadlines(airtableConfig),
+          getCachedDiscountPrograms(airtableConfig),
+          getCachedPromoCodes(airtableConfig)
         ]);
 
         setPricingConfig(pricingData);
         setServiceConfig(serviceData);
+        setRateCards(rateCardData);
+        setComplexityModel(complexityData);
+        setRecommendationRules(recommendationData);
+        setSavingsEstimators(savingsData);
+        setFilingDeadlines(deadlineData);
+        setDiscountPrograms(programData);
+        setPromoCodes(promoCodeData);
+        setPricingError(null);
+        setIsPricingConfigInvalid(false);
+
+        // Reopen the client's submitted quote - with its own pricing while locked,
+        // repriced from the live pricing once the lock has expired. The pricing is
+        // read from the quote's Client Quotes record; the browser's copy is only used
+        // for quotes that have no record (sent through the Zapier fallback)
+        const openQuote = loadOpenQuote(tenant.id);
+        if (openQuote) {
+          const { lock, pricing } = (openQuote.recordId && await fetchQuotePricingLock(getQuotesTableConfig(tenant), openQuote.recordId))
+            || openQuote;
+          setFormData(openQuote.formData);
+          setQuoteId(openQuote.quoteId);
+          setBillingChoice(openQuote.quote.billingChoice || 'monthly');
+          if (openQuote.quote.promoCode) {
+            setPromoCode(openQuote.quote.promoCode.code);
+            if (openQuote.quote.promoCode.status === 'applied') setRedeemedPromoCode(openQuote.quote.promoCode.code);
+          }
+          if (openQuote.recordId) {
+            setQuoteRecord({ recordId: openQuote.recordId, billingChoice: openQuote.quote.billingChoice || 'monthly' });
+          }
+          if (isQuoteLocked(lock)) {
+            console.log(`🔒 Reopened quote ${openQuote.quoteId} with pricing ${lock.pricingVersion} (locked until ${lock.lockedUntil})`);
+            setPricingLock({ lock, pricing });
+          } else {
+            console.log(`🔓 Lock on quote ${openQuote.quoteId} expired ${lock.lockedUntil} - repricing with current pricing`);
+            clearOpenQuote();
+          }
+          setCurrentStep(buildStepSequence(openQuote.formData.services, serviceData).length);
+        }
+
+        // Surface references to missing rate cards and circular formula references as soon as config loads
+        const rateCardIssues = validateRateCardReferences(pricingData, rateCardData);
+        if (rateCardIssues.length > 0) {
+          throw new PricingConfigError(rateCardIssues);
+        }
+        sortRulesByDependency(pricingData, serviceData);
       } catch (error) {
         console.error('Failed to load configurations:', error);
+        if (error instanceof PricingConfigError) {
+          setPricingError(error.issues.join('\n\n'));
+          setIsPricingConfigInvalid(true);
+        } else if (error instanceof PricingRuleCycleError) {
+          setPricingError(error.message);
+          setIsPricingConfigInvalid(true);
+        }
         // Components will use default configurations
       } finally {
         setIsLoadingPricing(false);
@@ -299,24 +400,96 @@ const QuoteCalculator: React.FC = () => {
     }
   }, [tenant]); // Run only when tenant changes (once on mount)
 
+  // Run the calculator, surfacing broken formulas instead of quoting $0
+  const recalculateQuote = useCallback((data: FormData) => {
+    // A submitted quote keeps the pricing it was priced with until its lock date
+    const locked = pricingLock && isQuoteLocked(pricingLock.lock) ? pricingLock.pricing : null;
+
+    try {
+      setQuote(calculateQuote(data, locked?.pricingConfig ?? pricingConfig, locked?.serviceConfig ?? serviceConfig, {
+        rateCards: locked?.rateCards ?? rateCards,
+        complexityModel,
+        recommendationRules,
+        // Firm Info "Hide Savings Estimate" turns the savings figure off for the tenant
+        savingsEstimators: firmInfo?.hideSavingsEstimate ? [] : savingsEstimators,
+        asOf: locked ? fromPricingDate(locked.pricingDate) : undefined,
+        roundingPolicy: firmInfo?.roundingPolicy,
+        filingDeadlines,
+        discountPrograms: locked?.discountPrograms ?? discountPrograms,
+        // Annual prepay only while the tenant offers it (Firm Info "Offer Annual Prepay")
+        annualPrepayDiscount: billingChoice === 'annual-prepay' ? firmInfo?.annualPrepayDiscount : undefined,
+        // Firm Info "Price Display" = Range shows every price as a low-high range
+        priceRangeVariance: firmInfo?.priceRangeVariance,
+        promoCodes,
+        promoCode,
+        redeemedPromoCode
+      }));
+      setPricingError(null);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        setPricingError(error.toDetailedString());
+        setQuote(null);
+        return;
+      }
+      if (error instanceof PricingRuleCycleError || error instanceof RateCardLookupError) {
+        setPricingError(error.message);
+        setQuote(null);
+        return;
+      }
+      throw error;
+    }
+  }, [pricingConfig, serviceConfig, rateCards, complexityModel, recommendationRules, savingsEstimators, filingDeadlines, discountPrograms, firmInfo, pricingLock, billingChoice, promoCodes, promoCode, redeemedPromoCode]);
+
   const updateFormData = (updates: Partial<FormData>) => {
     const newFormData = { ...formData, ...updates };
     setFormData(newFormData);
     
     // Calculate quote in real-time if we have enough data
-    if (newFormData.services.length > 0 && !isLoadingPricing) {
-      const calculatedQuote = calculateQuote(newFormData, pricingConfig, serviceConfig);
-      setQuote(calculatedQuote);
+    if (newFormData.services.length > 0 && !isLoadingPricing && !isPricingConfigInvalid) {
+      recalculateQuote(newFormData);
     }
   };
 
+  // Add a recommended service from the results page and recalculate in place
+  const handleAddService = (serviceId: string) => {
+    if (formData.services.includes(serviceId)) return;
+
+    const services = [...formData.services, serviceId];
+    updateFormData({ services });
+
+    // The new service may add a detail step before the quote - stay on the quote
+    setCurrentStep(buildStepSequence(services, serviceConfig).length);
+  };
+
+  // Keep the submitted quote reopenable as it changes (e.g. a recommended service is added)
+  useEffect(() => {
+    if (tenant && quoteId && quote && pricingLock) {
+      saveOpenQuote({ tenantId: tenant.id, quoteId, recordId: quoteRecord?.recordId, formData, quote, ...pricingLock });
+    }
+  }, [tenant, quoteId, quoteRecord, quote, formData, pricingLock]);
+
+  // Record the client's billing choice (and the fees it changed) on the submitted quote
+  useEffect(() => {
+    if (!tenant || !quote || !quoteRecord || quote.billingChoice === quoteRecord.billingChoice) return;
+
+    setQuoteRecord({ ...quoteRecord, billingChoice: quote.billingChoice });
+    updateQuoteRecord(
+      getQuotesTableConfig(tenant),
+      quoteRecord.recordId,
+      buildBillingChoiceUpdate(quote)
+    ).then(result => {
+      if (!result.success) {
+        console.error('[Billing Choice] ✗ Could not record the billing choice in Airtable:', result.error);
+      }
+    });
+  }, [tenant, quote, quoteRecord]);
+
   // Recalculate quote when pricing config is loaded
   useEffect(() => {
-    if (formData.services.length > 0 && !isLoadingPricing && pricingConfig.length > 0) {
-      const calculatedQuote = calculateQuote(formData, pricingConfig, serviceConfig);
-      setQuote(calculatedQuote);
+    if (formData.services.length > 0 && !isLoadingPricing && !isPricingConfigInvalid && pricingConfig.length > 0) {
+      recalculateQuote(formData);
     }
-  }, [pricingConfig, serviceConfig, isLoadingPricing, formData]);
+  }, [pricingConfig, serviceConfig, isLoadingPricing, isPricingConfigInvalid, formData, recalculateQuote]);
 
   const handleGetQuoteAndSubmit = async () => {
     setIsSubmittingInitialQuote(true);
@@ -333,11 +506,7 @@ const QuoteCalculator: React.FC = () => {
       // Step 1: Write directly to Airtable (PRIMARY METHOD)
       console.log('[Quote Submission] Step 1: Writing to Airtable via direct API...');
 
-      const airtableConfig = {
-        baseId: tenant.airtable.quotesBaseId || tenant.airtable.servicesBaseId,
-        apiKey: tenant.airtable.quotesApiKey || tenant.airtable.servicesApiKey,
-        tableName: tenant.airtable.quotesTableName || 'Client Quotes',
-      };
+      const airtableConfig = getQuotesTableConfig(tenant);
 
       console.log('[Quote Submission] Using Airtable configuration:', {
         baseId: airtableConfig.baseId,
@@ -345,13 +514,20 @@ const QuoteCalculator: React.FC = () => {
         hasCustomQuotesBase: !!tenant.airtable.quotesBaseId,
       });
 
+      // Lock the pricing the quote was priced with for the firm's lock window - kept on the quote's record
+      const submittedPricingLock: PricingLock = {
+        lock: createQuoteLock(quote, firmInfo?.quoteLockDays || 14),
+        pricing: createPricingVersionSnapshot(quote, pricingConfig, serviceConfig, rateCards, discountPrograms)
+      };
+
       const airtableResult = await createQuoteRecord(
         airtableConfig,
         formData,
         quote,
         tenant.id,
         undefined,
-        tenant
+        tenant,
+        submittedPricingLock
       );
 
       let generatedQuoteId = airtableResult.quoteId;
@@ -372,6 +548,9 @@ const QuoteCalculator: React.FC = () => {
         }
 
         setQuoteId(airtableResult.quoteId);
+        if (airtableResult.recordId) {
+          setQuoteRecord({ recordId: airtableResult.recordId, billingChoice: quote.billingChoice });
+        }
       } else {
         console.error('[Quote Submission] ✗ Airtable write failed:', airtableResult.error);
         console.log('[Quote Submission] Attempting fallback to Zapier webhook...');
@@ -411,6 +590,8 @@ const QuoteCalculator: React.FC = () => {
 
       // Step 3: Save quote to Supabase database (always attempt)
       if (generatedQuoteId) {
+        setPricingLock(submittedPricingLock);
+
         console.log('[Quote Submission] Step 3: Saving to Supabase database...');
         await saveQuote({
           tenantId: tenant.id,
@@ -420,6 +601,15 @@ const QuoteCalculator: React.FC = () => {
           quoteId: generatedQuoteId,
         });
         console.log('[Quote Submission] ✓ Supabase save complete');
+
+        // Count the quote against the code's usage limit (once - a reopened quote keeps its code)
+        if (quote.promoCode?.status === 'applied' && quote.promoCode.code !== redeemedPromoCode) {
+          setRedeemedPromoCode(quote.promoCode.code);
+          await recordPromoCodeUse(quote.promoCode.code, {
+            baseId: tenant.airtable.pricingBaseId,
+            apiKey: tenant.airtable.pricingApiKey,
+          });
+        }
       }
 
       console.log('=== QUOTE SUBMISSION COMPLETED ===');
@@ -544,9 +734,16 @@ const QuoteCalculator: React.FC = () => {
     // Clear quote ID
     setQuoteId(null);
 
+    // Release the pricing lock
+    setPricingLock(null);
+    setBillingChoice('monthly');
+    setQuoteRecord(null);
+    setPromoCode('');
+    setRedeemedPromoCode(undefined);
+
     // Clear localStorage
     localStorage.removeItem('quoteData');
-    localStorage.removeItem('currentQuote');
+    clearOpenQuote();
 
     // Clear sessionStorage
     sessionStorage.removeItem('quoteData');
@@ -642,9 +839,12 @@ const QuoteCalculator: React.FC = () => {
             formData={formData}
             quote={quote}
             quoteId={quoteId}
-            pricingConfig={pricingConfig}
+            lockedUntil={pricingLock?.lock.lockedUntil}
+            pricingConfig={pricingLock?.pricing.pricingConfig ?? pricingConfig}
             serviceConfig={serviceConfig}
             onRecalculate={resetQuote}
+            onAddService={handleAddService}
+            onBillingChoiceChange={setBillingChoice}
           />
         );
       default:
@@ -711,6 +911,36 @@ const QuoteCalculator: React.FC = () => {
             />
           </div>
 
+          {/* Pricing configuration errors (e.g. a formula that doesn't parse) */}
+          {pricingError && (
+            <div className="mx-8 mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  {/* The rule details are for staff - clients only see that quoting is unavailable */}
+                  {staffMode ? (
+                    <>
+                      <p className="font-semibold text-red-800">Pricing configuration error</p>
+                      <p className="text-sm text-red-700 mb-2">
+                        Quotes can't be calculated until the following pricing rules are fixed in Airtable.
+                      </p>
+                      <pre className="text-xs text-red-800 bg-white border border-red-100 rounded p-3 overflow-x-auto whitespace-pre">
+                        {pricingError}
+                      </pre>
+                    </>
+                  ) : (
+                    <>
+                      <p className="font-semibold text-red-800">We can't calculate your quote right now</p>
+                      <p className="text-sm text-red-700">
+                        Please contact us and we'll prepare your quote for you.
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Form Content */}
           <div className="p-8">
             {renderStep()}
@@ -719,6 +949,10 @@ const QuoteCalculator: React.FC = () => {
           {/* Navigation - Hide for dynamic contact form (it has internal navigation) */}
           {currentStep < totalSteps && currentStepType !== 'quote' && !(USE_DYNAMIC_CONTACT_FORM && currentStepType === 'contact') && (
             <div className="bg-gray-50 px-8 py-6 border-t border-gray-200">
+              {/* Promo/referral codes - only for tenants with a Promo Codes table */}
+              {isLastDetailStep && promoCodes.length > 0 && (
+                <PromoCodeEntry promoCode={promoCode} result={quote?.promoCode} onPromoCodeChange={setPromoCode} />
+              )}
               <div className="flex justify-between items-center">
                 <button
                   onClick={prevStep}
@@ -1,19 +1,32 @@
 import React, { useState } from 'react';
-import { Phone, Calendar, CheckCircle, Star, ArrowRight, Send, X, Calculator, Info, ChevronDown, ChevronUp, TrendingUp, Zap, ClipboardCheck, GraduationCap, Code, Clock, RefreshCw, AlertCircle, Mail, Globe, MapPin } from 'lucide-react';
-import { FormData, QuoteData, PricingConfig, ServiceConfig } from '../types/quote';
+import { Phone, Calendar, CheckCircle, Star, ArrowRight, Send, X, Calculator, Info, ChevronDown, ChevronUp, TrendingUp, Zap, ClipboardCheck, GraduationCap, Code, Clock, RefreshCw, AlertCircle, Mail, Globe, MapPin, Tag, Lightbulb, Plus } from 'lucide-react';
+import { BillingChoice, EstimateRange, FormData, QuoteData, PricingConfig, ServiceConfig } from '../types/quote';
 import { useTenant } from '../contexts/TenantContext';
 import { sendQuoteToZapierWebhook } from '../utils/zapierIntegration';
+import { isStaffMode } from '../utils/staffMode';
+import { fromPricingDate } from '../utils/pricingVersions';
+import { formatDollarRange, formatDollars } from '../utils/money';
+import { BILLING_FREQUENCY_SUFFIXES, QUOTE_TOTAL_LABELS, isBillingFrequency } from '../utils/billingFrequencies';
+import { describeReviewReasons, isServiceUnderReview, needsReview } from '../utils/reviewFlags';
+import PriceExplanationPanel from './PriceExplanationPanel';
 
 interface QuoteResultsProps {
   formData: FormData;
   quote: QuoteData | null;
   quoteId: string | null;
+  lockedUntil?: string; // YYYY-MM-DD the submitted quote's prices are locked until
   pricingConfig?: PricingConfig[];
   serviceConfig?: ServiceConfig[];
   onRecalculate?: () => void;
+  onAddService?: (serviceId: string) => void;
+  onBillingChoiceChange?: (billingChoice: BillingChoice) => void; // Recalculates the quote monthly or prepaid for the year
 }
 
-const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, pricingConfig = [], serviceConfig = [], onRecalculate }) => {
+// Exact price, or the low-high range when the tenant shows prices as ranges
+const formatPrice = (amount: number, range?: EstimateRange): string =>
+  range ? formatDollarRange(range.low, range.high) : formatDollars(amount);
+
+const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, lockedUntil, pricingConfig = [], serviceConfig = [], onRecalculate, onAddService, onBillingChoiceChange }) => {
   const { tenant, firmInfo } = useTenant();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
@@ -21,6 +34,7 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
   const [showRecalculateModal, setShowRecalculateModal] = useState(false);
   const [showContactModal, setShowContactModal] = useState(false);
   const [activeButton, setActiveButton] = useState<string | null>(null);
+  const [staffMode] = useState(isStaffMode);
 
   const handleQuoteAction = async (status: 'new' | 'Quote Accepted' | 'Call Scheduled', buttonName: string) => {
     if (!quote || !tenant) {
@@ -110,7 +124,8 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
   const calculateLockDate = () => {
     const today = new Date();
     const days = firmInfo?.quoteLockDays || 14;
-    const lockDate = new Date(today.setDate(today.getDate() + days));
+    // A submitted quote shows the date its pricing is actually locked until
+    const lockDate = lockedUntil ? fromPricingDate(lockedUntil) : new Date(today.setDate(today.getDate() + days));
     return lockDate.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -138,6 +153,7 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
     // Group services by billing type
     const oneTimeServices: Array<{ name: string; price: number }> = [];
     const monthlyServices: Array<{ name: string; price: number }> = [];
+    const periodicServices: Array<{ name: string; price: number; billingFrequency: string }> = [];
     const hourlyServices: Array<{ name: string; rate: number; unitName: string }> = [];
 
     additionalServiceRules.forEach(rule => {
@@ -160,14 +176,22 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
           name: rule.serviceName,
           price: rule.basePrice
         });
+      } else {
+        // Quarterly, semi-annual or annual service
+        periodicServices.push({
+          name: rule.serviceName,
+          price: rule.basePrice,
+          billingFrequency: rule.billingFrequency
+        });
       }
     });
 
     return {
       oneTimeServices,
       monthlyServices,
+      periodicServices,
       hourlyServices,
-      hasServices: oneTimeServices.length > 0 || monthlyServices.length > 0 || hourlyServices.length > 0
+      hasServices: oneTimeServices.length > 0 || monthlyServices.length > 0 || periodicServices.length > 0 || hourlyServices.length > 0
     };
   };
 
@@ -195,6 +219,9 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
     );
   }
 
+  // Requires Review rules matched: the totals are hidden and the client is offered a consultation (see reviewFlags.ts)
+  const reviewRequired = needsReview(quote);
+
   if (isSubmitted) {
     const getSuccessMessage = () => {
       switch (submittedStatus) {
@@ -303,39 +330,140 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                 {/* Decorative radial glow */}
                 <div className="absolute top-[-50%] right-[-20%] w-[300px] h-[300px] bg-emerald-500/8 rounded-full blur-3xl"></div>
 
-                <div className="relative z-10 flex items-stretch justify-center gap-6">
-                  {/* Monthly Fees Section */}
-                  <div className="flex-1 text-center">
-                    <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">Monthly Fees</div>
-                    <div className="flex items-baseline justify-center space-x-2">
-                      <span className="text-4xl font-bold" style={{ background: 'linear-gradient(to bottom right, var(--tenant-primary-700, #047857), var(--tenant-primary-600, #10b981), var(--tenant-primary-500, #10b981))', WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent', backgroundClip: 'text' }}>${quote.totalMonthlyFees.toLocaleString()}</span>
-                      <span className="text-xs text-gray-600 font-semibold">PER MONTH</span>
+                {/* Call for pricing - no automated numbers until the firm has reviewed the quote */}
+                {reviewRequired && (
+                  <div className="relative z-10 text-center">
+                    <div className="flex items-center justify-center gap-2 text-lg font-bold text-gray-900 mb-2">
+                      <AlertCircle className="w-5 h-5 flex-shrink-0" style={{ color: 'var(--tenant-primary-600, #10b981)' }} />
+                      <span>Pricing After a Consultation</span>
                     </div>
+                    <p className="text-sm text-gray-600 mb-3">Your situation needs a closer look before we can give you a price:</p>
+                    <ul className="text-sm text-gray-700 space-y-1 mb-4">
+                      {describeReviewReasons(quote).map(reason => (
+                        <li key={reason}>• {reason}</li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={handleScheduleConsultationWithStatus}
+                      disabled={isSubmitting}
+                      className="inline-flex items-center justify-center space-x-2 text-white font-semibold py-3 px-5 rounded-lg transition-all duration-200 hover:shadow-lg"
+                      style={{ background: 'linear-gradient(to right, var(--tenant-primary-600, #10b981), var(--tenant-primary-700, #059669))' }}
+                    >
+                      <Calendar className="w-4 h-4" />
+                      <span>Schedule a Consultation</span>
+                    </button>
                   </div>
+                )}
 
-                  {quote.totalOneTimeFees > 0 && (
-                    <>
-                      {/* Separator Pill */}
-                      <div className="flex items-center">
-                        <div className="w-px h-16 bg-gradient-to-b from-transparent via-emerald-300 to-transparent"></div>
+                {!reviewRequired && (
+                  <div className="relative z-10 flex items-stretch justify-center gap-6">
+                    {/* Monthly Fees Section (prepaid for the year when the client chose annual prepay) */}
+                    <div className="flex-1 text-center">
+                      <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">{quote.billingChoice === 'annual-prepay' ? 'Annual Prepay' : 'Monthly Fees'}</div>
+                      <div className="flex items-baseline justify-center space-x-2">
+                        <span className="text-4xl font-bold" style={{ background: 'linear-gradient(to bottom right, var(--tenant-primary-700, #047857), var(--tenant-primary-600, #10b981), var(--tenant-primary-500, #10b981))', WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent', backgroundClip: 'text' }}>{quote.billingChoice === 'annual-prepay' ? formatPrice(quote.totalAnnualPrepayFees, quote.priceRange?.totalAnnualPrepayFees) : formatPrice(quote.totalMonthlyFees, quote.priceRange?.totalMonthlyFees)}</span>
+                        <span className="text-xs text-gray-600 font-semibold">{quote.billingChoice === 'annual-prepay' ? 'PER YEAR' : 'PER MONTH'}</span>
                       </div>
+                    </div>
 
-                      {/* One-Time Fees Section */}
-                      <div className="flex-1 text-center">
-                        <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">One-Time Fees</div>
-                        <div className="flex items-baseline justify-center space-x-2">
-                          <span className="text-4xl font-bold bg-gradient-to-br from-emerald-700 via-emerald-600 to-emerald-500 bg-clip-text text-transparent">${quote.totalOneTimeFees.toLocaleString()}</span>
+                    {quote.totalOneTimeFees > 0 && (
+                      <>
+                        {/* Separator Pill */}
+                        <div className="flex items-center">
+                          <div className="w-px h-16 bg-gradient-to-b from-transparent via-emerald-300 to-transparent"></div>
                         </div>
-                      </div>
-                    </>
-                  )}
-                </div>
+
+                        {/* One-Time Fees Section */}
+                        <div className="flex-1 text-center">
+                          <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">One-Time Fees</div>
+                          <div className="flex items-baseline justify-center space-x-2">
+                            <span className="text-4xl font-bold bg-gradient-to-br from-emerald-700 via-emerald-600 to-emerald-500 bg-clip-text text-transparent">{formatPrice(quote.totalOneTimeFees, quote.priceRange?.totalOneTimeFees)}</span>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Quarterly and semi-annual fees are billed on top of the monthly fees */}
+                {!reviewRequired && (quote.totalQuarterlyFees > 0 || quote.totalSemiAnnualFees > 0) && (
+                  <div className="relative z-10 mt-4 text-center text-sm font-semibold text-gray-700">
+                    Plus
+                    {quote.totalQuarterlyFees > 0 && ` ${formatPrice(quote.totalQuarterlyFees, quote.priceRange?.totalQuarterlyFees)} per quarter`}
+                    {quote.totalQuarterlyFees > 0 && quote.totalSemiAnnualFees > 0 && ' and'}
+                    {quote.totalSemiAnnualFees > 0 && ` ${formatPrice(quote.totalSemiAnnualFees, quote.priceRange?.totalSemiAnnualFees)} every six months`}
+                  </div>
+                )}
+
+                {/* Estimated total band with the hourly estimates (Firm Info "Show Estimated Total") */}
+                {!reviewRequired && firmInfo?.showEstimatedTotal && quote.estimatedTotal && (
+                  <div className="relative z-10 mt-4 text-center">
+                    <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-1">Estimated First-Year Total</div>
+                    <div className="text-xl font-bold text-gray-900">
+                      {formatDollars(quote.estimatedTotal.low)} – {formatDollars(quote.estimatedTotal.high)}
+                    </div>
+                    <div className="text-xs text-gray-500">Includes estimated hourly work - billed on actual time</div>
+                  </div>
+                )}
+
+                {/* Annual prepay option (Firm Info "Offer Annual Prepay") */}
+                {!reviewRequired && firmInfo?.annualPrepayDiscount !== undefined && onBillingChoiceChange && (quote.totalMonthlyFees > 0 || quote.totalAnnualPrepayFees > 0) && (() => {
+                  const discountPercentage = firmInfo.annualPrepayDiscount || 0;
+                  const prepaySavings = -quote.adjustments
+                    .filter(adjustment => adjustment.type === 'prepay-discount')
+                    .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+                  return (
+                    <label className="relative z-10 mt-4 flex items-center justify-center gap-3 text-sm font-semibold text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-emerald-600"
+                        checked={quote.billingChoice === 'annual-prepay'}
+                        onChange={(e) => onBillingChoiceChange(e.target.checked ? 'annual-prepay' : 'monthly')}
+                      />
+                      <span>
+                        Prepay the year
+                        {discountPercentage > 0 && ` and save ${Number((discountPercentage * 100).toFixed(2))}%`}
+                        {prepaySavings > 0 && ` (${formatDollars(prepaySavings)})`}
+                      </span>
+                    </label>
+                  );
+                })()}
+
+                {/* Discounts already netted into the totals above */}
+                {!reviewRequired && quote.adjustments.some(adjustment => adjustment.type === 'discount' || adjustment.type === 'promo-code') && (() => {
+                  const discounts = quote.adjustments.filter(adjustment => adjustment.type === 'discount' || adjustment.type === 'promo-code');
+                  const discountTotals = [
+                    { frequencies: ['Monthly'], suffix: '/mo' },
+                    { frequencies: ['Quarterly'], suffix: '/qtr' },
+                    { frequencies: ['Semi-Annual'], suffix: '/6 mo' },
+                    { frequencies: ['One-Time Fee', 'Annual'], suffix: ' one-time' }
+                  ]
+                    .map(({ frequencies, suffix }) => ({
+                      amount: discounts
+                        .filter(adjustment => frequencies.includes(adjustment.billingFrequency))
+                        .reduce((sum, adjustment) => sum - adjustment.amount, 0),
+                      suffix
+                    }))
+                    .filter(total => total.amount > 0)
+                    .map(total => `${formatDollars(total.amount)}${total.suffix}`);
+
+                  return (
+                    <div className="mt-4 flex items-center justify-center gap-2 text-xs font-semibold text-emerald-800">
+                      <Tag className="w-4 h-4 flex-shrink-0" />
+                      <span>
+                        Includes discounts of {discountTotals.join(' and ')}
+                        {quote.promoCode?.status === 'applied' && ` (with ${quote.promoCode.kind === 'referral' ? 'referral' : 'promo'} code ${quote.promoCode.code})`}
+                      </span>
+                    </div>
+                  );
+                })()}
 
                 {/* Note about Additional Services and Hourly Rates */}
                 {(() => {
                   const formattedServices = getFormattedAdditionalServices();
                   const hasHourlyServices = formattedServices && formattedServices.hourlyServices.length > 0;
-                  const hasOtherServices = formattedServices && (formattedServices.oneTimeServices.length > 0 || formattedServices.monthlyServices.length > 0);
+                  const hasOtherServices = formattedServices && (formattedServices.oneTimeServices.length > 0 || formattedServices.monthlyServices.length > 0 || formattedServices.periodicServices.length > 0);
 
                   if (hasHourlyServices || hasOtherServices) {
                     return (
@@ -505,20 +633,74 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                     <p className="text-sm text-gray-600 leading-relaxed">{service.description}</p>
                   </div>
                   <div className="text-right">
-                    {service.monthlyFee > 0 && (
-                      <div className="mb-2">
-                        <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>${service.monthlyFee.toLocaleString()}</span>
-                        <span className="text-sm text-gray-500 block mt-1">Monthly fee</span>
-                      </div>
-                    )}
-                    {service.oneTimeFee > 0 && (
-                      <div className="mb-2">
-                        <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>${service.oneTimeFee.toLocaleString()}</span>
-                        <span className="text-sm text-gray-500 block mt-1">One-time</span>
+                    {service.reviewReasons ? (
+                      <div className="mb-2 max-w-xs">
+                        <span className="text-xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>Priced after review</span>
+                        <span className="text-sm text-gray-500 block mt-1">{service.reviewReasons.join(' · ')}</span>
                       </div>
+                    ) : (
+                      <>
+                      {service.monthlyFee > 0 && (
+                        <div className="mb-2">
+                          <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>{formatPrice(service.monthlyFee, service.priceRange?.monthlyFee)}</span>
+                          <span className="text-sm text-gray-500 block mt-1">Monthly fee</span>
+                        </div>
+                      )}
+                      {service.quarterlyFee > 0 && (
+                        <div className="mb-2">
+                          <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>{formatPrice(service.quarterlyFee, service.priceRange?.quarterlyFee)}</span>
+                          <span className="text-sm text-gray-500 block mt-1">Quarterly fee</span>
+                        </div>
+                      )}
+                      {service.semiAnnualFee > 0 && (
+                        <div className="mb-2">
+                          <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>{formatPrice(service.semiAnnualFee, service.priceRange?.semiAnnualFee)}</span>
+                          <span className="text-sm text-gray-500 block mt-1">Semi-annual fee</span>
+                        </div>
+                      )}
+                      {service.annualPrepayFee > 0 && (
+                        <div className="mb-2">
+                          <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>{formatPrice(service.annualPrepayFee, service.priceRange?.annualPrepayFee)}</span>
+                          <span className="text-sm text-gray-500 block mt-1">Prepaid annually</span>
+                        </div>
+                      )}
+                      {service.oneTimeFee > 0 && (
+                        <div className="mb-2">
+                          <span className="text-3xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>{formatPrice(service.oneTimeFee, service.priceRange?.oneTimeFee)}</span>
+                          <span className="text-sm text-gray-500 block mt-1">One-time</span>
+                        </div>
+                      )}
+                      </>
                     )}
                   </div>
                 </div>
+
+                {/* Discount, prepay discount and minimum fee lines (already included in the fees above) */}
+                {!service.reviewReasons && service.adjustments && service.adjustments.length > 0 && (
+                  <div className="mb-6 space-y-2">
+                    {service.adjustments.map((adjustment, idx) => adjustment.type !== 'minimum-fee' ? (
+                      <div key={`adjustment-${idx}`} className="flex items-center justify-between text-sm bg-emerald-50 border border-emerald-200 rounded-lg px-4 py-2">
+                        <span className="flex items-center gap-2 font-semibold text-emerald-800">
+                          <Tag className="w-4 h-4 flex-shrink-0" />
+                          {adjustment.label}
+                        </span>
+                        <span className="font-bold text-emerald-700">
+                          −{formatDollars(Math.abs(adjustment.amount))}{BILLING_FREQUENCY_SUFFIXES[adjustment.billingFrequency]}
+                        </span>
+                      </div>
+                    ) : (
+                      <div key={`adjustment-${idx}`} className="flex items-center justify-between text-sm bg-gray-50 border border-gray-200 rounded-lg px-4 py-2">
+                        <span className="flex items-center gap-2 font-semibold text-gray-700">
+                          <Info className="w-4 h-4 flex-shrink-0" />
+                          {adjustment.label}
+                        </span>
+                        <span className="font-bold text-gray-700">
+                          +{formatDollars(adjustment.amount)}{BILLING_FREQUENCY_SUFFIXES[adjustment.billingFrequency]}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 
                 <div className="mt-4">
                   <div className="text-sm font-bold text-gray-700 uppercase tracking-wide mb-3">
@@ -548,6 +730,7 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
         {(() => {
           const formattedServices = getFormattedAdditionalServices();
           if (!formattedServices || !formattedServices.hasServices) return null;
+          const pricedAfterReview = isServiceUnderReview(quote, 'additional-services');
 
           return (
             <div className="bg-purple-50 p-10 border-t border-purple-200">
@@ -575,7 +758,7 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                           </div>
                           <div className="text-right">
                             <div className="text-xl font-bold text-purple-700">
-                              ${service.price.toLocaleString()}
+                              {pricedAfterReview ? 'After review' : formatDollars(service.price)}
                             </div>
                             <div className="text-xs text-gray-500">One-Time Fee</div>
                           </div>
@@ -601,7 +784,7 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                           </div>
                           <div className="text-right">
                             <div className="text-xl font-bold text-purple-700">
-                              ${service.price.toLocaleString()}
+                              {pricedAfterReview ? 'After review' : formatDollars(service.price)}
                             </div>
                             <div className="text-xs text-gray-500">Monthly</div>
                           </div>
@@ -611,6 +794,32 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                   </div>
                 )}
 
+                {/* Quarterly, Semi-Annual and Annual Services */}
+                {formattedServices.periodicServices.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-bold text-purple-900 mb-3 flex items-center space-x-2">
+                      <Calendar className="w-5 h-5" />
+                      <span>Periodic Services</span>
+                    </h3>
+                    <div className="space-y-2">
+                      {formattedServices.periodicServices.map((service, index) => (
+                        <div key={index} className="bg-white border border-purple-200 rounded-lg p-4 flex justify-between items-center hover:shadow-md transition-all duration-200">
+                          <div className="flex items-start space-x-3">
+                            <CheckCircle className="w-4 h-4 text-purple-600 mt-0.5 flex-shrink-0" />
+                            <span className="text-gray-900 font-medium">{service.name}</span>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-xl font-bold text-purple-700">
+                              {pricedAfterReview ? 'After review' : formatDollars(service.price)}
+                            </div>
+                            <div className="text-xs text-gray-500">{service.billingFrequency}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Hourly Services */}
                 {formattedServices.hourlyServices.length > 0 && (
                   <div>
@@ -627,9 +836,14 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                           </div>
                           <div className="text-right">
                             <div className="text-xl font-bold text-purple-700">
-                              ${service.rate}/{service.unitName}
+                              {pricedAfterReview ? 'After review' : `$${service.rate}/${service.unitName}`}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {(() => {
+                                const estimate = quote.hourlyServices.find(hourlyService => hourlyService.name === service.name)?.estimatedCost;
+                                return estimate && !pricedAfterReview ? `Est. ${formatDollars(estimate.low)} – ${formatDollars(estimate.high)}` : 'Hourly Billing';
+                              })()}
                             </div>
-                            <div className="text-xs text-gray-500">Hourly Billing</div>
                           </div>
                         </div>
                       ))}
@@ -706,13 +920,29 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
                         {hourlyService.billingFrequency === 'Monthly' ? 'Monthly Billing' : hourlyService.billingFrequency}
                       </span>
                     </div>
-                    <div className="text-right">
-                      <div className="text-2xl font-bold text-blue-600">
-                        ${hourlyService.rate}
+                    {hourlyService.serviceId && isServiceUnderReview(quote, hourlyService.serviceId) ? (
+                      <div className="text-right text-sm font-semibold text-blue-600">Rate after review</div>
+                    ) : (
+                      <div className="text-right">
+                        <div className="text-2xl font-bold text-blue-600">
+                          ${hourlyService.rate}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">per {hourlyService.unitName}</div>
                       </div>
-                      <div className="text-xs text-gray-500 mt-1">per {hourlyService.unitName}</div>
-                    </div>
+                    )}
                   </div>
+                  {hourlyService.estimatedHours && hourlyService.estimatedCost && !(hourlyService.serviceId && isServiceUnderReview(quote, hourlyService.serviceId)) && (
+                    <div className="mb-3 text-sm text-gray-700">
+                      Estimated {hourlyService.estimatedHours.low === hourlyService.estimatedHours.high
+                        ? hourlyService.estimatedHours.low
+                        : `${hourlyService.estimatedHours.low}–${hourlyService.estimatedHours.high}`} {hourlyService.unitName}s:{' '}
+                      <span className="font-semibold">
+                        {formatDollars(hourlyService.estimatedCost.low)}
+                        {hourlyService.estimatedCost.high !== hourlyService.estimatedCost.low && ` – ${formatDollars(hourlyService.estimatedCost.high)}`}
+                        {isBillingFrequency(hourlyService.billingFrequency) && BILLING_FREQUENCY_SUFFIXES[hourlyService.billingFrequency]}
+                      </span>
+                    </div>
+                  )}
                   <div className="pt-3 border-t border-gray-200">
                     <p className="text-xs text-gray-600 italic">
                       Billed based on actual time worked • No upfront commitment required
@@ -741,6 +971,35 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
           </div>
         )}
 
+        {/* Recommendations Section */}
+        {quote.recommendations.length > 0 && (
+          <div className="p-10 border-t border-gray-200">
+            <h2 className="text-3xl font-bold text-gray-900 mb-6 pb-3 border-b-4" style={{ borderColor: 'var(--tenant-primary-500, #10b981)' }}>
+              Recommendations
+            </h2>
+            <div className="space-y-3">
+              {quote.recommendations.map(recommendation => (
+                <div key={recommendation.recommendationId} className="flex items-start justify-between gap-4 bg-white border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <Lightbulb className="w-5 h-5 flex-shrink-0 mt-0.5" style={{ color: 'var(--tenant-primary-600, #10b981)' }} />
+                    <p className="text-gray-700">{recommendation.message}</p>
+                  </div>
+                  {recommendation.suggestedServiceId && onAddService && (
+                    <button
+                      onClick={() => onAddService(recommendation.suggestedServiceId!)}
+                      className="flex items-center space-x-1 flex-shrink-0 text-sm font-semibold px-3 py-2 rounded-lg border-2 transition-colors hover:bg-gray-50"
+                      style={{ borderColor: 'var(--tenant-primary-500, #10b981)', color: 'var(--tenant-primary-700, #047857)' }}
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add {recommendation.suggestedServiceName || recommendation.suggestedServiceId}</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Guarantee Section */}
         {firmInfo?.promiseCalloutText && (
           <div className="bg-green-50 border-2 border-green-500 rounded-xl p-6 mx-10 my-8">
@@ -807,60 +1066,69 @@ const QuoteResults: React.FC<QuoteResultsProps> = ({ formData, quote, quoteId, p
             </button>
           </div>
         </div>
+
+        {/* Staff-only calculation trace */}
+        {staffMode && <PriceExplanationPanel quote={quote} />}
       </div>
 
       {/* Sticky CTA Bar */}
       <div className="fixed bottom-0 left-0 right-0 z-50 bg-white bg-opacity-95 backdrop-blur-sm border-t border-gray-200 shadow-lg">
         <div className="max-w-4xl mx-auto flex flex-col md:flex-row items-center justify-between gap-4 p-4">
-          <div className="flex-1 text-center md:text-left">
-            <div className="text-xs text-gray-600 mb-1">Today's Total</div>
-            <div className="flex items-baseline space-x-2">
-              <div className="flex flex-col items-start">
-                <span className="text-2xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>
-                  ${quote.totalMonthlyFees.toLocaleString()}
-                </span>
-                <span className="text-xs text-gray-500 font-light tracking-wide">per month</span>
+          {reviewRequired ? (
+            <div className="flex-1 text-center md:text-left">
+              <div className="text-xs text-gray-600 mb-1">Today's Total</div>
+              <span className="text-lg font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>Priced after a consultation</span>
+            </div>
+          ) : (
+            <div className="flex-1 text-center md:text-left">
+              <div className="text-xs text-gray-600 mb-1">Today's Total</div>
+              <div className="flex items-baseline space-x-2">
+                {/* Every total the quote has ($0 per month when it has none) */}
+                {QUOTE_TOTAL_LABELS
+                  .filter(({ total }, index, totals) => quote[total] > 0 || (index === 0 && totals.every(other => quote[other.total] === 0)))
+                  .map(({ total, label }, index) => (
+                    <React.Fragment key={total}>
+                      {index > 0 && <span className="text-lg text-gray-400 font-light">+</span>}
+                      <div className="flex flex-col items-start">
+                        <span className="text-2xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>
+                          {formatPrice(quote[total], quote.priceRange?.[total])}
+                        </span>
+                        <span className="text-xs text-gray-500 font-light tracking-wide">{label}</span>
+                      </div>
+                    </React.Fragment>
+                  ))}
               </div>
-              {quote.totalOneTimeFees > 0 && (
-                <>
-                  <span className="text-lg text-gray-400 font-light">+</span>
-                  <div className="flex flex-col items-start">
-                    <span className="text-2xl font-bold" style={{ color: 'var(--tenant-primary-600, #10b981)' }}>
-                      ${quote.totalOneTimeFees.toLocaleString()}
-                    </span>
-                    <span className="text-xs text-gray-500 font-light tracking-wide">one-time fees</span>
-                  </div>
-                </>
-              )}
             </div>
-          </div>
+          )}
           <div className="flex flex-col md:flex-row gap-3 w-full md:w-auto">
-            {/* Accept Quote Button */}
-            <button
-              onClick={handleAcceptQuote}
-              disabled={isSubmitting}
-              className="inline-flex items-center justify-center space-x-2 text-white font-semibold py-3 px-5 rounded-lg transition-all duration-200 transform hover:shadow-lg"
-              style={{
-                background: isSubmitting && activeButton === 'accept-quote'
-                  ? 'linear-gradient(to right, var(--tenant-primary-400, #34d399), var(--tenant-primary-500, #10b981))'
-                  : 'linear-gradient(to right, var(--tenant-primary-600, #10b981), var(--tenant-primary-700, #059669))',
-                opacity: isSubmitting && activeButton !== 'accept-quote' ? 0.5 : 1,
-              }}
-              onMouseEnter={(e) => !isSubmitting && (e.currentTarget.style.background = 'linear-gradient(to right, var(--tenant-primary-700, #059669), var(--tenant-primary-800, #065f46))', e.currentTarget.style.transform = 'scale(1.05)')}
-              onMouseLeave={(e) => !isSubmitting && (e.currentTarget.style.background = 'linear-gradient(to right, var(--tenant-primary-600, #10b981), var(--tenant-primary-700, #059669))', e.currentTarget.style.transform = 'scale(1)')}
-            >
-              {isSubmitting && activeButton === 'accept-quote' ? (
-                <>
-                  <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
-                  <span>Processing...</span>
-                </>
-              ) : (
-                <>
-                  <CheckCircle className="w-4 h-4" />
-                  <span>Accept & Get Started</span>
-                </>
-              )}
-            </button>
+            {/* Accept Quote Button (a quote that needs review can't be accepted as priced) */}
+            {!reviewRequired && (
+              <button
+                onClick={handleAcceptQuote}
+                disabled={isSubmitting}
+                className="inline-flex items-center justify-center space-x-2 text-white font-semibold py-3 px-5 rounded-lg transition-all duration-200 transform hover:shadow-lg"
+                style={{
+                  background: isSubmitting && activeButton === 'accept-quote'
+                    ? 'linear-gradient(to right, var(--tenant-primary-400, #34d399), var(--tenant-primary-500, #10b981))'
+                    : 'linear-gradient(to right, var(--tenant-primary-600, #10b981), var(--tenant-primary-700, #059669))',
+                  opacity: isSubmitting && activeButton !== 'accept-quote' ? 0.5 : 1,
+                }}
+                onMouseEnter={(e) => !isSubmitting && (e.currentTarget.style.background = 'linear-gradient(to right, var(--tenant-primary-700, #059669), var(--tenant-primary-800, #065f46))', e.currentTarget.style.transform = 'scale(1.05)')}
+                onMouseLeave={(e) => !isSubmitting && (e.currentTarget.style.background = 'linear-gradient(to right, var(--tenant-primary-600, #10b981), var(--tenant-primary-700, #059669))', e.currentTarget.style.transform = 'scale(1)')}
+              >
+                {isSubmitting && activeButton === 'accept-quote' ? (
+                  <>
+                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
+                    <span>Processing...</span>
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="w-4 h-4" />
+                    <span>Accept & Get Started</span>
+                  </>
+                )}
+              </button>
+            )}
 
             {/* Schedule Consultation Button */}
             <button
@@ -117,28 +117,254 @@ export interface HourlyService {
   rate: number;
   unitName: string;
   billingFrequency: string;
+  serviceId?: string;             // Service of the rule it was quoted from
+  estimatedHours?: EstimateRange; // Hours expected per billing period (rules with Estimated Hours)
+  estimatedCost?: EstimateRange;  // rate × estimatedHours
 }
 
+// Low and high ends of an estimate
+export interface EstimateRange {
+  low: number;
+  high: number;
+}
+
+/**
+ * How often a pricing rule's price is charged
+ * Annual fees are quoted with the one-time fees (both are charged once in the
+ * first year); quarterly and semi-annual fees have totals of their own.
+ */
+export type BillingFrequency = 'Monthly' | 'Quarterly' | 'Semi-Annual' | 'Annual' | 'One-Time Fee';
+
+/**
+ * How the client chose to pay the monthly fees
+ * 'annual-prepay' pays the year up front at the tenant's prepay discount
+ * (Firm Info "Offer Annual Prepay" / "Annual Prepay Discount").
+ */
+export type BillingChoice = 'monthly' | 'annual-prepay';
+
 export interface ServiceQuote {
   name: string;
   description: string;
   monthlyFee: number;
-  oneTimeFee: number;
-  annualPrice: number;
+  quarterlyFee: number;
+  semiAnnualFee: number;
+  oneTimeFee: number;   // One-time and annual fees
+  annualPrepayFee: number; // Monthly fees prepaid for the year, less the prepay discount (monthlyFee is then 0)
+  annualPrice: number;  // First-year cost: monthly × 12 + quarterly × 4 + semi-annual × 2 + one-time + annual prepay
   included: string[];
   addOns?: string[];
   pricingFactors?: string[];
+  adjustments?: QuoteAdjustment[]; // Discount / minimum fee lines already netted into the fees above
+  priceRange?: ServicePriceRange;  // Displayed low/high of each fee above (price-range mode only)
+  reviewReasons?: string[];        // Why the fees above are hidden from the client (undefined unless a Requires Review rule matched)
+}
+
+/**
+ * Price-range mode (Firm Info "Price Display" = Range): the quote is shown as
+ * low/high bounds around the exact fees, which stay the internal price
+ */
+export type ServicePriceRange = {
+  [fee in 'monthlyFee' | 'quarterlyFee' | 'semiAnnualFee' | 'oneTimeFee' | 'annualPrepayFee' | 'annualPrice']: EstimateRange;
+};
+
+export type QuotePriceRange = {
+  [total in 'totalMonthlyFees' | 'totalQuarterlyFees' | 'totalSemiAnnualFees' | 'totalOneTimeFees' | 'totalAnnualPrepayFees' | 'totalAnnual']: EstimateRange;
+};
+
+/**
+ * A line added on top of the rule prices, e.g. a bundle discount, a minimum fee
+ * top-up or the annual prepay discount. Discounts have a negative amount. Service and quote totals already include it.
+ */
+export interface QuoteAdjustment {
+  type: 'discount' | 'minimum-fee' | 'prepay-discount' | 'promo-code';
+  ruleId: string;
+  label: string;
+  serviceId: string;
+  billingFrequency: BillingFrequency;
+  amount: number;
+}
+
+/**
+ * Call for pricing: a "Requires Review" rule whose conditions matched. The
+ * service ('service') or every service ('quote') is priced by the firm after a
+ * consultation instead of automatically (see reviewFlags.ts).
+ */
+export type ReviewScope = 'service' | 'quote';
+
+export interface ReviewFlag {
+  ruleId: string;
+  serviceId: string;
+  scope: ReviewScope;
+  reason: string;
 }
 
 export interface QuoteData {
   services: ServiceQuote[];
   hourlyServices: HourlyService[];
   totalMonthlyFees: number;
-  totalOneTimeFees: number;
-  totalAnnual: number;
-  potentialSavings: number;
-  recommendations: string[];
-  complexity: 'low' | 'medium' | 'high' | 'very-high';
+  totalQuarterlyFees: number;
+  totalSemiAnnualFees: number;
+  totalOneTimeFees: number; // One-time and annual fees
+  totalAnnualPrepayFees: number; // Prepaid monthly fees (0 unless billingChoice is 'annual-prepay')
+  totalAnnual: number;      // First-year cost of the whole quote
+  billingChoice: BillingChoice;
+  discountPrograms: DiscountProgram[]; // Programs whose conditions matched, in the order they apply
+  priceRange?: QuotePriceRange;         // Displayed low/high of each total (price-range mode only)
+  estimatedTotal?: EstimateRange;       // totalAnnual plus the hourly estimates for the first year (undefined without estimates)
+  promoCode?: AppliedPromoCode;         // The code the client entered (undefined when none)
+  reviewFlags?: ReviewFlag[];           // Requires Review rules that matched (undefined when none) - prices are hidden from the client
+  potentialSavings: number;      // Annual estimate from the tenant's savings estimators (0 when none apply)
+  savingsEstimate?: SavingsEstimate; // How potentialSavings was reached; undefined when none apply or turned off
+  recommendations: QuoteRecommendation[];
+  complexity: ComplexityLevel;
+  complexityBreakdown: ComplexityBreakdown; // Score and the factors that contributed to it
+  adjustments: QuoteAdjustment[];
+  trace: QuoteTrace; // Why each rule did or didn't contribute (staff "Explain this price" panel)
+  pricingVersion: string; // Id of the rules, services and rate cards the quote was priced with (see pricingVersions.ts)
+  pricingDate: string;    // YYYY-MM-DD the rules in effect were selected for
+}
+
+/**
+ * Calculation trace returned with every quote
+ * One entry per pricing rule in evaluation order, plus the adjustments made after
+ * every rule was priced. Mirrors the console logging in calculateQuote.
+ */
+export interface QuoteTrace {
+  rules: RuleTrace[];
+  adjustments: AdjustmentTrace[];
+  notes: string[]; // Quote-level remarks, e.g. built-in default prices were used
+}
+
+export type RuleTraceStatus =
+  | 'applied'               // Priced and added to the quote
+  | 'zero'                  // Matched but priced at $0
+  | 'not-matched'           // Trigger conditions didn't match
+  | 'inactive'
+  | 'service-not-selected'
+  | 'hourly'                // Listed as an hourly service, not added to totals
+  | 'discount'              // Discount rule - see the adjustments
+  | 'review'                // Requires Review rule - flags the quote instead of pricing it
+  | 'error';                // Couldn't be priced (formula error, unknown billing frequency) - rule skipped
+
+export interface RuleTrace {
+  ruleId: string;
+  ruleName: string;
+  serviceId: string; // Service the price is attributed to
+  pricingType: string;
+  billingFrequency: string;
+  method: string;
+  status: RuleTraceStatus;
+  conditions: ConditionCheck[];
+  formula?: FormulaTrace;
+  steps: string[]; // How the price was built, e.g. "150 × $1.50 = $225"
+  price?: number;
+}
+
+// One trigger comparison with the form value it was made against
+export interface ConditionCheck {
+  source: 'trigger' | 'conditions'; // Single Trigger Form Field or the compound Trigger Conditions
+  field: string;
+  operator: string;
+  expected?: string;
+  actual: unknown;
+  matched: boolean;
+}
+
+export interface FormulaTrace {
+  expression: string;
+  substituted: string; // Expression with every resolved {{variable}} replaced by its value
+  inputs: { [variable: string]: number | string | boolean };
+  result: number;      // Before the Minimum/Maximum Value clamp
+  clamp?: { bound: 'minimum' | 'maximum'; value: number };
+}
+
+export interface AdjustmentTrace {
+  adjustment: QuoteAdjustment;
+  explanation: string;
+}
+
+/**
+ * Savings estimator (pricing base "Savings Estimators" table)
+ * The formula returns the annual dollars a client saves with the service, using
+ * the same variables as pricing formulas plus {{quote.*}} (totals, hasAdvisory).
+ */
+export interface SavingsEstimator {
+  estimatorId: string;
+  serviceId: string;            // Only estimated when this service is selected
+  label: string;
+  formula: string;
+  conditions?: ConditionGroup;  // Same format as Trigger Conditions; empty = always
+  disclaimer?: string;          // Shown wherever the estimate is
+}
+
+export interface SavingsEstimate {
+  total: number;                // Annual, rounded to whole dollars
+  lines: {
+    estimatorId: string;
+    serviceId: string;
+    label: string;
+    amount: number;
+  }[];
+  disclaimers: string[];
+}
+
+/**
+ * Filing deadline (pricing base "Filing Deadlines" table)
+ * Pricing rule conditions can test the days until the next deadline of the
+ * rule's service (calendar.daysUntilDeadline, see filingCalendar.ts).
+ */
+export interface FilingDeadline {
+  deadlineId: string;
+  serviceId: string;
+  month: number;          // 1-12
+  day: number;
+  entityTypes?: string[]; // Only for these business entity types; empty = the service's default
+  label?: string;
+}
+
+/**
+ * Recommendation rule (pricing base "Recommendations" table)
+ * Shown when its conditions match; the message may use {{variables}}, e.g.
+ * {{quote.totalMonthlyFees}}, {{discount.<rule-id>}} or a form field path.
+ */
+export interface RecommendationRule {
+  recommendationId: string;
+  message: string;
+  conditions?: ConditionGroup;  // Same format as Trigger Conditions; empty = always
+  priority: number;             // Lower shows first
+  suggestedServiceId?: string;  // Offered as a one-click "add this service"
+}
+
+export interface QuoteRecommendation {
+  recommendationId: string;
+  message: string;              // Template already filled in
+  priority: number;
+  suggestedServiceId?: string;
+  suggestedServiceName?: string;
+}
+
+export type ComplexityLevel = 'low' | 'medium' | 'high' | 'very-high';
+
+/**
+ * Complexity scoring model (pricing base "Complexity Factors" / "Complexity Tiers" tables)
+ * Every factor whose conditions match the form adds its points; the total picks
+ * the highest level whose minimum score it reaches (below "medium" is "low").
+ */
+export interface ComplexityFactor {
+  factorId: string;
+  label: string;
+  points: number;
+  conditions: ConditionGroup; // Same format as pricing rule Trigger Conditions
+}
+
+export interface ComplexityModel {
+  factors: ComplexityFactor[];
+  thresholds: { [level in Exclude<ComplexityLevel, 'low'>]: number }; // Minimum score per level
+}
+
+export interface ComplexityBreakdown {
+  score: number;
+  factors: Array<{ factorId: string; label: string; points: number }>; // Matched factors only
 }
 
 export type ComparisonOperator =
@@ -146,6 +372,8 @@ export type ComparisonOperator =
   | 'notEquals'
   | 'contains'
   | 'notContains'
+  | 'hasItem'     // A list answer has the value as one of its items
+  | 'notHasItem'
   | 'isEmpty'
   | 'isNotEmpty'
   | 'lessThan'
@@ -154,27 +382,177 @@ export type ComparisonOperator =
   | 'greaterThanOrEqual'
   | 'includes';  // Legacy support
 
+/**
+ * Compound trigger conditions (Pricing Variables "Trigger Conditions" JSON column)
+ *
+ * A group can combine any of:
+ * - all:  every child must match (AND)
+ * - any:  at least one child must match (OR)
+ * - none: no child may match (NOT)
+ * Groups nest, e.g. S-Corp AND (more than 2 owners OR multi-state):
+ * {"all": [{"field": "businessTax.entityType", "operator": "equals", "value": "S-Corporation"},
+ *          {"any": [{"field": "businessTax.numberOfOwners", "operator": "greaterThan", "value": 2},
+ *                   {"field": "businessTax.additionalStateCount", "operator": "greaterThan", "value": 0}]}]}
+ */
+export interface ConditionClause {
+  field: string;
+  operator: ComparisonOperator;
+  value?: string | number | boolean;
+}
+
+export interface ConditionGroup {
+  all?: ConditionNode[];
+  any?: ConditionNode[];
+  none?: ConditionNode[];
+}
+
+export type ConditionNode = ConditionClause | ConditionGroup;
+
+/**
+ * Charges a Discount rule applies to (Pricing Variables "Discount Targets" JSON column)
+ * Every list that is present must match; a missing list matches anything.
+ * e.g. {"services": ["business-tax"], "billingFrequencies": ["One-Time Fee"]}
+ */
+export interface DiscountTargets {
+  services?: string[];
+  rules?: string[];
+  billingFrequencies?: BillingFrequency[];
+}
+
+/**
+ * Discount program (pricing base "Discount Programs" table) - a membership
+ * discount such as "monthly bookkeeping clients get 20% off tax prep"
+ * While its conditions match, it takes its percentage off the price of every
+ * rule its targets match (before minimums). Formulas and conditions read
+ * {{program.<programId>}} (true/false); see discountPrograms.ts.
+ */
+export interface DiscountProgram {
+  programId: string;
+  label: string;
+  conditions?: ConditionGroup; // Same format as Trigger Conditions; empty = always
+  percentage?: number;         // 0.2 for 20%; empty = each rule's Advisory Discount Percentage
+  targets?: DiscountTargets;   // Rules the percentage applies to (required with a percentage)
+  priority: number;            // Lower applies first (default 100)
+  stacking: 'stack' | 'exclusive';
+}
+
+/**
+ * Promo or referral code (pricing base "Promo Codes" table)
+ * A code the client enters on the quote page; a valid one is a discount line on
+ * the quote (QuoteAdjustment type 'promo-code'). See promoCodes.ts.
+ */
+export interface PromoCode {
+  code: string;                 // Upper case - entered codes are matched case-insensitively
+  kind: 'promo' | 'referral';
+  campaign?: string;            // Campaign or referrer the code is tracked under
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;        // 0.1 for 10%, or a dollar amount
+  services?: string[];          // Eligible services; empty = every selected service
+  billingFrequencies?: BillingFrequency[]; // Charges it comes off; fixed amounts default to one-time fees
+  validFrom?: string;           // YYYY-MM-DD, first day the code works
+  validUntil?: string;          // YYYY-MM-DD, last day the code works
+  usageLimit?: number;          // Submitted quotes the code can be used on; empty = unlimited
+  timesUsed: number;
+  stacking: 'stack' | 'exclusive';
+}
+
+export type PromoCodeStatus = 'applied' | 'unknown' | 'not-started' | 'expired' | 'used-up' | 'not-eligible';
+
+// The code entered for a quote and what came of it
+export interface AppliedPromoCode {
+  code: string;
+  status: PromoCodeStatus;
+  message: string; // Shown to the client under the code, e.g. "SPRING10 expired on 2026-04-30"
+  kind?: 'promo' | 'referral';
+  campaign?: string;
+}
+
+/**
+ * Rate card - a named lookup table mapping a form value to a number (a price or a multiplier)
+ * Loaded from the "Rate Cards" table in the pricing base, one Airtable row per RateCardRow.
+ * Formulas read it as {{lookup.<name>}}; rules can take their price from it via "Rate Card".
+ *
+ * Rows are tried in order: the first whose matchValue equals the form value
+ * (case-insensitive) or whose min/max range contains it wins. A row with
+ * matchValue "*" is the fallback when nothing else matches.
+ */
+export interface RateCardRow {
+  matchValue?: string;
+  min?: number;
+  max?: number;
+  value: number;
+}
+
+export interface RateCard {
+  name: string;
+  sourceField: string;
+  rows: RateCardRow[];
+}
+
+/**
+ * Bracket pricing table for the "tiered" calculation method (Pricing Variables "Tier Table" JSON column)
+ * Each tier covers quantities above the previous tier's upTo; the last tier may omit upTo.
+ * - graduated: each unit is priced at its own tier's rate (plus each reached tier's flatPrice)
+ * - volume:    the quantity's tier prices every unit
+ */
+export interface PriceTier {
+  upTo?: number;
+  unitPrice?: number;
+  flatPrice?: number;
+}
+
+export interface TierTable {
+  style: 'graduated' | 'volume';
+  tiers: PriceTier[];
+}
+
+/**
+ * Free units for per-unit pricing (Pricing Variables "Included Units" column)
+ * Only the quantity above the included amount is billed. The amount is a fixed
+ * number, a form field (e.g. businessTax.includedOwners) or a rate card lookup
+ * (lookup.ownersIncludedByEntity) so it can vary with other answers.
+ */
+export type IncludedUnits =
+  | { source: 'fixed'; value: number }
+  | { source: 'field'; field: string }
+  | { source: 'lookup'; rateCard: string };
+
+/**
+ * Expected hours of an hourly rule ("Estimated Hours Low" / "Estimated Hours High"
+ * columns), each a fixed number, form field or rate card lookup like Included Units
+ */
+export interface EstimatedHours {
+  low: IncludedUnits;
+  high: IncludedUnits;
+}
+
 export interface PricingConfig {
   serviceId: string;
   pricingRuleId: string;
   serviceName: string;
   description: string;
-  pricingType: 'Base Service' | 'Add-on' | 'Discount';
+  pricingType: 'Base Service' | 'Add-on' | 'Discount' | 'Requires Review';
   basePrice: number;
-  billingFrequency: 'Monthly' | 'One-Time Fee' | 'Annual';
+  billingFrequency: BillingFrequency;
   active: boolean;
+  effectiveFrom?: string; // YYYY-MM-DD, first day the rule applies (empty = always)
+  effectiveTo?: string;   // YYYY-MM-DD, last day the rule applies (empty = open-ended)
   triggerFormField?: string;
   requiredFormValue?: string;
   comparisonLogic?: ComparisonOperator;
+  triggerConditions?: ConditionGroup; // Compound conditions, combined (AND) with the single trigger above
   perUnitPricing: boolean;
   unitPrice?: number;
   unitName?: string;
   quantitySourceField?: string;
+  includedUnits?: IncludedUnits;          // Units included free before per-unit billing starts
+  priceVariance?: number;                 // Price-range mode: ± fraction shown around the rule's price (0.15 = ±15%)
+  estimatedHours?: EstimatedHours;        // Makes the rule hourly: quoted as a range at Unit Price, not added to totals
   advisoryDiscountEligible: boolean;
   advisoryDiscountPercentage: number;
-  minimumMonthlyFee?: number;
-  minimumMonthlyFeeWithAdvisory?: number;
-  applyMinimumFee?: boolean;
+  minimumMonthlyFee?: number;             // Monthly floor for the rule's service
+  minimumMonthlyFeeWithAdvisory?: number; // Floor used instead when Advisory is selected
+  applyMinimumFee?: boolean;              // Enforce the floor(s) above
   includedFeatures: string[];
   addOns: Array<{
     name: string;
@@ -182,11 +560,28 @@ export interface PricingConfig {
   }>;
 
   // Formula-based pricing fields
-  calculationMethod?: 'simple' | 'formula' | 'per-unit';
+  calculationMethod?: 'simple' | 'formula' | 'per-unit' | 'tiered';
   formulaExpression?: string;
   formulaInputFields?: string[];
   minimumValue?: number;
   maximumValue?: number;
+
+  // Rate card lookup - replaces Base Price (simple) or Unit Price (per-unit) with {{lookup.<rateCard>}}
+  rateCard?: string;
+
+  // Tiered pricing (calculationMethod 'tiered' - quantity comes from quantitySourceField)
+  tierTable?: TierTable;
+
+  // Discount rules (pricingType 'Discount')
+  discountType?: 'percentage' | 'fixed';
+  discountValue?: number;            // 0.15 for 15%, or a dollar amount for fixed discounts
+  discountTargets?: DiscountTargets; // Defaults to the rule's own service
+  discountPriority?: number;         // Lower numbers apply first (default 100)
+  discountStacking?: 'stack' | 'exclusive';
+
+  // Call-for-pricing rules (pricingType 'Requires Review')
+  reviewScope?: ReviewScope;         // What the matched rule takes off automated pricing (default the rule's service)
+  reviewReason?: string;             // Shown to the client and recorded with the quote (default the rule name)
 }
 
 // DEPRECATED: AggregationRules and ServiceTotalVariable interfaces
@@ -226,7 +621,7 @@ export interface ServiceConfig {
   includedFeaturesCardList?: string[];
 
   // Service-Level Total Variable Configuration (Single-Row-Per-Endpoint)
-  billingFrequency?: string;            // "Monthly", "One-Time Fee", "Annual" - filters which pricing rules to sum
+  billingFrequency?: string;            // "Monthly", "Quarterly", "Semi-Annual", "Annual", "One-Time Fee" - filters which pricing rules to sum
   totalVariableName?: string;           // e.g., "monthly_bookkeeping_fee" - variable name for formula references
   displayNameQuote?: string;            // "Monthly Bookkeeping Total" - display name in quote output
 }
@@ -1,4 +1,5 @@
 import { FormData, QuoteData } from '../types/quote';
+import { NEEDS_REVIEW_STATUS, PRICES_NOT_SHOWN_DISPLAY, needsReview } from './reviewFlags';
 
 export interface AirtableQuoteConfig {
   baseId: string;
@@ -46,7 +47,11 @@ export const saveQuoteToAirtable = async (
         airtableFields['Phone'] = formData.phone;
       }
 
-      airtableFields['Quote Status'] = 'New Quote';
+      airtableFields['Quote Status'] = needsReview(quoteData) ? NEEDS_REVIEW_STATUS : 'New Quote';
+      // The fees below are for staff - the client of a flagged quote wasn't shown them
+      if (needsReview(quoteData)) {
+        airtableFields['Price Display'] = PRICES_NOT_SHOWN_DISPLAY;
+      }
 
       // Services Requested - Must be array for Airtable Multiple Select field
       const servicesArray = Array.isArray(formData.services)
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildBillingChoiceUpdate, resolveContactDetails } from './airtableWriteService';
+import { FormField } from './formFieldsService';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, pricingRule, quoteForm } from './testFixtures';
+
+const contactField = (fieldName: string, overrides: Partial<FormField> = {}): FormField => ({
+  serviceId: 'contact-info',
+  fieldName,
+  fieldType: 'text',
+  fieldLabel: fieldName,
+  required: true,
+  active: true,
+  displayOrder: 1,
+  ...overrides
+});
+
+const contactFields = [
+  contactField('firstName'),
+  contactField('lastName'),
+  contactField('workEmail', { airtableColumnName: 'Email' })
+];
+
+describe('resolveContactDetails', () => {
+  it('reads the dynamic contact fields through their Airtable columns', () => {
+    const formData = quoteForm({ contactInfo: { firstName: 'Ada ', lastName: 'Lovelace', workEmail: 'ada@example.com' } });
+
+    expect(resolveContactDetails(formData, contactFields)).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace' });
+  });
+
+  it('prefers a Full Name field over the name parts', () => {
+    const formData = quoteForm({ contactInfo: { fullName: 'Ada King', firstName: 'Ada', workEmail: 'ada@example.com' } });
+
+    expect(resolveContactDetails(formData, [...contactFields, contactField('fullName')]).name).toBe('Ada King');
+  });
+
+  it('falls back to the legacy contact fields', () => {
+    const formData = quoteForm({ firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' });
+
+    expect(resolveContactDetails(formData, contactFields)).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace' });
+  });
+});
+
+describe('buildBillingChoiceUpdate', () => {
+  it('writes the billing choice with the fee totals it changes', () => {
+    const form = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() });
+    const quote = calculateQuote(form, [pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 })], [], { annualPrepayDiscount: 0.1 });
+
+    expect(buildBillingChoiceUpdate(quote)).toEqual({
+      'Billing Choice': 'Annual Prepay',
+      'Monthly Fees': 0,
+      'Total Monthly Fees': 0,
+      'Annual Prepay Fees': 4320,
+      'Annual Total': 4320
+    });
+  });
+});
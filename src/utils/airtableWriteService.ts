@@ -1,4 +1,11 @@
 import { FormData, QuoteData } from '../types/quote';
+import type { FormField } from './formFieldsService';
+import { PricingLock, parsePricingLock } from './pricingVersions';
+import { roundToCents } from './money';
+import { BILLING_CHOICE_LABELS } from './billingFrequencies';
+import { getPromoCodeDiscount } from './promoCodes';
+import { describeHourlyEstimates } from './hourlyEstimates';
+import { NEEDS_REVIEW_STATUS, PRICES_NOT_SHOWN_DISPLAY, describeReviewReasons, needsReview } from './reviewFlags';
 
 export interface AirtableWriteConfig {
   baseId: string;
@@ -19,9 +26,30 @@ export interface AirtableQuoteRecord {
     'Quote Status': string;
     'Services Requested': string[]; // Array for Airtable Multiple Select field
     'Monthly Fees': number;
+    'Quarterly Fees'?: number;
+    'Semi-Annual Fees'?: number;
     'One-Time Fees': number;
     'Total Monthly Fees': number;
     'Annual Total': number;
+    'Billing Choice'?: string;      // "Monthly" or "Annual Prepay"
+    'Annual Prepay Fees'?: number;
+    'Promo Code'?: string;          // Promo/referral code applied to the quote
+    'Promo Campaign'?: string;
+    'Promo Discount'?: number;      // First-year value of the code
+    'Hourly Estimates'?: string;    // One line per hourly service with Estimated Hours
+    'Estimated Total Low'?: number; // Annual total plus the hourly estimates
+    'Estimated Total High'?: number;
+    'Price Display'?: string;       // "Range" when the client was shown price ranges, "Not Shown" when the quote needs review (the exact fees stay above)
+    'Monthly Fees Low'?: number;
+    'Monthly Fees High'?: number;
+    'One-Time Fees Low'?: number;
+    'One-Time Fees High'?: number;
+    'Annual Total Low'?: number;
+    'Annual Total High'?: number;
+    'Review Reasons'?: string;      // Why the quote needs review ("Requires Review" rules; Quote Status is then "Needs Review")
+    'Pricing Version'?: string; // Pricing the quote was priced with (see pricingVersions.ts)
+    'Pricing Snapshot'?: string;    // That pricing as JSON, used to reprice the quote until Locked Until
+    'Locked Until'?: string;
     'Tenant ID'?: string;
     [key: string]: any;
   };
@@ -86,7 +114,8 @@ const buildQuoteFields = async (
   quoteData: QuoteData,
   quoteId: string,
   tenantId?: string,
-  tenantConfig?: any
+  tenantConfig?: any,
+  pricingLock?: PricingLock
 ): Promise<Record<string, any>> => {
   console.log('[Airtable Write] ========== BUILD QUOTE FIELDS START ==========');
   console.log('[Airtable Write] tenantConfig present?', !!tenantConfig);
@@ -132,14 +161,56 @@ const buildQuoteFields = async (
   const fields: Record<string, any> = {
     'Quote ID': quoteId,
     'Date': formatAsAirtableDate(new Date()),
-    'Quote Status': 'New Quote',
+    // Quotes with a Requires Review rule wait for the firm to price them
+    'Quote Status': needsReview(quoteData) ? NEEDS_REVIEW_STATUS : 'New Quote',
     'Services Requested': filteredServices.length > 0 ? filteredServices : [], // Always send as array
-    'Monthly Fees': quoteData.totalMonthlyFees || 0,
-    'One-Time Fees': quoteData.totalOneTimeFees || 0,
-    'Total Monthly Fees': quoteData.totalMonthlyFees || 0,
-    'Annual Total': quoteData.totalAnnual || 0,
+    // Currency fields get exact cents (the quote's totals already follow the tenant's rounding policy)
+    'Monthly Fees': roundToCents(quoteData.totalMonthlyFees || 0),
+    'One-Time Fees': roundToCents(quoteData.totalOneTimeFees || 0),
+    'Total Monthly Fees': roundToCents(quoteData.totalMonthlyFees || 0),
+    'Annual Total': roundToCents(quoteData.totalAnnual || 0),
+    'Pricing Version': quoteData.pricingVersion,
   };
 
+  if (pricingLock) {
+    Object.assign(fields, buildPricingLockFields(pricingLock));
+  }
+
+  // Only sent when used, so bases without these columns keep working
+  if (quoteData.totalQuarterlyFees > 0) {
+    fields['Quarterly Fees'] = roundToCents(quoteData.totalQuarterlyFees);
+  }
+  if (quoteData.totalSemiAnnualFees > 0) {
+    fields['Semi-Annual Fees'] = roundToCents(quoteData.totalSemiAnnualFees);
+  }
+  if (quoteData.billingChoice === 'annual-prepay') {
+    Object.assign(fields, buildBillingChoiceUpdate(quoteData));
+  }
+  if (quoteData.promoCode?.status === 'applied') {
+    fields['Promo Code'] = quoteData.promoCode.code;
+    if (quoteData.promoCode.campaign) fields['Promo Campaign'] = quoteData.promoCode.campaign;
+    fields['Promo Discount'] = getPromoCodeDiscount(quoteData);
+  }
+  if (quoteData.estimatedTotal) {
+    fields['Hourly Estimates'] = describeHourlyEstimates(quoteData.hourlyServices).join('\n');
+    fields['Estimated Total Low'] = roundToCents(quoteData.estimatedTotal.low);
+    fields['Estimated Total High'] = roundToCents(quoteData.estimatedTotal.high);
+  }
+  if (quoteData.priceRange) {
+    fields['Price Display'] = 'Range';
+    fields['Monthly Fees Low'] = roundToCents(quoteData.priceRange.totalMonthlyFees.low);
+    fields['Monthly Fees High'] = roundToCents(quoteData.priceRange.totalMonthlyFees.high);
+    fields['One-Time Fees Low'] = roundToCents(quoteData.priceRange.totalOneTimeFees.low);
+    fields['One-Time Fees High'] = roundToCents(quoteData.priceRange.totalOneTimeFees.high);
+    fields['Annual Total Low'] = roundToCents(quoteData.priceRange.totalAnnual.low);
+    fields['Annual Total High'] = roundToCents(quoteData.priceRange.totalAnnual.high);
+  }
+  // The fees above are for staff - a flagged quote showed the client no prices, ranges included
+  if (needsReview(quoteData)) {
+    fields['Price Display'] = PRICES_NOT_SHOWN_DISPLAY;
+    fields['Review Reasons'] = describeReviewReasons(quoteData).join('\n');
+  }
+
   if (filteredServices.length === 0) {
     console.warn('[Airtable Write] ⚠️ No valid services selected - sending empty array');
   } else {
@@ -187,9 +258,7 @@ const buildQuoteFields = async (
           }
 
           // Resolve Airtable column name (explicit or auto-transform)
-          const airtableColumnName = formField.airtableColumnName && formField.airtableColumnName.trim()
-            ? formField.airtableColumnName
-            : transformFieldNameToColumnName(formField.fieldName);
+          const airtableColumnName = getContactColumnName(formField);
 
           // Transform value based on field type
           const transformedValue = transformValueByFieldType(
@@ -497,23 +566,23 @@ const buildQuoteFields = async (
   const individualTaxService = quoteData.services
     .find(s => s.name.toLowerCase().includes('individual tax'));
   if (individualTaxService) {
-    fields['Individual Tax Prep Fees'] = individualTaxService.oneTimeFee || 0;
+    fields['Individual Tax Prep Fees'] = roundToCents(individualTaxService.oneTimeFee || 0);
   }
 
   const businessTaxService = quoteData.services
     .find(s => s.name.toLowerCase().includes('business tax'));
   if (businessTaxService) {
-    fields['Business Tax Prep Fees'] = businessTaxService.oneTimeFee || 0;
+    fields['Business Tax Prep Fees'] = roundToCents(businessTaxService.oneTimeFee || 0);
   }
 
   const bookkeepingService = quoteData.services
     .find(s => s.name.toLowerCase().includes('bookkeeping'));
   if (bookkeepingService) {
     if (bookkeepingService.monthlyFee > 0) {
-      fields['Monthly Bookkeeping Fees'] = bookkeepingService.monthlyFee;
+      fields['Monthly Bookkeeping Fees'] = roundToCents(bookkeepingService.monthlyFee);
     }
     if (bookkeepingService.oneTimeFee > 0) {
-      fields['Catchup Bookkeeping Fees'] = bookkeepingService.oneTimeFee;
+      fields['Catchup Bookkeeping Fees'] = roundToCents(bookkeepingService.oneTimeFee);
     }
   }
 
@@ -531,6 +600,39 @@ const buildQuoteFields = async (
   return fields;
 };
 
+/**
+ * Airtable column a contact-info field is written to (explicit or auto-transformed)
+ */
+function getContactColumnName(formField: FormField): string {
+  return formField.airtableColumnName && formField.airtableColumnName.trim()
+    ? formField.airtableColumnName
+    : transformFieldNameToColumnName(formField.fieldName);
+}
+
+/**
+ * Client email and name from the dynamic contact form, read through the same
+ * column mapping as the Airtable write; falls back to the legacy top-level fields
+ */
+export const resolveContactDetails = (
+  formData: FormData,
+  contactFields: FormField[]
+): { email: string; name: string } => {
+  const valueOf = (formField: FormField | undefined): string => {
+    const value = formField ? formData.contactInfo?.[formField.fieldName] : undefined;
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const byColumn = (columnName: string) => contactFields.find(formField => getContactColumnName(formField) === columnName);
+
+  const email = valueOf(byColumn('Email'));
+  const name = valueOf(byColumn('Full Name'))
+    || `${valueOf(byColumn('First Name'))} ${valueOf(byColumn('Last Name'))}`.trim();
+
+  return {
+    email: email || formData.email,
+    name: name || `${formData.firstName} ${formData.lastName}`.trim(),
+  };
+};
+
 /**
  * Transform field name to Airtable column name
  * Converts camelCase to Title Case
@@ -836,7 +938,8 @@ export const createQuoteRecord = async (
   quoteData: QuoteData,
   tenantId?: string,
   quoteId?: string,
-  tenantConfig?: any
+  tenantConfig?: any,
+  pricingLock?: PricingLock
 ): Promise<AirtableWriteResult> => {
   const tableName = config.tableName || 'Client Quotes';
   const generatedQuoteId = quoteId || generateQuoteId();
@@ -846,7 +949,7 @@ export const createQuoteRecord = async (
     try {
       await enforceRateLimit();
 
-      const fields = await buildQuoteFields(formData, quoteData, generatedQuoteId, tenantId, tenantConfig);
+      const fields = await buildQuoteFields(formData, quoteData, generatedQuoteId, tenantId, tenantConfig, pricingLock);
 
       // === FIELD VALIDATION AND SANITIZATION ===
       console.log('\n📤 Starting Airtable write with field validation...');
@@ -1083,6 +1186,67 @@ export const createQuoteRecord = async (
   };
 };
 
+/**
+ * Fields to update when the client switches between monthly billing and annual
+ * prepay on the results page (the fee totals change with the billing choice)
+ */
+export const buildBillingChoiceUpdate = (quoteData: QuoteData): Record<string, string | number> => ({
+  'Billing Choice': BILLING_CHOICE_LABELS[quoteData.billingChoice],
+  'Monthly Fees': roundToCents(quoteData.totalMonthlyFees || 0),
+  'Total Monthly Fees': roundToCents(quoteData.totalMonthlyFees || 0),
+  'Annual Prepay Fees': roundToCents(quoteData.totalAnnualPrepayFees || 0),
+  'Annual Total': roundToCents(quoteData.totalAnnual || 0),
+});
+
+/**
+ * Fields that keep a quote's pricing with its record, so reopening the quote
+ * prices it from the record rather than from this browser
+ */
+export const buildPricingLockFields = ({ lock, pricing }: PricingLock): Record<string, string> => ({
+  'Pricing Snapshot': JSON.stringify(pricing),
+  'Locked Until': lock.lockedUntil,
+});
+
+/**
+ * Read a quote's pricing lock back from its Client Quotes record
+ * Returns null when the record can't be read or has no usable snapshot
+ */
+export const fetchQuotePricingLock = async (
+  config: AirtableWriteConfig,
+  recordId: string
+): Promise<PricingLock | null> => {
+  const tableName = config.tableName || 'Client Quotes';
+
+  try {
+    await enforceRateLimit();
+
+    const url = `${AIRTABLE_API_BASE}/${config.baseId}/${encodeURIComponent(tableName)}/${recordId}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      console.error('[Airtable Pricing Lock] Error:', response.status, response.statusText);
+      return null;
+    }
+
+    const record: AirtableQuoteRecord = await response.json();
+    const pricingLock = parsePricingLock(record.fields['Pricing Snapshot'], record.fields['Locked Until']);
+    if (!pricingLock) {
+      console.warn('[Airtable Pricing Lock] Record', recordId, 'has no usable Pricing Snapshot / Locked Until');
+      return null;
+    }
+    return pricingLock;
+  } catch (error) {
+    console.error('[Airtable Pricing Lock] Error:', error);
+    return null;
+  }
+};
+
 export const updateQuoteRecord = async (
   config: AirtableWriteConfig,
   recordId: string,
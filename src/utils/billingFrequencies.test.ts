@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BillingFrequency, PricingConfig } from '../types/quote';
+import { BILLINGS_PER_YEAR, BILLING_FREQUENCIES, isBillingFrequency, isHourlyBillingFrequency } from './billingFrequencies';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, pricingRule, quoteForm } from './testFixtures';
+
+const rule = (pricingRuleId: string, billingFrequency: BillingFrequency, basePrice: number) =>
+  pricingRule(pricingRuleId, { pricingType: 'Base Service', billingFrequency, basePrice });
+
+// A row read back from JSON (e.g. a saved pricing snapshot) never went through the loader's checks
+const unchecked = (json: string): PricingConfig => JSON.parse(json);
+
+const formData = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() });
+
+describe('isBillingFrequency', () => {
+  it('accepts exactly the quoted frequencies', () => {
+    BILLING_FREQUENCIES.forEach(frequency => expect(isBillingFrequency(frequency)).toBe(true));
+    expect(isBillingFrequency('monthly')).toBe(false);
+    expect(isBillingFrequency('Hourly')).toBe(false);
+    expect(isBillingFrequency(undefined)).toBe(false);
+  });
+
+  it('keeps hourly rates apart from the quoted frequencies', () => {
+    expect(isHourlyBillingFrequency('Hourly')).toBe(true);
+    expect(isHourlyBillingFrequency('Monthly')).toBe(false);
+  });
+
+  it('charges every frequency at least once in the first year', () => {
+    expect(BILLINGS_PER_YEAR).toEqual({ 'Monthly': 12, 'Quarterly': 4, 'Semi-Annual': 2, 'Annual': 1, 'One-Time Fee': 1 });
+  });
+});
+
+describe('quote totals by billing frequency', () => {
+  it('gives each recurring frequency its own total and annualizes them', () => {
+    const quote = calculateQuote(formData, [
+      rule('bookkeeping-monthly', 'Monthly', 100),
+      rule('bookkeeping-quarterly', 'Quarterly', 150),
+      rule('bookkeeping-semi-annual', 'Semi-Annual', 400),
+      rule('bookkeeping-annual', 'Annual', 250),
+      rule('bookkeeping-setup', 'One-Time Fee', 50)
+    ]);
+
+    expect(quote.totalMonthlyFees).toBe(100);
+    expect(quote.totalQuarterlyFees).toBe(150);
+    expect(quote.totalSemiAnnualFees).toBe(400);
+    expect(quote.totalOneTimeFees).toBe(300); // annual fees are quoted with the one-time fees
+    expect(quote.totalAnnual).toBe(100 * 12 + 150 * 4 + 400 * 2 + 300);
+  });
+
+  it('leaves a rule with an unknown frequency out of the totals and marks it as an error', () => {
+    const quote = calculateQuote(formData, [
+      rule('bookkeeping-monthly', 'Monthly', 100),
+      unchecked(JSON.stringify({ ...rule('bookkeeping-weekly', 'Monthly', 25), billingFrequency: 'Weekly' }))
+    ]);
+
+    expect(quote.totalMonthlyFees).toBe(100);
+    expect(quote.totalAnnual).toBe(1200);
+    expect(quote.trace.rules.find(trace => trace.ruleId === 'bookkeeping-weekly')?.status).toBe('error');
+  });
+});
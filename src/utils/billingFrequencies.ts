@@ -0,0 +1,54 @@
+import { BillingChoice, BillingFrequency, QuotePriceRange } from '../types/quote';
+
+/**
+ * Billing frequencies a pricing rule's price can be charged at
+ *
+ * Monthly, quarterly and semi-annual fees each have their own quote total;
+ * annual fees are charged once in the first year, so they are quoted with the
+ * one-time fees. The quote's annual total is the first-year cost.
+ */
+
+export const BILLING_FREQUENCIES: readonly BillingFrequency[] = ['Monthly', 'Quarterly', 'Semi-Annual', 'Annual', 'One-Time Fee'];
+
+// Times a fee is charged in the first year
+export const BILLINGS_PER_YEAR: { [frequency in BillingFrequency]: number } = {
+  'Monthly': 12,
+  'Quarterly': 4,
+  'Semi-Annual': 2,
+  'Annual': 1,
+  'One-Time Fee': 1
+};
+
+// Suffix after a price, e.g. $150/qtr (one-time and annual fees have none)
+export const BILLING_FREQUENCY_SUFFIXES: { [frequency in BillingFrequency]: string } = {
+  'Monthly': '/mo',
+  'Quarterly': '/qtr',
+  'Semi-Annual': '/6 mo',
+  'Annual': '',
+  'One-Time Fee': ''
+};
+
+// The quote's recurring and one-time totals in display order, with the label
+// shown after each (a quote can be made of quarterly fees alone, and monthly
+// fees are $0 once the client prepays the year)
+export const QUOTE_TOTAL_LABELS: { total: Exclude<keyof QuotePriceRange, 'totalAnnual'>; label: string }[] = [
+  { total: 'totalMonthlyFees', label: 'per month' },
+  { total: 'totalAnnualPrepayFees', label: 'per year' }, // Monthly fees prepaid for the year (annual prepay)
+  { total: 'totalQuarterlyFees', label: 'per quarter' },
+  { total: 'totalSemiAnnualFees', label: 'every six months' },
+  { total: 'totalOneTimeFees', label: 'one-time fees' }
+];
+
+// How a billing choice is written to Airtable ("Billing Choice") and the webhook
+export const BILLING_CHOICE_LABELS: { [choice in BillingChoice]: string } = {
+  'monthly': 'Monthly',
+  'annual-prepay': 'Annual Prepay'
+};
+
+export const isBillingFrequency = (value: unknown): value is BillingFrequency =>
+  BILLING_FREQUENCIES.includes(value as BillingFrequency);
+
+// Billing Frequency of hourly rules - a rate, quoted as an hourly service rather than a total
+export const HOURLY_BILLING_FREQUENCY = 'Hourly';
+
+export const isHourlyBillingFrequency = (value: unknown): boolean => value === HOURLY_BILLING_FREQUENCY;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ComplexityModel } from '../types/quote';
+import { defaultComplexityModel, scoreComplexity, validateComplexityModel } from './complexityScoring';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, businessTaxDetails, quoteForm } from './testFixtures';
+
+const ownersModel: ComplexityModel = {
+  factors: [
+    { factorId: 'many-owners', label: 'More than 3 owners', points: 3, conditions: { all: [{ field: 'businessTax.numberOfOwners', operator: 'greaterThan', value: 3 }] } },
+    { factorId: 'first-year', label: 'First-year entity', points: 1, conditions: { all: [{ field: 'businessTax.isFirstYearEntity', operator: 'equals', value: true }] } }
+  ],
+  thresholds: { 'medium': 1, 'high': 3, 'very-high': 4 }
+};
+
+describe('scoreComplexity', () => {
+  it('sums the points of the matched default factors and maps the score to a level', () => {
+    const form = quoteForm({
+      services: ['business-tax'],
+      businessTax: businessTaxDetails({ businessType: 'S-Corporation', annualRevenue: '$1,000,000 - $5,000,000', numberOfEmployees: '51-100' })
+    });
+
+    expect(scoreComplexity(form)).toEqual({
+      complexity: 'high',
+      breakdown: {
+        score: 6,
+        factors: [
+          { factorId: 'revenue-1m-5m', label: 'Revenue $1,000,000 - $5,000,000', points: 3 },
+          { factorId: 's-corporation', label: 'S-Corporation', points: 1 },
+          { factorId: 'employees-51-100', label: '51-100 employees', points: 2 }
+        ]
+      }
+    });
+  });
+
+  it('takes the business answers from Bookkeeping when Business Tax leaves them empty', () => {
+    const form = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails({ businessType: 'C-Corporation' }) });
+
+    expect(scoreComplexity(form)).toMatchObject({ complexity: 'medium', breakdown: { score: 2 } });
+  });
+
+  it('is low when nothing matches', () => {
+    expect(scoreComplexity(quoteForm())).toEqual({ complexity: 'low', breakdown: { score: 0, factors: [] } });
+  });
+
+  it('scores against a tenant model, each threshold being the minimum score for its level', () => {
+    const form = (numberOfOwners: number, isFirstYearEntity: boolean) =>
+      quoteForm({ services: ['business-tax'], businessTax: businessTaxDetails({ numberOfOwners, isFirstYearEntity }) });
+
+    expect(scoreComplexity(form(2, true), ownersModel).complexity).toBe('medium');
+    expect(scoreComplexity(form(4, false), ownersModel).complexity).toBe('high');
+    expect(scoreComplexity(form(4, true), ownersModel).complexity).toBe('very-high');
+  });
+
+  it('sets the quote\'s complexity from the model passed to calculateQuote', () => {
+    const form = quoteForm({ services: ['business-tax'], businessTax: businessTaxDetails({ numberOfOwners: 5 }) });
+    const quote = calculateQuote(form, [], [], { complexityModel: ownersModel });
+
+    expect(quote.complexity).toBe('high');
+    expect(quote.complexityBreakdown.factors.map(factor => factor.factorId)).toEqual(['many-owners']);
+  });
+});
+
+describe('validateComplexityModel', () => {
+  it('accepts the default model', () => {
+    expect(validateComplexityModel(defaultComplexityModel)).toEqual([]);
+  });
+
+  it('reports thresholds out of order and duplicate factors', () => {
+    expect(validateComplexityModel({
+      factors: [...ownersModel.factors, ownersModel.factors[0]],
+      thresholds: { 'medium': 4, 'high': 3, 'very-high': 5 }
+    })).toEqual([
+      'Complexity thresholds must be ascending (medium 4, high 3, very-high 5)',
+      'Complexity factor "many-owners" is defined more than once'
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { FormData, ComplexityBreakdown, ComplexityLevel, ComplexityModel, ConditionGroup, ComparisonOperator } from '../types/quote';
+import { evaluateConditionGroup } from './pricingConditions';
+
+/**
+ * Complexity scoring - QuoteData.complexity
+ *
+ * Factors are condition groups (the same engine and JSON format as pricing rule
+ * Trigger Conditions) worth a number of points. The matched points are summed and
+ * the score is mapped to a level with the model's thresholds.
+ *
+ * Loading the model from Airtable lives in complexityService.ts; this module has
+ * no environment dependencies.
+ */
+
+// The business answer comes from Business Tax when given, otherwise from Bookkeeping
+const businessAnswer = (field: string, operator: ComparisonOperator, value: string): ConditionGroup => ({
+  any: [
+    { field: `businessTax.${field}`, operator, value },
+    {
+      all: [
+        { field: `businessTax.${field}`, operator: 'isEmpty' },
+        { field: `bookkeeping.${field}`, operator, value }
+      ]
+    }
+  ]
+});
+
+// Default model (fallback if the tenant has no Complexity Factors table)
+export const defaultComplexityModel: ComplexityModel = {
+  factors: [
+    { factorId: 'revenue-over-5m', label: 'Revenue over $5,000,000', points: 4, conditions: businessAnswer('annualRevenue', 'contains', 'Over $5,000,000') },
+    { factorId: 'revenue-1m-5m', label: 'Revenue $1,000,000 - $5,000,000', points: 3, conditions: businessAnswer('annualRevenue', 'contains', '$1,000,000 - $5,000,000') },
+    { factorId: 'revenue-500k-1m', label: 'Revenue $500,000 - $1,000,000', points: 2, conditions: businessAnswer('annualRevenue', 'contains', '$500,000 - $1,000,000') },
+    { factorId: 'revenue-250k-500k', label: 'Revenue $250,000 - $500,000', points: 1, conditions: businessAnswer('annualRevenue', 'contains', '$250,000 - $500,000') },
+    { factorId: 'c-corporation', label: 'C-Corporation', points: 2, conditions: businessAnswer('businessType', 'equals', 'C-Corporation') },
+    { factorId: 's-corporation', label: 'S-Corporation', points: 1, conditions: businessAnswer('businessType', 'equals', 'S-Corporation') },
+    { factorId: 'partnership', label: 'Partnership', points: 1, conditions: businessAnswer('businessType', 'equals', 'Partnership') },
+    { factorId: 'employees-over-100', label: 'Over 100 employees', points: 3, conditions: businessAnswer('numberOfEmployees', 'contains', 'Over 100') },
+    { factorId: 'employees-51-100', label: '51-100 employees', points: 2, conditions: businessAnswer('numberOfEmployees', 'contains', '51-100') },
+    { factorId: 'employees-26-50', label: '26-50 employees', points: 1, conditions: businessAnswer('numberOfEmployees', 'contains', '26-50') },
+    {
+      factorId: 'multi-state-operations',
+      label: 'Multi-state operations',
+      points: 1,
+      conditions: { all: [{ field: 'businessTax.otherSituations', operator: 'contains', value: 'Multi-state operations' }] }
+    },
+    {
+      factorId: 'international-transactions',
+      label: 'International transactions',
+      points: 2,
+      conditions: { all: [{ field: 'businessTax.otherSituations', operator: 'contains', value: 'International transactions' }] }
+    },
+    {
+      factorId: 'multi-state-income',
+      label: 'Income from multiple states',
+      points: 1,
+      conditions: { all: [{ field: 'individualTax.additionalConsiderations', operator: 'contains', value: 'Income from multiple states' }] }
+    }
+  ],
+  thresholds: { 'medium': 2, 'high': 5, 'very-high': 8 }
+};
+
+/**
+ * Check a complexity model's thresholds and factors
+ * Returns one message per problem so the loader can report them together.
+ */
+export const validateComplexityModel = (model: ComplexityModel): string[] => {
+  const issues: string[] = [];
+  const { thresholds } = model;
+
+  if (!(thresholds.medium <= thresholds.high && thresholds.high <= thresholds['very-high'])) {
+    issues.push(
+      `Complexity thresholds must be ascending (medium ${thresholds.medium}, high ${thresholds.high}, very-high ${thresholds['very-high']})`
+    );
+  }
+
+  const seen = new Set<string>();
+  model.factors.forEach(factor => {
+    if (seen.has(factor.factorId)) {
+      issues.push(`Complexity factor "${factor.factorId}" is defined more than once`);
+    }
+    seen.add(factor.factorId);
+  });
+
+  return issues;
+};
+
+/**
+ * Score form data against a complexity model
+ * Returns the level plus the factors that matched (for the quote and its trace).
+ */
+export const scoreComplexity = (
+  formData: FormData,
+  model: ComplexityModel = defaultComplexityModel
+): { complexity: ComplexityLevel; breakdown: ComplexityBreakdown } => {
+  const factors = model.factors
+    .filter(factor => evaluateConditionGroup(formData, factor.conditions))
+    .map(({ factorId, label, points }) => ({ factorId, label, points }));
+  const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+
+  let complexity: ComplexityLevel = 'low';
+  if (score >= model.thresholds['very-high']) complexity = 'very-high';
+  else if (score >= model.thresholds.high) complexity = 'high';
+  else if (score >= model.thresholds.medium) complexity = 'medium';
+
+  return { complexity, breakdown: { score, factors } };
+};
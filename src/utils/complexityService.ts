@@ -0,0 +1,213 @@
+import { ComplexityFactor, ComplexityLevel, ComplexityModel } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { ConditionSyntaxError, parseConditionGroup } from './pricingConditions';
+import { defaultComplexityModel, validateComplexityModel } from './complexityScoring';
+
+// The complexity model lives in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_COMPLEXITY_FACTORS_TABLE_NAME = 'Complexity Factors';
+const AIRTABLE_COMPLEXITY_TIERS_TABLE_NAME = 'Complexity Tiers';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one scoring factor
+export interface AirtableComplexityFactorRecord {
+  id: string;
+  fields: {
+    'Factor ID': string;
+    'Label'?: string;
+    'Points': number | string;
+    'Conditions': string;         // JSON condition group, same format as Trigger Conditions
+    'Active'?: boolean;
+  };
+}
+
+// One Airtable row = the minimum score for a level
+export interface AirtableComplexityTierRecord {
+  id: string;
+  fields: {
+    'Level': string;              // medium | high | very-high
+    'Minimum Score': number | string;
+  };
+}
+
+const TIER_LEVELS: Exclude<ComplexityLevel, 'low'>[] = ['medium', 'high', 'very-high'];
+
+/**
+ * Convert Complexity Factors rows into factors
+ * Problems that make a factor unusable are appended to `issues`
+ */
+export const buildComplexityFactors = (records: AirtableComplexityFactorRecord[], issues: string[]): ComplexityFactor[] => {
+  const factors: ComplexityFactor[] = [];
+
+  for (const record of records) {
+    const fields = record.fields;
+    const factorId = fields['Factor ID']?.trim();
+    if (!factorId) {
+      issues.push(`Complexity Factors row ${record.id}: Factor ID is empty`);
+      continue;
+    }
+
+    const points = typeof fields['Points'] === 'number' ? fields['Points'] : parseFloat(String(fields['Points'] ?? ''));
+    if (isNaN(points)) {
+      issues.push(`Complexity factor "${factorId}": Points must be a number`);
+      continue;
+    }
+
+    if (!fields['Conditions'] || !String(fields['Conditions']).trim()) {
+      issues.push(`Complexity factor "${factorId}": Conditions is empty`);
+      continue;
+    }
+
+    try {
+      factors.push({
+        factorId,
+        label: fields['Label']?.trim() || factorId,
+        points,
+        conditions: parseConditionGroup(String(fields['Conditions']))
+      });
+    } catch (error) {
+      if (error instanceof ConditionSyntaxError) {
+        issues.push(`Complexity factor "${factorId}": Conditions - ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return factors;
+};
+
+/**
+ * Convert Complexity Tiers rows into thresholds (levels without a row keep the default)
+ */
+export const buildComplexityThresholds = (
+  records: AirtableComplexityTierRecord[],
+  issues: string[]
+): ComplexityModel['thresholds'] => {
+  const thresholds = { ...defaultComplexityModel.thresholds };
+
+  for (const record of records) {
+    const level = record.fields['Level']?.trim().toLowerCase() as Exclude<ComplexityLevel, 'low'>;
+    const minimum = typeof record.fields['Minimum Score'] === 'number'
+      ? record.fields['Minimum Score']
+      : parseFloat(String(record.fields['Minimum Score'] ?? ''));
+
+    if (!TIER_LEVELS.includes(level)) {
+      issues.push(`Complexity Tiers row ${record.id}: Level must be one of ${TIER_LEVELS.join(', ')} (got "${record.fields['Level'] ?? ''}")`);
+      continue;
+    }
+    if (isNaN(minimum)) {
+      issues.push(`Complexity tier "${level}": Minimum Score must be a number`);
+      continue;
+    }
+    thresholds[level] = minimum;
+  }
+
+  return thresholds;
+};
+
+// Fetch one optional table: null if the base doesn't have it
+const fetchOptionalTable = async <T>(baseId: string, apiKey: string, tableName: string, filter = ''): Promise<T[] | null> => {
+  const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(tableName)}${filter}`;
+  const response = await fetch(url, {
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (response.status === 403 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.records || [];
+};
+
+// Fetch the complexity model from Airtable
+export const fetchComplexityModel = async (airtableConfig?: AirtableConfig): Promise<ComplexityModel> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // Return the default model if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. Using default complexity model.');
+    return defaultComplexityModel;
+  }
+
+  try {
+    const [factorRecords, tierRecords] = await Promise.all([
+      fetchOptionalTable<AirtableComplexityFactorRecord>(baseId, apiKey, AIRTABLE_COMPLEXITY_FACTORS_TABLE_NAME, '?filterByFormula={Active}=TRUE()'),
+      fetchOptionalTable<AirtableComplexityTierRecord>(baseId, apiKey, AIRTABLE_COMPLEXITY_TIERS_TABLE_NAME)
+    ]);
+
+    // Tenants without the tables keep the built-in model
+    if (factorRecords === null && tierRecords === null) {
+      console.log('No Complexity Factors table in pricing base - using default complexity model');
+      return defaultComplexityModel;
+    }
+
+    const issues: string[] = [];
+    const model: ComplexityModel = {
+      factors: factorRecords === null ? defaultComplexityModel.factors : buildComplexityFactors(factorRecords, issues),
+      thresholds: buildComplexityThresholds(tierRecords || [], issues)
+    };
+    issues.push(...validateComplexityModel(model));
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid complexity model:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched complexity model from Airtable: ${model.factors.length} factor(s), thresholds`, model.thresholds);
+    return model;
+
+  } catch (error) {
+    // A broken model must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching complexity model from Airtable:', error);
+    console.log('Falling back to default complexity model');
+    return defaultComplexityModel;
+  }
+};
+
+// Cache complexity models to avoid repeated API calls (tenant-scoped)
+const complexityModelCache = new Map<string, { model: ComplexityModel; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedComplexityModel = async (airtableConfig?: AirtableConfig): Promise<ComplexityModel> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = complexityModelCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.model;
+  }
+
+  const model = await fetchComplexityModel(airtableConfig);
+  complexityModelCache.set(cacheKey, { model, timestamp: now });
+
+  return model;
+};
+
+// Clear complexity model cache (useful for testing or manual refresh)
+export const clearComplexityModelCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    complexityModelCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    complexityModelCache.clear();
+  }
+};
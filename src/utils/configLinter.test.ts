@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { RawConfigRecord } from './configSchema';
+import { lintConfiguration } from './configLinter';
+import { CALENDAR_FIELDS } from './filingCalendar';
+
+const pricingRow = (id: string, fields: Record<string, unknown>): RawConfigRecord => ({
+  id,
+  fields: { 'Service ID': 'business-tax', 'Pricing Type': 'Add-on', 'Billing Frequency': 'One-Time Fee', 'Active': 'checked', ...fields }
+});
+
+const ownerRule = (id: string, fields: Record<string, unknown> = {}): RawConfigRecord =>
+  pricingRow(id, {
+    'Pricing Rule ID': `business-tax-additional-owners-${id}`,
+    'Calculation Method': 'per-unit',
+    'Unit Price': 50,
+    'Quantity Source Field': 'businessTax.numberOfOwners',
+    'Included Units': 2,
+    ...fields
+  });
+
+const entityType = (value: string) => JSON.stringify({ field: 'businessTax.entityType', operator: 'equals', value });
+
+describe('lintConfiguration per-unit rules billing the same quantity', () => {
+  it('reports rules nothing tells apart, whatever their IDs', () => {
+    const issues = lintConfiguration({ 'Pricing Variables': [ownerRule('llc'), ownerRule('partnership')] });
+
+    expect(issues.map(issue => [issue.rowLabel, issue.column, issue.severity])).toEqual([
+      ['business-tax-additional-owners-llc', 'Trigger Conditions', 'error'],
+      ['business-tax-additional-owners-partnership', 'Trigger Conditions', 'error']
+    ]);
+    expect(issues[0].problem).toContain('same triggers as business-tax-additional-owners-partnership');
+  });
+
+  it('accepts rules limited by their conditions, on other dates or billed per other quantities', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        ownerRule('llc', { 'Trigger Conditions': entityType('LLC') }),
+        ownerRule('partnership', { 'Trigger Conditions': entityType('Partnership') }),
+        ownerRule('scorp', { 'Effective To': '2025-12-31' }),
+        ownerRule('scorp-2026', { 'Effective From': '2026-01-01' }),
+        ownerRule('states', { 'Quantity Source Field': 'businessTax.additionalStateCount' }),
+        ownerRule('retired', { 'Active': '' })
+      ]
+    });
+
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('lintConfiguration Included Units', () => {
+  it('warns about per-unit rules that bill from the first unit without saying so', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        ownerRule('partnership', { 'Included Units': '' }),
+        ownerRule('states', { 'Quantity Source Field': 'businessTax.additionalStateCount', 'Included Units': 0 }),
+        pricingRow('hourly', { 'Pricing Rule ID': 'business-tax-consulting', 'Calculation Method': 'per-unit', 'Billing Frequency': 'Hourly' })
+      ]
+    });
+
+    expect(issues).toEqual([expect.objectContaining({ rowLabel: 'business-tax-additional-owners-partnership', column: 'Included Units', severity: 'warning' })]);
+  });
+});
+
+const formField = (id: string, fields: Record<string, unknown>): RawConfigRecord => ({
+  id,
+  fields: { 'Service ID': 'business-tax', 'Field Type': 'number', 'Active': 'checked', ...fields }
+});
+
+const entityTypeField = formField('recEntity', {
+  'Field Name': 'entityType',
+  'Field Type': 'dropdown',
+  'Field Options': JSON.stringify(['LLC', 'S-Corporation', { value: 'Partnership', label: 'Partnership (1065)' }])
+});
+
+describe('lintConfiguration duplicate Pricing Rule IDs', () => {
+  it('reports rows of one ID in effect on the same day, active or not, but not versions', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        pricingRow('rec1', { 'Pricing Rule ID': 'business-tax-base' }),
+        pricingRow('rec2', { 'Pricing Rule ID': 'business-tax-base', 'Active': '' }),
+        pricingRow('rec3', { 'Pricing Rule ID': 'business-tax-review', 'Effective To': '2025-12-31' }),
+        pricingRow('rec4', { 'Pricing Rule ID': 'business-tax-review', 'Effective From': '2026-01-01' })
+      ]
+    });
+
+    expect(issues.map(issue => [issue.row, issue.problem])).toEqual([
+      ['rec1', '"business-tax-base" is also used by rec2'],
+      ['rec2', '"business-tax-base" is also used by rec1']
+    ]);
+  });
+});
+
+describe('lintConfiguration form field references', () => {
+  it('reports triggers on missing or inactive fields and values the field cannot produce', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        pricingRow('rec1', { 'Pricing Rule ID': 'scorp', 'Trigger Form Field': 'entityType', 'Comparison Logic': 'equals', 'Required Form Field': 'S Corporation' }),
+        pricingRow('rec2', { 'Pricing Rule ID': 'partnership', 'Trigger Conditions': entityType('partnership') }),
+        pricingRow('rec3', { 'Pricing Rule ID': 'states', 'Trigger Conditions': JSON.stringify({ field: 'businessTax.stateCount', operator: 'greaterThan', value: 0 }) }),
+        pricingRow('rec4', { 'Pricing Rule ID': 'assets', 'Calculation Method': 'per-unit', 'Quantity Source Field': 'fixedAssets', 'Included Units': 0 }),
+        pricingRow('rec5', { 'Pricing Rule ID': 'deadline', 'Trigger Conditions': JSON.stringify({ field: 'calendar.dueDate', operator: 'isNotEmpty' }) })
+      ],
+      'Form Fields': [entityTypeField, formField('recAssets', { 'Field Name': 'fixedAssets', 'Active': '' })]
+    });
+
+    expect(issues.map(issue => [issue.rowLabel, issue.column, issue.problem])).toEqual([
+      ['scorp', 'Required Form Field', '"S Corporation" is not an option of entityType (LLC, S-Corporation, Partnership)'],
+      ['states', 'Trigger Conditions', '"businessTax.stateCount" doesn\'t match any Form Field of business-tax'],
+      ['assets', 'Quantity Source Field', 'Form Field "fixedAssets" is inactive'],
+      ['deadline', 'Trigger Conditions', `"calendar.dueDate" is not a calendar value (${CALENDAR_FIELDS.map(field => `calendar.${field}`).join(', ')})`]
+    ]);
+  });
+
+  it('reports formula variables that resolve to nothing', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        pricingRow('rec1', { 'Pricing Rule ID': 'business-tax-base' }),
+        pricingRow('rec2', {
+          'Pricing Rule ID': 'business-tax-formula',
+          'Calculation Method': 'formula',
+          'Formula Expression': '{{pricingRule.business-tax-base}} + {{pricingRule.retired}} + {{businessTax.numberOfOwners}} + {{businessTax.owners}} + {{bookkeepingTotal}} + {{payrollTotal}} + {{lookup.anything}}'
+        })
+      ],
+      'Services': [{ id: 'recSvc', fields: { 'Service ID': 'business-tax', 'Active': 'checked', 'Total Variable Name': 'bookkeepingTotal' } }],
+      'Form Fields': [formField('recOwners', { 'Field Name': 'numberOfOwners' })]
+    });
+
+    expect(issues.map(issue => issue.problem)).toEqual([
+      '{{pricingRule.retired}} doesn\'t match any active pricing rule',
+      '{{businessTax.owners}} doesn\'t match any active Form Field',
+      '{{payrollTotal}} is not a service Total Variable Name or a form field (use service.field)'
+    ]);
+  });
+});
+
+describe('lintConfiguration coverage', () => {
+  it('warns about active services with no pricing and pricing questions no rule reads', () => {
+    const issues = lintConfiguration({
+      'Pricing Variables': [
+        pricingRow('rec1', { 'Pricing Rule ID': 'business-tax-base', 'Trigger Conditions': entityType('LLC') }),
+        pricingRow('rec2', { 'Service ID': 'payroll', 'Pricing Rule ID': 'payroll-base', 'Active': '' })
+      ],
+      'Services': [
+        { id: 'recTax', fields: { 'Service ID': 'business-tax', 'Active': 'checked' } },
+        { id: 'recPayroll', fields: { 'Service ID': 'payroll', 'Active': 'checked' } }
+      ],
+      'Form Fields': [
+        { ...entityTypeField, fields: { ...entityTypeField.fields, 'Has Pricing Potential': 'Yes' } },
+        formField('recOwners', { 'Field Name': 'numberOfOwners', 'Has Pricing Potential': 'Yes' })
+      ]
+    });
+
+    expect(issues.map(issue => [issue.table, issue.rowLabel, issue.problem, issue.severity])).toEqual([
+      ['Services', 'payroll', 'has no active pricing rules', 'warning'],
+      ['Form Fields', 'numberOfOwners', 'no active pricing rule uses businessTax.numberOfOwners', 'warning']
+    ]);
+  });
+});
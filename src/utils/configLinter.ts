@@ -0,0 +1,316 @@
+import { ConfigIssue, ConfigTable, RawConfigRecord, readConfigText } from './configSchema';
+import { parseConditionGroup } from './pricingConditions';
+import { FormulaError, getFormulaVariables, parseFormula } from './formulaParser';
+import { LOOKUP_PREFIX } from './rateCards';
+import { effectiveRangesOverlap, parsePricingDate } from './pricingVersions';
+import { CALENDAR_FIELDS, CALENDAR_PREFIX, CalendarFields } from './filingCalendar';
+import { PROGRAM_PREFIX } from './discountPrograms';
+import { isHourlyBillingFrequency } from './billingFrequencies';
+import { ConditionNode } from '../types/quote';
+
+/**
+ * Configuration linter
+ *
+ * Cross-table checks that per-row validation (configSchema) can't make: does
+ * the form field a rule triggers on exist, is the value it waits for one of the
+ * field's options, does every formula variable resolve, is every service priced
+ * and every pricing-relevant question used. The calculator treats all of these
+ * as "no match" or 0 at runtime, so they only show up as wrong quotes.
+ *
+ * Only active rows are linted, except for duplicate Pricing Rule IDs (rows of
+ * the same ID with effective dates that don't overlap are versions). Checks
+ * that need a table that wasn't supplied are skipped, so the CLI can lint a
+ * single export. Rate card references are checked when the pricing loads;
+ * discount program references (program.<id>) aren't checked - the programs
+ * are in their own table.
+ */
+
+export type ConfigTables = { [table in ConfigTable]?: RawConfigRecord[] };
+
+// FormData keys that aren't Form Fields rows
+const ROOT_FORM_FIELDS = ['services', 'firstName', 'lastName', 'email', 'phone'];
+
+// Formula variables computed by the calculator rather than read from the form
+const SPECIAL_FORMULA_VARIABLES = ['monthlyBookkeepingRate'];
+
+// Operators whose value is compared to the field's text (numeric and existence checks aren't)
+const TEXT_OPERATORS = ['equals', 'notEquals', 'contains', 'notContains', 'hasItem', 'notHasItem', 'includes'];
+const WHOLE_OPTION_OPERATORS = ['equals', 'notEquals', 'hasItem', 'notHasItem'];
+const OPTION_FIELD_TYPES = ['dropdown', 'radio', 'multi-select'];
+
+interface LintFormField {
+  record: RawConfigRecord;
+  serviceKey: string; // FormData key of the service, e.g. individualTax
+  fieldName: string;
+  active: boolean;
+  options?: string[];
+}
+
+interface FieldReference {
+  column: string;
+  field: string;
+  operator?: string;
+  value?: string;
+}
+
+const text = (record: RawConfigRecord, column: string): string => readConfigText(record.fields[column]) || '';
+
+const isChecked = (value: string): boolean => ['checked', 'true', '1', 'yes'].includes(value.toLowerCase());
+
+// "individual-tax" -> "individualTax", the key its answers are stored under
+const toServiceKey = (serviceId: string): string => serviceId.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+
+// Options of a dropdown / radio / multi-select field; strings or {value, label} objects
+const readOptions = (record: RawConfigRecord): string[] | undefined => {
+  if (!OPTION_FIELD_TYPES.includes(text(record, 'Field Type'))) return undefined;
+
+  try {
+    const parsed = JSON.parse(text(record, 'Field Options'));
+    if (!Array.isArray(parsed)) return undefined;
+    const options = parsed
+      .map(option => (option && typeof option === 'object' ? option.value ?? option.label : option))
+      .filter(option => option !== undefined && option !== null && String(option).trim() !== '')
+      .map(option => String(option).trim());
+    return options.length > 0 ? options : undefined;
+  } catch {
+    // Invalid JSON is reported by the Form Fields schema check
+    return undefined;
+  }
+};
+
+// Flatten a condition group into its clauses
+const collectClauses = (node: ConditionNode, column: string): FieldReference[] => {
+  if ('field' in node) {
+    const value = node.value === undefined || node.value === null ? undefined : String(node.value);
+    return [{ column, field: node.field, operator: node.operator, value }];
+  }
+  return [...(node.all || []), ...(node.any || []), ...(node.none || [])].flatMap(child => collectClauses(child, column));
+};
+
+/**
+ * Find the form field a rule reference points at, the way getFieldValueSmart
+ * resolves it: "service.field" as written, or a short name within the rule's service
+ */
+const resolveField = (fields: LintFormField[], reference: string, serviceId: string): LintFormField[] => {
+  if (reference.includes('.')) {
+    const [serviceKey, ...rest] = reference.split('.');
+    const fieldName = rest.join('.');
+    return fields.filter(field => field.serviceKey === serviceKey && field.fieldName === fieldName);
+  }
+  const serviceKey = toServiceKey(serviceId);
+  return fields.filter(field => field.serviceKey === serviceKey && field.fieldName === reference);
+};
+
+/**
+ * Run every cross-table check over the supplied tables
+ */
+export const lintConfiguration = (tables: ConfigTables): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const pricingRows = tables['Pricing Variables'];
+  const serviceRows = tables['Services'];
+  const formFieldRows = tables['Form Fields'];
+
+  const report = (table: ConfigTable, record: RawConfigRecord, labelColumn: string, column: string, problem: string, severity: ConfigIssue['severity']) => {
+    issues.push({ table, row: record.id, rowLabel: text(record, labelColumn) || undefined, column, problem, severity });
+  };
+
+  const formFields: LintFormField[] | undefined = formFieldRows?.map(record => ({
+    record,
+    serviceKey: toServiceKey(text(record, 'Service ID')),
+    fieldName: text(record, 'Field Name'),
+    active: isChecked(text(record, 'Active')),
+    options: readOptions(record)
+  }));
+  const usedFields = new Set<LintFormField>();
+
+  if (pricingRows) {
+    // Duplicate Pricing Rule IDs - active or not, Airtable doesn't enforce uniqueness.
+    // Versions of a rule share its ID, so only rows in effect on the same day clash
+    const effectiveRange = (record: RawConfigRecord) => ({
+      effectiveFrom: parsePricingDate(text(record, 'Effective From')),
+      effectiveTo: parsePricingDate(text(record, 'Effective To'))
+    });
+    const rowsById = new Map<string, RawConfigRecord[]>();
+    pricingRows.forEach(record => {
+      const ruleId = text(record, 'Pricing Rule ID');
+      if (ruleId) rowsById.set(ruleId, [...(rowsById.get(ruleId) || []), record]);
+    });
+    rowsById.forEach((records, ruleId) => {
+      if (records.length < 2) return;
+      records.forEach(record => {
+        const others = records.filter(other => other !== record && effectiveRangesOverlap(effectiveRange(record), effectiveRange(other)));
+        if (others.length === 0) return;
+        const dated = [record, ...others].some(row => text(row, 'Effective From') || text(row, 'Effective To'));
+        report('Pricing Variables', record, 'Pricing Rule ID', 'Pricing Rule ID', `"${ruleId}" is also used by ${others.map(other => other.id).join(', ')}${dated ? ' on overlapping effective dates' : ''}`, 'error');
+      });
+    });
+
+    const activeRules = pricingRows.filter(record => isChecked(text(record, 'Active')));
+    const ruleIds = new Set(activeRules.map(record => text(record, 'Pricing Rule ID')));
+    const totalVariables = new Set(serviceRows?.map(record => text(record, 'Total Variable Name')).filter(Boolean));
+
+    // Per-unit rules of a service billing the same quantity need triggers that tell
+    // them apart (e.g. additional owners per entity type) - otherwise a quote bills
+    // the units once per rule
+    const triggerKey = (record: RawConfigRecord) => {
+      const field = text(record, 'Trigger Form Field');
+      const single = field ? `${field} ${text(record, 'Comparison Logic')} ${text(record, 'Required Form Field')}` : '';
+      return `${single}|${text(record, 'Trigger Conditions')}`;
+    };
+    const unitKey = (record: RawConfigRecord) =>
+      [text(record, 'Service ID'), text(record, 'Quantity Source Field'), text(record, 'Billing Frequency')].join('|');
+    const perUnitRules = activeRules.filter(record => text(record, 'Calculation Method') === 'per-unit' && text(record, 'Quantity Source Field'));
+    perUnitRules.forEach(record => {
+      const others = perUnitRules.filter(other =>
+        other !== record &&
+        unitKey(other) === unitKey(record) &&
+        triggerKey(other) === triggerKey(record) &&
+        effectiveRangesOverlap(effectiveRange(record), effectiveRange(other))
+      );
+      if (others.length === 0) return;
+      report('Pricing Variables', record, 'Pricing Rule ID', 'Trigger Conditions', `bills ${text(record, 'Quantity Source Field')} on the same triggers as ${others.map(other => text(other, 'Pricing Rule ID')).join(', ')} - add Trigger Conditions that tell them apart or each quote bills the units once per rule`, 'error');
+    });
+
+    activeRules.forEach(record => {
+      const serviceId = text(record, 'Service ID');
+      const references: FieldReference[] = [];
+
+      const triggerField = text(record, 'Trigger Form Field');
+      if (triggerField) {
+        references.push({
+          column: 'Trigger Form Field',
+          field: triggerField,
+          operator: text(record, 'Comparison Logic'),
+          value: text(record, 'Required Form Field')
+        });
+      }
+      const quantityField = text(record, 'Quantity Source Field');
+      if (quantityField) references.push({ column: 'Quantity Source Field', field: quantityField });
+
+      for (const column of ['Included Units', 'Estimated Hours Low', 'Estimated Hours High']) {
+        const units = text(record, column);
+        if (units && isNaN(Number(units)) && !units.startsWith(LOOKUP_PREFIX)) {
+          references.push({ column, field: units });
+        }
+      }
+
+      // Per-unit rules bill from the first unit unless told how many are included
+      const hourly = isHourlyBillingFrequency(text(record, 'Billing Frequency')) ||
+        !!text(record, 'Estimated Hours Low') || !!text(record, 'Estimated Hours High');
+      if (text(record, 'Calculation Method') === 'per-unit' && !hourly && !text(record, 'Included Units')) {
+        report('Pricing Variables', record, 'Pricing Rule ID', 'Included Units', 'is empty, so every unit is billed from the first - enter 0 if none are included', 'warning');
+      }
+
+      const conditions = text(record, 'Trigger Conditions');
+      if (conditions) {
+        try {
+          references.push(...collectClauses(parseConditionGroup(conditions), 'Trigger Conditions'));
+        } catch {
+          // Syntax errors are reported when the pricing loads
+        }
+      }
+
+      // Quote date and filing deadline values aren't Form Fields rows
+      const calendarReferences = references.filter(reference => reference.field.startsWith(CALENDAR_PREFIX));
+      calendarReferences.forEach(reference => {
+        if (!CALENDAR_FIELDS.includes(reference.field.slice(CALENDAR_PREFIX.length) as keyof CalendarFields)) {
+          report('Pricing Variables', record, 'Pricing Rule ID', reference.column, `"${reference.field}" is not a calendar value (${CALENDAR_FIELDS.map(field => `${CALENDAR_PREFIX}${field}`).join(', ')})`, 'error');
+        }
+      });
+
+      if (formFields) {
+        references.forEach(reference => {
+          if (ROOT_FORM_FIELDS.includes(reference.field) || calendarReferences.includes(reference)) return;
+          if (reference.field.startsWith(PROGRAM_PREFIX)) return;
+
+          const matches = resolveField(formFields, reference.field, serviceId);
+          const active = matches.filter(field => field.active);
+          matches.forEach(field => usedFields.add(field));
+
+          if (matches.length === 0) {
+            report('Pricing Variables', record, 'Pricing Rule ID', reference.column, `"${reference.field}" doesn't match any Form Field of ${serviceId || 'this service'}`, 'error');
+            return;
+          }
+          if (active.length === 0) {
+            report('Pricing Variables', record, 'Pricing Rule ID', reference.column, `Form Field "${reference.field}" is inactive`, 'error');
+            return;
+          }
+
+          // The value the rule waits for must be one the question can produce
+          const options = active.find(field => field.options)?.options;
+          if (!options || !reference.value || !TEXT_OPERATORS.includes(reference.operator || '')) return;
+
+          const wanted = reference.value.toLowerCase().trim();
+          const exact = WHOLE_OPTION_OPERATORS.includes(reference.operator || '');
+          const possible = options.some(option => exact
+            ? option.toLowerCase() === wanted
+            : option.toLowerCase().includes(wanted));
+          if (!possible) {
+            const column = reference.column === 'Trigger Form Field' ? 'Required Form Field' : reference.column;
+            report('Pricing Variables', record, 'Pricing Rule ID', column, `"${reference.value}" is not an option of ${reference.field} (${options.join(', ')})`, 'error');
+          }
+        });
+      }
+
+      // Formula variables: another rule, a rate card, a service total or a form answer
+      const formula = text(record, 'Formula Expression');
+      if (text(record, 'Calculation Method') !== 'formula' || !formula) return;
+
+      let variables: string[];
+      try {
+        variables = getFormulaVariables(parseFormula(formula));
+      } catch (error) {
+        // Syntax errors are reported when the pricing loads
+        if (error instanceof FormulaError) return;
+        throw error;
+      }
+
+      variables.forEach(variable => {
+        if (variable.startsWith(LOOKUP_PREFIX) || variable.startsWith(PROGRAM_PREFIX) || SPECIAL_FORMULA_VARIABLES.includes(variable)) return;
+
+        if (variable.startsWith('pricingRule.')) {
+          const ruleId = variable.slice('pricingRule.'.length);
+          if (!ruleIds.has(ruleId)) {
+            report('Pricing Variables', record, 'Pricing Rule ID', 'Formula Expression', `{{${variable}}} doesn't match any active pricing rule`, 'error');
+          }
+          return;
+        }
+
+        if (variable.includes('.')) {
+          if (!formFields) return;
+          const matches = resolveField(formFields, variable, serviceId);
+          matches.forEach(field => usedFields.add(field));
+          if (!matches.some(field => field.active)) {
+            report('Pricing Variables', record, 'Pricing Rule ID', 'Formula Expression', `{{${variable}}} doesn't match any active Form Field`, 'error');
+          }
+          return;
+        }
+
+        if (ROOT_FORM_FIELDS.includes(variable) || !serviceRows) return;
+        if (!totalVariables.has(variable)) {
+          report('Pricing Variables', record, 'Pricing Rule ID', 'Formula Expression', `{{${variable}}} is not a service Total Variable Name or a form field (use service.field)`, 'error');
+        }
+      });
+    });
+
+    // Active services nothing is priced for
+    serviceRows
+      ?.filter(record => isChecked(text(record, 'Active')))
+      .forEach(record => {
+        const serviceId = text(record, 'Service ID');
+        const priced = activeRules.some(rule => text(rule, 'Service ID') === serviceId);
+        if (serviceId && !priced) {
+          report('Services', record, 'Service ID', 'Service ID', 'has no active pricing rules', 'warning');
+        }
+      });
+
+    // Questions flagged as affecting the price that no rule reads
+    formFields
+      ?.filter(field => field.active && /yes|true|checked/i.test(text(field.record, 'Has Pricing Potential')) && !usedFields.has(field))
+      .forEach(field => {
+        report('Form Fields', field.record, 'Field Name', 'Has Pricing Potential', `no active pricing rule uses ${field.serviceKey}.${field.fieldName}`, 'warning');
+      });
+  }
+
+  return issues;
+};
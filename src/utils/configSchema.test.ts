@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { RawConfigRecord, formatConfigIssue, readConfigText, validateConfigRecords } from './configSchema';
+
+const pricingRow = (id: string, fields: Record<string, unknown> = {}): RawConfigRecord => ({
+  id,
+  fields: {
+    'Service ID': 'bookkeeping',
+    'Pricing Rule ID': `bookkeeping-${id}`,
+    'Rule Name': 'Bookkeeping',
+    'Pricing Type': 'Base Service',
+    'Billing Frequency': 'Monthly',
+    'Base Price': '$1,250.00',
+    ...fields
+  }
+});
+
+describe('validateConfigRecords', () => {
+  it('accepts rows written the way the loaders read them', () => {
+    const report = validateConfigRecords('Pricing Variables', [
+      pricingRow('rec1'),
+      pricingRow('rec2', {
+        'Base Price': 400,
+        'Active': true,
+        'Discount Type': 'percentage',
+        'Discount Value': '15%',
+        'Effective From': '1/15/2026',
+        'Trigger Conditions': '{"all": []}',
+        'Helper Column': 'ignored'
+      })
+    ]);
+
+    expect(report).toEqual({ table: 'Pricing Variables', rowsChecked: 2, quarantined: [], missingColumns: [], issues: [] });
+  });
+
+  it('quarantines rows with errors and keeps rows with only warnings', () => {
+    const report = validateConfigRecords('Pricing Variables', [
+      pricingRow('rec1', { 'Base Price': '$1,2x0' }),
+      pricingRow('rec2', { 'Pricing Type': 'add-on' }),
+      pricingRow('rec3', { 'Formula Input Fields': '"bookkeeping.bankAccounts"' }),
+      pricingRow('rec4', { 'Effective To': '2026-02-30', 'Trigger Conditions': '{all: []}' })
+    ]);
+
+    expect(report.quarantined).toEqual(['rec1', 'rec2', 'rec4']);
+    expect(report.issues.map(issue => [issue.row, issue.column, issue.severity, issue.problem])).toEqual([
+      ['rec1', 'Base Price', 'error', '"$1,2x0" is not a dollar amount (e.g. $1,250.00)'],
+      ['rec2', 'Pricing Type', 'error', '"add-on" must be written exactly as "Add-on"'],
+      ['rec3', 'Formula Input Fields', 'warning', '"\\"bookkeeping.bankAccounts\\"" must be a JSON array'],
+      ['rec4', 'Effective To', 'error', '"2026-02-30" is not a date (e.g. 2026-01-15 or 1/15/2026)'],
+      ['rec4', 'Trigger Conditions', 'error', expect.stringMatching(/^invalid JSON/)]
+    ]);
+  });
+
+  it('reports a required column no row fills in once for the table', () => {
+    const report = validateConfigRecords('Services', [
+      { id: 'rec1', fields: { 'Service ID': 'bookkeeping' } },
+      { id: 'rec2', fields: { 'Service ID': 'payroll', 'Service Order': 'first' } }
+    ]);
+
+    expect(report.missingColumns).toEqual(['Title']);
+    expect(report.quarantined).toEqual(['rec1', 'rec2']);
+    expect(report.issues.map(issue => [issue.row, issue.column, issue.problem])).toEqual([
+      ['every row', 'Title', 'required column is missing'],
+      ['rec2', 'Service Order', '"first" is not a number']
+    ]);
+  });
+
+  it('reports a required cell left empty in one row against that row', () => {
+    const report = validateConfigRecords('Form Fields', [
+      { id: 'rec1', fields: { 'Service ID': 'bookkeeping', 'Field Name': 'bankAccounts', 'Field Type': 'number', 'Field Label': 'Bank accounts' } },
+      { id: 'rec2', fields: { 'Service ID': 'bookkeeping', 'Field Name': 'creditCards', 'Field Type': 'number' } }
+    ]);
+
+    expect(report.quarantined).toEqual([]);
+    expect(report.issues).toEqual([{
+      table: 'Form Fields',
+      row: 'rec2',
+      rowLabel: 'creditCards',
+      column: 'Field Label',
+      problem: 'is required',
+      severity: 'warning'
+    }]);
+  });
+});
+
+describe('readConfigText', () => {
+  it('reads the first value of linked records and lookups', () => {
+    expect(readConfigText(['bookkeeping', 'payroll'])).toBe('bookkeeping');
+    expect(readConfigText({ name: ' Monthly ' })).toBe('Monthly');
+    expect(readConfigText(null)).toBeUndefined();
+  });
+});
+
+describe('formatConfigIssue', () => {
+  it('names the table, row, label and column', () => {
+    const [issue] = validateConfigRecords('Pricing Variables', [pricingRow('recAbc123', { 'Pricing Rule ID': 'bookkeeping-base', 'Base Price': '$1,2x0' })]).issues;
+
+    expect(formatConfigIssue(issue)).toBe(
+      'Pricing Variables recAbc123 (bookkeeping-base) - Base Price: "$1,2x0" is not a dollar amount (e.g. $1,250.00)'
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import { COMPARISON_OPERATORS } from './pricingConditions';
+import { parsePricingDate } from './pricingVersions';
+import { BILLING_FREQUENCIES as QUOTED_BILLING_FREQUENCIES, HOURLY_BILLING_FREQUENCY } from './billingFrequencies';
+
+/**
+ * Configuration schema validation
+ *
+ * Checks raw Pricing Variables, Services and Form Fields records (from the
+ * Airtable API or a CSV export) against the columns the loaders expect, before
+ * they are converted. A typo in a select value or a price that isn't a number
+ * used to become a never-matching or $0 rule; here it becomes a report entry
+ * (row, column, problem) instead.
+ *
+ * Errors mean the row can't be used as written - the loaders drop (quarantine)
+ * it and keep the rest. Warnings are kept but reported. A required column
+ * that no row fills in is a table-level error: the whole table is unusable.
+ *
+ * This module has no environment dependencies so the admin screen and the
+ * validate-config CLI share it.
+ */
+
+export type ConfigTable = 'Pricing Variables' | 'Services' | 'Form Fields';
+
+export interface ConfigIssue {
+  table: ConfigTable;
+  row: string;          // Airtable record ID, or "row N" for a CSV export
+  rowLabel?: string;    // Pricing Rule ID / Service ID / Field Name, when the row has one
+  column: string;
+  problem: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ConfigValidationReport {
+  table: ConfigTable;
+  rowsChecked: number;
+  quarantined: string[]; // Rows with at least one error
+  missingColumns: string[]; // Required columns no row has a value in
+  issues: ConfigIssue[];
+}
+
+export interface RawConfigRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+type ColumnType = 'text' | 'number' | 'currency' | 'percentage' | 'checkbox' | 'date' | 'select' | 'json' | 'json-array';
+
+interface ColumnSchema {
+  type: ColumnType;
+  required?: boolean;
+  values?: readonly string[];   // select: allowed values (exact match unless caseInsensitive)
+  caseInsensitive?: boolean;    // select: the loader lower-cases the value itself
+  severity?: 'error' | 'warning'; // Default error
+}
+
+interface TableSchema {
+  labelColumn: string;
+  columns: { [column: string]: ColumnSchema };
+}
+
+// The frequencies the calculator quotes, plus hourly rates
+const BILLING_FREQUENCIES = [...QUOTED_BILLING_FREQUENCIES, HOURLY_BILLING_FREQUENCY];
+
+export const CONFIG_SCHEMAS: { [table in ConfigTable]: TableSchema } = {
+  'Pricing Variables': {
+    labelColumn: 'Pricing Rule ID',
+    columns: {
+      'Service ID': { type: 'text', required: true },
+      'Pricing Rule ID': { type: 'text', required: true },
+      'Rule Name': { type: 'text', required: true, severity: 'warning' },
+      // "Hourly Rate" / "Hourly" are used by hourly additional services
+      'Pricing Type': { type: 'select', required: true, values: ['Base Service', 'Add-on', 'Discount', 'Requires Review', 'Hourly Rate'] },
+      'Base Price': { type: 'currency' },
+      'Billing Frequency': { type: 'select', required: true, values: BILLING_FREQUENCIES },
+      'Active': { type: 'checkbox' },
+      'Effective From': { type: 'date' },
+      'Effective To': { type: 'date' },
+      'Comparison Logic': { type: 'select', values: COMPARISON_OPERATORS },
+      'Trigger Conditions': { type: 'json' },
+      'Calculation Method': { type: 'select', values: ['simple', 'formula', 'per-unit', 'tiered'] },
+      'Per-Unit Pricing': { type: 'checkbox' },
+      'Unit Price': { type: 'currency' },
+      'Included Units': { type: 'text' },
+      'Advisory Discount Eligible': { type: 'checkbox' },
+      'Advisory Discount Percentage': { type: 'percentage' },
+      'Minimum Monthly Fee': { type: 'currency' },
+      'Minimum Monthly Fee (Advisory)': { type: 'currency' },
+      'Apply Minimum Fee': { type: 'checkbox' },
+      'Formula Input Fields': { type: 'json-array', severity: 'warning' },
+      'Minimum Value': { type: 'currency' },
+      'Maximum Value': { type: 'currency' },
+      'Price Variance': { type: 'percentage' },
+      'Tier Table': { type: 'json' },
+      'Discount Type': { type: 'select', values: ['Percentage', 'Fixed Amount', 'Fixed'], caseInsensitive: true },
+      'Discount Value': { type: 'percentage' },
+      'Discount Targets': { type: 'json' },
+      'Discount Priority': { type: 'number' },
+      'Discount Stacking': { type: 'select', values: ['Stackable', 'Exclusive'], caseInsensitive: true },
+      'Review Scope': { type: 'select', values: ['Service', 'Whole Quote'], caseInsensitive: true },
+      'Review Reason': { type: 'text' }
+    }
+  },
+  'Services': {
+    labelColumn: 'Service ID',
+    columns: {
+      'Service ID': { type: 'text', required: true },
+      'Title': { type: 'text', required: true },
+      'Service Order': { type: 'number', severity: 'warning' },
+      'Active': { type: 'checkbox' },
+      'Featured': { type: 'checkbox' },
+      'Has Detail Form': { type: 'checkbox' },
+      'Benefits': { type: 'json-array', severity: 'warning' },
+      'Included Features Card List': { type: 'json-array', severity: 'warning' },
+      'Billing Frequency': { type: 'select', values: BILLING_FREQUENCIES }
+    }
+  },
+  'Form Fields': {
+    labelColumn: 'Field Name',
+    columns: {
+      'Service ID': { type: 'text', required: true },
+      'Field Name': { type: 'text', required: true },
+      'Field Type': {
+        type: 'select',
+        required: true,
+        values: ['text', 'number', 'dropdown', 'checkbox', 'textarea', 'radio', 'multi-select', 'email', 'phone']
+      },
+      'Field Label': { type: 'text', required: true, severity: 'warning' },
+      'Field Options': { type: 'json' },
+      'Required': { type: 'checkbox' },
+      'Active': { type: 'checkbox' },
+      'Display Order': { type: 'number', severity: 'warning' },
+      'Conditional Logic': { type: 'json' },
+      'Field Width': { type: 'select', values: ['full', 'half'], severity: 'warning' },
+      'Layout Type': { type: 'select', values: ['standard', 'checkbox-grid', 'radio-group', 'textarea'], severity: 'warning' },
+      'Columns': { type: 'number', severity: 'warning' },
+      'Row Group': { type: 'number', severity: 'warning' }
+    }
+  }
+};
+
+const CHECKBOX_VALUES = ['checked', 'true', 'false', '1', '0', 'yes', 'no'];
+
+/**
+ * Text of a raw cell value
+ * Linked records / lookups arrive as arrays or {name} objects - the first value is used
+ */
+export const readConfigText = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return readConfigText(value[0]);
+  if (typeof value === 'object' && 'name' in (value as object)) return readConfigText((value as { name: unknown }).name);
+  return String(value).trim();
+};
+
+const isNumeric = (text: string): boolean => text !== '' && !isNaN(Number(text));
+
+// Returns the problem with a value, or undefined if it is acceptable
+const checkValue = (value: unknown, schema: ColumnSchema): string | undefined => {
+  const text = readConfigText(value) ?? '';
+  const shown = JSON.stringify(text);
+
+  switch (schema.type) {
+    case 'number':
+      return typeof value === 'number' || isNumeric(text) ? undefined : `${shown} is not a number`;
+    case 'currency':
+      return typeof value === 'number' || isNumeric(text.replace(/[$,]/g, ''))
+        ? undefined
+        : `${shown} is not a dollar amount (e.g. $1,250.00)`;
+    case 'percentage':
+      return typeof value === 'number' || isNumeric(text.replace(/[$,%]/g, ''))
+        ? undefined
+        : `${shown} is not a percentage or amount (e.g. 15% or 0.15)`;
+    case 'checkbox':
+      return typeof value === 'boolean' || CHECKBOX_VALUES.includes(text.toLowerCase())
+        ? undefined
+        : `${shown} is not a checkbox value (checked / true / false)`;
+    case 'date':
+      return parsePricingDate(text) ? undefined : `${shown} is not a date (e.g. 2026-01-15 or 1/15/2026)`;
+    case 'select': {
+      const allowed = schema.values || [];
+      if (allowed.includes(text)) return undefined;
+      const caseMatch = allowed.find(option => option.toLowerCase() === text.toLowerCase());
+      if (caseMatch) {
+        return schema.caseInsensitive ? undefined : `${shown} must be written exactly as "${caseMatch}"`;
+      }
+      return `${shown} is not one of ${allowed.join(', ')}`;
+    }
+    case 'json':
+    case 'json-array': {
+      if (typeof value === 'object') {
+        return schema.type === 'json-array' && !Array.isArray(value) ? 'must be a JSON array' : undefined;
+      }
+      try {
+        const parsed = JSON.parse(text);
+        return schema.type === 'json-array' && !Array.isArray(parsed) ? `${shown} must be a JSON array` : undefined;
+      } catch (error) {
+        return `invalid JSON (${error instanceof Error ? error.message : String(error)})`;
+      }
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Validate raw records of one table against its schema
+ * Columns the schema doesn't know are ignored (Airtable bases carry helper
+ * columns); known columns that are empty are only checked for `required`.
+ */
+export const validateConfigRecords = (table: ConfigTable, records: RawConfigRecord[]): ConfigValidationReport => {
+  const schema = CONFIG_SCHEMAS[table];
+  const issues: ConfigIssue[] = [];
+  const quarantined: string[] = [];
+
+  // A required column empty in every row is missing from the table (Airtable omits
+  // empty fields) - reported once for the table rather than once per row
+  const missingColumns = records.length === 0 ? [] : Object.entries(schema.columns)
+    .filter(([, columnSchema]) => columnSchema.required && (columnSchema.severity || 'error') === 'error')
+    .filter(([column]) => records.every(record => (readConfigText(record.fields[column]) ?? '') === ''))
+    .map(([column]) => column);
+  missingColumns.forEach(column => {
+    issues.push({ table, row: 'every row', column, problem: 'required column is missing', severity: 'error' });
+  });
+
+  records.forEach(record => {
+    const rowLabel = readConfigText(record.fields[schema.labelColumn]) || undefined;
+    let hasError = false;
+
+    Object.entries(schema.columns).forEach(([column, columnSchema]) => {
+      const value = record.fields[column];
+      const isEmpty = (readConfigText(value) ?? '') === '';
+      const severity = columnSchema.severity || 'error';
+
+      const problem = isEmpty
+        ? (columnSchema.required ? 'is required' : undefined)
+        : checkValue(value, columnSchema);
+
+      if (problem) {
+        if (!missingColumns.includes(column)) {
+          issues.push({ table, row: record.id, rowLabel, column, problem, severity });
+        }
+        hasError = hasError || severity === 'error';
+      }
+    });
+
+    if (hasError) {
+      quarantined.push(record.id);
+    }
+  });
+
+  return { table, rowsChecked: records.length, quarantined, missingColumns, issues };
+};
+
+/**
+ * One-line description of an issue, e.g.
+ * Pricing Variables recAbc123 (bookkeeping-base) - Base Price: "$1,2x0" is not a dollar amount (e.g. $1,250.00)
+ */
+export const formatConfigIssue = (issue: ConfigIssue): string =>
+  `${issue.table} ${issue.row}${issue.rowLabel ? ` (${issue.rowLabel})` : ''} - ${issue.column}: ${issue.problem}`;
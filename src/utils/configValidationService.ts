@@ -0,0 +1,79 @@
+import { TenantConfig } from './tenantService';
+import { ConfigIssue, ConfigTable, ConfigValidationReport, RawConfigRecord, validateConfigRecords } from './configSchema';
+import { ConfigTables, lintConfiguration } from './configLinter';
+
+/**
+ * Configuration Validation Service
+ * Fetches every row of a tenant's Pricing Variables, Services and Form Fields
+ * tables (active or not), validates them and runs the cross-table linter for
+ * the admin report
+ */
+
+export interface ConfigValidationResult {
+  reports: ConfigValidationReport[];
+  lintIssues: ConfigIssue[]; // Cross-table checks over the tables that could be read
+  fetchErrors: string[]; // Tables that couldn't be read (missing table, permissions, network)
+}
+
+// Fetch every record of a table, following Airtable's 100-record pages
+const fetchAllRecords = async (baseId: string, apiKey: string, tableName: string): Promise<RawConfigRecord[]> => {
+  const records: RawConfigRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(tableName)}${offset ? `?offset=${offset}` : ''}`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`${tableName}: Airtable API error ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+};
+
+/**
+ * Validate all three configuration tables for a tenant
+ */
+export const fetchConfigValidationReports = async (tenant: TenantConfig): Promise<ConfigValidationResult> => {
+  const tables: { table: ConfigTable; baseId: string; apiKey: string }[] = [
+    { table: 'Pricing Variables', baseId: tenant.airtable.pricingBaseId, apiKey: tenant.airtable.pricingApiKey },
+    { table: 'Services', baseId: tenant.airtable.servicesBaseId, apiKey: tenant.airtable.servicesApiKey },
+    {
+      table: 'Form Fields',
+      baseId: tenant.airtable.servicesBaseId || tenant.airtable.pricingBaseId,
+      apiKey: tenant.airtable.servicesApiKey || tenant.airtable.pricingApiKey
+    }
+  ];
+
+  const reports: ConfigValidationReport[] = [];
+  const fetchErrors: string[] = [];
+  const fetched: ConfigTables = {};
+
+  for (const { table, baseId, apiKey } of tables) {
+    try {
+      const records = await fetchAllRecords(baseId, apiKey, table);
+      fetched[table] = records;
+      const report = validateConfigRecords(table, records);
+      console.log(`[ConfigValidation] ${table}: ${report.rowsChecked} rows, ${report.issues.length} issue(s)`);
+      reports.push(report);
+    } catch (error) {
+      console.error(`[ConfigValidation] Could not read ${table}:`, error);
+      fetchErrors.push(error instanceof Error ? error.message : `${table}: ${String(error)}`);
+    }
+  }
+
+  const lintIssues = lintConfiguration(fetched);
+  console.log(`[ConfigValidation] Cross-table checks: ${lintIssues.length} issue(s)`);
+
+  return { reports, lintIssues, fetchErrors };
+};
@@ -0,0 +1,77 @@
+/**
+ * Minimal CSV reader for Airtable "Download CSV" exports
+ * Handles quoted values with commas, doubled quotes and line breaks, CRLF line
+ * endings and the UTF-8 BOM Airtable puts before the first header.
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse a CSV export into Airtable-shaped records
+ * Record IDs are "row N" (N = spreadsheet row, the header being row 1) so issues
+ * can be traced back to the file. Empty cells are left out, as in the API.
+ */
+export const parseCsvRecords = (text: string): { id: string; fields: Record<string, string> }[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map((cells, index) => {
+    const fields: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      const value = cells[columnIndex];
+      if (column && value !== undefined && value !== '') {
+        fields[column] = value;
+      }
+    });
+    return { id: `row ${index + 2}`, fields };
+  });
+};
@@ -0,0 +1,195 @@
+import { DiscountProgram } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { ConditionSyntaxError, parseConditionGroup } from './pricingConditions';
+import { DEFAULT_DISCOUNT_PRIORITY, DiscountTargetsSyntaxError, parseDiscountTargets } from './discounts';
+import { defaultDiscountPrograms } from './discountPrograms';
+
+// Discount programs live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_DISCOUNT_PROGRAMS_TABLE_NAME = 'Discount Programs';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one program
+export interface AirtableDiscountProgramRecord {
+  id: string;
+  fields: {
+    'Program ID': string;
+    'Label'?: string;
+    'Conditions'?: string;                    // JSON condition group, same format as Trigger Conditions
+    'Discount Percentage'?: number | string;  // 0.2 or "20%"; empty = each rule's Advisory Discount Percentage
+    'Discount Targets'?: string;              // JSON, same format as the Pricing Variables column
+    'Priority'?: number | string;             // Lower applies first (default 100)
+    'Stacking'?: string;                      // Stackable | Exclusive
+    'Active'?: boolean;
+  };
+}
+
+// Percent fields come through the API as fractions and in CSV exports as "20%"
+const parsePercentage = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const text = value.trim();
+  if (!text) return undefined;
+  return text.endsWith('%') ? parseFloat(text.slice(0, -1)) / 100 : parseFloat(text);
+};
+
+/**
+ * Convert Discount Programs rows into programs
+ * Problems that make a program unusable are appended to `issues`
+ */
+export const buildDiscountPrograms = (records: AirtableDiscountProgramRecord[], issues: string[]): DiscountProgram[] => {
+  const programs: DiscountProgram[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const programId = fields['Program ID']?.trim();
+    if (!programId) {
+      issues.push(`Discount Programs row ${record.id}: Program ID is empty`);
+      continue;
+    }
+    if (seen.has(programId)) {
+      issues.push(`Discount program "${programId}" is defined more than once`);
+      continue;
+    }
+    seen.add(programId);
+
+    const percentage = parsePercentage(fields['Discount Percentage']);
+    if (percentage !== undefined && (isNaN(percentage) || percentage <= 0 || percentage > 1)) {
+      issues.push(`Discount program "${programId}": Discount Percentage must be more than 0% and at most 100%`);
+      continue;
+    }
+
+    const rawPriority = fields['Priority'];
+    const priority = rawPriority === undefined || rawPriority === ''
+      ? DEFAULT_DISCOUNT_PRIORITY
+      : typeof rawPriority === 'number' ? rawPriority : parseFloat(rawPriority);
+    if (isNaN(priority)) {
+      issues.push(`Discount program "${programId}": Priority must be a number`);
+      continue;
+    }
+
+    const targetsJson = fields['Discount Targets']?.trim();
+    if (percentage !== undefined && !targetsJson) {
+      issues.push(`Discount program "${programId}": Discount Targets is empty - list the services or rules the ${Math.round(percentage * 10000) / 100}% applies to`);
+      continue;
+    }
+    if (percentage === undefined && targetsJson) {
+      issues.push(`Discount program "${programId}": Discount Targets needs a Discount Percentage (leave both empty to use each rule's Advisory Discount Percentage)`);
+      continue;
+    }
+
+    try {
+      const conditionsJson = fields['Conditions']?.trim();
+      programs.push({
+        programId,
+        label: fields['Label']?.trim() || programId,
+        conditions: conditionsJson ? parseConditionGroup(conditionsJson) : undefined,
+        percentage,
+        targets: targetsJson ? parseDiscountTargets(targetsJson) : undefined,
+        priority,
+        stacking: fields['Stacking']?.trim().toLowerCase() === 'exclusive' ? 'exclusive' : 'stack'
+      });
+    } catch (error) {
+      if (error instanceof ConditionSyntaxError) {
+        issues.push(`Discount program "${programId}": Conditions - ${error.message}`);
+        continue;
+      }
+      if (error instanceof DiscountTargetsSyntaxError) {
+        issues.push(`Discount program "${programId}": Discount Targets - ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return programs;
+};
+
+// Fetch discount programs from Airtable
+export const fetchDiscountPrograms = async (airtableConfig?: AirtableConfig): Promise<DiscountProgram[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // Return the default programs if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. Using default discount programs.');
+    return defaultDiscountPrograms;
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_DISCOUNT_PROGRAMS_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Tenants without the table keep the built-in Advisory discount
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Discount Programs table in pricing base - using default discount programs');
+      return defaultDiscountPrograms;
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const issues: string[] = [];
+    const programs = buildDiscountPrograms(data.records || [], issues);
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid discount programs:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched ${programs.length} discount program(s) from Airtable`);
+    return programs;
+
+  } catch (error) {
+    // Broken programs must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching discount programs from Airtable:', error);
+    console.log('Falling back to default discount programs');
+    return defaultDiscountPrograms;
+  }
+};
+
+// Cache discount programs to avoid repeated API calls (tenant-scoped)
+const discountProgramCache = new Map<string, { programs: DiscountProgram[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedDiscountPrograms = async (airtableConfig?: AirtableConfig): Promise<DiscountProgram[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = discountProgramCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.programs;
+  }
+
+  const programs = await fetchDiscountPrograms(airtableConfig);
+  discountProgramCache.set(cacheKey, { programs, timestamp: now });
+
+  return programs;
+};
+
+// Clear discount program cache (useful for testing or manual refresh)
+export const clearDiscountProgramCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    discountProgramCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    discountProgramCache.clear();
+  }
+};
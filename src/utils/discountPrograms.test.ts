@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DiscountProgram } from '../types/quote';
+import { applyDiscountPrograms, defaultDiscountPrograms, getProgramPercentage, selectDiscountPrograms } from './discountPrograms';
+import { toMoney } from './money';
+import { pricingRule, quoteForm } from './testFixtures';
+
+const program = (programId: string, overrides: Partial<DiscountProgram> = {}): DiscountProgram => ({
+  programId,
+  label: programId,
+  priority: 100,
+  stacking: 'stack',
+  ...overrides
+});
+
+const taxPrep = pricingRule('individual-tax-base', { serviceId: 'individual-tax', advisoryDiscountEligible: true, advisoryDiscountPercentage: 0.25 });
+
+describe('selectDiscountPrograms', () => {
+  it('applies the built-in Advisory program only when advisory itself is selected', () => {
+    expect(selectDiscountPrograms(defaultDiscountPrograms, quoteForm({ services: ['advisory'] }))).toHaveLength(1);
+    expect(selectDiscountPrograms(defaultDiscountPrograms, quoteForm({ services: ['advisory-lite'] }))).toEqual([]);
+  });
+
+  it('orders the matching programs by priority, then table order', () => {
+    const programs = [program('late', { priority: 200 }), program('first'), program('second')];
+    expect(selectDiscountPrograms(programs, quoteForm()).map(selected => selected.programId)).toEqual(['first', 'second', 'late']);
+  });
+});
+
+describe('getProgramPercentage', () => {
+  it('uses the rule\'s Advisory columns without a percentage, otherwise the targets', () => {
+    expect(getProgramPercentage(program('advisory'), taxPrep)).toBe(0.25);
+    expect(getProgramPercentage(program('members', { percentage: 0.2, targets: { services: ['individual-tax'] } }), taxPrep)).toBe(0.2);
+    expect(getProgramPercentage(program('members', { percentage: 0.2, targets: { services: ['bookkeeping'] } }), taxPrep)).toBe(0);
+  });
+});
+
+describe('applyDiscountPrograms', () => {
+  it('takes each program off what the programs before it left', () => {
+    const programs = [
+      program('members', { percentage: 0.2, targets: { services: ['individual-tax'] } }),
+      program('seasonal', { percentage: 0.5, targets: { services: ['individual-tax'] } })
+    ];
+    expect(applyDiscountPrograms(programs, taxPrep, toMoney(500)).price).toBe(toMoney(200));
+  });
+
+  it('skips an exclusive program once another one applied', () => {
+    const programs = [
+      program('members', { percentage: 0.2, targets: { services: ['individual-tax'] } }),
+      program('vip', { percentage: 0.5, stacking: 'exclusive', targets: { services: ['individual-tax'] } })
+    ];
+    const { price, steps } = applyDiscountPrograms(programs, taxPrep, toMoney(500));
+    expect(price).toBe(toMoney(400));
+    expect(steps[1]).toBe('vip: skipped - exclusive and another program already applied');
+  });
+});
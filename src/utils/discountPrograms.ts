@@ -0,0 +1,123 @@
+import { DiscountProgram, FormData, PricingConfig } from '../types/quote';
+import { evaluateConditionGroup } from './pricingConditions';
+import { DEFAULT_DISCOUNT_PRIORITY } from './discounts';
+import { Money, formatDollars, multiplyMoney, toDollars } from './money';
+
+/**
+ * Discount programs - membership discounts across services
+ *
+ * A program is "while these conditions match, take Y% off these rules", e.g.
+ * monthly bookkeeping clients get 20% off tax prep:
+ *   conditions {"all": [{"field": "services", "operator": "hasItem", "value": "bookkeeping"}]}
+ *   percentage 20%, targets {"services": ["individual-tax", "business-tax"]}
+ *
+ * Unlike Discount rules (discounts.ts), which are quote adjustments taken after
+ * every rule is priced, a program changes the rule prices themselves, so
+ * minimums and formulas referencing the rule see the discounted price.
+ *
+ * Precedence & stacking (per rule, as for Discount rules):
+ * - Programs apply in ascending Priority (default 100), then table order
+ * - Each program is taken off what is left after the programs before it
+ * - An "exclusive" program only applies to a rule no other program has
+ *   discounted yet, and once it applies no further programs do
+ *
+ * Formula rules are not discounted - they read {{program.<programId>}} and
+ * price the membership themselves, e.g. {{basePrice}} * ({{program.bookkeeping-members}} ? 0.8 : 1).
+ *
+ * Loading the programs from Airtable lives in discountProgramService.ts; this
+ * module has no environment dependencies.
+ */
+
+export const PROGRAM_PREFIX = 'program.';
+
+// Default programs (fallback if the tenant has no Discount Programs table):
+// the Advisory discount, priced by each rule's Advisory Discount columns
+export const defaultDiscountPrograms: DiscountProgram[] = [
+  {
+    programId: 'advisory',
+    label: 'Advisory discount',
+    conditions: { all: [{ field: 'services', operator: 'hasItem', value: 'advisory' }] },
+    priority: DEFAULT_DISCOUNT_PRIORITY,
+    stacking: 'stack'
+  }
+];
+
+/**
+ * The programs whose conditions match the form, in the order they apply
+ */
+export const selectDiscountPrograms = (programs: DiscountProgram[], formData: FormData): DiscountProgram[] =>
+  programs
+    .map((program, index) => ({ program, index }))
+    .filter(({ program }) => !program.conditions || evaluateConditionGroup(formData, program.conditions))
+    .sort((a, b) => a.program.priority - b.program.priority || a.index - b.index)
+    .map(({ program }) => program);
+
+/**
+ * The fraction a program takes off a rule (0 when the rule isn't one of its targets)
+ * A program without a percentage uses the rule's Advisory Discount columns.
+ */
+export const getProgramPercentage = (program: DiscountProgram, rule: PricingConfig): number => {
+  if (program.percentage === undefined) {
+    return rule.advisoryDiscountEligible ? rule.advisoryDiscountPercentage : 0;
+  }
+
+  const targets = program.targets;
+  if (!targets) return 0;
+  if (targets.services && !targets.services.includes(rule.serviceId)) return 0;
+  if (targets.rules && !targets.rules.includes(rule.pricingRuleId)) return 0;
+  if (targets.billingFrequencies && !targets.billingFrequencies.includes(rule.billingFrequency)) return 0;
+  return program.percentage;
+};
+
+/**
+ * Whether the client gets advisory rates: one of the selected programs is priced
+ * by the rules' Advisory Discount columns (the built-in Advisory discount, or a
+ * tenant program without a percentage). Rules' advisory minimum fees follow it.
+ */
+export const hasAdvisoryRates = (selected: DiscountProgram[]): boolean =>
+  selected.some(program => program.percentage === undefined);
+
+/**
+ * Take the selected programs off a rule price
+ * Returns the discounted price (to the cent after each program) and one trace
+ * step per program that touched it.
+ */
+export const applyDiscountPrograms = (
+  programs: DiscountProgram[],
+  rule: PricingConfig,
+  price: Money
+): { price: Money; steps: string[] } => {
+  const steps: string[] = [];
+  let discounted = price;
+  let appliedCount = 0;
+
+  for (const program of programs) {
+    const percentage = getProgramPercentage(program, rule);
+    if (percentage <= 0 || discounted <= 0) continue;
+
+    const exclusive = program.stacking === 'exclusive';
+    if (exclusive && appliedCount > 0) {
+      steps.push(`${program.label}: skipped - exclusive and another program already applied`);
+      continue;
+    }
+
+    const undiscounted = discounted;
+    discounted = multiplyMoney(discounted, 1 - percentage);
+    steps.push(`${program.label} ${Math.round(percentage * 10000) / 100}%: ${formatDollars(toDollars(undiscounted))} → ${formatDollars(toDollars(discounted))}`);
+    appliedCount++;
+
+    if (exclusive) break;
+  }
+
+  return { price: discounted, steps };
+};
+
+/**
+ * Form data with every program's status under `program.` (true when it applies),
+ * for conditions and formulas
+ */
+export const withProgramFields = (formData: FormData, programs: DiscountProgram[], selected: DiscountProgram[]): FormData =>
+  ({
+    ...formData,
+    program: Object.fromEntries(programs.map(program => [program.programId, selected.includes(program)]))
+  } as unknown as FormData);
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PricingConfig } from '../types/quote';
+import { DiscountTargetsSyntaxError, DiscountableCharge, applyDiscounts, parseDiscountTargets, validateDiscountRules } from './discounts';
+import { toMoney } from './money';
+import { pricingRule } from './testFixtures';
+
+const discount = (pricingRuleId: string, overrides: Partial<PricingConfig> = {}): PricingConfig =>
+  pricingRule(pricingRuleId, { pricingType: 'Discount', discountType: 'percentage', discountValue: 0.1, ...overrides });
+
+const charge = (ruleId: string, serviceId: string, dollars: number, billingFrequency: DiscountableCharge['billingFrequency'] = 'Monthly'): DiscountableCharge =>
+  ({ ruleId, serviceId, billingFrequency, amount: toMoney(dollars) });
+
+describe('parseDiscountTargets', () => {
+  it('reads any subset of the target lists', () => {
+    expect(parseDiscountTargets('{"services": [" bookkeeping "], "billingFrequencies": ["Monthly"]}'))
+      .toEqual({ services: ['bookkeeping'], billingFrequencies: ['Monthly'] });
+  });
+
+  it('rejects bad JSON, unknown keys and unknown billing frequencies', () => {
+    expect(() => parseDiscountTargets('{services: []}')).toThrow(DiscountTargetsSyntaxError);
+    expect(() => parseDiscountTargets('["bookkeeping"]')).toThrow('expected an object');
+    expect(() => parseDiscountTargets('{"service": ["bookkeeping"]}')).toThrow('unknown key(s) service');
+    expect(() => parseDiscountTargets('{"rules": [""]}')).toThrow('rules: expected an array of non-empty strings');
+    expect(() => parseDiscountTargets('{"billingFrequencies": ["Weekly"]}')).toThrow('unknown frequency Weekly');
+  });
+});
+
+describe('validateDiscountRules', () => {
+  it('reports the discount type and value problems of Discount rules only', () => {
+    expect(validateDiscountRules([
+      discount('no-type', { discountType: undefined }),
+      discount('zero', { discountValue: 0 }),
+      discount('too-much', { discountValue: 1.5 }),
+      discount('fine'),
+      { ...discount('not-a-discount', { discountValue: 0 }), pricingType: 'Add-on' }
+    ])).toEqual([
+      'Rule "no-type": Discount Type must be "Percentage" or "Fixed Amount"',
+      'Rule "zero": Discount Value must be greater than 0',
+      'Rule "too-much": percentage Discount Value must be at most 100% (got 150%)'
+    ]);
+  });
+});
+
+describe('applyDiscounts', () => {
+  it('spreads a discount over its charges so the lines add up to it exactly', () => {
+    const charges = [charge('bookkeeping-a', 'bookkeeping', 100), charge('bookkeeping-b', 'bookkeeping', 100), charge('bookkeeping-c', 'bookkeeping', 100)];
+    const adjustments = applyDiscounts([discount('bookkeeping-fixed', { discountType: 'fixed', discountValue: 10 })], charges);
+
+    expect(adjustments).toHaveLength(1);
+    expect(adjustments[0].amount).toBe(-1000);
+    expect(charges.map(remaining => remaining.amount)).toEqual([9666, 9667, 9667]);
+  });
+
+  it('defaults to the rule\'s own service and applies in priority order on what is left', () => {
+    const charges = [charge('bookkeeping-a', 'bookkeeping', 200), charge('tax-a', 'individual-tax', 500, 'One-Time Fee')];
+    const adjustments = applyDiscounts([
+      discount('second', { discountPriority: 200, discountValue: 0.5 }),
+      discount('first', { discountPriority: 10, discountValue: 0.1 })
+    ], charges);
+
+    expect(adjustments.map(adjustment => [adjustment.ruleId, adjustment.amount])).toEqual([['first', -2000], ['second', -9000]]);
+    expect(charges[1].amount).toBe(50000);
+  });
+
+  it('skips an exclusive discount once another one applied, and stops after one', () => {
+    const explain = vi.fn();
+    const adjustments = applyDiscounts([
+      discount('regular'),
+      discount('exclusive', { discountStacking: 'exclusive' })
+    ], [charge('bookkeeping-a', 'bookkeeping', 100)], explain);
+
+    expect(adjustments.map(adjustment => adjustment.ruleId)).toEqual(['regular']);
+    expect(explain).toHaveBeenCalledWith(expect.objectContaining({ pricingRuleId: 'exclusive' }), expect.stringContaining('Skipped'));
+
+    const exclusiveFirst = applyDiscounts([
+      discount('exclusive', { discountStacking: 'exclusive', discountPriority: 1 }),
+      discount('regular')
+    ], [charge('bookkeeping-a', 'bookkeeping', 100)]);
+    expect(exclusiveFirst.map(adjustment => adjustment.ruleId)).toEqual(['exclusive']);
+  });
+
+  it('keeps a fixed amount to its own billing frequency and caps it at the charges', () => {
+    const charges = [charge('bookkeeping-a', 'bookkeeping', 30), charge('bookkeeping-cleanup', 'bookkeeping', 500, 'One-Time Fee')];
+    const adjustments = applyDiscounts([discount('fixed', { discountType: 'fixed', discountValue: 50 })], charges);
+
+    expect(adjustments).toEqual([expect.objectContaining({ billingFrequency: 'Monthly', amount: -3000 })]);
+    expect(charges.map(remaining => remaining.amount)).toEqual([0, 50000]);
+  });
+});
@@ -0,0 +1,204 @@
+import { BillingFrequency, PricingConfig, DiscountTargets, QuoteAdjustment } from '../types/quote';
+import { Money, ZERO_MONEY, addMoney, allocateMoney, minMoney, multiplyMoney, subtractMoney, toDollars, toMoney } from './money';
+import { BILLING_FREQUENCIES, isBillingFrequency } from './billingFrequencies';
+
+/**
+ * Discount rules (Pricing Type = "Discount")
+ *
+ * A discount rule's conditions are evaluated like any other rule, but its price
+ * is only known once every other rule has been priced: it takes a percentage or
+ * fixed amount off the charges matched by its targets and is reported as a
+ * negative QuoteAdjustment.
+ *
+ * Precedence & stacking:
+ * - Discounts apply in ascending Discount Priority (default 100), then Airtable order
+ * - Each discount is calculated on what is left after the discounts before it
+ * - An "exclusive" discount only applies if no other discount has applied yet,
+ *   and once it applies no further discounts do
+ */
+
+export const DEFAULT_DISCOUNT_PRIORITY = 100;
+
+const TARGET_KEYS = ['services', 'rules', 'billingFrequencies'] as const;
+
+// One priced rule (or legacy adjustment) a discount can reduce
+export interface DiscountableCharge {
+  ruleId: string;
+  serviceId: string;
+  billingFrequency: BillingFrequency;
+  amount: Money;
+}
+
+// A QuoteAdjustment while the quote is priced - its amount stays in whole cents
+// until the quote is built
+export type MoneyAdjustment = Omit<QuoteAdjustment, 'amount'> & { amount: Money };
+
+/**
+ * Thrown when a "Discount Targets" JSON value isn't a valid target list
+ */
+export class DiscountTargetsSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiscountTargetsSyntaxError';
+  }
+}
+
+/**
+ * Parse the "Discount Targets" JSON column
+ * Accepts {"services": [...], "rules": [...], "billingFrequencies": [...]} (any subset).
+ */
+export const parseDiscountTargets = (json: string): DiscountTargets => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new DiscountTargetsSyntaxError(`invalid JSON (${(error as Error).message})`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new DiscountTargetsSyntaxError('expected an object with "services", "rules" and/or "billingFrequencies"');
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const unknownKeys = Object.keys(record).filter(key => !(TARGET_KEYS as readonly string[]).includes(key));
+  if (unknownKeys.length > 0) {
+    throw new DiscountTargetsSyntaxError(`unknown key(s) ${unknownKeys.join(', ')} (expected ${TARGET_KEYS.join(', ')})`);
+  }
+
+  const targets: DiscountTargets = {};
+  for (const key of TARGET_KEYS) {
+    const list = record[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string' || !item.trim())) {
+      throw new DiscountTargetsSyntaxError(`${key}: expected an array of non-empty strings`);
+    }
+    const values = list.map(item => (item as string).trim());
+    if (key === 'billingFrequencies') {
+      const invalid = values.filter(value => !isBillingFrequency(value));
+      if (invalid.length > 0) {
+        throw new DiscountTargetsSyntaxError(
+          `billingFrequencies: unknown frequency ${invalid.join(', ')} (expected ${BILLING_FREQUENCIES.join(', ')})`
+        );
+      }
+      targets.billingFrequencies = values as DiscountTargets['billingFrequencies'];
+    } else {
+      targets[key] = values;
+    }
+  }
+
+  return targets;
+};
+
+/**
+ * Check the discount-specific fields of Discount rules
+ * Returns one message per problem so the loader can report them together.
+ */
+export const validateDiscountRules = (pricingConfig: PricingConfig[]): string[] => {
+  const issues: string[] = [];
+
+  pricingConfig
+    .filter(rule => rule.pricingType === 'Discount')
+    .forEach(rule => {
+      const prefix = `Rule "${rule.pricingRuleId}"`;
+      if (rule.discountType !== 'percentage' && rule.discountType !== 'fixed') {
+        issues.push(`${prefix}: Discount Type must be "Percentage" or "Fixed Amount"`);
+        return;
+      }
+      if (!rule.discountValue || rule.discountValue <= 0) {
+        issues.push(`${prefix}: Discount Value must be greater than 0`);
+      } else if (rule.discountType === 'percentage' && rule.discountValue > 1) {
+        issues.push(`${prefix}: percentage Discount Value must be at most 100% (got ${rule.discountValue * 100}%)`);
+      }
+    });
+
+  return issues;
+};
+
+const matchesTargets = (rule: PricingConfig, charge: DiscountableCharge): boolean => {
+  const targets = rule.discountTargets;
+  const services = targets?.services ?? (targets?.rules ? undefined : [rule.serviceId]);
+
+  if (services && !services.includes(charge.serviceId)) return false;
+  if (targets?.rules && !targets.rules.includes(charge.ruleId)) return false;
+  if (targets?.billingFrequencies) {
+    return targets.billingFrequencies.includes(charge.billingFrequency);
+  }
+  // A fixed amount only makes sense in one billing frequency: the rule's own
+  return rule.discountType !== 'fixed' || charge.billingFrequency === rule.billingFrequency;
+};
+
+/**
+ * Apply discount rules (whose conditions already matched) to the priced charges
+ *
+ * `charges` amounts are reduced in place so callers can see what's left.
+ * Returns one negative adjustment per discount, service and billing frequency;
+ * a discount's adjustments add up to exactly the amount it took off.
+ * `explain` receives one message per discount saying what it did (for the quote trace).
+ */
+export const applyDiscounts = (
+  discountRules: PricingConfig[],
+  charges: DiscountableCharge[],
+  explain: (rule: PricingConfig, message: string) => void = () => {}
+): MoneyAdjustment[] => {
+  const adjustments: MoneyAdjustment[] = [];
+  let appliedCount = 0;
+
+  const ordered = discountRules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) =>
+      (a.rule.discountPriority ?? DEFAULT_DISCOUNT_PRIORITY) - (b.rule.discountPriority ?? DEFAULT_DISCOUNT_PRIORITY) ||
+      a.index - b.index
+    )
+    .map(({ rule }) => rule);
+
+  for (const rule of ordered) {
+    const exclusive = rule.discountStacking === 'exclusive';
+    if (exclusive && appliedCount > 0) {
+      explain(rule, 'Skipped - exclusive discount and another discount already applied');
+      continue;
+    }
+
+    const matched = charges.filter(charge => charge.amount > 0 && matchesTargets(rule, charge));
+    const base = addMoney(...matched.map(charge => charge.amount));
+    if (base <= 0 || !rule.discountValue) {
+      explain(rule, 'No matching charges to discount');
+      continue;
+    }
+
+    const totalDiscount = rule.discountType === 'fixed'
+      ? minMoney(toMoney(rule.discountValue), base)
+      : multiplyMoney(base, rule.discountValue);
+
+    // Spread the discount over the matched charges in proportion to their amount
+    const shares = allocateMoney(totalDiscount, matched.map(charge => charge.amount));
+    const byLine = new Map<string, MoneyAdjustment>();
+    matched.forEach((charge, index) => {
+      const share = shares[index];
+      charge.amount = subtractMoney(charge.amount, share);
+
+      const key = `${charge.serviceId}|${charge.billingFrequency}`;
+      const line = byLine.get(key) || {
+        type: 'discount' as const,
+        ruleId: rule.pricingRuleId,
+        label: rule.serviceName,
+        serviceId: charge.serviceId,
+        billingFrequency: charge.billingFrequency,
+        amount: ZERO_MONEY
+      };
+      line.amount = subtractMoney(line.amount, share);
+      byLine.set(key, line);
+    });
+
+    byLine.forEach(line => {
+      if (line.amount !== ZERO_MONEY) adjustments.push(line);
+    });
+
+    explain(rule, `${rule.discountType === 'fixed' ? `$${rule.discountValue}` : `${Math.round(rule.discountValue * 10000) / 100}%`} off ` +
+      `$${toDollars(base)} (${matched.map(charge => charge.ruleId).join(', ')}) = -$${toDollars(totalDiscount)}`);
+    appliedCount++;
+
+    if (exclusive) break;
+  }
+
+  return adjustments;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendarFields, defaultFilingDeadlines, describeCalendarFields, findFilingDeadline, parseDeadlineDay } from './filingCalendar';
+import { calculateQuote } from './quoteCalculator';
+import { businessTaxDetails, pricingRule, quoteForm } from './testFixtures';
+
+const businessForm = (entityType: string, taxYear = '') =>
+  quoteForm({ services: ['business-tax'], businessTax: businessTaxDetails({ entityType, taxYear }) });
+
+describe('parseDeadlineDay', () => {
+  it('reads month-day, month/day and named months', () => {
+    expect(parseDeadlineDay('04-15')).toEqual({ month: 4, day: 15 });
+    expect(parseDeadlineDay('3/15')).toEqual({ month: 3, day: 15 });
+    expect(parseDeadlineDay('Sept. 15')).toEqual({ month: 9, day: 15 });
+  });
+
+  it('rejects days the month does not have and anything else', () => {
+    expect(parseDeadlineDay('02-30')).toBeUndefined();
+    expect(parseDeadlineDay('2027-04-15')).toBeUndefined();
+    expect(parseDeadlineDay('')).toBeUndefined();
+  });
+});
+
+describe('findFilingDeadline', () => {
+  it('prefers a deadline listing the client\'s entity type over the service default', () => {
+    expect(findFilingDeadline(defaultFilingDeadlines, 'business-tax', businessForm('s-corporation'))?.deadlineId).toBe('pass-through-return');
+    expect(findFilingDeadline(defaultFilingDeadlines, 'business-tax', businessForm('C-Corporation'))?.deadlineId).toBe('business-return');
+    expect(findFilingDeadline(defaultFilingDeadlines, 'bookkeeping', businessForm('C-Corporation'))).toBeUndefined();
+  });
+});
+
+describe('buildCalendarFields', () => {
+  it('counts whole days to the next deadline, the deadline itself included', () => {
+    expect(buildCalendarFields(businessForm('Partnership'), 'business-tax', new Date(2027, 1, 1, 17, 30))).toEqual({
+      quoteDate: '2027-02-01',
+      year: 2027,
+      month: 2,
+      day: 1,
+      deadline: '2027-03-15',
+      daysUntilDeadline: 42
+    });
+    expect(buildCalendarFields(businessForm('Partnership'), 'business-tax', new Date(2027, 2, 15)).daysUntilDeadline).toBe(0);
+  });
+
+  it('moves to next year\'s deadline once this year\'s has passed', () => {
+    expect(buildCalendarFields(businessForm('Partnership'), 'business-tax', new Date(2027, 2, 16)).deadline).toBe('2028-03-15');
+  });
+
+  it('counts the tax years the service is behind', () => {
+    expect(buildCalendarFields(businessForm('LLC', '2024'), 'business-tax', new Date(2027, 1, 1)).taxYearsBehind).toBe(2);
+    expect(buildCalendarFields(businessForm('LLC', 'Multiple'), 'business-tax', new Date(2027, 1, 1)).taxYearsBehind).toBeUndefined();
+  });
+
+  it('is described for the trace', () => {
+    const form = businessForm('Partnership');
+
+    expect(describeCalendarFields('business-tax', buildCalendarFields(form, 'business-tax', new Date(2027, 1, 1))))
+      .toBe('2027-02-01: 42 days until the business-tax deadline (2027-03-15)');
+    expect(describeCalendarFields('bookkeeping', buildCalendarFields(form, 'bookkeeping', new Date(2027, 1, 1))))
+      .toBe('2027-02-01: no filing deadline for bookkeeping');
+  });
+});
+
+describe('calendar conditions in a quote', () => {
+  const rules = [
+    pricingRule('business-tax-base', { serviceId: 'business-tax', pricingType: 'Base Service', billingFrequency: 'One-Time Fee', basePrice: 1200 }),
+    pricingRule('business-tax-rush', {
+      serviceId: 'business-tax',
+      billingFrequency: 'One-Time Fee',
+      basePrice: 300,
+      triggerConditions: { all: [{ field: 'calendar.daysUntilDeadline', operator: 'lessThanOrEqual', value: 45 }] }
+    })
+  ];
+
+  it('adds a rush fee inside the deadline window of the pricing date', () => {
+    expect(calculateQuote(businessForm('Partnership'), rules, [], { asOf: new Date(2027, 1, 1) }).totalOneTimeFees).toBe(1500);
+    expect(calculateQuote(businessForm('Partnership'), rules, [], { asOf: new Date(2026, 11, 1) }).totalOneTimeFees).toBe(1200);
+  });
+
+  it('uses the tenant\'s deadlines', () => {
+    const filingDeadlines = [{ deadlineId: 'extended', serviceId: 'business-tax', month: 9, day: 15 }];
+
+    expect(calculateQuote(businessForm('Partnership'), rules, [], { asOf: new Date(2027, 1, 1), filingDeadlines }).totalOneTimeFees).toBe(1200);
+  });
+});
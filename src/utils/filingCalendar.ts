@@ -0,0 +1,144 @@
+import { FilingDeadline, FormData } from '../types/quote';
+import { fromPricingDate, toPricingDate } from './pricingVersions';
+
+/**
+ * Filing calendar - seasonal and deadline pricing conditions
+ *
+ * Pricing rule conditions can test the quote date and the filing deadlines
+ * under `calendar.`, next to the form fields, e.g. a rush fee for
+ * {"all": [{"field": "timeline", "operator": "equals", "value": "ASAP"},
+ *          {"field": "calendar.daysUntilDeadline", "operator": "lessThanOrEqual", "value": 45}]}
+ *
+ * The quote date is the pricing date (QuoteCalculationOptions.asOf), so a locked
+ * quote keeps the seasonal prices it was given, and the simulator's --as-of
+ * fixes the clock for a scenario run.
+ *
+ * Loading the deadlines from Airtable lives in filingDeadlineService.ts; this
+ * module has no environment dependencies.
+ */
+
+// Values under `calendar.` (the deadline values are for the rule's service)
+export interface CalendarFields {
+  quoteDate: string;           // YYYY-MM-DD
+  year: number;
+  month: number;               // 1-12
+  day: number;                 // Day of the month
+  deadline?: string;           // YYYY-MM-DD of the service's next filing deadline (today counts)
+  daysUntilDeadline?: number;  // 0 on the deadline itself
+  taxYearsBehind?: number;     // Quote year - 1 - the service's taxYear (0 = this filing season)
+}
+
+export const CALENDAR_PREFIX = 'calendar.';
+
+export const CALENDAR_FIELDS: (keyof CalendarFields)[] = ['quoteDate', 'year', 'month', 'day', 'deadline', 'daysUntilDeadline', 'taxYearsBehind'];
+
+// Default deadlines (fallback if the tenant has no Filing Deadlines table)
+export const defaultFilingDeadlines: FilingDeadline[] = [
+  { deadlineId: 'individual-return', serviceId: 'individual-tax', month: 4, day: 15, label: 'Individual returns' },
+  { deadlineId: 'pass-through-return', serviceId: 'business-tax', month: 3, day: 15, entityTypes: ['S-Corporation', 'Partnership'], label: 'S-Corporation and partnership returns' },
+  { deadlineId: 'business-return', serviceId: 'business-tax', month: 4, day: 15, label: 'C-Corporation returns' }
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a deadline cell: "04-15", "4/15" or "April 15"
+ * Returns undefined for anything else, or a day the month doesn't have.
+ */
+export const parseDeadlineDay = (value: string | undefined): { month: number; day: number } | undefined => {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const numeric = text.match(/^(\d{1,2})[-/](\d{1,2})$/);
+  const named = text.match(/^([A-Za-z]+)\.?\s+(\d{1,2})$/);
+  let month: number;
+  let day: number;
+  if (numeric) {
+    month = Number(numeric[1]);
+    day = Number(numeric[2]);
+  } else if (named) {
+    month = new Date(`${named[1]} 1, 2001`).getMonth() + 1;
+    day = Number(named[2]);
+    if (!month) return undefined;
+  } else {
+    return undefined;
+  }
+
+  // Reject days that roll over, e.g. 02-30 (checked in a non-leap year)
+  const date = new Date(2001, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return { month, day };
+};
+
+// The entity type a business deadline is chosen by (Business Tax answer, else Bookkeeping)
+const getEntityType = (formData: FormData): string =>
+  String(formData.businessTax?.entityType || formData.businessTax?.businessType || formData.bookkeeping?.businessType || '').trim().toLowerCase();
+
+/**
+ * The deadline that applies to a service: one listing the client's entity type,
+ * otherwise the service's deadline without entity types
+ */
+export const findFilingDeadline = (deadlines: FilingDeadline[], serviceId: string, formData: FormData): FilingDeadline | undefined => {
+  const forService = deadlines.filter(deadline => deadline.serviceId === serviceId);
+  const entityType = getEntityType(formData);
+
+  return forService.find(deadline =>
+    entityType && deadline.entityTypes?.some(type => type.trim().toLowerCase() === entityType)
+  ) || forService.find(deadline => !deadline.entityTypes || deadline.entityTypes.length === 0);
+};
+
+// Next occurrence of a deadline on or after the quote date
+const nextDeadlineDate = (deadline: FilingDeadline, quoteDay: Date): Date => {
+  const thisYear = new Date(quoteDay.getFullYear(), deadline.month - 1, deadline.day);
+  return thisYear < quoteDay ? new Date(quoteDay.getFullYear() + 1, deadline.month - 1, deadline.day) : thisYear;
+};
+
+/**
+ * The `calendar.` values for one service's rules on a quote date
+ */
+export const buildCalendarFields = (
+  formData: FormData,
+  serviceId: string,
+  quoteDate: Date,
+  deadlines: FilingDeadline[] = defaultFilingDeadlines
+): CalendarFields => {
+  // Whole days, whatever the time of day
+  const quoteDay = fromPricingDate(toPricingDate(quoteDate));
+  const fields: CalendarFields = {
+    quoteDate: toPricingDate(quoteDay),
+    year: quoteDay.getFullYear(),
+    month: quoteDay.getMonth() + 1,
+    day: quoteDay.getDate()
+  };
+
+  const deadline = findFilingDeadline(deadlines, serviceId, formData);
+  if (deadline) {
+    const deadlineDate = nextDeadlineDate(deadline, quoteDay);
+    fields.deadline = toPricingDate(deadlineDate);
+    fields.daysUntilDeadline = Math.round((deadlineDate.getTime() - quoteDay.getTime()) / MS_PER_DAY);
+  }
+
+  // Tax year of the rule's service ("2024"; "Multiple" and blanks have none)
+  const serviceKey = serviceId.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+  const taxYear = Number((formData as unknown as Record<string, { taxYear?: unknown } | undefined>)[serviceKey]?.taxYear);
+  if (Number.isInteger(taxYear) && taxYear > 0) {
+    fields.taxYearsBehind = fields.year - 1 - taxYear;
+  }
+
+  return fields;
+};
+
+/**
+ * Form data with the service's calendar values under `calendar.`, for condition checks
+ */
+export const withCalendarFields = (formData: FormData, calendar: CalendarFields): FormData =>
+  ({ ...formData, calendar } as unknown as FormData);
+
+/**
+ * Human-readable summary for the trace, e.g.
+ * 2027-03-10: 36 days until the individual-tax deadline (2027-04-15)
+ */
+export const describeCalendarFields = (serviceId: string, calendar: CalendarFields): string =>
+  calendar.deadline
+    ? `${calendar.quoteDate}: ${calendar.daysUntilDeadline} days until the ${serviceId} deadline (${calendar.deadline})`
+    : `${calendar.quoteDate}: no filing deadline for ${serviceId}`;
@@ -0,0 +1,159 @@
+import { FilingDeadline } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { defaultFilingDeadlines, parseDeadlineDay } from './filingCalendar';
+
+// Filing deadlines live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_FILING_DEADLINES_TABLE_NAME = 'Filing Deadlines';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one deadline
+export interface AirtableFilingDeadlineRecord {
+  id: string;
+  fields: {
+    'Deadline ID': string;
+    'Service ID': string;
+    'Deadline': string;                  // Month and day, e.g. 04-15 or April 15
+    'Entity Types'?: string[] | string;  // Multiple select (comma-separated in CSV exports)
+    'Label'?: string;
+    'Active'?: boolean;
+  };
+}
+
+/**
+ * Convert Filing Deadlines rows into deadlines
+ * Problems that make a deadline unusable are appended to `issues`
+ */
+export const buildFilingDeadlines = (records: AirtableFilingDeadlineRecord[], issues: string[]): FilingDeadline[] => {
+  const deadlines: FilingDeadline[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const deadlineId = fields['Deadline ID']?.trim();
+    if (!deadlineId) {
+      issues.push(`Filing Deadlines row ${record.id}: Deadline ID is empty`);
+      continue;
+    }
+    if (seen.has(deadlineId)) {
+      issues.push(`Filing deadline "${deadlineId}" is defined more than once`);
+      continue;
+    }
+    seen.add(deadlineId);
+
+    const serviceId = fields['Service ID']?.trim();
+    if (!serviceId) {
+      issues.push(`Filing deadline "${deadlineId}": Service ID is empty`);
+      continue;
+    }
+
+    const deadlineDay = parseDeadlineDay(fields['Deadline']);
+    if (!deadlineDay) {
+      issues.push(`Filing deadline "${deadlineId}": Deadline ${JSON.stringify(fields['Deadline'] ?? '')} is not a month and day, e.g. 04-15`);
+      continue;
+    }
+
+    const rawEntityTypes = fields['Entity Types'];
+    const entityTypes = (Array.isArray(rawEntityTypes) ? rawEntityTypes : String(rawEntityTypes ?? '').split(','))
+      .map(type => type.trim())
+      .filter(Boolean);
+
+    deadlines.push({
+      deadlineId,
+      serviceId,
+      ...deadlineDay,
+      entityTypes: entityTypes.length > 0 ? entityTypes : undefined,
+      label: fields['Label']?.trim() || undefined
+    });
+  }
+
+  return deadlines;
+};
+
+// Fetch filing deadlines from Airtable
+export const fetchFilingDeadlines = async (airtableConfig?: AirtableConfig): Promise<FilingDeadline[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // Return the default deadlines if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. Using default filing deadlines.');
+    return defaultFilingDeadlines;
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_FILING_DEADLINES_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Tenants without the table keep the built-in deadlines
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Filing Deadlines table in pricing base - using default filing deadlines');
+      return defaultFilingDeadlines;
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const issues: string[] = [];
+    const deadlines = buildFilingDeadlines(data.records || [], issues);
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid filing deadlines:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched ${deadlines.length} filing deadline(s) from Airtable`);
+    return deadlines;
+
+  } catch (error) {
+    // Broken deadlines must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching filing deadlines from Airtable:', error);
+    console.log('Falling back to default filing deadlines');
+    return defaultFilingDeadlines;
+  }
+};
+
+// Cache filing deadlines to avoid repeated API calls (tenant-scoped)
+const filingDeadlineCache = new Map<string, { deadlines: FilingDeadline[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedFilingDeadlines = async (airtableConfig?: AirtableConfig): Promise<FilingDeadline[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = filingDeadlineCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.deadlines;
+  }
+
+  const deadlines = await fetchFilingDeadlines(airtableConfig);
+  filingDeadlineCache.set(cacheKey, { deadlines, timestamp: now });
+
+  return deadlines;
+};
+
+// Clear filing deadline cache (useful for testing or manual refresh)
+export const clearFilingDeadlineCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    filingDeadlineCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    filingDeadlineCache.clear();
+  }
+};
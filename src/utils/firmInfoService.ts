@@ -1,3 +1,5 @@
+import { RoundingPolicy, parseRoundingPolicy } from './money';
+
 export interface FirmInfo {
   firmName: string;
   primaryBrandColor: string;
@@ -11,6 +13,11 @@ export interface FirmInfo {
   quoteHeaderTitle?: string;
   quoteHeaderSubtitle?: string;
   quoteLockDays?: number;
+  hideSavingsEstimate?: boolean; // Turns off the potential savings figure for this tenant
+  showEstimatedTotal?: boolean; // Shows the estimated total band (annual total plus hourly estimates)
+  roundingPolicy?: RoundingPolicy; // How service lines and totals are rounded (see money.ts)
+  annualPrepayDiscount?: number; // Set when annual prepay is offered: discount for prepaying the year (0.1 = 10%)
+  priceRangeVariance?: number; // Set when prices are shown as ranges: ± variance for rules without their own (0.1 = ±10%)
 
   // Value Propositions
   valueProp1Title?: string;
@@ -112,6 +119,15 @@ export const getFirmInfo = async (
       quoteHeaderTitle: fields['Quote Header Title'] || 'Your Customized Quote',
       quoteHeaderSubtitle: fields['Quote Header Subtitle'] || '',
       quoteLockDays: fields['Quote Lock Days'] || 14,
+      hideSavingsEstimate: fields['Hide Savings Estimate'] === true,
+      showEstimatedTotal: fields['Show Estimated Total'] === true,
+      roundingPolicy: parseRoundingPolicy(fields['Rounding Mode'], fields['Rounding Unit']),
+      annualPrepayDiscount: fields['Offer Annual Prepay'] === true
+        ? Math.min(Math.max(Number(fields['Annual Prepay Discount']) || 0, 0), 1)
+        : undefined,
+      priceRangeVariance: fields['Price Display']?.trim().toLowerCase() === 'range'
+        ? Math.min(Math.max(Number(fields['Default Price Variance']) || 0, 0), 1)
+        : undefined,
 
       // Value Propositions
       valueProp1Title: fields['Value Prop 1 Title'] || '',
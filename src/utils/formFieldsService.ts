@@ -4,6 +4,8 @@
  * Enables per-tenant customization of form fields without code changes
  */
 
+import { formatConfigIssue, validateConfigRecords } from './configSchema';
+
 export interface FormField {
   serviceId: string;
   fieldName: string;
@@ -139,8 +141,18 @@ export const fetchFormFields = async (
 
     console.log(`[FormFieldsService] Received ${data.records?.length || 0} records from Airtable`);
 
+    // Quarantine rows that don't match the Form Fields schema (reported, not rendered)
+    const schemaReport = validateConfigRecords('Form Fields', data.records);
+    schemaReport.issues.forEach(issue =>
+      issue.severity === 'error'
+        ? console.error(`[FormFieldsService] ❌ ${formatConfigIssue(issue)}`)
+        : console.warn(`[FormFieldsService] ⚠️ ${formatConfigIssue(issue)}`)
+    );
+
     // Transform Airtable records to FormField objects
-    const formFields: FormField[] = data.records.map(record => ({
+    const formFields: FormField[] = data.records
+      .filter(record => !schemaReport.quarantined.includes(record.id))
+      .map(record => ({
       serviceId: record.fields['Service ID'] || serviceId,
       fieldName: record.fields['Field Name'] || '',
       fieldType: (record.fields['Field Type'] as FormField['fieldType']) || 'text',
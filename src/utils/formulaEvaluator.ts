@@ -1,4 +1,20 @@
-import { FormData, PricingConfig, ServiceConfig } from '../types/quote';
+import { FormData, FormulaTrace, PricingConfig, RateCard, ServiceConfig } from '../types/quote';
+import {
+  FormulaError,
+  FormulaValue,
+  evaluateFormulaAst,
+  formulaResultToNumber,
+  getFormulaVariables,
+  parseFormula
+} from './formulaParser';
+import { LOOKUP_PREFIX, resolveRateCard } from './rateCards';
+import { Money, ZERO_MONEY, addMoney, toDollars, toMoney } from './money';
+
+// Replace each resolved {{variable}} with its value (strings quoted), for the trace
+const substituteVariables = (expression: string, inputs: FormulaTrace['inputs']): string =>
+  expression.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, variable: string) =>
+    variable in inputs ? JSON.stringify(inputs[variable]) : match
+  );
 
 /**
  * FormulaEvaluator - Evaluates formula-based pricing expressions
@@ -7,39 +23,57 @@ import { FormData, PricingConfig, ServiceConfig } from '../types/quote';
  * - Variable substitution from form data: {{fieldName}}
  * - References to calculated pricing rules: {{pricingRule.rule-id}}
  * - Special calculated values: {{monthlyBookkeepingRate}}
- * - Mathematical expressions with operators: +, -, *, /, (), ternary operators
+ * - Rate card lookups: {{lookup.revenueMultiplier}}
+ * - Expressions in the formula language (see formulaParser.ts): arithmetic,
+ *   comparisons, booleans, ternaries and functions like max(), round(), clamp()
  * - Min/max constraints
  */
 // Interface to store pricing rule metadata alongside calculated prices
-interface CalculatedPriceMetadata {
-  price: number;
+export interface CalculatedPriceMetadata {
+  price: Money;
   serviceId: string;
   pricingType: string;
   billingFrequency: string;
+  formulaVariables?: string[]; // A formula never counts towards a total it reads
 }
 
 export class FormulaEvaluator {
   private formData: FormData;
-  private calculatedPrices: Map<string, number>;
+  private calculatedPrices: Map<string, Money>;
   private serviceConfigs: ServiceConfig[];
   private priceMetadata: Map<string, CalculatedPriceMetadata>;
+  private rateCards: RateCard[];
 
   constructor(
     formData: FormData,
-    calculatedPrices: Map<string, number>,
+    calculatedPrices: Map<string, Money>,
     serviceConfigs: ServiceConfig[] = [],
-    priceMetadata: Map<string, CalculatedPriceMetadata> = new Map()
+    priceMetadata: Map<string, CalculatedPriceMetadata> = new Map(),
+    rateCards: RateCard[] = []
   ) {
     this.formData = formData;
-    this.calculatedPrices = calculatedPrices || new Map<string, number>();
+    this.calculatedPrices = calculatedPrices || new Map<string, Money>();
     this.serviceConfigs = serviceConfigs || [];
     this.priceMetadata = priceMetadata;
+    this.rateCards = rateCards;
   }
 
   /**
-   * Evaluate a formula expression and return the calculated value
+   * Evaluate a formula expression and return the rule price (whole cents)
+   *
+   * Throws a FormulaError (tagged with the rule ID) if the formula is malformed
+   * or can't be evaluated, rather than silently pricing the rule at $0.
+   */
+  evaluateFormula(rule: PricingConfig): Money {
+    return this.evaluateFormulaWithTrace(rule).value;
+  }
+
+  /**
+   * Evaluate a formula and report how the value was reached
+   * The trace lists every resolved variable, the expression with those values
+   * substituted in, and any Minimum/Maximum Value clamp.
    */
-  evaluateFormula(rule: PricingConfig): number {
+  evaluateFormulaWithTrace(rule: PricingConfig): { value: Money; trace: FormulaTrace } {
     console.log('===========================================');
     console.log('🔍 FORMULA EVALUATION START');
     console.log('===========================================');
@@ -48,96 +82,109 @@ export class FormulaEvaluator {
     console.log('Minimum Value:', rule.minimumValue);
     console.log('Maximum Value:', rule.maximumValue);
 
-    if (!rule.formulaExpression) {
-      console.warn(`Rule ${rule.pricingRuleId} has no formula expression`);
-      return 0;
-    }
+    const expression = rule.formulaExpression?.trim() || '';
 
     try {
+      // Steps 1-2: Parse and evaluate the expression
+      const { result, inputs } = this.evaluateExpression(expression, rule.serviceId);
 
-      // Step 1: Parse the formula expression
-      let expression = rule.formulaExpression;
-
-      // Step 2: Extract and resolve all {{variable}} placeholders
-      const variables = this.extractVariables(expression);
-      console.log('📋 Variables to resolve:', variables);
-
-      for (const variable of variables) {
-        const value = this.resolveVariable(variable);
-        console.log(`  Variable: {{${variable}}} = ${value}`);
-        expression = expression.replace(
-          new RegExp(`\\{\\{${this.escapeRegex(variable)}\\}\\}`, 'g'),
-          String(value)
-        );
-      }
-
-      console.log('✏️  Expression after substitution:', expression);
-
-      // Step 3: Safely evaluate the expression
-      const result = this.safeEval(expression);
-      console.log('🧮 Calculated result:', result);
-
-      // Step 4: Apply min/max constraints
+      // Step 3: Apply min/max constraints
       let finalValue = result;
+      let clamp: FormulaTrace['clamp'];
       if (rule.minimumValue !== undefined && finalValue < rule.minimumValue) {
         finalValue = rule.minimumValue;
-        console.log(`⬆️  Applied minimum: Math.max(${result}, ${rule.minimumValue}) = ${finalValue}`);
+        clamp = { bound: 'minimum', value: finalValue };
+        console.log(`⬆️  Applied minimum: max(${result}, ${rule.minimumValue}) = ${finalValue}`);
       }
       if (rule.maximumValue !== undefined && finalValue > rule.maximumValue) {
         finalValue = rule.maximumValue;
-        console.log(`⬇️  Applied maximum: Math.min(${result}, ${rule.maximumValue}) = ${finalValue}`);
+        clamp = { bound: 'maximum', value: finalValue };
+        console.log(`⬇️  Applied maximum: min(${result}, ${rule.maximumValue}) = ${finalValue}`);
       }
 
       console.log('✅ Final result:', finalValue);
       console.log('===========================================');
       console.log('');
 
-      return Math.round(finalValue * 100) / 100; // Round to 2 decimal places
+      return {
+        value: toMoney(finalValue), // Rule prices are kept to the cent (see money.ts)
+        trace: {
+          expression,
+          substituted: substituteVariables(expression, inputs),
+          inputs,
+          result,
+          clamp
+        }
+      };
     } catch (error) {
-      console.error(`Formula evaluation error for rule ${rule.pricingRuleId}:`, error);
-      console.error('Formula expression:', rule.formulaExpression);
-      return 0;
+      if (error instanceof FormulaError) {
+        error.ruleId = rule.pricingRuleId;
+        console.error(`Formula error:\n${error.toDetailedString()}`);
+      }
+      throw error;
     }
   }
 
   /**
-   * Extract all {{variable}} placeholders from the formula expression
+   * Evaluate a bare expression (no rule, no min/max) with the same variables as
+   * pricing formulas - used for formulas outside the Pricing Variables table,
+   * e.g. savings estimators. Returns the numeric result and the resolved inputs.
    */
-  private extractVariables(expression: string): string[] {
-    const regex = /\{\{([^}]+)\}\}/g;
-    const matches: string[] = [];
-    let match;
-    while ((match = regex.exec(expression)) !== null) {
-      matches.push(match[1].trim());
-    }
-    // Remove duplicates
-    return [...new Set(matches)];
+  evaluateExpression(expression: string, serviceId?: string): { result: number; inputs: FormulaTrace['inputs'] } {
+    // Parse the formula expression (cached after the first parse)
+    const ast = parseFormula(expression);
+    console.log('📋 Variables to resolve:', getFormulaVariables(ast));
+
+    // Evaluate the AST, resolving {{variable}} references as they are reached
+    const inputs: FormulaTrace['inputs'] = {};
+    const value = evaluateFormulaAst(ast, expression, (variable) => {
+      const resolved = this.resolveVariable(variable, serviceId);
+      console.log(`  Variable: {{${variable}}} = ${JSON.stringify(resolved)}`);
+      inputs[variable] = resolved;
+      return resolved;
+    });
+    const result = formulaResultToNumber(value, expression);
+    console.log('🧮 Calculated result:', result);
+
+    return { result, inputs };
   }
 
   /**
-   * Resolve a variable to its numeric value
+   * Resolve a variable to its value
    * Supports:
    * - Direct form fields: {{fieldName}}
    * - Nested form fields: {{bookkeeping.monthsBehind}}
    * - Pricing rule references: {{pricingRule.rule-id}}
    * - Special calculated values: {{monthlyBookkeepingRate}}
+   * - Rate card lookups: {{lookup.card-name}} (throws RateCardLookupError for unknown cards)
+   *
+   * Form values keep their type (strings stay strings so they can be compared,
+   * e.g. {{businessTax.entityType}} == "S-Corporation"); arrays resolve to their length.
    */
-  private resolveVariable(variable: string): number {
+  private resolveVariable(variable: string, serviceId?: string): FormulaValue {
     // Check if it's a reference to another pricing rule
     // Format: "pricingRule.rule-id"
     if (variable.startsWith('pricingRule.')) {
-      const ruleId = variable.split('.')[1];
+      const ruleId = variable.slice('pricingRule.'.length);
       const calculatedPrice = this.calculatedPrices.get(ruleId);
 
+      // Formulas work in dollars
       if (calculatedPrice !== undefined) {
-        console.log(`    ✓ Resolved from calculatedPrices: {{${variable}}} = ${calculatedPrice}`);
-        return calculatedPrice;
+        console.log(`    ✓ Resolved from calculatedPrices: {{${variable}}} = ${toDollars(calculatedPrice)}`);
+        return toDollars(calculatedPrice);
       } else {
         console.warn(`  → Pricing rule "${ruleId}" not found in calculated prices`);
         return 0;
       }
     }
 
+    // Rate card lookup keyed by a form value
+    // Format: "lookup.card-name"
+    if (variable.startsWith(LOOKUP_PREFIX)) {
+      const { value } = resolveRateCard(this.rateCards, variable.slice(LOOKUP_PREFIX.length), this.formData, serviceId);
+      return value;
+    }
+
     // Special calculated values
     if (variable === 'monthlyBookkeepingRate') {
       console.log('    📞 Calling getMonthlyBookkeepingRate()...');
@@ -164,22 +211,32 @@ export class FormulaEvaluator {
     if (variable.includes('.')) {
       const value = this.getNestedValue(this.formData, variable);
       if (value !== undefined && value !== null) {
-        const numValue = Number(value) || 0;
-        console.log(`    ✓ Resolved from formData: {{${variable}}} = ${numValue}`);
-        return numValue;
+        console.log(`    ✓ Resolved from formData: {{${variable}}} = ${JSON.stringify(value)}`);
+        return this.toFormulaValue(value);
       }
     }
 
     // Check if it's a direct form field at the root level
     const directValue = (this.formData as any)[variable];
     if (directValue !== undefined && directValue !== null) {
-      const numValue = Number(directValue) || 0;
-      console.log(`    ✓ Resolved from formData: {{${variable}}} = ${numValue}`);
-      return numValue;
+      console.log(`    ✓ Resolved from formData: {{${variable}}} = ${JSON.stringify(directValue)}`);
+      return this.toFormulaValue(directValue);
     }
 
     console.warn(`    ⚠️  Variable "{{${variable}}}" not found, defaulting to 0`);
-    console.warn(`Variable "${variable}" not found in form data or calculated prices, defaulting to 0`);
+    return 0;
+  }
+
+  /**
+   * Normalize a raw form value for the formula language
+   */
+  private toFormulaValue(value: unknown): FormulaValue {
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.length;
+    }
     return 0;
   }
 
@@ -206,19 +263,20 @@ export class FormulaEvaluator {
     console.log('🔍 Searching for monthly bookkeeping rate...');
     console.log('📊 calculatedPrices Map contents:');
     Array.from(this.calculatedPrices.entries()).forEach(([id, price]) => {
-      console.log(`    ${id}: $${price}`);
+      console.log(`    ${id}: $${toDollars(price)}`);
     });
 
     // Sum ALL bookkeeping service monthly fees
-    let totalMonthlyRate = 0;
+    let monthlyRate = ZERO_MONEY;
 
     Array.from(this.calculatedPrices.entries()).forEach(([id, price]) => {
       // Include ANY bookkeeping-related monthly fee (not just transactions)
-      if (id.includes('bookkeeping') && price > 0) {
-        console.log(`  ✅ Including ${id}: $${price}`);
-        totalMonthlyRate += price;
+      if (id.includes('bookkeeping') && price > 0 && !this.priceMetadata.get(id)?.formulaVariables?.includes('monthlyBookkeepingRate')) {
+        console.log(`  ✅ Including ${id}: $${toDollars(price)}`);
+        monthlyRate = addMoney(monthlyRate, price);
       }
     });
+    const totalMonthlyRate = toDollars(monthlyRate);
 
     if (totalMonthlyRate > 0) {
       console.log(`✅ Total monthly bookkeeping rate: $${totalMonthlyRate}`);
@@ -250,7 +308,7 @@ export class FormulaEvaluator {
     console.log('Billing Frequency Filter:', service.billingFrequency || 'ALL');
     console.log('Total Variable Name:', service.totalVariableName);
 
-    let total = 0;
+    let serviceTotal = ZERO_MONEY;
     let matchedRules = 0;
 
     console.log('\n📋 Evaluating calculatedPrices entries:');
@@ -264,15 +322,18 @@ export class FormulaEvaluator {
         // Match by billingFrequency (if specified in service config)
         const billingFrequencyMatch = !service.billingFrequency || metadata.billingFrequency === service.billingFrequency;
 
-        if (serviceIdMatch && billingFrequencyMatch) {
+        // Formulas reading this same total don't feed it (see ruleDependencies)
+        const readsTotal = !!service.totalVariableName && !!metadata.formulaVariables?.includes(service.totalVariableName);
+
+        if (serviceIdMatch && billingFrequencyMatch && !readsTotal) {
           console.log(`  Rule: ${ruleId}`);
           console.log(`    Service ID: ${metadata.serviceId}`);
           console.log(`    Pricing Type: ${metadata.pricingType}`);
           console.log(`    Billing Frequency: ${metadata.billingFrequency}`);
-          console.log(`    Price: $${metadata.price}`);
+          console.log(`    Price: $${toDollars(metadata.price)}`);
           console.log(`    ✅ Included`);
 
-          total += metadata.price;
+          serviceTotal = addMoney(serviceTotal, metadata.price);
           matchedRules++;
         }
       });
@@ -281,59 +342,19 @@ export class FormulaEvaluator {
       console.log('⚠️  No metadata available, falling back to simple serviceId matching');
       Array.from(this.calculatedPrices.entries()).forEach(([ruleId, price]) => {
         if (ruleId.startsWith(service.serviceId)) {
-          console.log(`  Rule: ${ruleId}, Price: $${price}`);
+          console.log(`  Rule: ${ruleId}, Price: $${toDollars(price)}`);
           console.log(`    ✅ Included (fallback mode - no billing frequency filtering)`);
-          total += price;
+          serviceTotal = addMoney(serviceTotal, price);
           matchedRules++;
         }
       });
     }
 
+    const total = toDollars(serviceTotal);
     console.log(`\n📊 Total from ${matchedRules} matched rules: $${total}`);
     console.log(`✅ Final Service Total for ${service.totalVariableName}: $${total}`);
     console.log('═══════════════════════════════════════════════════════════\n');
 
     return total;
   }
-
-  /**
-   * Safely evaluate a mathematical expression
-   * Uses Function constructor with strict whitelist for security
-   */
-  private safeEval(expression: string): number {
-    try {
-      // Security: Whitelist only mathematical operations and ternary operators
-      // Allow: numbers, operators (+, -, *, /, %), parentheses, ternary (?:), comparison (>, <, >=, <=, ==, !=)
-      const allowedPattern = /^[0-9+\-*\/\.\(\)\[\]\s?:><=&|!%]+$/;
-
-      if (!allowedPattern.test(expression)) {
-        throw new Error(`Invalid characters in expression: ${expression}`);
-      }
-
-      // Use Function constructor (safer than eval)
-      // Allow Math object for functions like Math.max, Math.min, Math.floor, Math.ceil, Math.round
-      const result = new Function(
-        'Math',
-        `"use strict"; return (${expression})`
-      )(Math);
-
-      // Ensure result is a valid number
-      if (typeof result !== 'number' || isNaN(result) || !isFinite(result)) {
-        throw new Error(`Expression did not evaluate to a valid number: ${result}`);
-      }
-
-      return result;
-    } catch (error) {
-      console.error('Formula evaluation error:', error);
-      console.error('Expression:', expression);
-      throw error;
-    }
-  }
-
-  /**
-   * Escape special regex characters in a string
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
 }
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FormulaEvaluationError,
+  FormulaSyntaxError,
+  FormulaValue,
+  evaluateFormulaAst,
+  formulaResultToNumber,
+  getFormulaVariables,
+  parseFormula
+} from './formulaParser';
+
+const evaluate = (expression: string, variables: Record<string, FormulaValue> = {}): FormulaValue =>
+  evaluateFormulaAst(parseFormula(expression), expression, name => {
+    if (!(name in variables)) throw new Error(`No value for ${name}`);
+    return variables[name];
+  });
+
+// The error a call throws, for checking its fields
+const thrownBy = (run: () => unknown): unknown => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe('parseFormula', () => {
+  it('reports the column of the offending token', () => {
+    const expression = 'max(100, 2 * )';
+    const error = thrownBy(() => parseFormula(expression));
+    expect(error).toBeInstanceOf(FormulaSyntaxError);
+    expect(error).toMatchObject({ position: expression.indexOf(')') });
+  });
+
+  it('rejects unbalanced parentheses and dangling operators', () => {
+    expect(() => parseFormula('(1 + 2')).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula('1 +')).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula('')).toThrow(FormulaSyntaxError);
+  });
+
+  it('lists each referenced variable once', () => {
+    const ast = parseFormula('{{bookkeeping.monthsBehind}} * 50 + max({{pricingRule.bookkeeping-base}}, {{bookkeeping.monthsBehind}})');
+    expect(getFormulaVariables(ast)).toEqual(['bookkeeping.monthsBehind', 'pricingRule.bookkeeping-base']);
+  });
+});
+
+describe('evaluateFormulaAst', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('2 + 3 * 4')).toBe(14);
+    expect(evaluate('(2 + 3) * 4')).toBe(20);
+    expect(evaluate('-2 * 3 + 10 % 4')).toBe(-4);
+  });
+
+  it('substitutes variables and coerces numeric strings', () => {
+    expect(evaluate('{{monthsBehind}} * 150', { monthsBehind: '3' })).toBe(450);
+    expect(evaluate('{{revenue}} / 1000', { revenue: '$1,250,000' })).toBe(1250);
+    expect(evaluate('{{count}} + 1', { count: '' })).toBe(1);
+  });
+
+  it('compares strings case-insensitively', () => {
+    expect(evaluate('{{entityType}} == "s-corporation"', { entityType: 'S-Corporation' })).toBe(true);
+    expect(evaluate('{{entityType}} != "Partnership"', { entityType: 'S-Corporation' })).toBe(true);
+  });
+
+  it('only evaluates the branch that is taken', () => {
+    expect(evaluate('{{hasInventory}} ? {{inventoryFee}} : 0', { hasInventory: false })).toBe(0);
+    expect(evaluate('if({{k1Count}} > 5, 200, {{missing}})', { k1Count: 10 })).toBe(200);
+    expect(evaluate('false && {{missing}}')).toBe(false);
+  });
+
+  it('supports the built-in functions and their Math aliases', () => {
+    expect(evaluate('min(3, 1, 2) + max(3, 1, 2)')).toBe(4);
+    expect(evaluate('round(12.345, 2)')).toBe(12.35);
+    expect(evaluate('ceil(1.2) + floor(1.8) + abs(-3)')).toBe(6);
+    expect(evaluate('clamp(250, 100, 200)')).toBe(200);
+    expect(evaluate('Math.max(1, pow(2, 3), sqrt(16))')).toBe(8);
+  });
+
+  it('throws an evaluation error with the position of the failing operation', () => {
+    const expression = '100 / {{count}}';
+    expect(() => evaluate(expression, { count: 0 })).toThrow(FormulaEvaluationError);
+    expect(() => evaluate('sqrt(-1)')).toThrow('sqrt() of a negative number');
+    expect(() => evaluate('clamp(1, 5, 2)')).toThrow(FormulaEvaluationError);
+    expect(() => evaluate('{{name}} * 2', { name: 'abc' })).toThrow('Expected a number but got "abc"');
+    expect(thrownBy(() => evaluate(expression, { count: 0 }))).toMatchObject({ position: expression.indexOf('/') });
+  });
+
+  it('turns resolver failures into evaluation errors at the variable', () => {
+    const expression = '10 + {{lookup.unknown}}';
+    const error = thrownBy(() => evaluate(expression));
+    expect(error).toBeInstanceOf(FormulaEvaluationError);
+    expect(error).toMatchObject({ position: expression.indexOf('{{') });
+  });
+});
+
+describe('formulaResultToNumber', () => {
+  it('coerces booleans and rejects non-finite results', () => {
+    expect(formulaResultToNumber(true, 'true')).toBe(1);
+    expect(formulaResultToNumber('42', '"42"')).toBe(42);
+    expect(() => formulaResultToNumber(Infinity, 'pow(10, 400)')).toThrow(FormulaEvaluationError);
+  });
+});
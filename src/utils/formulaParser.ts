@@ -0,0 +1,657 @@
+/**
+ * Formula expression language for formula-based pricing rules
+ *
+ * Replaces the old "substitute {{vars}} then new Function()" approach with a
+ * small tokenizer -> parser -> AST evaluator. Formulas are parsed once (at
+ * pricing config load time) so syntax errors surface immediately with the
+ * exact column of the offending token, instead of silently quoting $0.
+ *
+ * Supported syntax:
+ * - Variables: {{fieldName}}, {{bookkeeping.monthsBehind}}, {{pricingRule.rule-id}}
+ * - Literals: numbers (12, 0.5), strings ("Yes", 'S-Corp'), booleans (true, false)
+ * - Arithmetic: +, -, *, /, %
+ * - Comparison: ==, !=, <, <=, >, >= (string comparisons are case-insensitive)
+ * - Logic: &&, ||, !, and the ternary operator (cond ? a : b)
+ * - Functions: min, max, round, ceil, floor, abs, pow, sqrt, if, clamp
+ *   (the Math.* spellings, e.g. Math.max, are accepted as aliases)
+ */
+
+export type FormulaValue = number | string | boolean;
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||';
+
+type UnaryOperator = '-' | '+' | '!';
+
+export type FormulaNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'boolean'; value: boolean; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'unary'; operator: UnaryOperator; operand: FormulaNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+/**
+ * Base class for formula problems. `position` is the 0-based offset of the
+ * offending token in `expression`.
+ */
+export class FormulaError extends Error {
+  expression: string;
+  position: number;
+  ruleId?: string;
+
+  constructor(message: string, expression: string, position: number) {
+    super(message);
+    this.name = 'FormulaError';
+    this.expression = expression;
+    this.position = position;
+  }
+
+  /**
+   * Multi-line description with the rule, column and a caret under the offending token:
+   *
+   *   Rule "bookkeeping-cleanup": Unexpected ")" at column 15
+   *     max(100, 2 * )
+   *                  ^
+   */
+  toDetailedString(): string {
+    const prefix = this.ruleId ? `Rule "${this.ruleId}": ` : '';
+    return [
+      `${prefix}${this.message} at column ${this.position + 1}`,
+      `  ${this.expression}`,
+      `  ${' '.repeat(Math.max(0, this.position))}^`
+    ].join('\n');
+  }
+}
+
+export class FormulaSyntaxError extends FormulaError {
+  constructor(message: string, expression: string, position: number) {
+    super(message, expression, position);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+export class FormulaEvaluationError extends FormulaError {
+  constructor(message: string, expression: string, position: number) {
+    super(message, expression, position);
+    this.name = 'FormulaEvaluationError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'number' | 'string' | 'identifier' | 'variable' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longest operators first so ">=" wins over ">"
+const OPERATORS = [
+  '===', '!==',
+  '==', '!=', '<=', '>=', '&&', '||',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','
+];
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // {{variable}}
+    if (expression.startsWith('{{', index)) {
+      const end = expression.indexOf('}}', index + 2);
+      if (end === -1) {
+        throw new FormulaSyntaxError('Unclosed variable reference, expected "}}"', expression, index);
+      }
+      const name = expression.slice(index + 2, end).trim();
+      if (!name) {
+        throw new FormulaSyntaxError('Empty variable reference', expression, index);
+      }
+      tokens.push({ type: 'variable', value: name, position: index });
+      index = end + 2;
+      continue;
+    }
+
+    // Numbers: 12, 0.5, .5
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[index + 1] || ''))) {
+      const match = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)/.exec(expression.slice(index));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'number', value: text, position: index });
+      index += text.length;
+      continue;
+    }
+
+    // Strings: "..." or '...'
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < expression.length && expression[cursor] !== char) {
+        if (expression[cursor] === '\\' && cursor + 1 < expression.length) {
+          cursor++;
+        }
+        value += expression[cursor];
+        cursor++;
+      }
+      if (cursor >= expression.length) {
+        throw new FormulaSyntaxError('Unterminated string literal', expression, index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = cursor + 1;
+      continue;
+    }
+
+    // Identifiers: function names, true/false, Math.max
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(expression.slice(index));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'identifier', value: text, position: index });
+      index += text.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, index));
+    if (operator) {
+      // Treat JS-style strict equality as plain equality
+      const normalized = operator === '===' ? '==' : operator === '!==' ? '!=' : operator;
+      tokens.push({ type: 'operator', value: normalized, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character "${char}"`, expression, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent, lowest precedence first)
+//
+//   conditional    := logicalOr ( "?" conditional ":" conditional )?
+//   logicalOr      := logicalAnd ( "||" logicalAnd )*
+//   logicalAnd     := equality ( "&&" equality )*
+//   equality       := comparison ( ( "==" | "!=" ) comparison )*
+//   comparison     := additive ( ( "<" | "<=" | ">" | ">=" ) additive )*
+//   additive       := multiplicative ( ( "+" | "-" ) multiplicative )*
+//   multiplicative := unary ( ( "*" | "/" | "%" ) unary )*
+//   unary          := ( "-" | "+" | "!" ) unary | primary
+//   primary        := number | string | boolean | variable | call | "(" conditional ")"
+// ---------------------------------------------------------------------------
+
+// Allowed argument counts per function: [min, max]
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  round: [1, 2],
+  ceil: [1, 1],
+  floor: [1, 1],
+  abs: [1, 1],
+  pow: [2, 2],
+  sqrt: [1, 1],
+  if: [3, 3],
+  clamp: [3, 3]
+};
+
+const describeToken = (token: Token): string => {
+  if (token.type === 'eof') return 'end of formula';
+  if (token.type === 'variable') return `{{${token.value}}}`;
+  if (token.type === 'string') return `string "${token.value}"`;
+  return `"${token.value}"`;
+};
+
+class Parser {
+  private tokens: Token[];
+  private expression: string;
+  private index = 0;
+
+  constructor(expression: string) {
+    this.expression = expression;
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'eof') {
+      throw new FormulaSyntaxError('Formula is empty', this.expression, 0);
+    }
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.error(`Unexpected ${describeToken(next)}`, next);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string, context: string): Token {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return token;
+    }
+    throw this.error(`Expected "${operator}" ${context} but found ${describeToken(token)}`, token);
+  }
+
+  private error(message: string, token: Token): FormulaSyntaxError {
+    return new FormulaSyntaxError(message, this.expression, token.position);
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(0);
+    const question = this.matchOperator('?');
+    if (!question) return test;
+
+    const consequent = this.parseConditional();
+    this.expectOperator(':', 'in conditional expression');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate, position: question.position };
+  }
+
+  // Binary operators grouped by precedence, lowest first
+  private static readonly PRECEDENCE: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): FormulaNode {
+    if (level >= Parser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operatorToken = this.matchOperator(...Parser.PRECEDENCE[level]);
+    while (operatorToken) {
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'binary',
+        operator: operatorToken.value as BinaryOperator,
+        left,
+        right,
+        position: operatorToken.position
+      };
+      operatorToken = this.matchOperator(...Parser.PRECEDENCE[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const operatorToken = this.matchOperator('-', '+', '!');
+    if (operatorToken) {
+      const operand = this.parseUnary();
+      return {
+        type: 'unary',
+        operator: operatorToken.value as UnaryOperator,
+        operand,
+        position: operatorToken.position
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value), position: token.position };
+      case 'string':
+        return { type: 'string', value: token.value, position: token.position };
+      case 'variable':
+        return { type: 'variable', name: token.value, position: token.position };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseConditional();
+          this.expectOperator(')', 'to close "("');
+          return inner;
+        }
+        throw this.error(`Unexpected ${describeToken(token)}`, token);
+      default:
+        throw this.error(`Unexpected ${describeToken(token)}`, token);
+    }
+  }
+
+  private parseIdentifier(token: Token): FormulaNode {
+    const lower = token.value.toLowerCase();
+    if (lower === 'true' || lower === 'false') {
+      return { type: 'boolean', value: lower === 'true', position: token.position };
+    }
+
+    // Accept Math.max(...) as an alias for max(...)
+    const name = token.value.replace(/^Math\./, '');
+    const arity = FUNCTION_ARITY[name];
+    if (!arity) {
+      throw this.error(
+        `Unknown function or identifier "${token.value}" (form fields must be wrapped in {{ }})`,
+        token
+      );
+    }
+
+    this.expectOperator('(', `after function "${token.value}"`);
+    const args: FormulaNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(','));
+      this.expectOperator(')', `to close arguments of "${token.value}"`);
+    }
+
+    const [minArgs, maxArgs] = arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs
+        ? `${minArgs}`
+        : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw this.error(
+        `Function "${name}" expects ${expected} argument(s) but got ${args.length}`,
+        token
+      );
+    }
+
+    return { type: 'call', name, args, position: token.position };
+  }
+}
+
+// Parsed formulas are immutable, so cache them by source text
+const parsedFormulaCache = new Map<string, FormulaNode>();
+
+/**
+ * Parse a formula expression into an AST
+ * Throws FormulaSyntaxError (with position) if the formula is malformed
+ */
+export const parseFormula = (expression: string): FormulaNode => {
+  const cached = parsedFormulaCache.get(expression);
+  if (cached) return cached;
+
+  const ast = new Parser(expression).parse();
+  parsedFormulaCache.set(expression, ast);
+  return ast;
+};
+
+/**
+ * List the unique {{variable}} names referenced by a parsed formula
+ */
+export const getFormulaVariables = (node: FormulaNode): string[] => {
+  const names = new Set<string>();
+
+  const visit = (current: FormulaNode) => {
+    switch (current.type) {
+      case 'variable':
+        names.add(current.name);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'conditional':
+        visit(current.test);
+        visit(current.consequent);
+        visit(current.alternate);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return Array.from(names);
+};
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+export type FormulaVariableResolver = (name: string) => FormulaValue;
+
+/**
+ * Coerce a value to a number
+ * Booleans become 1/0, numeric strings (including "$1,250") are parsed, empty strings are 0
+ */
+const toNumber = (value: FormulaValue, expression: string, position: number): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return 0;
+  const parsed = Number(trimmed.replace(/[$,]/g, ''));
+  if (isNaN(parsed)) {
+    throw new FormulaEvaluationError(`Expected a number but got "${value}"`, expression, position);
+  }
+  return parsed;
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const normalized = value.trim().toLowerCase();
+  return normalized !== '' && normalized !== 'false' && normalized !== 'no';
+};
+
+const isNumeric = (value: FormulaValue): boolean => {
+  if (typeof value !== 'string') return true;
+  const trimmed = value.trim();
+  return trimmed !== '' && !isNaN(Number(trimmed.replace(/[$,]/g, '')));
+};
+
+/**
+ * Compare two values: numbers numerically, strings case-insensitively
+ * Returns negative / zero / positive like a sort comparator
+ */
+const compareValues = (left: FormulaValue, right: FormulaValue, expression: string, position: number): number => {
+  if (typeof left === 'string' && typeof right === 'string' && !(isNumeric(left) && isNumeric(right))) {
+    return left.trim().toLowerCase().localeCompare(right.trim().toLowerCase());
+  }
+  return toNumber(left, expression, position) - toNumber(right, expression, position);
+};
+
+const areEqual = (left: FormulaValue, right: FormulaValue): boolean => {
+  if (typeof left === 'string' && typeof right === 'string') {
+    if (isNumeric(left) && isNumeric(right)) {
+      return Number(left.replace(/[$,]/g, '')) === Number(right.replace(/[$,]/g, ''));
+    }
+    return left.trim().toLowerCase() === right.trim().toLowerCase();
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toBoolean(left) === toBoolean(right);
+  }
+  if (!isNumeric(left) || !isNumeric(right)) {
+    return false;
+  }
+  return Number(String(left).replace(/[$,]/g, '')) === Number(String(right).replace(/[$,]/g, ''));
+};
+
+/**
+ * Evaluate a parsed formula
+ * Variables are resolved lazily through `resolveVariable`, so an `if()` or
+ * ternary branch that isn't taken never touches its variables.
+ * Throws FormulaEvaluationError (with position) on type errors, division by zero, etc.
+ */
+export const evaluateFormulaAst = (
+  node: FormulaNode,
+  expression: string,
+  resolveVariable: FormulaVariableResolver
+): FormulaValue => {
+  const evaluate = (current: FormulaNode): FormulaValue => {
+    const num = (value: FormulaValue, at: FormulaNode = current) => toNumber(value, expression, at.position);
+
+    switch (current.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return current.value;
+
+      case 'variable':
+        try {
+          return resolveVariable(current.name);
+        } catch (error) {
+          // Resolver failures (e.g. an unknown rate card) point at the variable
+          if (error instanceof FormulaError || !(error instanceof Error)) throw error;
+          throw new FormulaEvaluationError(error.message, expression, current.position);
+        }
+
+      case 'unary': {
+        const operand = evaluate(current.operand);
+        if (current.operator === '!') return !toBoolean(operand);
+        const value = num(operand, current.operand);
+        return current.operator === '-' ? -value : value;
+      }
+
+      case 'conditional':
+        return toBoolean(evaluate(current.test))
+          ? evaluate(current.consequent)
+          : evaluate(current.alternate);
+
+      case 'binary': {
+        // Short-circuit logic operators
+        if (current.operator === '&&') {
+          return toBoolean(evaluate(current.left)) && toBoolean(evaluate(current.right));
+        }
+        if (current.operator === '||') {
+          return toBoolean(evaluate(current.left)) || toBoolean(evaluate(current.right));
+        }
+
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+
+        switch (current.operator) {
+          case '==':
+            return areEqual(left, right);
+          case '!=':
+            return !areEqual(left, right);
+          case '<':
+            return compareValues(left, right, expression, current.position) < 0;
+          case '<=':
+            return compareValues(left, right, expression, current.position) <= 0;
+          case '>':
+            return compareValues(left, right, expression, current.position) > 0;
+          case '>=':
+            return compareValues(left, right, expression, current.position) >= 0;
+          case '+':
+            return num(left, current.left) + num(right, current.right);
+          case '-':
+            return num(left, current.left) - num(right, current.right);
+          case '*':
+            return num(left, current.left) * num(right, current.right);
+          case '/':
+          case '%': {
+            const divisor = num(right, current.right);
+            if (divisor === 0) {
+              throw new FormulaEvaluationError('Division by zero', expression, current.position);
+            }
+            const dividend = num(left, current.left);
+            return current.operator === '/' ? dividend / divisor : dividend % divisor;
+          }
+        }
+        throw new FormulaEvaluationError(`Unsupported operator "${current.operator}"`, expression, current.position);
+      }
+
+      case 'call':
+        return callFunction(current, evaluate, num, expression);
+    }
+  };
+
+  return evaluate(node);
+};
+
+const callFunction = (
+  node: Extract<FormulaNode, { type: 'call' }>,
+  evaluate: (node: FormulaNode) => FormulaValue,
+  num: (value: FormulaValue, at?: FormulaNode) => number,
+  expression: string
+): FormulaValue => {
+  // if() is lazy: only the chosen branch is evaluated
+  if (node.name === 'if') {
+    const [test, consequent, alternate] = node.args;
+    return toBoolean(evaluate(test)) ? evaluate(consequent) : evaluate(alternate);
+  }
+
+  const args = node.args.map(arg => num(evaluate(arg), arg));
+
+  switch (node.name) {
+    case 'min':
+      return Math.min(...args);
+    case 'max':
+      return Math.max(...args);
+    case 'round': {
+      const factor = Math.pow(10, args[1] ?? 0);
+      return Math.round(args[0] * factor) / factor;
+    }
+    case 'ceil':
+      return Math.ceil(args[0]);
+    case 'floor':
+      return Math.floor(args[0]);
+    case 'abs':
+      return Math.abs(args[0]);
+    case 'pow':
+      return Math.pow(args[0], args[1]);
+    case 'sqrt':
+      if (args[0] < 0) {
+        throw new FormulaEvaluationError('sqrt() of a negative number', expression, node.position);
+      }
+      return Math.sqrt(args[0]);
+    case 'clamp': {
+      const [value, low, high] = args;
+      if (low > high) {
+        throw new FormulaEvaluationError(
+          `clamp() lower bound ${low} is greater than upper bound ${high}`,
+          expression,
+          node.position
+        );
+      }
+      return Math.min(Math.max(value, low), high);
+    }
+  }
+
+  throw new FormulaEvaluationError(`Unknown function "${node.name}"`, expression, node.position);
+};
+
+/**
+ * Coerce a formula result to a finite number (booleans become 1/0)
+ */
+export const formulaResultToNumber = (value: FormulaValue, expression: string): number => {
+  const result = toNumber(value, expression, 0);
+  if (!isFinite(result)) {
+    throw new FormulaEvaluationError(`Formula did not produce a finite number (${result})`, expression, 0);
+  }
+  return result;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyService } from '../types/quote';
+import { describeHourlyEstimate, describeHourlyEstimates } from './hourlyEstimates';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, pricingRule, quoteForm } from './testFixtures';
+
+const cleanup: HourlyService = {
+  name: 'Bookkeeping Cleanup',
+  rate: 85,
+  unitName: 'hour',
+  billingFrequency: 'One-Time Fee',
+  estimatedHours: { low: 10, high: 20 },
+  estimatedCost: { low: 850, high: 1700 }
+};
+
+const base = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 });
+const form = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails({ bankAccounts: 3 }) });
+
+describe('describeHourlyEstimate', () => {
+  it('describes the hours, rate and cost of an estimate', () => {
+    expect(describeHourlyEstimate(cleanup)).toBe('Bookkeeping Cleanup: 10-20 hour(s) × $85/hour = $850-$1,700');
+    expect(describeHourlyEstimate({ ...cleanup, billingFrequency: 'Monthly', estimatedHours: { low: 2, high: 2 }, estimatedCost: { low: 170, high: 170 } }))
+      .toBe('Bookkeeping Cleanup: 2 hour(s) × $85/hour = $170/mo');
+  });
+
+  it('leaves out hourly services without an estimate', () => {
+    const rateOnly: HourlyService = { name: 'Consulting', rate: 150, unitName: 'hour', billingFrequency: 'Hourly' };
+
+    expect(describeHourlyEstimate(rateOnly)).toBeUndefined();
+    expect(describeHourlyEstimates([rateOnly, cleanup])).toEqual(['Bookkeeping Cleanup: 10-20 hour(s) × $85/hour = $850-$1,700']);
+  });
+});
+
+describe('hourly estimates in a quote', () => {
+  it('lists a rule with Estimated Hours as an hourly service, outside the totals', () => {
+    const rule = pricingRule('bookkeeping-cleanup', {
+      serviceName: 'Bookkeeping Cleanup',
+      pricingType: 'Base Service',
+      billingFrequency: 'One-Time Fee',
+      unitPrice: 85,
+      estimatedHours: { low: { source: 'fixed', value: 20 }, high: { source: 'fixed', value: 10 } }
+    });
+    const quote = calculateQuote(form, [base, rule]);
+
+    expect(quote.hourlyServices).toEqual([{ ...cleanup, serviceId: 'bookkeeping' }]);
+    expect(quote.totalOneTimeFees).toBe(0);
+    expect(quote.estimatedTotal).toEqual({ low: 4800 + 850, high: 4800 + 1700 });
+  });
+
+  it('reads hours from a form field and counts monthly hourly work twelve times', () => {
+    const rule = pricingRule('bookkeeping-reconciliation', {
+      serviceName: 'Reconciliation',
+      pricingType: 'Base Service',
+      unitPrice: 50,
+      estimatedHours: { low: { source: 'field', field: 'bookkeeping.bankAccounts' }, high: { source: 'fixed', value: 5 } }
+    });
+    const quote = calculateQuote(form, [base, rule]);
+
+    expect(quote.hourlyServices[0]).toMatchObject({ estimatedHours: { low: 3, high: 5 }, estimatedCost: { low: 150, high: 250 } });
+    expect(quote.totalMonthlyFees).toBe(400);
+    expect(quote.estimatedTotal).toEqual({ low: 4800 + 150 * 12, high: 4800 + 250 * 12 });
+  });
+});
@@ -0,0 +1,33 @@
+import { HourlyService } from '../types/quote';
+import { BILLING_FREQUENCY_SUFFIXES, isBillingFrequency } from './billingFrequencies';
+import { formatDollars } from './money';
+
+/**
+ * Hourly estimates
+ *
+ * A rule with Estimated Hours Low/High is billed hourly: calculateQuote lists it
+ * as an hourly service with the hours expected per billing period and what they
+ * cost at the rule's Unit Price, instead of adding it to the totals. The quote's
+ * estimatedTotal is the annual total plus the first year of those estimates.
+ */
+
+const formatRange = (low: string | number, high: string | number): string =>
+  low === high ? String(low) : `${low}-${high}`;
+
+/**
+ * One line per estimate, e.g. "Bookkeeping Cleanup: 10-20 hour(s) × $85/hour = $850-$1,700"
+ * (as recorded with the quote in Airtable and the webhook)
+ */
+export const describeHourlyEstimate = (hourlyService: HourlyService): string | undefined => {
+  const { estimatedHours: hours, estimatedCost: cost } = hourlyService;
+  if (!hours || !cost) return undefined;
+
+  const suffix = isBillingFrequency(hourlyService.billingFrequency) ? BILLING_FREQUENCY_SUFFIXES[hourlyService.billingFrequency] : '';
+  return `${hourlyService.name}: ${formatRange(hours.low, hours.high)} ${hourlyService.unitName}(s) × ${formatDollars(hourlyService.rate)}/${hourlyService.unitName}` +
+    ` = ${formatRange(formatDollars(cost.low), formatDollars(cost.high))}${suffix}`;
+};
+
+export const describeHourlyEstimates = (hourlyServices: HourlyService[]): string[] =>
+  hourlyServices
+    .map(describeHourlyEstimate)
+    .filter((line): line is string => line !== undefined);
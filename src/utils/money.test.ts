@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocateMoney,
+  formatDollarRange,
+  formatDollars,
+  minMoney,
+  multiplyMoney,
+  parseRoundingPolicy,
+  reconcileLines,
+  roundMoney,
+  roundToCents,
+  toDollars,
+  toMoney
+} from './money';
+
+const dollars = (...amounts: number[]) => amounts.map(toMoney);
+
+describe('toMoney', () => {
+  it('rounds halves away from zero without float noise', () => {
+    expect(toMoney(1.005)).toBe(101);
+    expect(toMoney(-1.005)).toBe(-101);
+    expect(toMoney(0.1 + 0.2)).toBe(30);
+    expect(roundToCents(2.675)).toBe(2.68);
+  });
+
+  it('treats non-finite amounts as zero', () => {
+    expect(toMoney(NaN)).toBe(0);
+    expect(toMoney(Infinity)).toBe(0);
+  });
+
+  it('round-trips through dollars', () => {
+    expect(toDollars(toMoney(1250.5))).toBe(1250.5);
+    expect(multiplyMoney(toMoney(33.33), 3)).toBe(9999);
+    expect(minMoney(toMoney(50), toMoney(30.25))).toBe(3025);
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to the policy unit', () => {
+    expect(roundMoney(toMoney(100.5), 'dollar')).toBe(10100);
+    expect(roundMoney(toMoney(-100.5), 'dollar')).toBe(-10100);
+    expect(roundMoney(toMoney(100.49), 'cent')).toBe(10049);
+  });
+});
+
+describe('reconcileLines', () => {
+  it('per-line: rounds each line and sums them', () => {
+    expect(reconcileLines(dollars(100.4, 200.4), { mode: 'per-line', unit: 'dollar' })).toEqual({ lines: [10000, 20000], total: 30000 });
+  });
+
+  it('per-total: rounds the total and spreads the rounding over the lines', () => {
+    const result = reconcileLines(dollars(100.4, 200.4, 50.3), { mode: 'per-total', unit: 'dollar' });
+    expect(result.total).toBe(35100);
+    expect(result.lines).toEqual([10100, 20000, 5000]); // equal remainders: earliest line first
+    expect(result.lines.reduce((sum, line) => sum + line, 0)).toBe(result.total);
+  });
+});
+
+describe('allocateMoney', () => {
+  it('splits in proportion and adds up to exactly the amount', () => {
+    expect(allocateMoney(toMoney(10), dollars(1, 1, 1))).toEqual([334, 333, 333]);
+    expect(allocateMoney(toMoney(-10), dollars(1, 1, 1))).toEqual([-334, -333, -333]);
+    expect(allocateMoney(toMoney(9), dollars(1, 2))).toEqual([300, 600]);
+  });
+
+  it('gives nothing when there is no weight', () => {
+    expect(allocateMoney(toMoney(5), dollars(0, 0))).toEqual([0, 0]);
+  });
+});
+
+describe('parseRoundingPolicy', () => {
+  it('reads Firm Info values and falls back per half', () => {
+    expect(parseRoundingPolicy('Per Line', 'Nearest Cent')).toEqual({ mode: 'per-line', unit: 'cent' });
+    expect(parseRoundingPolicy('', 'Nearest Cent')).toEqual({ mode: 'per-total', unit: 'cent' });
+    expect(parseRoundingPolicy('per_line', 'quarter')).toEqual({ mode: 'per-line', unit: 'dollar' });
+  });
+});
+
+describe('formatDollars', () => {
+  it('only shows cents when there are some', () => {
+    expect(formatDollars(1250)).toBe('$1,250');
+    expect(formatDollars(1250.5)).toBe('$1,250.50');
+    expect(formatDollarRange(1000, 1250)).toBe('$1,000 – $1,250');
+    expect(formatDollarRange(1000, 1000)).toBe('$1,000');
+  });
+});
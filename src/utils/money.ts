@@ -0,0 +1,164 @@
+/**
+ * Money and rounding
+ *
+ * Amounts are added up as whole cents (Money) so the same prices always give
+ * the same totals, whatever order the rules ran in. Rule prices are rounded to
+ * the cent once, half away from zero, and stay Money through discounts,
+ * minimums, prepay and ranges; QuoteData, the trace and integrations get plain
+ * dollar numbers (toDollars) once the quote is built.
+ *
+ * How the quote's lines (each service's monthly and one-time fee) and totals
+ * are rounded is the tenant's rounding policy (Firm Info "Rounding Mode" and
+ * "Rounding Unit"):
+ *
+ *   per-line   each line is rounded and the totals are the sum of the lines
+ *   per-total  the totals are rounded and the rounding is spread over the lines
+ *              (largest remainder first) so the lines still add up to them
+ *
+ * Either way the lines shown always add up to the totals shown.
+ *
+ * This module has no environment dependencies so the calculator, the
+ * integrations and the CLI scripts share it.
+ */
+
+// Whole cents - only create through the helpers below
+export type Money = number & { readonly __money: 'cents' };
+
+export type RoundingMode = 'per-line' | 'per-total';
+export type RoundingUnit = 'cent' | 'dollar';
+
+export interface RoundingPolicy {
+  mode: RoundingMode;
+  unit: RoundingUnit;
+}
+
+// Whole-dollar totals as before rounding policies, with lines that add up to them
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = { mode: 'per-total', unit: 'dollar' };
+
+export const ZERO_MONEY = 0 as Money;
+
+const CENTS_PER_UNIT: { [unit in RoundingUnit]: number } = { cent: 1, dollar: 100 };
+
+// Half away from zero, so a discount rounds the same as the charge it mirrors
+const roundHalfAwayFromZero = (value: number): number => Math.sign(value) * Math.round(Math.abs(value));
+
+/**
+ * Dollars to whole cents
+ * Goes through 12 significant digits first so float noise doesn't decide
+ * halves (1.005 is 100.49999... cents as a float, but 101 here).
+ */
+export const toMoney = (dollars: number): Money => {
+  if (!Number.isFinite(dollars)) return ZERO_MONEY;
+  return (roundHalfAwayFromZero(Number((dollars * 100).toPrecision(12))) || 0) as Money;
+};
+
+export const toDollars = (amount: Money): number => amount / 100;
+
+/**
+ * A dollar amount rounded to the cent (the precision every rule price is kept at)
+ */
+export const roundToCents = (dollars: number): number => toDollars(toMoney(dollars));
+
+export const addMoney = (...amounts: Money[]): Money =>
+  amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+export const subtractMoney = (amount: Money, subtrahend: Money): Money => (amount - subtrahend) as Money;
+
+export const minMoney = (...amounts: Money[]): Money => Math.min(...amounts) as Money;
+
+export const multiplyMoney = (amount: Money, factor: number): Money =>
+  toMoney(toDollars(amount) * factor);
+
+/**
+ * Split an amount over lines in proportion to their weights
+ * The shares add up to exactly the amount: each is floored to the cent and the
+ * cents left over go to the largest remainders (earliest line on a tie).
+ */
+export const allocateMoney = (amount: Money, weights: Money[]): Money[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map(() => ZERO_MONEY);
+
+  const sign = Math.sign(amount);
+  const exact = weights.map(weight => Math.abs(amount) * weight / totalWeight);
+  const shares = exact.map(Math.floor);
+  let centsLeft = Math.abs(amount) - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (centsLeft <= 0) break;
+    shares[index]++;
+    centsLeft--;
+  }
+
+  return shares.map(share => ((sign * share) || 0) as Money);
+};
+
+/**
+ * Round to the policy unit (a no-op for cents)
+ */
+export const roundMoney = (amount: Money, unit: RoundingUnit): Money => {
+  const size = CENTS_PER_UNIT[unit];
+  return ((roundHalfAwayFromZero(amount / size) * size) || 0) as Money;
+};
+
+/**
+ * Round a set of lines and their total by the policy
+ * Returns the rounded lines (same order) and a total that is exactly their sum.
+ */
+export const reconcileLines = (lines: Money[], policy: RoundingPolicy): { lines: Money[]; total: Money } => {
+  if (policy.mode === 'per-line') {
+    const rounded = lines.map(line => roundMoney(line, policy.unit));
+    return { lines: rounded, total: addMoney(...rounded) };
+  }
+
+  // per-total: round the exact total, floor each line to the unit, then hand the
+  // missing units to the lines that lost the most
+  const size = CENTS_PER_UNIT[policy.unit];
+  const total = roundMoney(addMoney(...lines), policy.unit);
+  const floored = lines.map(line => Math.floor(line / size) * size);
+  let unitsLeft = Math.round((total - floored.reduce((sum, line) => sum + line, 0)) / size);
+
+  const byRemainder = lines
+    .map((line, index) => ({ index, remainder: line - floored[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (unitsLeft <= 0) break;
+    floored[index] += size;
+    unitsLeft--;
+  }
+
+  return { lines: floored.map(line => (line || 0) as Money), total };
+};
+
+/**
+ * Read a rounding policy from Firm Info style values
+ * ("Per Line" / "Per Total", "Nearest Cent" / "Nearest Dollar"); anything
+ * blank or unrecognised keeps the default for that half.
+ */
+export const parseRoundingPolicy = (mode: unknown, unit: unknown): RoundingPolicy => {
+  const normalise = (value: unknown) => String(value ?? '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const modeText = normalise(mode);
+  const unitText = normalise(unit).replace(/^nearest-/, '');
+
+  return {
+    mode: modeText === 'per-line' || modeText === 'per-total' ? modeText : DEFAULT_ROUNDING_POLICY.mode,
+    unit: unitText === 'cent' || unitText === 'dollar' ? unitText : DEFAULT_ROUNDING_POLICY.unit
+  };
+};
+
+/**
+ * Dollar amount for display: $1,250 when whole, $1,250.50 otherwise
+ */
+export const formatDollars = (dollars: number): string => {
+  const cents = toMoney(dollars);
+  const digits = cents % 100 === 0 ? 0 : 2;
+  return `$${toDollars(cents).toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+};
+
+/**
+ * Dollar range for display: $1,000 – $1,250 ($1,000 when both ends are the same)
+ */
+export const formatDollarRange = (low: number, high: number): string =>
+  low === high ? formatDollars(low) : `${formatDollars(low)} – ${formatDollars(high)}`;
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ConditionSyntaxError, describeConditionGroup, evaluateCondition, evaluateConditionGroup, parseConditionGroup } from './pricingConditions';
+import { businessTaxDetails, quoteForm } from './testFixtures';
+
+const formData = quoteForm({
+  services: ['advisory-lite', 'Bookkeeping'],
+  businessTax: businessTaxDetails({ entityType: 'LLC (Partnership)', numberOfOwners: 3, otherSituations: ['Multi-state operations'] })
+});
+
+describe('evaluateCondition contains', () => {
+  it('matches part of a text field', () => {
+    expect(evaluateCondition(formData, 'entityType', 'partnership', 'contains', 'business-tax')).toBe(true);
+    expect(evaluateCondition(formData, 'entityType', 'S-Corp', 'notContains', 'business-tax')).toBe(true);
+    expect(evaluateCondition(formData, 'entityType', 'llc', 'includes', 'business-tax')).toBe(true);
+  });
+
+  it('matches part of a list item too', () => {
+    expect(evaluateCondition(formData, 'services', 'advisory', 'contains')).toBe(true);
+    expect(evaluateCondition(formData, 'services', 'advisory', 'notContains')).toBe(false);
+    expect(evaluateCondition(formData, 'otherSituations', 'multi-state', 'contains', 'business-tax')).toBe(true);
+  });
+});
+
+describe('evaluateCondition hasItem', () => {
+  it('matches whole items of a list field', () => {
+    expect(evaluateCondition(formData, 'services', 'advisory', 'hasItem')).toBe(false);
+    expect(evaluateCondition(formData, 'services', 'advisory', 'notHasItem')).toBe(true);
+    expect(evaluateCondition(formData, 'services', ' bookkeeping ', 'hasItem')).toBe(true);
+    expect(evaluateCondition(formData, 'services', 'advisory-lite', 'notHasItem')).toBe(false);
+  });
+
+  it('treats a single answer as a one-item list', () => {
+    expect(evaluateCondition(formData, 'entityType', 'llc (partnership)', 'hasItem', 'business-tax')).toBe(true);
+    expect(evaluateCondition(formData, 'entityType', 'partnership', 'hasItem', 'business-tax')).toBe(false);
+  });
+});
+
+describe('evaluateConditionGroup', () => {
+  const partnershipWithOwners = parseConditionGroup(JSON.stringify({
+    all: [
+      { field: 'businessTax.entityType', operator: 'contains', value: 'partnership' },
+      { any: [{ field: 'numberOfOwners', operator: 'greaterThan', value: 2 }, { field: 'additionalStateCount', operator: 'greaterThan', value: 0 }] }
+    ],
+    none: [{ field: 'services', operator: 'hasItem', value: 'payroll' }]
+  }));
+
+  it('needs every key of a group to be satisfied', () => {
+    expect(evaluateConditionGroup(formData, partnershipWithOwners, 'business-tax')).toBe(true);
+    expect(evaluateConditionGroup({ ...formData, services: [...formData.services, 'payroll'] }, partnershipWithOwners, 'business-tax')).toBe(false);
+    expect(evaluateConditionGroup(
+      { ...formData, businessTax: businessTaxDetails({ entityType: 'LLC (Partnership)', numberOfOwners: 2 }) },
+      partnershipWithOwners,
+      'business-tax'
+    )).toBe(false);
+  });
+
+  it('places no constraint with an empty list', () => {
+    expect(evaluateConditionGroup(formData, { all: [], any: [] })).toBe(true);
+  });
+
+  it('describes the group for the trace', () => {
+    expect(describeConditionGroup(parseConditionGroup('{"field": "services", "operator": "isNotEmpty"}'))).toBe('ALL(services isNotEmpty)');
+  });
+});
+
+describe('parseConditionGroup', () => {
+  it('points at the node that is wrong', () => {
+    expect(() => parseConditionGroup('{"all": [{"field": "services", "operator": "gt", "value": 1}]}')).toThrow(ConditionSyntaxError);
+    expect(() => parseConditionGroup('{"all": [{"field": "services", "operator": "gt", "value": 1}]}')).toThrow(/^all\[0\]\.operator: unknown operator "gt"/);
+    expect(() => parseConditionGroup('{"any": {"field": "services"}}')).toThrow('any: expected an array of conditions');
+    expect(() => parseConditionGroup('{"field": "services", "operator": "equals"}')).toThrow('value: operator "equals" needs a "value"');
+    expect(() => parseConditionGroup('{all: []}')).toThrow('invalid JSON');
+  });
+});
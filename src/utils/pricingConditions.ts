@@ -0,0 +1,391 @@
+import { FormData, ConditionGroup, ConditionNode, ConditionClause, ComparisonOperator, ConditionCheck } from '../types/quote';
+
+/**
+ * Condition engine shared by pricing rules (and anything else that needs to
+ * test form data): single field comparisons plus nested all/any/none groups.
+ */
+
+// Helper function to safely get nested object values using dot notation
+// with fallback to root level for backward compatibility
+const getNestedValue = (obj: unknown, path: string): unknown => {
+  if (!path) return undefined;
+
+  // Try nested path first (preferred)
+  const result = path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, obj);
+
+  // If nested path succeeded, return the value
+  if (result !== undefined) {
+    return result;
+  }
+
+  // FALLBACK: Check if the field exists at root level (backward compatibility)
+  // This handles legacy data where fields were stored flat instead of nested
+  const pathParts = path.split('.');
+  if (pathParts.length > 1) {
+    // Get the last part of the path (the field name)
+    const fieldName = pathParts[pathParts.length - 1];
+    const rootValue = (obj as Record<string, unknown>)[fieldName];
+
+    if (rootValue !== undefined) {
+      console.warn(`[getNestedValue] Field found at root level instead of nested path: ${path} -> ${fieldName}`);
+      console.warn(`[getNestedValue] Consider updating data structure to use nested format: ${path}`);
+      return rootValue;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Smart field value lookup that handles both nested and flat paths
+ * and automatically constructs the correct path based on service context
+ */
+export const getFieldValueSmart = (formData: FormData, triggerField: string, serviceId?: string): unknown => {
+  // First, try the field path as-is (for fully qualified paths like "individualTax.filingStatus")
+  let fieldValue = getNestedValue(formData, triggerField);
+
+  if (fieldValue !== undefined) {
+    return fieldValue;
+  }
+
+  // If that didn't work and we have a serviceId, try constructing the nested path
+  if (serviceId && !triggerField.includes('.')) {
+    // Convert serviceId to camelCase (e.g., "individual-tax" → "individualTax")
+    const serviceCamelCase = serviceId.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+    const constructedPath = `${serviceCamelCase}.${triggerField}`;
+
+    fieldValue = getNestedValue(formData, constructedPath);
+
+    if (fieldValue !== undefined) {
+      console.log(`🔍 Field found using constructed path: ${constructedPath}`);
+      return fieldValue;
+    }
+  }
+
+  // Final fallback: try root level
+  return (formData as unknown as Record<string, unknown>)[triggerField];
+};
+
+// hasItem / notHasItem: one of the list's items must equal the value
+// ("advisory" is not in ["advisory-lite"]); a single value is a one-item list
+const hasItem = (fieldValue: unknown, requiredValue: string): boolean => {
+  const required = String(requiredValue).toLowerCase().trim();
+  const items = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+  return items.some(item => String(item).toLowerCase().trim() === required);
+};
+
+/**
+ * Evaluates conditional logic for pricing rules
+ *
+ * @param formData - Complete form data object
+ * @param triggerField - Field name to check (supports dot notation for nested fields)
+ * @param requiredValue - Value to compare against (empty string for isEmpty/isNotEmpty)
+ * @param comparisonLogic - Comparison operator
+ * @param serviceId - Optional service ID to help construct the correct field path
+ *
+ * Supported Operators:
+ *
+ * TEXT OPERATORS:
+ * - equals: Exact match (case-insensitive, trimmed)
+ * - notEquals: Not equal (case-insensitive, trimmed)
+ * - contains: Field contains value (case-insensitive)
+ * - notContains: Field does not contain value (case-insensitive)
+ * - hasItem: One of the list's items (services, multi-select) equals value
+ * - notHasItem: None of the list's items equals value
+ *
+ * NUMERIC OPERATORS:
+ * - lessThan: Field < value (strips currency formatting)
+ * - lessThanOrEqual: Field <= value
+ * - greaterThan: Field > value
+ * - greaterThanOrEqual: Field >= value
+ *
+ * EXISTENCE OPERATORS:
+ * - isEmpty: Field is undefined, null, empty string, or empty array
+ * - isNotEmpty: Field has a value
+ *
+ * @returns true if condition is met, false otherwise
+ */
+export const evaluateCondition = (
+  formData: FormData,
+  triggerField: string,
+  requiredValue: string,
+  comparisonLogic: string,
+  serviceId?: string
+): boolean => {
+  const fieldValue = getFieldValueSmart(formData, triggerField, serviceId);
+
+  // Handle isEmpty check first (before value comparisons)
+  if (comparisonLogic === 'isEmpty') {
+    return fieldValue === undefined ||
+           fieldValue === null ||
+           fieldValue === '' ||
+           (Array.isArray(fieldValue) && fieldValue.length === 0);
+  }
+
+  if (comparisonLogic === 'isNotEmpty') {
+    return fieldValue !== undefined &&
+           fieldValue !== null &&
+           fieldValue !== '' &&
+           !(Array.isArray(fieldValue) && fieldValue.length === 0);
+  }
+
+  // If field value is empty and not checking for empty, return false
+  if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+    return false;
+  }
+
+  let result = false;
+
+  switch (comparisonLogic) {
+    // TEXT OPERATORS (work on strings)
+    case 'equals':
+      result = String(fieldValue).toLowerCase().trim() === String(requiredValue).toLowerCase().trim();
+      break;
+
+    case 'notEquals':
+      result = String(fieldValue).toLowerCase().trim() !== String(requiredValue).toLowerCase().trim();
+      break;
+
+    case 'contains':
+      result = String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
+      break;
+
+    case 'notContains':
+      result = !String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
+      break;
+
+    case 'hasItem':
+      result = hasItem(fieldValue, requiredValue);
+      break;
+
+    case 'notHasItem':
+      result = !hasItem(fieldValue, requiredValue);
+      break;
+
+    // NUMERIC OPERATORS (work on numbers)
+    case 'lessThan': {
+      const ltValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
+      const ltRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
+      result = !isNaN(ltValue) && !isNaN(ltRequired) && ltValue < ltRequired;
+      break;
+    }
+
+    case 'lessThanOrEqual': {
+      const lteValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
+      const lteRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
+      result = !isNaN(lteValue) && !isNaN(lteRequired) && lteValue <= lteRequired;
+      break;
+    }
+
+    case 'greaterThan': {
+      const gtValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
+      const gtRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
+      result = !isNaN(gtValue) && !isNaN(gtRequired) && gtValue > gtRequired;
+      break;
+    }
+
+    case 'greaterThanOrEqual': {
+      const gteValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
+      const gteRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
+      result = !isNaN(gteValue) && !isNaN(gteRequired) && gteValue >= gteRequired;
+      break;
+    }
+
+    // LEGACY: includes (alias for contains - backward compatibility)
+    case 'includes':
+      result = String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
+      break;
+
+    default:
+      console.warn(`Unknown comparison logic: ${comparisonLogic}`);
+      result = false;
+  }
+
+  return result;
+};
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  'equals',
+  'notEquals',
+  'contains',
+  'notContains',
+  'hasItem',
+  'notHasItem',
+  'isEmpty',
+  'isNotEmpty',
+  'lessThan',
+  'lessThanOrEqual',
+  'greaterThan',
+  'greaterThanOrEqual',
+  'includes'
+];
+
+const GROUP_KEYS = ['all', 'any', 'none'] as const;
+
+const isConditionGroup = (node: ConditionNode): node is ConditionGroup =>
+  GROUP_KEYS.some(key => key in node);
+
+/**
+ * Evaluate a compound condition group against form data
+ *
+ * Every key present on a group must be satisfied (so {"all": [...], "none": [...]}
+ * means "all of these and none of those"). An empty list places no constraint.
+ *
+ * @param formData - Complete form data object
+ * @param group - Condition group (or single clause) to evaluate
+ * @param serviceId - Optional service ID used to resolve short field names
+ * @returns true if the group matches
+ */
+export const evaluateConditionGroup = (
+  formData: FormData,
+  group: ConditionNode,
+  serviceId?: string
+): boolean => {
+  if (!isConditionGroup(group)) {
+    const clause = group as ConditionClause;
+    return evaluateCondition(
+      formData,
+      clause.field,
+      clause.value === undefined || clause.value === null ? '' : String(clause.value),
+      clause.operator,
+      serviceId
+    );
+  }
+
+  const matches = (node: ConditionNode) => evaluateConditionGroup(formData, node, serviceId);
+
+  if (group.all && !group.all.every(matches)) return false;
+  if (group.any && group.any.length > 0 && !group.any.some(matches)) return false;
+  if (group.none && group.none.some(matches)) return false;
+
+  return true;
+};
+
+/**
+ * List every clause of a condition group with the form value it was compared to
+ * Used for the quote calculation trace; clauses are flattened in group order, so
+ * pair it with describeConditionGroup for the all/any/none structure.
+ */
+export const traceConditionGroup = (
+  formData: FormData,
+  group: ConditionNode,
+  serviceId?: string
+): ConditionCheck[] => {
+  if (!isConditionGroup(group)) {
+    const clause = group as ConditionClause;
+    const expected = clause.value === undefined || clause.value === null ? '' : String(clause.value);
+    return [{
+      source: 'conditions',
+      field: clause.field,
+      operator: clause.operator,
+      expected: clause.value === undefined ? undefined : expected,
+      actual: getFieldValueSmart(formData, clause.field, serviceId),
+      matched: evaluateCondition(formData, clause.field, expected, clause.operator, serviceId)
+    }];
+  }
+
+  return GROUP_KEYS.flatMap(key => (group[key] || []).flatMap(node => traceConditionGroup(formData, node, serviceId)));
+};
+
+/**
+ * Thrown when a "Trigger Conditions" JSON value doesn't describe a valid condition group
+ * `path` points at the offending node, e.g. "all[1].operator"
+ */
+export class ConditionSyntaxError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'ConditionSyntaxError';
+    this.path = path;
+  }
+}
+
+const validateConditionNode = (node: unknown, path: string): ConditionNode => {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) {
+    throw new ConditionSyntaxError('expected an object with "all", "any", "none" or "field"', path);
+  }
+
+  const record = node as Record<string, unknown>;
+  const groupKeys = GROUP_KEYS.filter(key => key in record);
+
+  if (groupKeys.length > 0) {
+    if ('field' in record) {
+      throw new ConditionSyntaxError('a node can be a group or a clause, not both', path);
+    }
+    const group: ConditionGroup = {};
+    for (const key of groupKeys) {
+      const children = record[key];
+      const childPath = path ? `${path}.${key}` : key;
+      if (!Array.isArray(children)) {
+        throw new ConditionSyntaxError('expected an array of conditions', childPath);
+      }
+      group[key] = children.map((child, index) => validateConditionNode(child, `${childPath}[${index}]`));
+    }
+    return group;
+  }
+
+  const prefix = path ? `${path}.` : '';
+  if (typeof record.field !== 'string' || !record.field.trim()) {
+    throw new ConditionSyntaxError('missing "field"', `${prefix}field`);
+  }
+  if (!COMPARISON_OPERATORS.includes(record.operator as ComparisonOperator)) {
+    throw new ConditionSyntaxError(
+      `unknown operator ${JSON.stringify(record.operator)} (expected one of ${COMPARISON_OPERATORS.join(', ')})`,
+      `${prefix}operator`
+    );
+  }
+  const value = record.value;
+  if (value !== undefined && value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+    throw new ConditionSyntaxError('value must be a string, number or boolean', `${prefix}value`);
+  }
+  const needsValue = record.operator !== 'isEmpty' && record.operator !== 'isNotEmpty';
+  if (needsValue && (value === undefined || value === null || value === '')) {
+    throw new ConditionSyntaxError(`operator "${record.operator}" needs a "value"`, `${prefix}value`);
+  }
+
+  return {
+    field: record.field.trim(),
+    operator: record.operator as ComparisonOperator,
+    value: value as ConditionClause['value']
+  };
+};
+
+/**
+ * Parse a "Trigger Conditions" JSON column into a condition group
+ * A single top-level clause is wrapped as {"all": [clause]}.
+ * Throws ConditionSyntaxError describing the first problem found.
+ */
+export const parseConditionGroup = (json: string): ConditionGroup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new ConditionSyntaxError(`invalid JSON (${(error as Error).message})`, '');
+  }
+
+  const node = validateConditionNode(parsed, '');
+  return isConditionGroup(node) ? node : { all: [node] };
+};
+
+/**
+ * Human-readable summary of a condition group, e.g.
+ * ALL(businessTax.entityType equals "S-Corporation", businessTax.numberOfOwners greaterThan "2")
+ */
+export const describeConditionGroup = (node: ConditionNode): string => {
+  if (!isConditionGroup(node)) {
+    const clause = node as ConditionClause;
+    return clause.value === undefined
+      ? `${clause.field} ${clause.operator}`
+      : `${clause.field} ${clause.operator} "${clause.value}"`;
+  }
+  return GROUP_KEYS
+    .filter(key => node[key])
+    .map(key => `${key.toUpperCase()}(${(node[key] || []).map(describeConditionGroup).join(', ')})`)
+    .join(' AND ');
+};
@@ -1,4 +1,11 @@
-import { PricingConfig, ComparisonOperator } from '../types/quote';
+import { BillingFrequency, PricingConfig, ComparisonOperator, IncludedUnits, EstimatedHours } from '../types/quote';
+import { FormulaError, parseFormula } from './formulaParser';
+import { ConditionSyntaxError, parseConditionGroup } from './pricingConditions';
+import { DiscountTargetsSyntaxError, parseDiscountTargets, validateDiscountRules } from './discounts';
+import { TierTableSyntaxError, parseTierTable } from './tieredPricing';
+import { LOOKUP_PREFIX } from './rateCards';
+import { formatConfigIssue, validateConfigRecords } from './configSchema';
+import { parsePricingDate, validateEffectiveDates } from './pricingVersions';
 
 // Airtable configuration for pricing (fallback to env vars for development)
 const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
@@ -22,6 +29,21 @@ function extractFieldValue(field: any): string | undefined {
   return undefined;
 }
 
+/**
+ * Thrown when the pricing configuration loaded from Airtable is unusable
+ * (e.g. a formula that doesn't parse). Unlike network errors, these do NOT
+ * fall back to the default pricing - the pricing admin needs to fix the rule.
+ */
+export class PricingConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Pricing configuration has ${issues.length} problem(s):\n${issues.join('\n')}`);
+    this.name = 'PricingConfigError';
+    this.issues = issues;
+  }
+}
+
 export interface AirtableConfig {
   baseId: string;
   apiKey: string;
@@ -38,21 +60,43 @@ export interface AirtablePricingRecord {
     'Base Price': string;
     'Billing Frequency': string;
     'Active': string;
+    'Effective From'?: string; // Date: first day the rule applies
+    'Effective To'?: string;   // Date: last day the rule applies
     'Trigger Form Field': string;
     'Required Form Field': string;
     'Comparison Logic': string;
+    'Trigger Conditions'?: string; // JSON condition group: {"all": [...], "any": [...], "none": [...]}
     'Per-Unit Pricing': string;
     'Unit Price': string;
     'Unit Name': string;
     'Quantity Source Field': string;
+    'Included Units'?: string | number; // Free units: a number, a form field path, or lookup.<rate card>
+    'Estimated Hours Low'?: string | number;  // Hourly rules: expected hours, same forms as Included Units
+    'Estimated Hours High'?: string | number;
+    'Price Variance'?: string;  // Price-range mode: ± percent shown around the rule's price (empty = Firm Info default)
     'Advisory Discount Eligible': string;
     'Advisory Discount Percentage': string;
+    // Per-service monthly floor
+    'Minimum Monthly Fee'?: string;
+    'Minimum Monthly Fee (Advisory)'?: string;
+    'Apply Minimum Fee'?: string;
     // Formula-based pricing fields
     'Calculation Method'?: string;
     'Formula Expression'?: string;
     'Formula Input Fields'?: string;
     'Minimum Value'?: string;
     'Maximum Value'?: string;
+    'Rate Card'?: string;  // Name of a Rate Cards table entry that supplies Base Price / Unit Price
+    'Tier Table'?: string; // JSON: {"style": "graduated" | "volume", "tiers": [{"upTo": 100, "unitPrice": 2, "flatPrice": 0}, ...]}
+    // Discount rules (Pricing Type = Discount)
+    'Discount Type'?: string;      // Percentage | Fixed Amount
+    'Discount Value'?: string;     // "15%" / 0.15, or a dollar amount
+    'Discount Targets'?: string;   // JSON: {"services": [...], "rules": [...], "billingFrequencies": [...]}
+    'Discount Priority'?: string;
+    'Discount Stacking'?: string;  // Stackable | Exclusive
+    // Call-for-pricing rules (Pricing Type = Requires Review)
+    'Review Scope'?: string;       // Service (default) | Whole Quote
+    'Review Reason'?: string;      // e.g. "International transactions need a specialist review"
   };
 }
 
@@ -60,14 +104,16 @@ export interface AirtablePricingRecord {
 const defaultPricingConfig: PricingConfig[] = [
   {
     serviceId: 'advisory',
+    pricingRuleId: 'advisory-base',
     serviceName: 'Advisory Services',
+    description: 'Strategic financial guidance and business consulting',
+    pricingType: 'Base Service',
     basePrice: 2500,
-    complexityMultipliers: {
-      low: 1.0,
-      medium: 1.2,
-      high: 1.5,
-      veryHigh: 2.0
-    },
+    billingFrequency: 'Monthly',
+    active: true,
+    perUnitPricing: false,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
     includedFeatures: [
       'Monthly financial review and analysis',
       'Strategic planning sessions',
@@ -86,14 +132,16 @@ const defaultPricingConfig: PricingConfig[] = [
   },
   {
     serviceId: 'individual-tax',
+    pricingRuleId: 'individual-tax-base',
     serviceName: 'Individual Tax Preparation',
+    description: 'Comprehensive personal tax preparation and planning',
+    pricingType: 'Base Service',
     basePrice: 150,
-    complexityMultipliers: {
-      low: 1.0,
-      medium: 1.67,
-      high: 2.33,
-      veryHigh: 3.33
-    },
+    billingFrequency: 'One-Time Fee',
+    active: true,
+    perUnitPricing: false,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
     includedFeatures: [
       'Federal and state tax return preparation',
       'Tax planning consultation',
@@ -111,14 +159,16 @@ const defaultPricingConfig: PricingConfig[] = [
   },
   {
     serviceId: 'business-tax',
+    pricingRuleId: 'business-tax-base',
     serviceName: 'Business Tax Services',
+    description: 'Complete business tax preparation and compliance',
+    pricingType: 'Base Service',
     basePrice: 800,
-    complexityMultipliers: {
-      low: 1.0,
-      medium: 1.2,
-      high: 1.5,
-      veryHigh: 2.0
-    },
+    billingFrequency: 'One-Time Fee',
+    active: true,
+    perUnitPricing: false,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
     includedFeatures: [
       'Business tax return preparation',
       'Quarterly tax compliance',
@@ -135,15 +185,20 @@ const defaultPricingConfig: PricingConfig[] = [
     ]
   },
   {
+    // Revenue-based pricing via the revenueMultiplier rate card (see rateCardService.ts)
     serviceId: 'bookkeeping',
+    pricingRuleId: 'bookkeeping-monthly-service',
     serviceName: 'Bookkeeping Services',
+    description: 'Professional monthly bookkeeping and financial reporting',
+    pricingType: 'Base Service',
     basePrice: 400,
-    complexityMultipliers: {
-      low: 1.0,
-      medium: 1.2,
-      high: 1.5,
-      veryHigh: 2.0
-    },
+    billingFrequency: 'Monthly',
+    active: true,
+    perUnitPricing: false,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
+    calculationMethod: 'formula',
+    formulaExpression: '400 * {{lookup.revenueMultiplier}}',
     includedFeatures: [
       'Monthly bank reconciliation',
       'Transaction categorization',
@@ -157,40 +212,6 @@ const defaultPricingConfig: PricingConfig[] = [
       { name: 'Inventory management', price: 200 },
       { name: 'Multi-entity consolidation', price: 300 },
       { name: 'Custom reporting', price: 150 }
-    ],
-    revenueAdjustments: [
-      { revenueRange: 'Under $50,000', multiplier: 0.8 },
-      { revenueRange: '$50,000 - $100,000', multiplier: 1.0 },
-      { revenueRange: '$100,000 - $250,000', multiplier: 1.2 },
-      { revenueRange: '$250,000 - $500,000', multiplier: 1.4 },
-      { revenueRange: '$500,000 - $1,000,000', multiplier: 1.6 },
-      { revenueRange: '$1,000,000 - $5,000,000', multiplier: 2.0 },
-      { revenueRange: 'Over $5,000,000', multiplier: 3.0 }
-    ]
-  },
-  {
-    serviceId: 'additional-services',
-    serviceName: 'Additional Services',
-    basePrice: 0, // Variable pricing based on selected services
-    complexityMultipliers: {
-      low: 1.0,
-      medium: 1.0,
-      high: 1.0,
-      veryHigh: 1.0
-    },
-    includedFeatures: [
-      'Professional consultations',
-      'Specialized filings',
-      'Strategic planning services',
-      'Project-based solutions'
-    ],
-    addOns: [
-      { name: '2-Hour Comprehensive Consultation', price: 500 },
-      { name: '1-Hour Tax Planning Consultation', price: 250 },
-      { name: '1-Hour Bookkeeping Consultation', price: 200 },
-      { name: '2-Hour Year-End Tax Strategy', price: 400 },
-      { name: '1099 Preparation & Filing', price: 150 },
-      { name: 'S-Corp Election (Form 2553)', price: 300 }
     ]
   },
   {
@@ -214,12 +235,15 @@ const defaultPricingConfig: PricingConfig[] = [
     serviceName: 'Bookkeeping Minimum Fee',
     description: 'Minimum monthly fee for bookkeeping services',
     pricingType: 'Base Service',
-    basePrice: 500,
+    basePrice: 0,
     billingFrequency: 'Monthly',
     active: true,
     perUnitPricing: false,
-    advisoryDiscountEligible: true,
-    advisoryDiscountPercentage: 0.5,
+    minimumMonthlyFee: 500,
+    minimumMonthlyFeeWithAdvisory: 250,
+    applyMinimumFee: true,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
     includedFeatures: [],
     addOns: []
   },
@@ -258,7 +282,8 @@ const parseJsonField = (field: string | undefined): any => {
 };
 
 // Convert Airtable record to PricingConfig
-const convertAirtableRecord = (record: AirtablePricingRecord): PricingConfig => {
+// Problems that make the rule unusable are appended to `issues`
+const convertAirtableRecord = (record: AirtablePricingRecord, issues: string[]): PricingConfig => {
   const fields = record.fields;
   
   // Helper function to parse currency strings (e.g., "$1,250.00" -> 1250)
@@ -303,36 +328,237 @@ const convertAirtableRecord = (record: AirtablePricingRecord): PricingConfig =>
     }
   };
 
+  // Helper function to parse the compound trigger conditions (JSON condition group)
+  const parseTriggerConditions = (value: string | undefined) => {
+    if (!value || !String(value).trim()) return undefined;
+    try {
+      return parseConditionGroup(String(value));
+    } catch (error) {
+      if (error instanceof ConditionSyntaxError) {
+        issues.push(`Rule "${fields['Pricing Rule ID']}": Trigger Conditions - ${error.message}`);
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  // Helper function to parse the discount target list (JSON)
+  const parseTargets = (value: string | undefined) => {
+    if (!value || !String(value).trim()) return undefined;
+    try {
+      return parseDiscountTargets(String(value));
+    } catch (error) {
+      if (error instanceof DiscountTargetsSyntaxError) {
+        issues.push(`Rule "${fields['Pricing Rule ID']}": Discount Targets - ${error.message}`);
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  // Helper function to parse the tier table (JSON) for tiered pricing
+  const parseTiers = (value: string | undefined) => {
+    if (!value || !String(value).trim()) return undefined;
+    try {
+      return parseTierTable(String(value));
+    } catch (error) {
+      if (error instanceof TierTableSyntaxError) {
+        issues.push(`Rule "${fields['Pricing Rule ID']}": Tier Table - ${error.message}`);
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  // Helper function to parse Included Units (and Estimated Hours): a number, a form field path or lookup.<rate card>
+  const parseIncludedUnits = (value: string | number | undefined, column = 'Included Units'): IncludedUnits | undefined => {
+    const text = typeof value === 'number' ? String(value) : extractFieldValue(value);
+    if (!text) return undefined;
+
+    const count = Number(text);
+    if (!isNaN(count)) {
+      if (count < 0) {
+        issues.push(`Rule "${fields['Pricing Rule ID']}": ${column} must be 0 or more (got ${text})`);
+        return undefined;
+      }
+      return { source: 'fixed', value: count };
+    }
+    if (text.startsWith(LOOKUP_PREFIX)) {
+      return { source: 'lookup', rateCard: text.slice(LOOKUP_PREFIX.length) };
+    }
+    return { source: 'field', field: text };
+  };
+
+  // Helper function to parse the hourly estimate (one column alone is used for both ends)
+  const parseEstimatedHours = (): EstimatedHours | undefined => {
+    const low = parseIncludedUnits(fields['Estimated Hours Low'], 'Estimated Hours Low');
+    const high = parseIncludedUnits(fields['Estimated Hours High'], 'Estimated Hours High');
+    if (!low && !high) return undefined;
+
+    if (low?.source === 'fixed' && high?.source === 'fixed' && low.value > high.value) {
+      issues.push(`Rule "${fields['Pricing Rule ID']}": Estimated Hours Low (${low.value}) is more than Estimated Hours High (${high.value})`);
+      return undefined;
+    }
+    if (!parseCurrency(fields['Unit Price'])) {
+      issues.push(`Rule "${fields['Pricing Rule ID']}": Estimated Hours need the hourly rate in Unit Price`);
+      return undefined;
+    }
+    return { low: (low || high)!, high: (high || low)! };
+  };
+
+  // Helper function to parse the price-range variance (0 to 100%)
+  const parsePriceVariance = (): number | undefined => {
+    if (!fields['Price Variance'] || !String(fields['Price Variance']).trim()) return undefined;
+    const variance = parsePercentage(fields['Price Variance']);
+    if (variance < 0 || variance > 1) {
+      issues.push(`Rule "${fields['Pricing Rule ID']}": Price Variance must be between 0% and 100% (got ${fields['Price Variance']})`);
+      return undefined;
+    }
+    return variance;
+  };
+
+  if (fields['Calculation Method'] === 'tiered') {
+    if (!fields['Tier Table'] || !String(fields['Tier Table']).trim()) {
+      issues.push(`Rule "${fields['Pricing Rule ID']}": Calculation Method is "tiered" but Tier Table is empty`);
+    }
+    if (!extractFieldValue(fields['Quantity Source Field'])) {
+      issues.push(`Rule "${fields['Pricing Rule ID']}": Calculation Method is "tiered" but Quantity Source Field is empty`);
+    }
+  }
+
+  const discountType = fields['Discount Type']?.trim().toLowerCase();
+  const isFixedDiscount = discountType === 'fixed amount' || discountType === 'fixed';
+  const discountPriority = parseFloat(String(fields['Discount Priority'] ?? ''));
+
   return {
     serviceId: fields['Service ID'],
     pricingRuleId: fields['Pricing Rule ID'],
     serviceName: fields['Rule Name'],
     description: fields['Description'] || '',
-    pricingType: fields['Pricing Type'] as 'Base Service' | 'Add-on' | 'Discount',
+    pricingType: fields['Pricing Type'] as PricingConfig['pricingType'],
     basePrice: parseCurrency(fields['Base Price']),
-    billingFrequency: fields['Billing Frequency'] as 'Monthly' | 'One-Time Fee' | 'Annual',
+    billingFrequency: fields['Billing Frequency'] as BillingFrequency,
     active: parseCheckbox(fields['Active']),
+    effectiveFrom: parsePricingDate(extractFieldValue(fields['Effective From'])),
+    effectiveTo: parsePricingDate(extractFieldValue(fields['Effective To'])),
     triggerFormField: extractFieldValue(fields['Trigger Form Field']),
     requiredFormValue: extractFieldValue(fields['Required Form Field']),
     comparisonLogic: fields['Comparison Logic'] as ComparisonOperator,
+    triggerConditions: parseTriggerConditions(fields['Trigger Conditions']),
     perUnitPricing: parseCheckbox(fields['Per-Unit Pricing']),
     unitPrice: parseCurrency(fields['Unit Price']) || 0,
     unitName: fields['Unit Name']?.trim(),
     quantitySourceField: extractFieldValue(fields['Quantity Source Field']),
+    includedUnits: parseIncludedUnits(fields['Included Units']),
+    priceVariance: parsePriceVariance(),
+    estimatedHours: parseEstimatedHours(),
     advisoryDiscountEligible: parseCheckbox(fields['Advisory Discount Eligible']),
     advisoryDiscountPercentage: parsePercentage(fields['Advisory Discount Percentage']),
+    minimumMonthlyFee: fields['Minimum Monthly Fee'] ? parseCurrency(fields['Minimum Monthly Fee']) : undefined,
+    minimumMonthlyFeeWithAdvisory: fields['Minimum Monthly Fee (Advisory)'] ? parseCurrency(fields['Minimum Monthly Fee (Advisory)']) : undefined,
+    applyMinimumFee: parseCheckbox(fields['Apply Minimum Fee']),
     includedFeatures: [],
     addOns: [],
 
     // Formula-based pricing fields
-    calculationMethod: fields['Calculation Method'] as 'simple' | 'formula' | 'per-unit' | undefined,
+    calculationMethod: fields['Calculation Method'] as 'simple' | 'formula' | 'per-unit' | 'tiered' | undefined,
     formulaExpression: fields['Formula Expression'] as string | undefined,
     formulaInputFields: parseFormulaInputFields(fields['Formula Input Fields'] as string | undefined),
     minimumValue: parseCurrency(fields['Minimum Value']) || undefined,
-    maximumValue: parseCurrency(fields['Maximum Value']) || undefined
+    maximumValue: parseCurrency(fields['Maximum Value']) || undefined,
+    rateCard: extractFieldValue(fields['Rate Card']),
+    tierTable: parseTiers(fields['Tier Table']),
+
+    // Discount rules
+    discountType: isFixedDiscount ? 'fixed' : discountType === 'percentage' ? 'percentage' : undefined,
+    discountValue: isFixedDiscount
+      ? parseCurrency(fields['Discount Value']) || undefined
+      : parsePercentage(fields['Discount Value']) || undefined,
+    discountTargets: parseTargets(fields['Discount Targets']),
+    discountPriority: isNaN(discountPriority) ? undefined : discountPriority,
+    discountStacking: fields['Discount Stacking']?.trim().toLowerCase() === 'exclusive' ? 'exclusive' : 'stack',
+
+    // Call-for-pricing rules
+    reviewScope: fields['Pricing Type'] === 'Requires Review'
+      ? fields['Review Scope']?.trim().toLowerCase() === 'whole quote' ? 'quote' : 'service'
+      : undefined,
+    reviewReason: fields['Review Reason']?.trim() || undefined
   };
 };
 
+/**
+ * Parse every formula rule up front so syntax errors fail loudly at load time
+ * Returns one message per broken rule, including the error column
+ */
+export const validatePricingFormulas = (pricingConfig: PricingConfig[]): string[] => {
+  const issues: string[] = [];
+
+  pricingConfig
+    .filter(rule => rule.calculationMethod === 'formula')
+    .forEach(rule => {
+      if (!rule.formulaExpression?.trim()) {
+        issues.push(`Rule "${rule.pricingRuleId}": Calculation Method is "formula" but Formula Expression is empty`);
+        return;
+      }
+
+      try {
+        parseFormula(rule.formulaExpression.trim());
+      } catch (error) {
+        if (error instanceof FormulaError) {
+          error.ruleId = rule.pricingRuleId;
+          issues.push(error.toDetailedString());
+        } else {
+          throw error;
+        }
+      }
+    });
+
+  return issues;
+};
+
+/**
+ * Validate and convert Pricing Variables rows (from the API or a CSV export)
+ * Rows with a problem that makes the rule unusable are dropped and their problems
+ * appended to `issues`; the other rules are kept. Throws PricingConfigError only
+ * when the table itself is unusable (a required column is missing).
+ */
+export const buildPricingConfig = (records: AirtablePricingRecord[], issues: string[]): PricingConfig[] => {
+  // Check every row against the Pricing Variables schema before converting it
+  const schemaReport = validateConfigRecords('Pricing Variables', records);
+  if (schemaReport.missingColumns.length > 0) {
+    throw new PricingConfigError(schemaReport.issues
+      .filter(issue => schemaReport.missingColumns.includes(issue.column) && issue.severity === 'error')
+      .map(formatConfigIssue));
+  }
+  schemaReport.issues
+    .filter(issue => issue.severity === 'warning')
+    .forEach(issue => console.warn(`⚠️ ${formatConfigIssue(issue)}`));
+
+  const rows = records.map(record => {
+    const rowIssues = schemaReport.issues
+      .filter(issue => issue.row === record.id && issue.severity === 'error')
+      .map(formatConfigIssue);
+    const rule = convertAirtableRecord(record, rowIssues);
+    rowIssues.push(...validatePricingFormulas([rule]), ...validateDiscountRules([rule]), ...validateEffectiveDates([rule]));
+    return { rule, issues: rowIssues, dropped: rowIssues.length > 0 };
+  });
+
+  // Versions (rows) of a rule in effect on the same day are dropped together -
+  // which one applies would depend on row order
+  const ruleIds = new Set(rows.map(row => row.rule.pricingRuleId));
+  ruleIds.forEach(ruleId => {
+    const versions = rows.filter(row => row.rule.pricingRuleId === ruleId && !row.dropped);
+    const overlaps = versions.length > 1 ? validateEffectiveDates(versions.map(row => row.rule)) : [];
+    if (overlaps.length > 0) {
+      versions[0].issues.push(...overlaps);
+      versions.forEach(row => { row.dropped = true; });
+    }
+  });
+
+  rows.forEach(row => issues.push(...row.issues));
+  return rows.filter(row => !row.dropped).map(row => row.rule);
+};
+
 // Fetch pricing configuration from Airtable
 export const fetchPricingConfig = async (airtableConfig?: AirtableConfig): Promise<PricingConfig[]> => {
   // Use tenant-specific config or fall back to environment variables
@@ -372,14 +598,26 @@ export const fetchPricingConfig = async (airtableConfig?: AirtableConfig): Promi
       return defaultPricingConfig;
     }
 
-    const pricingConfig = data.records.map((record: AirtablePricingRecord) => 
-      convertAirtableRecord(record)
-    );
+    const issues: string[] = [];
+    const pricingConfig = buildPricingConfig(data.records, issues);
+    if (issues.length > 0) {
+      console.error(`❌ Dropped ${data.records.length - pricingConfig.length} invalid rule(s) from the pricing configuration:`);
+      issues.forEach(issue => console.error(issue));
+    }
+    if (pricingConfig.length === 0) {
+      // Nothing left to price with - surface it rather than quoting the built-in defaults
+      throw new PricingConfigError(issues);
+    }
 
     console.log('Successfully fetched pricing configuration from Airtable:', pricingConfig);
     return pricingConfig;
 
   } catch (error) {
+    // A broken table must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
     console.error('Network error fetching pricing configuration from Airtable:', error);
     console.log('Falling back to default pricing configuration');
     return defaultPricingConfig;
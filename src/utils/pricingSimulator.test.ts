@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PricingScenario, PricingSnapshot, diffQuotes, formatQuoteDifference, runScenario, runScenarios, toBaseline } from './pricingSimulator';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, pricingRule, quoteForm, serviceRow } from './testFixtures';
+
+const snapshot = (basePrice: number): PricingSnapshot => ({
+  pricingConfig: [pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice })],
+  serviceConfig: [serviceRow('bookkeeping', { title: 'Bookkeeping' })],
+  options: {}
+});
+
+const scenario = (expected?: Record<string, unknown>): PricingScenario => ({
+  scenarioId: 'monthly-bookkeeping',
+  name: 'Monthly bookkeeping',
+  formData: quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() }),
+  expected
+});
+
+describe('diffQuotes', () => {
+  it('only checks the values the expected quote contains, money to the cent', () => {
+    expect(diffQuotes({ totalMonthlyFees: 450 }, { totalMonthlyFees: 450.004, totalAnnual: 5400 })).toEqual([]);
+    expect(diffQuotes({ totalMonthlyFees: 450 }, { totalMonthlyFees: 475 })).toEqual([{ path: 'totalMonthlyFees', expected: 450, actual: 475 }]);
+  });
+
+  it('never compares the trace, pricing version or pricing date', () => {
+    expect(diffQuotes({ pricingVersion: 'a', pricingDate: '2026-01-01', trace: {} }, { pricingVersion: 'b', pricingDate: '2026-02-01', trace: { rules: [] } }))
+      .toEqual([]);
+  });
+
+  it('matches list items by key so an added line is one difference', () => {
+    const payroll = { name: 'Payroll', monthlyFee: 150 };
+
+    expect(diffQuotes(
+      { services: [{ name: 'Bookkeeping', monthlyFee: 400 }] },
+      { services: [payroll, { name: 'Bookkeeping', monthlyFee: 425 }] }
+    )).toEqual([
+      { path: 'services[Bookkeeping].monthlyFee', expected: 400, actual: 425 },
+      { path: 'services[Payroll]', expected: undefined, actual: payroll }
+    ]);
+  });
+
+  it('compares lists without a key by position', () => {
+    expect(diffQuotes({ included: ['Form 1040', 'Schedule C'] }, { included: ['Form 1040'] }))
+      .toEqual([{ path: 'included[1]', expected: 'Schedule C', actual: undefined }]);
+  });
+});
+
+describe('runScenario', () => {
+  const baseline = toBaseline(calculateQuote(scenario().formData, snapshot(400).pricingConfig, snapshot(400).serviceConfig));
+
+  it('passes when the quote is unchanged and fails listing what moved', () => {
+    expect(runScenario(scenario(baseline), snapshot(400))).toMatchObject({ status: 'pass', differences: [] });
+    expect(runScenario(scenario(baseline), snapshot(450)).differences.map(formatQuoteDifference)).toEqual([
+      'services[Bookkeeping].monthlyFee: expected 400 → actual 450',
+      'services[Bookkeeping].annualPrice: expected 4800 → actual 5400',
+      'totalMonthlyFees: expected 400 → actual 450',
+      'totalAnnual: expected 4800 → actual 5400'
+    ]);
+  });
+
+  it('prices a scenario with no expected quote as a new baseline', () => {
+    const [result] = runScenarios([scenario()], snapshot(400));
+
+    expect(result.status).toBe('no-baseline');
+    expect(result.actual?.totalMonthlyFees).toBe(400);
+  });
+
+  it('reports a broken formula as an error instead of throwing', () => {
+    const broken: PricingSnapshot = {
+      ...snapshot(400),
+      pricingConfig: [pricingRule('bookkeeping-base', { pricingType: 'Base Service', calculationMethod: 'formula', formulaExpression: '100 *' })]
+    };
+    const result = runScenario(scenario(baseline), broken);
+
+    expect(result.status).toBe('error');
+    expect(result.error).toContain('bookkeeping-base');
+  });
+});
+
+describe('formatQuoteDifference', () => {
+  it('describes added and removed values', () => {
+    expect(formatQuoteDifference({ path: 'adjustments[promo]', expected: undefined, actual: { amount: 50 } })).toBe('adjustments[promo]: added {"amount":50}');
+    expect(formatQuoteDifference({ path: 'potentialSavings', expected: 1200, actual: undefined })).toBe('potentialSavings: removed (was 1200)');
+  });
+});
@@ -0,0 +1,172 @@
+import { FormData, PricingConfig, QuoteData, ServiceConfig } from '../types/quote';
+import { calculateQuote, QuoteCalculationOptions } from './quoteCalculator';
+import { FormulaError } from './formulaParser';
+
+/**
+ * Pricing simulator
+ *
+ * Re-prices saved scenarios (a FormData and the quote it is expected to give)
+ * against a pricing snapshot and reports what changed. Run it after editing
+ * Pricing Variables to see which quotes moved before clients do.
+ *
+ * The expected quote drives the comparison: every value it contains must match
+ * (money to the cent), values it leaves out are not checked. So a scenario can
+ * pin a whole quote or just {"totalMonthlyFees": 450}. The calculation trace and
+ * the pricing version are never compared.
+ *
+ * This module has no environment dependencies so the admin screen and the
+ * simulate-pricing CLI share it.
+ */
+
+export interface PricingScenario {
+  scenarioId: string;
+  name: string;
+  formData: FormData;
+  expected?: Record<string, unknown>; // Expected QuoteData (whole or partial); undefined = no baseline yet
+  notes?: string;
+}
+
+// Everything calculateQuote needs, from live Airtable, a draft or an export
+export interface PricingSnapshot {
+  pricingConfig: PricingConfig[];
+  serviceConfig: ServiceConfig[];
+  options: QuoteCalculationOptions;
+}
+
+export interface QuoteDifference {
+  path: string;      // e.g. services[Bookkeeping].monthlyFee
+  expected: unknown; // undefined = not in the expected quote (added)
+  actual: unknown;   // undefined = no longer in the quote (removed)
+}
+
+export type ScenarioStatus = 'pass' | 'fail' | 'error' | 'no-baseline';
+
+export interface ScenarioResult {
+  scenarioId: string;
+  name: string;
+  status: ScenarioStatus;
+  differences: QuoteDifference[];
+  actual?: QuoteData;
+  error?: string;
+}
+
+// Keys never compared (the trace explains the quote, it isn't part of it; the
+// pricing version and date change with every edit and every day)
+const IGNORED_KEYS = ['trace', 'pricingVersion', 'pricingDate'];
+
+// Array items are matched by the first of these keys they all have, so an added
+// service or discount shows as one difference instead of shifting every line
+const ITEM_KEYS = ['ruleId', 'recommendationId', 'estimatorId', 'factorId', 'name'];
+
+const MONEY_TOLERANCE = 0.005;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const findItemKey = (...lists: unknown[][]): string | undefined =>
+  ITEM_KEYS.find(key => lists.every(items => {
+    const values = items.map(item => (isPlainObject(item) ? item[key] : undefined));
+    return values.every(value => typeof value === 'string') && new Set(values).size === values.length;
+  }));
+
+/**
+ * Compare an expected quote (or part of one) with an actual quote
+ */
+export const diffQuotes = (expected: unknown, actual: unknown, path = ''): QuoteDifference[] => {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= MONEY_TOLERANCE ? [] : [{ path, expected, actual }];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const itemKey = findItemKey(expected, actual);
+
+    if (!itemKey) {
+      const differences = expected.flatMap((item, index) =>
+        index < actual.length ? diffQuotes(item, actual[index], `${path}[${index}]`) : [{ path: `${path}[${index}]`, expected: item, actual: undefined }]
+      );
+      actual.slice(expected.length).forEach((item, offset) =>
+        differences.push({ path: `${path}[${expected.length + offset}]`, expected: undefined, actual: item })
+      );
+      return differences;
+    }
+
+    const keyOf = (item: unknown) => (item as Record<string, string>)[itemKey];
+    const actualByKey = new Map(actual.map(item => [keyOf(item), item]));
+    const expectedKeys = new Set(expected.map(keyOf));
+
+    return [
+      ...expected.flatMap(item => {
+        const key = keyOf(item);
+        return actualByKey.has(key)
+          ? diffQuotes(item, actualByKey.get(key), `${path}[${key}]`)
+          : [{ path: `${path}[${key}]`, expected: item, actual: undefined }];
+      }),
+      ...actual
+        .filter(item => !expectedKeys.has(keyOf(item)))
+        .map(item => ({ path: `${path}[${keyOf(item)}]`, expected: undefined, actual: item }))
+    ];
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    return Object.keys(expected)
+      .filter(key => !IGNORED_KEYS.includes(key))
+      .flatMap(key => diffQuotes(expected[key], actual[key], path ? `${path}.${key}` : key));
+  }
+
+  return JSON.stringify(expected) === JSON.stringify(actual) ? [] : [{ path, expected, actual }];
+};
+
+/**
+ * The part of a quote saved as a scenario's expected quote (everything but the trace)
+ */
+export const toBaseline = (quote: QuoteData): Record<string, unknown> => {
+  const baseline: Record<string, unknown> = { ...quote };
+  IGNORED_KEYS.forEach(key => delete baseline[key]);
+  return JSON.parse(JSON.stringify(baseline));
+};
+
+/**
+ * Price one scenario and compare it with its expected quote
+ */
+export const runScenario = (scenario: PricingScenario, snapshot: PricingSnapshot): ScenarioResult => {
+  const result = { scenarioId: scenario.scenarioId, name: scenario.name };
+
+  let actual: QuoteData;
+  try {
+    actual = calculateQuote(scenario.formData, snapshot.pricingConfig, snapshot.serviceConfig, snapshot.options);
+  } catch (error) {
+    const message = error instanceof FormulaError
+      ? error.toDetailedString()
+      : error instanceof Error ? error.message : String(error);
+    return { ...result, status: 'error', differences: [], error: message };
+  }
+
+  if (!scenario.expected) {
+    return { ...result, status: 'no-baseline', differences: [], actual };
+  }
+
+  const differences = diffQuotes(scenario.expected, toBaseline(actual));
+  return { ...result, status: differences.length === 0 ? 'pass' : 'fail', differences, actual };
+};
+
+/**
+ * Price every scenario against the same snapshot
+ */
+export const runScenarios = (scenarios: PricingScenario[], snapshot: PricingSnapshot): ScenarioResult[] =>
+  scenarios.map(scenario => runScenario(scenario, snapshot));
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '(none)';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/**
+ * One-line description of a difference, e.g.
+ * totalMonthlyFees: expected 450 → actual 475
+ */
+export const formatQuoteDifference = (difference: QuoteDifference): string => {
+  if (difference.expected === undefined) return `${difference.path}: added ${formatValue(difference.actual)}`;
+  if (difference.actual === undefined) return `${difference.path}: removed (was ${formatValue(difference.expected)})`;
+  return `${difference.path}: expected ${formatValue(difference.expected)} → actual ${formatValue(difference.actual)}`;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { calculateQuote } from './quoteCalculator';
+import {
+  createPricingVersionSnapshot,
+  createQuoteLock,
+  fromPricingDate,
+  getPricingVersionId,
+  isQuoteLocked,
+  parsePricingDate,
+  parsePricingLock,
+  selectRulesInEffect,
+  validateEffectiveDates
+} from './pricingVersions';
+import { bookkeepingDetails, pricingRule, quoteForm, serviceRow } from './testFixtures';
+
+const current = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400, effectiveTo: '2026-12-31' });
+const next = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 450, effectiveFrom: '2027-01-01' });
+const services = [serviceRow('bookkeeping')];
+const bookkeepingForm = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() });
+
+describe('effective dates', () => {
+  it('selects the row in effect on the day, both ends included', () => {
+    expect(selectRulesInEffect([current, next], new Date(2026, 11, 31))).toEqual([current]);
+    expect(selectRulesInEffect([current, next], new Date(2027, 0, 1))).toEqual([next]);
+  });
+
+  it('prices a quote with the rules in effect on its pricing date', () => {
+    expect(calculateQuote(bookkeepingForm, [current, next], services, { asOf: new Date(2026, 5, 1) }).totalMonthlyFees).toBe(400);
+    expect(calculateQuote(bookkeepingForm, [current, next], services, { asOf: new Date(2027, 5, 1) }).totalMonthlyFees).toBe(450);
+  });
+
+  it('reports backwards ranges and rows of one rule in effect on the same day', () => {
+    expect(validateEffectiveDates([current, next])).toEqual([]);
+    expect(validateEffectiveDates([
+      pricingRule('backwards', { effectiveFrom: '2026-06-01', effectiveTo: '2026-05-01' }),
+      current,
+      { ...next, effectiveFrom: '2026-12-31' }
+    ])).toEqual([
+      'Rule "backwards": Effective To (2026-05-01) is before Effective From (2026-06-01)',
+      'Rule "bookkeeping-base": two rows are in effect on the same dates (always to 2026-12-31, 2026-12-31 to open-ended) - give each version its own Effective From / Effective To'
+    ]);
+  });
+
+  it('reads Airtable and CSV dates and rejects impossible ones', () => {
+    expect(parsePricingDate('2026-01-15T00:00:00.000Z')).toBe('2026-01-15');
+    expect(parsePricingDate('1/5/2026')).toBe('2026-01-05');
+    expect(parsePricingDate('2026-02-30')).toBeUndefined();
+  });
+});
+
+describe('pricing versions', () => {
+  it('ignores rule order but not rule changes', () => {
+    const other = pricingRule('bookkeeping-payroll', { basePrice: 75 });
+    expect(getPricingVersionId([current, other], services, [])).toBe(getPricingVersionId([other, current], services, []));
+    expect(getPricingVersionId([{ ...current, basePrice: 401 }, other], services, [])).not.toBe(getPricingVersionId([current, other], services, []));
+  });
+});
+
+describe('quote locks', () => {
+  const quote = calculateQuote(bookkeepingForm, [current, next], services, { asOf: new Date(2026, 11, 20) });
+  const lock = createQuoteLock(quote, 14, new Date(2026, 11, 20));
+
+  it('locks the quote through the last day of the lock window', () => {
+    expect(lock).toEqual({ pricingVersion: quote.pricingVersion, pricingDate: '2026-12-20', lockedUntil: '2027-01-03' });
+    expect(isQuoteLocked(lock, new Date(2027, 0, 3, 23, 59))).toBe(true);
+    expect(isQuoteLocked(lock, new Date(2027, 0, 4))).toBe(false);
+  });
+
+  it('reads a saved lock back and reprices the quote on its own pricing date', () => {
+    const snapshot = createPricingVersionSnapshot(quote, [current, next], services, []);
+    const saved = parsePricingLock(JSON.stringify(snapshot), lock.lockedUntil);
+
+    expect(saved).toEqual({ lock, pricing: snapshot });
+    const repriced = calculateQuote(bookkeepingForm, snapshot.pricingConfig, snapshot.serviceConfig, {
+      asOf: fromPricingDate(lock.pricingDate)
+    });
+    expect(repriced.totalMonthlyFees).toBe(400);
+    expect(repriced.pricingVersion).toBe(quote.pricingVersion);
+  });
+
+  it('ignores a saved lock that is missing, unreadable or edited', () => {
+    const snapshot = createPricingVersionSnapshot(quote, [current, next], services, []);
+    const edited = { ...snapshot, pricingConfig: [{ ...current, basePrice: 1 }] };
+
+    expect(parsePricingLock(undefined, lock.lockedUntil)).toBeUndefined();
+    expect(parsePricingLock(JSON.stringify(snapshot), undefined)).toBeUndefined();
+    expect(parsePricingLock(JSON.stringify(snapshot).slice(0, 40), lock.lockedUntil)).toBeUndefined();
+    expect(parsePricingLock(JSON.stringify(edited), lock.lockedUntil)).toBeUndefined();
+  });
+});
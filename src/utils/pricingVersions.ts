@@ -0,0 +1,230 @@
+import { DiscountProgram, PricingConfig, QuoteData, RateCard, ServiceConfig } from '../types/quote';
+
+/**
+ * Versioned pricing
+ *
+ * Pricing rules can carry an Effective From / Effective To date (inclusive,
+ * either end open), so a price change can be entered ahead of time as a second
+ * row with the same Pricing Rule ID. calculateQuote prices with the rules in
+ * effect on its pricing date and stamps the quote with a pricing version: a
+ * hash of exactly those rules, the services, the rate cards and the tenant's
+ * discount programs. The same
+ * pricing always gives the same version, any change gives a new one.
+ *
+ * A saved quote keeps a snapshot of the pricing it was priced with, on its
+ * Client Quotes record. Until its lock date (Firm Info "Quote Lock Days")
+ * reopening, accepting or changing the quote prices it from that snapshot,
+ * not from the live tables.
+ *
+ * This module has no environment dependencies so the calculator, the admin
+ * screens and the CLI scripts share it.
+ */
+
+// Version of quotes priced with the built-in defaults (no pricing rules loaded)
+export const BUILT_IN_PRICING_VERSION = 'built-in';
+
+// The pricing a quote was priced with, kept for its lock window
+export interface PricingVersionSnapshot {
+  pricingVersion: string;
+  pricingDate: string; // YYYY-MM-DD the rules were selected for
+  pricingConfig: PricingConfig[]; // Rules in effect on pricingDate
+  serviceConfig: ServiceConfig[];
+  rateCards: RateCard[];
+  discountPrograms?: DiscountProgram[]; // Every program the tenant had (missing in snapshots saved before programs)
+}
+
+export interface QuoteLock {
+  pricingVersion: string;
+  pricingDate: string;
+  lockedUntil: string; // YYYY-MM-DD, inclusive
+}
+
+// A saved quote's lock and the pricing it locks
+export interface PricingLock {
+  lock: QuoteLock;
+  pricing: PricingVersionSnapshot;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Calendar date of a moment in local time, as YYYY-MM-DD
+ */
+export const toPricingDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Start of a YYYY-MM-DD pricing date in local time
+ */
+export const fromPricingDate = (pricingDate: string): Date => {
+  const [year, month, day] = pricingDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Normalise a date cell to YYYY-MM-DD
+ * Accepts Airtable's API format (2026-01-15, or an ISO timestamp) and the US
+ * format of CSV exports (1/15/2026). Returns undefined for anything else.
+ */
+export const parsePricingDate = (value: string | undefined): string | undefined => {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(T.*)?$/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : undefined;
+  if (!parts) return undefined;
+  const [year, month, day] = parts.map(Number);
+
+  // Reject dates that roll over, e.g. 2026-02-30
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return toPricingDate(date);
+};
+
+/**
+ * Whether a rule applies on a date (no dates = always)
+ */
+export const isRuleInEffect = (rule: Pick<PricingConfig, 'effectiveFrom' | 'effectiveTo'>, asOf: Date): boolean => {
+  const date = toPricingDate(asOf);
+  return (!rule.effectiveFrom || rule.effectiveFrom <= date) && (!rule.effectiveTo || date <= rule.effectiveTo);
+};
+
+export const selectRulesInEffect = (rules: PricingConfig[], asOf: Date): PricingConfig[] =>
+  rules.filter(rule => isRuleInEffect(rule, asOf));
+
+/**
+ * Whether two effective date ranges share at least one day
+ */
+export const effectiveRangesOverlap = (
+  a: Pick<PricingConfig, 'effectiveFrom' | 'effectiveTo'>,
+  b: Pick<PricingConfig, 'effectiveFrom' | 'effectiveTo'>
+): boolean =>
+  (!a.effectiveFrom || !b.effectiveTo || a.effectiveFrom <= b.effectiveTo) &&
+  (!b.effectiveFrom || !a.effectiveTo || b.effectiveFrom <= a.effectiveTo);
+
+const describeRange = (rule: Pick<PricingConfig, 'effectiveFrom' | 'effectiveTo'>): string =>
+  `${rule.effectiveFrom || 'always'} to ${rule.effectiveTo || 'open-ended'}`;
+
+/**
+ * Check the effective dates of the loaded rules
+ * A range that ends before it starts is an error, and so are two dated rows of
+ * the same Pricing Rule ID in effect on the same day - the price on that day
+ * would depend on row order. (Undated duplicates are left to the linter.)
+ */
+export const validateEffectiveDates = (rules: PricingConfig[]): string[] => {
+  const issues: string[] = [];
+
+  rules.forEach(rule => {
+    if (rule.effectiveFrom && rule.effectiveTo && rule.effectiveTo < rule.effectiveFrom) {
+      issues.push(`Rule "${rule.pricingRuleId}": Effective To (${rule.effectiveTo}) is before Effective From (${rule.effectiveFrom})`);
+    }
+  });
+
+  rules.forEach((rule, index) => {
+    rules.slice(index + 1)
+      .filter(other => other.pricingRuleId === rule.pricingRuleId)
+      .filter(other => rule.effectiveFrom || rule.effectiveTo || other.effectiveFrom || other.effectiveTo)
+      .filter(other => effectiveRangesOverlap(rule, other))
+      .forEach(other => {
+        issues.push(`Rule "${rule.pricingRuleId}": two rows are in effect on the same dates (${describeRange(rule)}, ${describeRange(other)}) - give each version its own Effective From / Effective To`);
+      });
+  });
+
+  return issues;
+};
+
+// Object keys in a fixed order so the same pricing always serialises the same way
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// 32-bit FNV-1a - short, stable ids, not a security measure
+const hash = (text: string): string => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Version id of the pricing a quote is priced with, e.g. pv-3f9a12c0
+ * Rule order doesn't matter; any change to a rule, service, rate card or
+ * discount program does (no programs given = the built-in ones, as before programs).
+ */
+export const getPricingVersionId = (
+  rules: PricingConfig[],
+  serviceConfig: ServiceConfig[],
+  rateCards: RateCard[],
+  discountPrograms?: DiscountProgram[]
+): string => {
+  const sortedRules = [...rules].sort((a, b) =>
+    a.pricingRuleId.localeCompare(b.pricingRuleId) || (a.effectiveFrom || '').localeCompare(b.effectiveFrom || ''));
+  return `pv-${hash(stableStringify({ rules: sortedRules, services: serviceConfig, rateCards, discountPrograms }))}`;
+};
+
+/**
+ * Keep the pricing a quote was priced with
+ */
+export const createPricingVersionSnapshot = (
+  quote: QuoteData,
+  pricingConfig: PricingConfig[],
+  serviceConfig: ServiceConfig[],
+  rateCards: RateCard[],
+  discountPrograms?: DiscountProgram[]
+): PricingVersionSnapshot => ({
+  pricingVersion: quote.pricingVersion,
+  pricingDate: quote.pricingDate,
+  pricingConfig: selectRulesInEffect(pricingConfig, fromPricingDate(quote.pricingDate)),
+  serviceConfig,
+  rateCards,
+  discountPrograms
+});
+
+/**
+ * Lock a quote's pricing for the firm's lock window, counted from today
+ */
+export const createQuoteLock = (quote: QuoteData, lockDays: number, now: Date = new Date()): QuoteLock => {
+  const lockedUntil = new Date(now.getFullYear(), now.getMonth(), now.getDate() + lockDays);
+  return { pricingVersion: quote.pricingVersion, pricingDate: quote.pricingDate, lockedUntil: toPricingDate(lockedUntil) };
+};
+
+export const isQuoteLocked = (lock: QuoteLock, now: Date = new Date()): boolean =>
+  toPricingDate(now) <= lock.lockedUntil;
+
+/**
+ * Read a lock back from a saved quote: the snapshot as JSON and its lock date.
+ * Returns undefined when either is missing, or when the snapshot no longer
+ * hashes to its own version (cut short or edited since it was saved).
+ */
+export const parsePricingLock = (snapshotJson: unknown, lockedUntil: unknown): PricingLock | undefined => {
+  const lockDate = typeof lockedUntil === 'string' ? parsePricingDate(lockedUntil) : undefined;
+  if (typeof snapshotJson !== 'string' || !lockDate) return undefined;
+
+  let pricing: PricingVersionSnapshot;
+  try {
+    pricing = JSON.parse(snapshotJson);
+  } catch {
+    return undefined;
+  }
+  if (!pricing || !Array.isArray(pricing.pricingConfig) || !Array.isArray(pricing.serviceConfig) || !Array.isArray(pricing.rateCards)) {
+    return undefined;
+  }
+
+  const expectedVersion = pricing.pricingConfig.length > 0
+    ? getPricingVersionId(pricing.pricingConfig, pricing.serviceConfig, pricing.rateCards, pricing.discountPrograms)
+    : BUILT_IN_PRICING_VERSION;
+  if (pricing.pricingVersion !== expectedVersion || !parsePricingDate(pricing.pricingDate)) return undefined;
+
+  return { lock: { pricingVersion: pricing.pricingVersion, pricingDate: pricing.pricingDate, lockedUntil: lockDate }, pricing };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { AirtablePromoCodeRecord, buildPromoCodes } from './promoCodeService';
+
+const row = (id: string, fields: Partial<AirtablePromoCodeRecord['fields']> = {}): AirtablePromoCodeRecord => ({
+  id,
+  fields: { 'Code': 'SPRING10', 'Discount Type': 'Percentage', 'Discount Value': '10%', ...fields }
+});
+
+describe('buildPromoCodes', () => {
+  it('reads a row into a code', () => {
+    const issues: string[] = [];
+    expect(buildPromoCodes([row('rec1', { 'Code': ' spring10 ', 'Eligible Services': 'bookkeeping, individual-tax', 'Usage Limit': '5' })], issues)).toEqual([{
+      code: 'SPRING10',
+      kind: 'promo',
+      campaign: undefined,
+      discountType: 'percentage',
+      discountValue: 0.1,
+      services: ['bookkeeping', 'individual-tax'],
+      billingFrequencies: undefined,
+      validFrom: undefined,
+      validUntil: undefined,
+      usageLimit: 5,
+      timesUsed: 0,
+      stacking: 'stack'
+    }]);
+    expect(issues).toEqual([]);
+  });
+
+  it('drops invalid rows, reports them and keeps the other codes', () => {
+    const issues: string[] = [];
+    const promoCodes = buildPromoCodes([
+      row('rec1', { 'Code': 'FRIEND', 'Code Type': 'Referral', 'Discount Type': 'Fixed Amount', 'Discount Value': 50 }),
+      row('rec2', { 'Code': 'BROKEN', 'Discount Value': '150%' }),
+      row('rec3', { 'Code': '' }),
+      row('rec4', { 'Code': 'SUMMER', 'Valid From': '2026-06-01', 'Valid Until': '2026-05-01' })
+    ], issues);
+
+    expect(promoCodes.map(promo => promo.code)).toEqual(['FRIEND']);
+    expect(issues).toEqual([
+      'Promo code "BROKEN": percentage Discount Value must be at most 100% (got 150%)',
+      'Promo Codes row rec3: Code is empty',
+      'Promo code "SUMMER": Valid Until (2026-05-01) is before Valid From (2026-06-01)'
+    ]);
+  });
+
+  it('drops every row of a code defined more than once', () => {
+    const issues: string[] = [];
+    expect(buildPromoCodes([row('rec1'), row('rec2', { 'Code': 'spring10', 'Discount Value': '20%' }), row('rec3', { 'Code': 'FALL' })], issues)
+      .map(promo => promo.code)).toEqual(['FALL']);
+    expect(issues).toEqual(['Promo code "SPRING10" is defined more than once (codes are not case-sensitive)']);
+  });
+});
@@ -0,0 +1,259 @@
+import { BillingFrequency, PromoCode } from '../types/quote';
+import { parsePricingDate } from './pricingVersions';
+import { BILLING_FREQUENCIES, isBillingFrequency } from './billingFrequencies';
+import { normalizePromoCode } from './promoCodes';
+
+// Promo codes live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_PROMO_CODES_TABLE_NAME = 'Promo Codes';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one code
+export interface AirtablePromoCodeRecord {
+  id: string;
+  fields: {
+    'Code': string;
+    'Code Type'?: string;                            // Promo (default) | Referral
+    'Campaign'?: string;
+    'Discount Type': string;                         // Percentage | Fixed Amount
+    'Discount Value': number | string;               // 0.1 or "10%"; a dollar amount for fixed
+    'Eligible Services'?: string[] | string;         // Multiple select (comma-separated in CSV exports)
+    'Billing Frequencies'?: string[] | string;       // Multiple select (comma-separated in CSV exports)
+    'Valid From'?: string;
+    'Valid Until'?: string;
+    'Usage Limit'?: number | string;
+    'Times Used'?: number | string;
+    'Stacking'?: string;                             // Stackable | Exclusive
+    'Active'?: boolean;
+  };
+}
+
+const parseList = (value: string[] | string | undefined): string[] =>
+  (Array.isArray(value) ? value : String(value ?? '').split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const parseNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'number' ? value : parseFloat(value.replace(/[$,\s]/g, ''));
+};
+
+/**
+ * Convert Promo Codes rows into codes
+ * Rows with a problem that makes the code unusable are dropped and their problems
+ * appended to `issues`; the other codes are kept. Every row of a code defined
+ * more than once is dropped - which one applies would depend on row order.
+ */
+export const buildPromoCodes = (records: AirtablePromoCodeRecord[], issues: string[]): PromoCode[] => {
+  const promoCodes: PromoCode[] = [];
+  const rowsByCode = new Map<string, number>();
+  records.forEach(record => {
+    const code = normalizePromoCode(record.fields['Code'] || '');
+    if (code) rowsByCode.set(code, (rowsByCode.get(code) || 0) + 1);
+  });
+  const reportedDuplicates = new Set<string>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const code = normalizePromoCode(fields['Code'] || '');
+    if (!code) {
+      issues.push(`Promo Codes row ${record.id}: Code is empty`);
+      continue;
+    }
+    if ((rowsByCode.get(code) || 0) > 1) {
+      if (!reportedDuplicates.has(code)) {
+        issues.push(`Promo code "${code}" is defined more than once (codes are not case-sensitive)`);
+        reportedDuplicates.add(code);
+      }
+      continue;
+    }
+
+    const discountTypeText = fields['Discount Type']?.trim().toLowerCase();
+    const discountType = discountTypeText === 'percentage' ? 'percentage' : discountTypeText === 'fixed amount' ? 'fixed' : undefined;
+    if (!discountType) {
+      issues.push(`Promo code "${code}": Discount Type must be "Percentage" or "Fixed Amount"`);
+      continue;
+    }
+
+    const rawValue = fields['Discount Value'];
+    const discountValue = typeof rawValue === 'string' && rawValue.trim().endsWith('%')
+      ? parseFloat(rawValue) / 100
+      : parseNumber(rawValue);
+    if (discountValue === undefined || isNaN(discountValue) || discountValue <= 0) {
+      issues.push(`Promo code "${code}": Discount Value must be greater than 0`);
+      continue;
+    }
+    if (discountType === 'percentage' && discountValue > 1) {
+      issues.push(`Promo code "${code}": percentage Discount Value must be at most 100% (got ${discountValue * 100}%)`);
+      continue;
+    }
+
+    const billingFrequencies = parseList(fields['Billing Frequencies']);
+    const unknownFrequencies = billingFrequencies.filter(frequency => !isBillingFrequency(frequency));
+    if (unknownFrequencies.length > 0) {
+      issues.push(`Promo code "${code}": unknown Billing Frequencies ${unknownFrequencies.join(', ')} (expected ${BILLING_FREQUENCIES.join(', ')})`);
+      continue;
+    }
+
+    const validFrom = parsePricingDate(fields['Valid From']);
+    const validUntil = parsePricingDate(fields['Valid Until']);
+    if ((fields['Valid From']?.trim() && !validFrom) || (fields['Valid Until']?.trim() && !validUntil)) {
+      issues.push(`Promo code "${code}": Valid From / Valid Until must be dates, e.g. 2026-04-30`);
+      continue;
+    }
+    if (validFrom && validUntil && validUntil < validFrom) {
+      issues.push(`Promo code "${code}": Valid Until (${validUntil}) is before Valid From (${validFrom})`);
+      continue;
+    }
+
+    const usageLimit = parseNumber(fields['Usage Limit']);
+    if (usageLimit !== undefined && (!Number.isInteger(usageLimit) || usageLimit < 1)) {
+      issues.push(`Promo code "${code}": Usage Limit must be a whole number of at least 1`);
+      continue;
+    }
+
+    const services = parseList(fields['Eligible Services']);
+    promoCodes.push({
+      code,
+      kind: fields['Code Type']?.trim().toLowerCase() === 'referral' ? 'referral' : 'promo',
+      campaign: fields['Campaign']?.trim() || undefined,
+      discountType,
+      discountValue,
+      services: services.length > 0 ? services : undefined,
+      billingFrequencies: billingFrequencies.length > 0 ? billingFrequencies as BillingFrequency[] : undefined,
+      validFrom,
+      validUntil,
+      usageLimit,
+      timesUsed: parseNumber(fields['Times Used']) || 0,
+      stacking: fields['Stacking']?.trim().toLowerCase() === 'exclusive' ? 'exclusive' : 'stack'
+    });
+  }
+
+  return promoCodes;
+};
+
+// Fetch promo codes from Airtable
+export const fetchPromoCodes = async (airtableConfig?: AirtableConfig): Promise<PromoCode[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // No codes if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. No promo codes available.');
+    return [];
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_PROMO_CODES_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Tenants without the table don't run promo codes
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Promo Codes table in pricing base - promo codes are off');
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const records: AirtablePromoCodeRecord[] = data.records || [];
+    const issues: string[] = [];
+    const promoCodes = buildPromoCodes(records, issues);
+
+    // A broken code is left out; the other codes and every quote keep working
+    if (issues.length > 0) {
+      console.error(`❌ Dropped ${records.length - promoCodes.length} invalid promo code row(s):`);
+      issues.forEach(issue => console.error(issue));
+    }
+
+    console.log(`Successfully fetched ${promoCodes.length} promo code(s) from Airtable`);
+    return promoCodes;
+
+  } catch (error) {
+    console.error('Network error fetching promo codes from Airtable:', error);
+    console.log('Falling back to no promo codes');
+    return [];
+  }
+};
+
+// Cache promo codes to avoid repeated API calls (tenant-scoped)
+const promoCodeCache = new Map<string, { promoCodes: PromoCode[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedPromoCodes = async (airtableConfig?: AirtableConfig): Promise<PromoCode[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = promoCodeCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.promoCodes;
+  }
+
+  const promoCodes = await fetchPromoCodes(airtableConfig);
+  promoCodeCache.set(cacheKey, { promoCodes, timestamp: now });
+
+  return promoCodes;
+};
+
+// Clear promo code cache (useful for testing or manual refresh)
+export const clearPromoCodeCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    promoCodeCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    promoCodeCache.clear();
+  }
+};
+
+/**
+ * Count a submitted quote against a code's usage limit (Promo Codes "Times Used")
+ * Reads the current count first so other clients' uses since the codes were cached aren't lost.
+ */
+export const recordPromoCodeUse = async (code: string, airtableConfig: AirtableConfig): Promise<boolean> => {
+  const tableUrl = `https://api.airtable.com/v0/${airtableConfig.baseId}/${encodeURIComponent(AIRTABLE_PROMO_CODES_TABLE_NAME)}`;
+  const headers = {
+    'Authorization': `Bearer ${airtableConfig.apiKey}`,
+    'Content-Type': 'application/json'
+  };
+
+  try {
+    const formula = encodeURIComponent(`UPPER(TRIM({Code}))='${normalizePromoCode(code).replace(/'/g, "\\'")}'`);
+    const response = await fetch(`${tableUrl}?filterByFormula=${formula}&maxRecords=1`, { headers });
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const record = (await response.json()).records?.[0] as AirtablePromoCodeRecord | undefined;
+    if (!record) {
+      console.warn(`⚠️ Promo code ${code} not found - use not recorded`);
+      return false;
+    }
+
+    const timesUsed = (parseNumber(record.fields['Times Used']) || 0) + 1;
+    const update = await fetch(`${tableUrl}/${record.id}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ fields: { 'Times Used': timesUsed } })
+    });
+    if (!update.ok) {
+      throw new Error(`Airtable API error: ${update.status} ${update.statusText}`);
+    }
+
+    console.log(`🎫 Promo code ${code} used ${timesUsed} time(s)`);
+    return true;
+  } catch (error) {
+    console.error(`Error recording use of promo code ${code}:`, error);
+    return false;
+  }
+};
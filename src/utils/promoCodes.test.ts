@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { PromoCode, QuoteAdjustment } from '../types/quote';
+import { PROMO_RULE_PREFIX, checkPromoCode, describeUnusedPromoCode, getPromoCodeDiscount, normalizePromoCode, toPromoDiscountRule } from './promoCodes';
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  code: 'SPRING10',
+  kind: 'promo',
+  campaign: 'Spring 2026',
+  discountType: 'percentage',
+  discountValue: 0.1,
+  timesUsed: 0,
+  stacking: 'stack',
+  ...overrides
+});
+
+describe('checkPromoCode', () => {
+  it('matches entered codes case-insensitively', () => {
+    expect(normalizePromoCode('  spring10 ')).toBe('SPRING10');
+
+    const { result, promo: found } = checkPromoCode([promo()], 'spring10', '2026-04-01');
+    expect(result).toEqual({ code: 'SPRING10', kind: 'promo', campaign: 'Spring 2026', status: 'applied', message: 'Promo code SPRING10 applied - 10% off' });
+    expect(found?.code).toBe('SPRING10');
+  });
+
+  it('checks the validity window on the pricing date', () => {
+    const dated = [promo({ validFrom: '2026-03-01', validUntil: '2026-04-30' })];
+    expect(checkPromoCode(dated, 'SPRING10', '2026-02-28').result.status).toBe('not-started');
+    expect(checkPromoCode(dated, 'SPRING10', '2026-03-01').result.status).toBe('applied');
+    expect(checkPromoCode(dated, 'SPRING10', '2026-04-30').result.status).toBe('applied');
+    expect(checkPromoCode(dated, 'SPRING10', '2026-05-01').result).toMatchObject({ status: 'expired', message: 'SPRING10 expired on 2026-04-30' });
+  });
+
+  it('refuses a used-up code unless this quote already redeemed it', () => {
+    const usedUp = [promo({ usageLimit: 5, timesUsed: 5 })];
+    expect(checkPromoCode(usedUp, 'SPRING10', '2026-04-01').result.status).toBe('used-up');
+    expect(checkPromoCode(usedUp, 'SPRING10', '2026-04-01', 'SPRING10').result.status).toBe('applied');
+  });
+
+  it('reports unknown codes without a promo', () => {
+    expect(checkPromoCode([promo()], 'NOPE', '2026-04-01')).toEqual({ result: { code: 'NOPE', status: 'unknown', message: '"NOPE" isn\'t a valid code' } });
+  });
+});
+
+describe('toPromoDiscountRule', () => {
+  it('prices a code as a last, selected-services discount when it has no eligible services', () => {
+    const rule = toPromoDiscountRule(promo({ kind: 'referral', code: 'FRIEND', discountType: 'fixed', discountValue: 50 }), ['bookkeeping', 'individual-tax']);
+    expect(rule).toMatchObject({
+      pricingRuleId: `${PROMO_RULE_PREFIX}FRIEND`,
+      serviceName: 'Referral code FRIEND',
+      pricingType: 'Discount',
+      discountType: 'fixed',
+      discountValue: 50,
+      discountTargets: { services: ['bookkeeping', 'individual-tax'] },
+      discountPriority: Number.MAX_SAFE_INTEGER
+    });
+  });
+
+  it('targets only the eligible services and billing frequencies', () => {
+    const rule = toPromoDiscountRule(promo({ services: ['bookkeeping'], billingFrequencies: ['Monthly'] }), ['bookkeeping', 'individual-tax']);
+    expect(rule.serviceId).toBe('bookkeeping');
+    expect(rule.discountTargets).toEqual({ services: ['bookkeeping'], billingFrequencies: ['Monthly'] });
+  });
+});
+
+describe('describeUnusedPromoCode', () => {
+  it('tells an exclusive clash apart from no eligible services', () => {
+    expect(describeUnusedPromoCode('SPRING10', 'Skipped - exclusive discount and another discount already applied'))
+      .toBe("SPRING10 can't be combined with the other discounts on this quote");
+    expect(describeUnusedPromoCode('SPRING10', undefined)).toBe("SPRING10 doesn't apply to the selected services");
+  });
+});
+
+describe('getPromoCodeDiscount', () => {
+  it('adds up the first-year value of the promo adjustments only', () => {
+    const adjustments: QuoteAdjustment[] = [
+      { type: 'promo-code', ruleId: 'promo-code-SPRING10', label: '', serviceId: 'bookkeeping', billingFrequency: 'Monthly', amount: -12.5 },
+      { type: 'promo-code', ruleId: 'promo-code-SPRING10', label: '', serviceId: 'individual-tax', billingFrequency: 'One-Time Fee', amount: -40 },
+      { type: 'discount', ruleId: 'loyalty', label: '', serviceId: 'bookkeeping', billingFrequency: 'Monthly', amount: -100 }
+    ];
+    expect(getPromoCodeDiscount({ adjustments })).toBe(190);
+    expect(getPromoCodeDiscount({ adjustments: [] })).toBe(0);
+  });
+});
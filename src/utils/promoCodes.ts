@@ -0,0 +1,107 @@
+import { AppliedPromoCode, PricingConfig, PromoCode, QuoteData } from '../types/quote';
+import { BILLINGS_PER_YEAR } from './billingFrequencies';
+import { addMoney, multiplyMoney, toDollars, toMoney } from './money';
+
+/**
+ * Promo and referral codes
+ *
+ * The client enters a code on the quote page. calculateQuote checks it against
+ * the tenant's Promo Codes table on the pricing date (so a locked quote keeps
+ * the code it was given) and, when it is valid, prices it as one more Discount
+ * rule: it comes off the eligible services' charges after the tenant's own
+ * Discount rules, and shows up as a 'promo-code' adjustment.
+ *
+ * A code's usage limit counts submitted quotes ("Times Used", incremented by
+ * promoCodeService.recordPromoCodeUse); the quote that used it up keeps it.
+ *
+ * Loading the codes from Airtable lives in promoCodeService.ts; this module has
+ * no environment dependencies.
+ */
+
+// Pricing Rule ID of the discount rule a code is priced as
+export const PROMO_RULE_PREFIX = 'promo-code-';
+
+// Codes apply after every Discount rule of the tenant
+const PROMO_DISCOUNT_PRIORITY = Number.MAX_SAFE_INTEGER;
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+const describeKind = (promo: Pick<PromoCode, 'kind'>): string => promo.kind === 'referral' ? 'Referral code' : 'Promo code';
+
+/**
+ * Look up an entered code and check it can be used on `pricingDate` (YYYY-MM-DD)
+ * `redeemedCode` is the code this quote was already counted against, which
+ * keeps working past its usage limit.
+ */
+export const checkPromoCode = (
+  promoCodes: PromoCode[],
+  enteredCode: string,
+  pricingDate: string,
+  redeemedCode?: string
+): { result: AppliedPromoCode; promo?: PromoCode } => {
+  const code = normalizePromoCode(enteredCode);
+  const promo = promoCodes.find(candidate => candidate.code === code);
+  if (!promo) {
+    return { result: { code, status: 'unknown', message: `"${code}" isn't a valid code` } };
+  }
+
+  const result = { code, kind: promo.kind, campaign: promo.campaign };
+  if (promo.validFrom && pricingDate < promo.validFrom) {
+    return { result: { ...result, status: 'not-started', message: `${code} can be used from ${promo.validFrom}` } };
+  }
+  if (promo.validUntil && pricingDate > promo.validUntil) {
+    return { result: { ...result, status: 'expired', message: `${code} expired on ${promo.validUntil}` } };
+  }
+  if (promo.usageLimit !== undefined && promo.timesUsed >= promo.usageLimit && code !== redeemedCode) {
+    return { result: { ...result, status: 'used-up', message: `${code} has already been used the maximum number of times` } };
+  }
+
+  const amount = promo.discountType === 'fixed' ? `$${promo.discountValue}` : `${Math.round(promo.discountValue * 10000) / 100}%`;
+  return { result: { ...result, status: 'applied', message: `${describeKind(promo)} ${code} applied - ${amount} off` }, promo };
+};
+
+/**
+ * The Discount rule a valid code is priced as
+ * Without eligible services it targets every selected service.
+ */
+export const toPromoDiscountRule = (promo: PromoCode, selectedServices: string[]): PricingConfig => {
+  const services = promo.services || selectedServices;
+  return {
+    serviceId: services[0] || '',
+    pricingRuleId: `${PROMO_RULE_PREFIX}${promo.code}`,
+    serviceName: `${describeKind(promo)} ${promo.code}`,
+    description: promo.campaign || '',
+    pricingType: 'Discount',
+    basePrice: 0,
+    billingFrequency: 'One-Time Fee',
+    active: true,
+    perUnitPricing: false,
+    advisoryDiscountEligible: false,
+    advisoryDiscountPercentage: 0,
+    includedFeatures: [],
+    addOns: [],
+    discountType: promo.discountType,
+    discountValue: promo.discountValue,
+    discountTargets: { services, billingFrequencies: promo.billingFrequencies },
+    discountPriority: PROMO_DISCOUNT_PRIORITY,
+    discountStacking: promo.stacking
+  };
+};
+
+/**
+ * What to tell the client when a valid code took nothing off
+ * (`explanation` is what applyDiscounts said about the code's rule)
+ */
+export const describeUnusedPromoCode = (code: string, explanation: string | undefined): string =>
+  explanation?.startsWith('Skipped')
+    ? `${code} can't be combined with the other discounts on this quote`
+    : `${code} doesn't apply to the selected services`;
+
+/**
+ * First-year value of the quote's promo code in dollars (0 when none applied),
+ * as recorded with the quote ("Promo Discount")
+ */
+export const getPromoCodeDiscount = (quote: Pick<QuoteData, 'adjustments'>): number =>
+  toDollars(addMoney(...quote.adjustments
+    .filter(adjustment => adjustment.type === 'promo-code')
+    .map(adjustment => multiplyMoney(toMoney(-adjustment.amount), BILLINGS_PER_YEAR[adjustment.billingFrequency]))));
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { IncludedUnits, RateCard } from '../types/quote';
+import { calculateQuote } from './quoteCalculator';
+import { bookkeepingDetails, businessTaxDetails, pricingRule, quoteForm, serviceRow } from './testFixtures';
+
+const bookkeepingForm = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() });
+
+describe('service totals read by formulas', () => {
+  it('gives every formula reading a total the same total, without the other readers', () => {
+    const services = [serviceRow('bookkeeping', { billingFrequency: 'Monthly', totalVariableName: 'monthly_bookkeeping_fee' })];
+    const quote = calculateQuote(bookkeepingForm, [
+      pricingRule('bookkeeping-review', { pricingType: 'Base Service', calculationMethod: 'formula', formulaExpression: '{{monthly_bookkeeping_fee}} * 0.1' }),
+      pricingRule('bookkeeping-payroll', { pricingType: 'Base Service', calculationMethod: 'formula', formulaExpression: '{{monthly_bookkeeping_fee}} * 0.2' }),
+      pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 500 })
+    ], services);
+
+    const prices = Object.fromEntries(quote.trace.rules.map(trace => [trace.ruleId, trace.price]));
+    expect(prices).toMatchObject({ 'bookkeeping-base': 500, 'bookkeeping-review': 50, 'bookkeeping-payroll': 100 });
+    expect(quote.totalMonthlyFees).toBe(650);
+  });
+
+  it('records in the trace which rules a formula was priced after', () => {
+    const quote = calculateQuote(bookkeepingForm, [
+      pricingRule('bookkeeping-review', { pricingType: 'Base Service', calculationMethod: 'formula', formulaExpression: '{{pricingRule.bookkeeping-base}} * 0.1' }),
+      pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 500 })
+    ]);
+
+    expect(quote.trace.rules.map(trace => trace.ruleId)).toEqual(['bookkeeping-base', 'bookkeeping-review']);
+    expect(quote.trace.rules[1].steps[0]).toBe('Priced after bookkeeping-base (its formula reads them)');
+    expect(quote.trace.notes).toContain('Rounded per-total to the dollar: monthly $550, quarterly $0, semi-annual $0, one-time $0, annual prepay $0');
+  });
+});
+
+describe('minimum monthly fees', () => {
+  const floorRule = pricingRule('bookkeeping-minimum-fee', {
+    pricingType: 'Base Service',
+    minimumMonthlyFee: 500,
+    minimumMonthlyFeeWithAdvisory: 250,
+    applyMinimumFee: true
+  });
+  const base = (basePrice: number) => pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice });
+
+  it('tops a service up to its floor with a minimum fee adjustment', () => {
+    const quote = calculateQuote(bookkeepingForm, [floorRule, base(320)]);
+
+    expect(quote.adjustments).toEqual([expect.objectContaining({ type: 'minimum-fee', ruleId: 'bookkeeping-minimum-fee', serviceId: 'bookkeeping', amount: 180 })]);
+    expect(quote.totalMonthlyFees).toBe(500);
+  });
+
+  it('leaves a service at or above its floor alone', () => {
+    const quote = calculateQuote(bookkeepingForm, [floorRule, base(640)]);
+
+    expect(quote.adjustments).toEqual([]);
+    expect(quote.totalMonthlyFees).toBe(640);
+  });
+
+  it('uses the advisory floor while the client gets advisory rates', () => {
+    const quote = calculateQuote(quoteForm({ services: ['bookkeeping', 'advisory'], bookkeeping: bookkeepingDetails() }), [floorRule, base(200)]);
+
+    expect(quote.adjustments).toEqual([expect.objectContaining({ type: 'minimum-fee', amount: 50 })]);
+  });
+
+  it('only counts monthly fees towards the floor', () => {
+    const quote = calculateQuote(bookkeepingForm, [
+      floorRule,
+      base(100),
+      pricingRule('bookkeeping-cleanup', { pricingType: 'Base Service', billingFrequency: 'One-Time Fee', basePrice: 1000 })
+    ]);
+
+    expect(quote.totalMonthlyFees).toBe(500);
+    expect(quote.totalOneTimeFees).toBe(1000);
+  });
+});
+
+describe('per-unit Included Units', () => {
+  const ownersForm = (entityType: string, numberOfOwners: number) =>
+    quoteForm({ services: ['business-tax'], businessTax: businessTaxDetails({ entityType, numberOfOwners }) });
+  const ownerRule = (includedUnits?: IncludedUnits) => pricingRule('business-tax-additional-owners', {
+    serviceId: 'business-tax',
+    pricingType: 'Base Service',
+    billingFrequency: 'One-Time Fee',
+    calculationMethod: 'per-unit',
+    perUnitPricing: true,
+    unitPrice: 50,
+    unitName: 'owner',
+    quantitySourceField: 'businessTax.numberOfOwners',
+    includedUnits
+  });
+  const ownersIncluded: RateCard = {
+    name: 'ownersIncluded',
+    sourceField: 'businessTax.entityType',
+    rows: [{ matchValue: 'Partnership', value: 2 }, { matchValue: '*', value: 1 }]
+  };
+
+  it('bills only the units above the included amount', () => {
+    expect(calculateQuote(ownersForm('Partnership', 5), [ownerRule({ source: 'fixed', value: 2 })]).totalOneTimeFees).toBe(150);
+    expect(calculateQuote(ownersForm('Partnership', 1), [ownerRule({ source: 'fixed', value: 2 })]).totalOneTimeFees).toBe(0);
+  });
+
+  it('bills every unit without Included Units', () => {
+    expect(calculateQuote(ownersForm('Partnership', 5), [ownerRule()]).totalOneTimeFees).toBe(250);
+  });
+
+  it('reads the included amount from a rate card', () => {
+    const rules = [ownerRule({ source: 'lookup', rateCard: 'ownersIncluded' })];
+    expect(calculateQuote(ownersForm('Partnership', 5), rules, [], { rateCards: [ownersIncluded] }).totalOneTimeFees).toBe(150);
+    expect(calculateQuote(ownersForm('S-Corporation', 5), rules, [], { rateCards: [ownersIncluded] }).totalOneTimeFees).toBe(200);
+  });
+});
+
+describe('annual prepay', () => {
+  const rules = [
+    pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 }),
+    pricingRule('bookkeeping-cleanup', { pricingType: 'Base Service', billingFrequency: 'One-Time Fee', basePrice: 1000 })
+  ];
+
+  it('bills the year of monthly fees up front, less the prepay discount', () => {
+    const quote = calculateQuote(bookkeepingForm, rules, [], { annualPrepayDiscount: 0.1 });
+
+    expect(quote.billingChoice).toBe('annual-prepay');
+    expect(quote.totalMonthlyFees).toBe(0);
+    expect(quote.totalAnnualPrepayFees).toBe(4320);
+    expect(quote.totalOneTimeFees).toBe(1000);
+    expect(quote.totalAnnual).toBe(4320 + 1000);
+    expect(quote.adjustments).toEqual([expect.objectContaining({
+      type: 'prepay-discount',
+      label: 'Annual prepay discount (10%)',
+      serviceId: 'bookkeeping',
+      billingFrequency: 'Annual',
+      amount: -480
+    })]);
+  });
+
+  it('prepays the monthly fees after the minimum fee top-up', () => {
+    const floorRule = pricingRule('bookkeeping-minimum-fee', { pricingType: 'Base Service', minimumMonthlyFee: 500, applyMinimumFee: true });
+    const quote = calculateQuote(bookkeepingForm, [floorRule, ...rules], [], { annualPrepayDiscount: 0.1 });
+
+    expect(quote.totalAnnualPrepayFees).toBe(5400);
+  });
+
+  it('prepays without an adjustment when the discount is 0%', () => {
+    const quote = calculateQuote(bookkeepingForm, rules, [], { annualPrepayDiscount: 0 });
+
+    expect(quote.totalAnnualPrepayFees).toBe(4800);
+    expect(quote.adjustments).toEqual([]);
+    expect(quote.trace.notes).toContain('bookkeeping monthly fees $400 × 12 = $4,800 prepaid for the year, less the 0% prepay discount → $4,800');
+  });
+
+  it('bills monthly unless the client chose annual prepay', () => {
+    const quote = calculateQuote(bookkeepingForm, rules);
+
+    expect(quote.billingChoice).toBe('monthly');
+    expect(quote.totalMonthlyFees).toBe(400);
+    expect(quote.totalAnnualPrepayFees).toBe(0);
+    expect(quote.totalAnnual).toBe(4800 + 1000);
+  });
+});
+
+describe('price ranges', () => {
+  const base = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 });
+  const cleanup = pricingRule('bookkeeping-cleanup', { pricingType: 'Base Service', billingFrequency: 'One-Time Fee', basePrice: 1000, priceVariance: 0.25 });
+
+  it('shows each total as the price ± the variance, a rule\'s own variance first', () => {
+    const quote = calculateQuote(bookkeepingForm, [base, cleanup], [], { priceRangeVariance: 0.1 });
+
+    expect(quote.totalMonthlyFees).toBe(400);
+    expect(quote.priceRange).toMatchObject({
+      totalMonthlyFees: { low: 360, high: 440 },
+      totalOneTimeFees: { low: 750, high: 1250 },
+      totalAnnual: { low: 360 * 12 + 750, high: 440 * 12 + 1250 }
+    });
+    expect(quote.trace.notes).toContain('Price range display (default ±10%): annual total $5,800 shown as $5,070 – $6,530');
+  });
+
+  it('weights a line\'s variance by the prices of the rules behind it', () => {
+    const payroll = pricingRule('bookkeeping-payroll', { pricingType: 'Base Service', basePrice: 100, priceVariance: 0.3 });
+    const quote = calculateQuote(bookkeepingForm, [base, payroll], [serviceRow('bookkeeping')], { priceRangeVariance: 0.1 });
+
+    expect(quote.services[0].priceRange?.monthlyFee).toEqual({ low: 430, high: 570 });
+    expect(quote.priceRange?.totalMonthlyFees).toEqual({ low: 430, high: 570 });
+  });
+
+  it('quotes exact prices when the tenant does not show ranges', () => {
+    const quote = calculateQuote(bookkeepingForm, [base, cleanup], [serviceRow('bookkeeping')]);
+
+    expect(quote.priceRange).toBeUndefined();
+    expect(quote.services[0].priceRange).toBeUndefined();
+  });
+});
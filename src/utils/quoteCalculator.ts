@@ -1,314 +1,280 @@
-import { FormData, QuoteData, ServiceQuote, HourlyService } from '../types/quote';
-import { PricingConfig, getServicePricing } from './pricingService';
-import { ServiceConfig, getServiceConfig } from './serviceConfigService';
-import { FormulaEvaluator } from './formulaEvaluator';
-
-// Helper function to safely get nested object values using dot notation
-// with fallback to root level for backward compatibility
-const getNestedValue = (obj: any, path: string): any => {
-  if (!path) return undefined;
-
-  // Try nested path first (preferred)
-  const result = path.split('.').reduce((current, key) => {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-    return current[key];
-  }, obj);
-
-  // If nested path succeeded, return the value
-  if (result !== undefined) {
-    return result;
-  }
+import { BillingChoice, BillingFrequency, FormData, QuoteData, ServiceQuote, HourlyService, PricingConfig, ServiceConfig, QuoteAdjustment, RateCard, RuleTrace, AdjustmentTrace, IncludedUnits, EstimateRange, QuotePriceRange, ServicePriceRange, ComplexityModel, RecommendationRule, SavingsEstimator, FilingDeadline, DiscountProgram, PromoCode, AppliedPromoCode, ReviewFlag } from '../types/quote';
+import { CalculatedPriceMetadata, FormulaEvaluator } from './formulaEvaluator';
+import { FormulaEvaluationError } from './formulaParser';
+import { getRuleFormulaVariables, sortRulesByDependency } from './ruleDependencies';
+import { evaluateCondition, evaluateConditionGroup, getFieldValueSmart, describeConditionGroup, traceConditionGroup } from './pricingConditions';
+import { applyDiscounts, DiscountableCharge, MoneyAdjustment } from './discounts';
+import { applyDiscountPrograms, defaultDiscountPrograms, hasAdvisoryRates, selectDiscountPrograms, withProgramFields } from './discountPrograms';
+import { checkPromoCode, describeUnusedPromoCode, toPromoDiscountRule } from './promoCodes';
+import { getReviewReasons } from './reviewFlags';
+import { calculateTieredPrice, describeTier } from './tieredPricing';
+import { resolveRateCard, RateCardLookupResult } from './rateCards';
+import { defaultComplexityModel, scoreComplexity } from './complexityScoring';
+import { defaultRecommendationRules, evaluateRecommendations } from './recommendations';
+import { estimateSavings } from './savingsEstimates';
+import { BUILT_IN_PRICING_VERSION, getPricingVersionId, selectRulesInEffect, toPricingDate } from './pricingVersions';
+import { BILLINGS_PER_YEAR, BILLING_FREQUENCIES, isBillingFrequency, isHourlyBillingFrequency } from './billingFrequencies';
+import { CALENDAR_PREFIX, CalendarFields, buildCalendarFields, defaultFilingDeadlines, describeCalendarFields, withCalendarFields } from './filingCalendar';
+import { DEFAULT_ROUNDING_POLICY, Money, RoundingPolicy, ZERO_MONEY, addMoney, formatDollars, multiplyMoney, formatDollarRange, reconcileLines, roundMoney, subtractMoney, toDollars, toMoney } from './money';
 
-  // FALLBACK: Check if the field exists at root level (backward compatibility)
-  // This handles legacy data where fields were stored flat instead of nested
-  const pathParts = path.split('.');
-  if (pathParts.length > 1) {
-    // Get the last part of the path (the field name)
-    const fieldName = pathParts[pathParts.length - 1];
-    const rootValue = obj[fieldName];
-
-    if (rootValue !== undefined) {
-      console.warn(`[getNestedValue] Field found at root level instead of nested path: ${path} -> ${fieldName}`);
-      console.warn(`[getNestedValue] Consider updating data structure to use nested format: ${path}`);
-      return rootValue;
-    }
-  }
+/**
+ * Optional inputs to calculateQuote beyond the pricing rules and services
+ */
+export interface QuoteCalculationOptions {
+  rateCards?: RateCard[]; // Lookup tables for {{lookup.x}} and rule "Rate Card" prices
+  complexityModel?: ComplexityModel; // Tenant complexity factors/thresholds (defaults to the built-in model)
+  recommendationRules?: RecommendationRule[]; // Tenant recommendations (defaults to the built-in rules)
+  savingsEstimators?: SavingsEstimator[]; // Tenant savings formulas (none = no savings figure)
+  asOf?: Date; // Pricing date - only rules in effect on it are used (defaults to now); also the quote date for calendar.* conditions
+  filingDeadlines?: FilingDeadline[]; // Deadlines for calendar.daysUntilDeadline (defaults to the built-in ones)
+  discountPrograms?: DiscountProgram[]; // Membership discounts on rule prices (defaults to the built-in Advisory discount)
+  roundingPolicy?: RoundingPolicy; // Firm Info rounding of service lines and totals (see money.ts)
+  annualPrepayDiscount?: number; // Set when the client chose annual prepay: the year's monthly fees less this fraction (0.1 = 10%)
+  priceRangeVariance?: number; // Set in price-range mode: ± fraction around rules without their own Price Variance (0.1 = ±10%)
+  promoCodes?: PromoCode[]; // Tenant promo/referral codes the entered code is checked against
+  promoCode?: string; // Code the client entered
+  redeemedPromoCode?: string; // Code this quote was already counted against (stays valid past its usage limit)
+}
+
+// Service and quote totals, and the one each billing frequency adds to
+// (annual fees are charged once in the first year, so they're quoted as one-time;
+// prepaid monthly fees only come from the annual prepay billing choice)
+type FeeTotal = 'totalMonthlyFees' | 'totalQuarterlyFees' | 'totalSemiAnnualFees' | 'totalOneTimeFees' | 'totalAnnualPrepayFees';
+type FeeTotals = { [total in FeeTotal]: Money };
+
+const FEE_TOTALS: FeeTotal[] = ['totalMonthlyFees', 'totalQuarterlyFees', 'totalSemiAnnualFees', 'totalOneTimeFees', 'totalAnnualPrepayFees'];
+
+const FEE_TOTAL_BY_FREQUENCY: { [frequency in BillingFrequency]: FeeTotal } = {
+  'Monthly': 'totalMonthlyFees',
+  'Quarterly': 'totalQuarterlyFees',
+  'Semi-Annual': 'totalSemiAnnualFees',
+  'Annual': 'totalOneTimeFees',
+  'One-Time Fee': 'totalOneTimeFees'
+};
 
-  return undefined;
+// First-year cost of a set of fee totals
+const annualizeFees = (totals: FeeTotals): Money => addMoney(
+  multiplyMoney(totals.totalMonthlyFees, BILLINGS_PER_YEAR['Monthly']),
+  multiplyMoney(totals.totalQuarterlyFees, BILLINGS_PER_YEAR['Quarterly']),
+  multiplyMoney(totals.totalSemiAnnualFees, BILLINGS_PER_YEAR['Semi-Annual']),
+  totals.totalOneTimeFees,
+  totals.totalAnnualPrepayFees
+);
+
+// Low/high fee totals as a displayed price range
+const toServicePriceRange = (low: FeeTotals, high: FeeTotals): ServicePriceRange => ({
+  monthlyFee: { low: toDollars(low.totalMonthlyFees), high: toDollars(high.totalMonthlyFees) },
+  quarterlyFee: { low: toDollars(low.totalQuarterlyFees), high: toDollars(high.totalQuarterlyFees) },
+  semiAnnualFee: { low: toDollars(low.totalSemiAnnualFees), high: toDollars(high.totalSemiAnnualFees) },
+  oneTimeFee: { low: toDollars(low.totalOneTimeFees), high: toDollars(high.totalOneTimeFees) },
+  annualPrepayFee: { low: toDollars(low.totalAnnualPrepayFees), high: toDollars(high.totalAnnualPrepayFees) },
+  annualPrice: { low: toDollars(annualizeFees(low)), high: toDollars(annualizeFees(high)) }
+});
+
+const toQuotePriceRange = (low: FeeTotals, high: FeeTotals): QuotePriceRange => {
+  const range = toServicePriceRange(low, high);
+  return {
+    totalMonthlyFees: range.monthlyFee,
+    totalQuarterlyFees: range.quarterlyFee,
+    totalSemiAnnualFees: range.semiAnnualFee,
+    totalOneTimeFees: range.oneTimeFee,
+    totalAnnualPrepayFees: range.annualPrepayFee,
+    totalAnnual: range.annualPrice
+  };
 };
 
-/**
- * Smart field value lookup that handles both nested and flat paths
- * and automatically constructs the correct path based on service context
- */
-const getFieldValueSmart = (formData: FormData, triggerField: string, serviceId?: string): any => {
-  // First, try the field path as-is (for fully qualified paths like "individualTax.filingStatus")
-  let fieldValue = getNestedValue(formData, triggerField);
+// Adjustments are priced in whole cents and reported in dollars
+const toQuoteAdjustment = (adjustment: MoneyAdjustment): QuoteAdjustment => ({ ...adjustment, amount: toDollars(adjustment.amount) });
 
-  if (fieldValue !== undefined) {
-    return fieldValue;
-  }
+const emptyFeeTotals = (): FeeTotals => ({
+  totalMonthlyFees: ZERO_MONEY,
+  totalQuarterlyFees: ZERO_MONEY,
+  totalSemiAnnualFees: ZERO_MONEY,
+  totalOneTimeFees: ZERO_MONEY,
+  totalAnnualPrepayFees: ZERO_MONEY
+});
 
-  // If that didn't work and we have a serviceId, try constructing the nested path
-  if (serviceId && !triggerField.includes('.')) {
-    // Convert serviceId to camelCase (e.g., "individual-tax" → "individualTax")
-    const serviceCamelCase = serviceId.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
-    const constructedPath = `${serviceCamelCase}.${triggerField}`;
+// Determine calculation method (default to 'simple' for backward compatibility)
+const getCalculationMethod = (rule: PricingConfig): string =>
+  rule.calculationMethod || (rule.perUnitPricing ? 'per-unit' : 'simple');
 
-    fieldValue = getNestedValue(formData, constructedPath);
+const describeLookup = (rateCard: string, lookup: RateCardLookupResult): string =>
+  `rate card "${rateCard}" (${JSON.stringify(lookup.sourceValue)} → ${lookup.value}${lookup.row ? '' : ', no matching row and no "*" row'})`;
 
-    if (fieldValue !== undefined) {
-      console.log(`🔍 Field found using constructed path: ${constructedPath}`);
-      return fieldValue;
+// Resolve a per-unit rule's Included Units or an hourly rule's Estimated Hours to a number (and where it came from, for the trace)
+const resolveIncludedUnits = (
+  includedUnits: IncludedUnits,
+  formData: FormData,
+  rateCards: RateCard[],
+  serviceId: string
+): { units: number; source: string } => {
+  switch (includedUnits.source) {
+    case 'lookup': {
+      const lookup = resolveRateCard(rateCards, includedUnits.rateCard, formData, serviceId);
+      return { units: lookup.value, source: describeLookup(includedUnits.rateCard, lookup) };
     }
+    case 'field': {
+      const value = getFieldValueSmart(formData, includedUnits.field, serviceId);
+      return { units: Number(value) || 0, source: `${includedUnits.field} = ${JSON.stringify(value)}` };
+    }
+    default:
+      return { units: includedUnits.value, source: 'fixed' };
   }
-
-  // Final fallback: try root level
-  return (formData as any)[triggerField];
 };
 
-/**
- * Evaluates conditional logic for pricing rules
- *
- * @param formData - Complete form data object
- * @param triggerField - Field name to check (supports dot notation for nested fields)
- * @param requiredValue - Value to compare against (empty string for isEmpty/isNotEmpty)
- * @param comparisonLogic - Comparison operator
- * @param serviceId - Optional service ID to help construct the correct field path
- *
- * Supported Operators:
- *
- * TEXT OPERATORS:
- * - equals: Exact match (case-insensitive, trimmed)
- * - notEquals: Not equal (case-insensitive, trimmed)
- * - contains: Field contains value (case-insensitive)
- * - notContains: Field does not contain value (case-insensitive)
- *
- * NUMERIC OPERATORS:
- * - lessThan: Field < value (strips currency formatting)
- * - lessThanOrEqual: Field <= value
- * - greaterThan: Field > value
- * - greaterThanOrEqual: Field >= value
- *
- * EXISTENCE OPERATORS:
- * - isEmpty: Field is undefined, null, empty string, or empty array
- * - isNotEmpty: Field has a value
- *
- * @returns true if condition is met, false otherwise
- */
-const evaluateCondition = (
+// An hourly rule as quoted: its rate, plus the hours and cost range when it has Estimated Hours
+const buildHourlyService = (
+  rule: PricingConfig,
   formData: FormData,
-  triggerField: string,
-  requiredValue: string,
-  comparisonLogic: string,
-  serviceId?: string
-): boolean => {
-  const fieldValue = getFieldValueSmart(formData, triggerField, serviceId);
-
-  // Handle isEmpty check first (before value comparisons)
-  if (comparisonLogic === 'isEmpty') {
-    return fieldValue === undefined ||
-           fieldValue === null ||
-           fieldValue === '' ||
-           (Array.isArray(fieldValue) && fieldValue.length === 0);
-  }
-
-  if (comparisonLogic === 'isNotEmpty') {
-    return fieldValue !== undefined &&
-           fieldValue !== null &&
-           fieldValue !== '' &&
-           !(Array.isArray(fieldValue) && fieldValue.length === 0);
-  }
-
-  // If field value is empty and not checking for empty, return false
-  if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
-    return false;
-  }
-
-  // Detect if we're working with numbers
-  const isNumericComparison = ['lessThan', 'lessThanOrEqual', 'greaterThan', 'greaterThanOrEqual'].includes(comparisonLogic);
-
-  let result = false;
-
-  switch (comparisonLogic) {
-    // TEXT OPERATORS (work on strings)
-    case 'equals':
-      result = String(fieldValue).toLowerCase().trim() === String(requiredValue).toLowerCase().trim();
-      break;
-
-    case 'notEquals':
-      result = String(fieldValue).toLowerCase().trim() !== String(requiredValue).toLowerCase().trim();
-      break;
-
-    case 'contains':
-      result = String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
-      break;
-
-    case 'notContains':
-      result = !String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
-      break;
-
-    // NUMERIC OPERATORS (work on numbers)
-    case 'lessThan':
-      const ltValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
-      const ltRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
-      result = !isNaN(ltValue) && !isNaN(ltRequired) && ltValue < ltRequired;
-      break;
-
-    case 'lessThanOrEqual':
-      const lteValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
-      const lteRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
-      result = !isNaN(lteValue) && !isNaN(lteRequired) && lteValue <= lteRequired;
-      break;
-
-    case 'greaterThan':
-      const gtValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
-      const gtRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
-      result = !isNaN(gtValue) && !isNaN(gtRequired) && gtValue > gtRequired;
-      break;
-
-    case 'greaterThanOrEqual':
-      const gteValue = parseFloat(String(fieldValue).replace(/[^0-9.-]/g, ''));
-      const gteRequired = parseFloat(String(requiredValue).replace(/[^0-9.-]/g, ''));
-      result = !isNaN(gteValue) && !isNaN(gteRequired) && gteValue >= gteRequired;
-      break;
-
-    // LEGACY: includes (alias for contains - backward compatibility)
-    case 'includes':
-      result = String(fieldValue).toLowerCase().includes(String(requiredValue).toLowerCase());
-      break;
-
-    default:
-      console.warn(`Unknown comparison logic: ${comparisonLogic}`);
-      result = false;
+  rateCards: RateCard[],
+  trace: RuleTrace
+): HourlyService => {
+  const rate = rule.unitPrice || rule.basePrice || 0; // Hourly rules without Estimated Hours may keep the rate in Base Price
+  const unitName = rule.unitName || 'hour';
+  const hourlyService: HourlyService = { name: rule.serviceName, rate, unitName, billingFrequency: rule.billingFrequency, serviceId: rule.serviceId };
+  trace.status = 'hourly';
+
+  if (!rule.estimatedHours) {
+    trace.steps.push(`Hourly service at ${formatDollars(rate)}/${unitName} - not added to totals`);
+    return hourlyService;
   }
 
-  return result;
+  const low = resolveIncludedUnits(rule.estimatedHours.low, formData, rateCards, rule.serviceId);
+  const high = resolveIncludedUnits(rule.estimatedHours.high, formData, rateCards, rule.serviceId);
+  const hours: EstimateRange = { low: Math.min(low.units, high.units), high: Math.max(low.units, high.units) };
+  const cost: EstimateRange = {
+    low: toDollars(multiplyMoney(toMoney(rate), hours.low)),
+    high: toDollars(multiplyMoney(toMoney(rate), hours.high))
+  };
+  trace.steps.push(
+    `Estimated ${hours.low}-${hours.high} ${unitName}(s) (low: ${low.source}, high: ${high.source})` +
+    ` × ${formatDollars(rate)}/${unitName} = ${formatDollars(cost.low)}-${formatDollars(cost.high)} - not added to totals`
+  );
+  return { ...hourlyService, estimatedHours: hours, estimatedCost: cost };
 };
 
-// Helper function to calculate price for a pricing rule
+// Helper function to calculate price for a pricing rule (whole cents)
+// `trace` (optional) collects the steps behind the price for the quote trace
 const calculateRulePrice = (
   rule: PricingConfig,
   formData: FormData,
-  hasAdvisoryService: boolean,
-  calculatedPrices: Map<string, number>,
+  programs: DiscountProgram[],
+  calculatedPrices: Map<string, Money>,
   serviceConfig: ServiceConfig[] = [],
-  priceMetadata: Map<string, { price: number; serviceId: string; pricingType: string; billingFrequency: string }> = new Map()
-): number => {
+  priceMetadata: Map<string, CalculatedPriceMetadata> = new Map(),
+  rateCards: RateCard[] = [],
+  trace?: RuleTrace
+): Money => {
   let price = 0;
 
-  // Determine calculation method (default to 'simple' for backward compatibility)
-  const method = rule.calculationMethod || (rule.perUnitPricing ? 'per-unit' : 'simple');
+  const method = getCalculationMethod(rule);
 
   console.log(`Calculating price for ${rule.pricingRuleId} using method: ${method}`);
 
   switch (method) {
-    case 'formula':
+    case 'formula': {
       // Use FormulaEvaluator for formula-based pricing
-      const evaluator = new FormulaEvaluator(formData, calculatedPrices, serviceConfig, priceMetadata);
-      price = evaluator.evaluateFormula(rule);
-      break;
+      // Formula methods read {{program.<id>}} and handle discounts within their expressions
+      const evaluator = new FormulaEvaluator(formData, calculatedPrices, serviceConfig, priceMetadata, rateCards);
+      const evaluation = evaluator.evaluateFormulaWithTrace(rule);
+      if (trace) {
+        trace.formula = evaluation.trace;
+        trace.steps.push(`Formula ${evaluation.trace.substituted} = ${evaluation.trace.result}`);
+        if (evaluation.trace.clamp) {
+          trace.steps.push(`Clamped to the ${evaluation.trace.clamp.bound} value ${formatDollars(evaluation.trace.clamp.value)}`);
+        }
+      }
+      return evaluation.value;
+    }
 
-    case 'per-unit':
-      // Per-unit pricing (quantity × unit price)
-      if (rule.quantitySourceField && rule.unitPrice) {
+    case 'per-unit': {
+      // Per-unit pricing (quantity × unit price, unit price optionally from a rate card)
+      const lookup = rule.rateCard ? resolveRateCard(rateCards, rule.rateCard, formData, rule.serviceId) : undefined;
+      const unitPrice = lookup ? lookup.value : rule.unitPrice;
+      if (lookup) trace?.steps.push(`Unit price ${formatDollars(lookup.value)} from ${describeLookup(rule.rateCard!, lookup)}`);
+      if (rule.quantitySourceField && unitPrice) {
         const quantity = getFieldValueSmart(formData, rule.quantitySourceField, rule.serviceId);
         let adjustedQuantity = Number(quantity) || 0;
+        trace?.steps.push(`Quantity ${rule.quantitySourceField} = ${JSON.stringify(quantity)}`);
 
-        // Special handling for additional owners fee - entity-type-specific thresholds
-        if (rule.pricingRuleId?.startsWith('business-tax-additional-owners') &&
-            rule.quantitySourceField === 'businessTax.numberOfOwners') {
-
-          // Determine threshold based on entity type
-          let threshold = 0;
-
-          if (rule.pricingRuleId === 'business-tax-additional-owners-partnership' ||
-              rule.pricingRuleId === 'business-tax-additional-owners-llc') {
-            threshold = 2; // Partnership and LLC: charge for owners beyond 2
-          } else if (rule.pricingRuleId === 'business-tax-additional-owners-scorp' ||
-                     rule.pricingRuleId === 'business-tax-additional-owners-ccorp') {
-            threshold = 1; // S-Corp and C-Corp: charge for owners beyond 1
-          } else if (rule.pricingRuleId === 'business-tax-additional-owners') {
-            // Legacy rule (if still active) - use threshold of 2
-            threshold = 2;
-          }
-
-          adjustedQuantity = Math.max(0, adjustedQuantity - threshold);
+        // Only the quantity above the rule's Included Units is billed
+        if (rule.includedUnits) {
+          const included = resolveIncludedUnits(rule.includedUnits, formData, rateCards, rule.serviceId);
+          adjustedQuantity = Math.max(0, adjustedQuantity - included.units);
+          trace?.steps.push(`First ${included.units} included (${included.source})`);
         }
 
-        price = adjustedQuantity * rule.unitPrice;
+        price = adjustedQuantity * unitPrice;
+        trace?.steps.push(`${adjustedQuantity} × ${formatDollars(unitPrice)} = ${formatDollars(price)}`);
       } else {
         // Fallback to base price if per-unit fields are missing
         price = rule.basePrice;
+        trace?.steps.push(`No quantity field or unit price - base price ${formatDollars(price)}`);
       }
       break;
+    }
 
-    case 'simple':
-    default:
-      // Simple base price
-      price = rule.basePrice;
+    case 'tiered':
+      // Bracket pricing - quantity priced against the rule's tier table
+      if (rule.tierTable && rule.quantitySourceField) {
+        const rawQuantity = getFieldValueSmart(formData, rule.quantitySourceField, rule.serviceId);
+        const quantity = Number(String(rawQuantity ?? '').replace(/[$,\s]/g, '')) || 0;
+        price = calculateTieredPrice(rule.tierTable, quantity);
+        trace?.steps.push(`Quantity ${rule.quantitySourceField} = ${quantity} → tier ${describeTier(rule.tierTable, quantity)} = ${formatDollars(price)}`);
+      } else {
+        // Fallback to base price if the tier table is missing
+        price = rule.basePrice;
+        trace?.steps.push(`No tier table - base price ${formatDollars(price)}`);
+      }
       break;
-  }
 
-  // Diagnostic logging for Advisory Services discount
-  if (hasAdvisoryService) {
-    console.log('=== ADVISORY DISCOUNT DEBUG ===');
-    console.log('Rule ID:', rule.pricingRuleId);
-    console.log('Service Name:', rule.serviceName);
-    console.log('Original Price:', price);
-    console.log('Advisory Discount Eligible:', rule.advisoryDiscountEligible);
-    console.log('Advisory Discount Percentage:', rule.advisoryDiscountPercentage);
-  }
-
-  // Apply advisory discount if applicable (ONLY for non-formula methods)
-  // Formula methods should handle discounts within their expressions
-  if (method !== 'formula' && hasAdvisoryService && rule.advisoryDiscountEligible && rule.advisoryDiscountPercentage > 0) {
-    price = price * (1 - rule.advisoryDiscountPercentage);
-    console.log('Discounted Price:', price);
+    case 'simple':
+    default: {
+      // Simple base price (or the rule's rate card entry for this form value)
+      const lookup = rule.rateCard ? resolveRateCard(rateCards, rule.rateCard, formData, rule.serviceId) : undefined;
+      price = lookup ? lookup.value : rule.basePrice;
+      trace?.steps.push(lookup
+        ? `Price ${formatDollars(price)} from ${describeLookup(rule.rateCard!, lookup)}`
+        : `Base price ${formatDollars(price)}`);
+      break;
+    }
   }
 
-  if (hasAdvisoryService) {
-    console.log('Final Price:', price);
-    console.log('================================');
-  }
+  // Apply the matching discount programs (formulas handled theirs above)
+  const listPrice = toMoney(price);
+  if (programs.length === 0) return listPrice;
 
-  return Math.round(price * 100) / 100; // Round to 2 decimal places
+  const discounted = applyDiscountPrograms(programs, rule, listPrice);
+  trace?.steps.push(...discounted.steps);
+  return discounted.price;
 };
 
-// Helper function to sort pricing rules by dependency
-// Formula rules should be processed AFTER the rules they reference
-const sortRulesByDependency = (rules: PricingConfig[]): PricingConfig[] => {
-  const formulaRules = rules.filter(r => r.calculationMethod === 'formula');
-  const otherRules = rules.filter(r => r.calculationMethod !== 'formula');
-
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log('📊 RULE PROCESSING ORDER');
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log('Rules to process FIRST (non-formula):');
-  otherRules.forEach((rule, i) => {
-    console.log(`  ${i + 1}. ${rule.pricingRuleId} (method: ${rule.calculationMethod || 'simple'})`);
-  });
-  console.log('');
-  console.log('Rules to process LAST (formula):');
-  formulaRules.forEach((rule, i) => {
-    console.log(`  ${i + 1}. ${rule.pricingRuleId} (method: formula)`);
-  });
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log('');
-
-  // Process non-formula rules first, then formula rules
-  // This ensures all base prices are calculated before formulas that reference them
-  return [...otherRules, ...formulaRules];
-};
+export const calculateQuote = (
+  formData: FormData,
+  pricingRules: PricingConfig[] = [],
+  serviceConfig: ServiceConfig[] = [],
+  options: QuoteCalculationOptions = {}
+): QuoteData => {
+  const rateCards = options.rateCards || [];
+  const complexityModel = options.complexityModel || defaultComplexityModel;
+  const recommendationRules = options.recommendationRules || defaultRecommendationRules;
+  const savingsEstimators = options.savingsEstimators || [];
+  const roundingPolicy = options.roundingPolicy || DEFAULT_ROUNDING_POLICY;
+  const filingDeadlines = options.filingDeadlines || defaultFilingDeadlines;
+  const discountPrograms = options.discountPrograms || defaultDiscountPrograms;
+
+  // Versioned pricing: only the rules in effect on the pricing date take part
+  const asOf = options.asOf || new Date();
+  const pricingDate = toPricingDate(asOf);
+  const pricingConfig = selectRulesInEffect(pricingRules, asOf);
+  const pricingVersion = getPricingVersionId(pricingConfig, serviceConfig, rateCards, options.discountPrograms);
 
-export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[] = [], serviceConfig: ServiceConfig[] = []): QuoteData => {
   console.log('╔══════════════════════════════════════════════════════╗');
   console.log('║         QUOTE CALCULATION STARTED                    ║');
   console.log('╚══════════════════════════════════════════════════════╝');
   console.log('Form Data Keys:', Object.keys(formData));
-  console.log('Total Pricing Rules:', pricingConfig.length);
+  console.log('Total Pricing Rules:', pricingConfig.length, `(in effect on ${pricingDate}, ${pricingRules.length} loaded)`);
+  console.log('Pricing Version:', pricingVersion);
   console.log('');
   console.log('=== DATA STRUCTURE VALIDATION ===');
   if (formData.services.includes('individual-tax')) {
@@ -327,44 +293,109 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
   console.log('=================================');
   console.log('');
 
-  let totalMonthlyFees = 0;
-  let totalOneTimeFees = 0;
-  let totalAnnual = 0;
-  let complexity: 'low' | 'medium' | 'high' | 'very-high' = 'low';
-  const recommendations: string[] = [];
-
   // Check if advisory service is selected
   const hasAdvisoryService = formData.services.includes('advisory');
 
-  // Create a Map to store calculated prices for formula references
-  const calculatedPrices = new Map<string, number>();
+  // Membership discount programs whose conditions match (the Advisory discount by default);
+  // conditions and formulas see them as program.<programId>
+  const activePrograms = selectDiscountPrograms(discountPrograms, formData);
+  const programData = withProgramFields(formData, discountPrograms, activePrograms);
+  // Advisory minimum fees apply wherever the advisory rates do
+  const advisoryRates = hasAdvisoryRates(activePrograms);
+
+  // Create a Map to store calculated prices (whole cents) for formula references
+  const calculatedPrices = new Map<string, Money>();
 
   // Create a Map to store pricing rule metadata (for service total calculations)
-  const priceMetadata = new Map<string, { price: number; serviceId: string; pricingType: string; billingFrequency: string }>();
+  const priceMetadata = new Map<string, CalculatedPriceMetadata>();
 
   // Debug logging
   console.log('=== QUOTE CALCULATION DEBUG ===');
   console.log('Selected services:', formData.services);
   console.log('Has advisory service:', hasAdvisoryService);
+  console.log('Discount programs:', activePrograms.map(program => program.programId));
   console.log('Pricing config length:', pricingConfig.length);
   console.log('Pricing config:', pricingConfig);
 
   // If no pricing config is available, fall back to original logic
   if (pricingConfig.length === 0) {
     console.log('No pricing config available, using defaults');
-    return calculateQuoteWithDefaults(formData, serviceConfig);
+    const defaultQuote = calculateQuoteWithDefaults(formData, serviceConfig, complexityModel, recommendationRules, pricingDate);
+    if (options.annualPrepayDiscount !== undefined) {
+      defaultQuote.trace.notes.push('Annual prepay needs pricing rules - the built-in default prices are quoted monthly');
+    }
+    if (options.promoCode?.trim()) {
+      const { result } = checkPromoCode(options.promoCodes || [], options.promoCode, pricingDate, options.redeemedPromoCode);
+      defaultQuote.promoCode = result.status === 'applied'
+        ? { ...result, status: 'not-eligible', message: `${result.code} can't be applied to the built-in default prices` }
+        : result;
+      defaultQuote.trace.notes.push(`Promo code: ${defaultQuote.promoCode.message}`);
+    }
+    return defaultQuote;
   }
 
-  // Sort rules to ensure base pricing rules are calculated before formulas that reference them
-  const sortedRules = sortRulesByDependency(pricingConfig);
-  console.log('Rules sorted by dependency. Formula rules will be processed last.');
+  // Order rules so every formula is evaluated after the rules it references
+  // (throws PricingRuleCycleError if formulas reference each other in a loop)
+  const dependenciesByRule = new Map<string, string[]>();
+  const sortedRules = sortRulesByDependency(pricingConfig, serviceConfig, (rule, dependsOn) => {
+    dependenciesByRule.set(rule.pricingRuleId, dependsOn);
+  });
 
   // Group pricing rules by service for better organization
-  const serviceGroups: { [key: string]: { rules: PricingConfig[], totalMonthlyFees: number, totalOneTimeFees: number } } = {};
+  // (service totals are kept in cents and rounded once, by the rounding policy, at the end)
+  const serviceGroups: { [key: string]: { rules: PricingConfig[] } & FeeTotals } = {};
   const hourlyServices: HourlyService[] = [];
 
+  // Discount rules whose conditions matched - applied once every charge is priced
+  const applicableDiscounts: PricingConfig[] = [];
+
+  // Requires Review rules whose conditions matched - the quote is still priced, but not shown
+  const reviewFlags: ReviewFlag[] = [];
+  const skippedRules: string[] = []; // Formulas that couldn't be evaluated for these answers
+
+  // Per-service monthly floors from rules with "Apply Minimum Fee" (highest floor wins)
+  const minimumFees: { [serviceId: string]: { amount: Money; rule: PricingConfig } } = {};
+
+  // Calculation trace - one entry per rule, in evaluation order
+  const ruleTraces: RuleTrace[] = [];
+  const traceByRule = new Map<string, RuleTrace>();
+  const adjustmentTraces: AdjustmentTrace[] = [];
+  const traceNotes: string[] = [];
+
+  // Conditions see the form plus the quote date and the rule's service's filing
+  // deadline under `calendar.` (see filingCalendar.ts)
+  const calendarByService = new Map<string, CalendarFields>();
+  const getCalendar = (serviceId: string): CalendarFields => {
+    if (!calendarByService.has(serviceId)) {
+      calendarByService.set(serviceId, buildCalendarFields(formData, serviceId, asOf, filingDeadlines));
+    }
+    return calendarByService.get(serviceId)!;
+  };
+
+  if (activePrograms.length > 0) {
+    traceNotes.push(`Discount programs: ${activePrograms.map(program => `${program.label} (${program.programId})`).join(', ')} - in this order`);
+  }
+
   // Process each pricing rule
   for (const rule of sortedRules) {
+    const trace: RuleTrace = {
+      ruleId: rule.pricingRuleId,
+      ruleName: rule.serviceName,
+      serviceId: rule.serviceId,
+      pricingType: rule.pricingType,
+      billingFrequency: rule.billingFrequency,
+      method: getCalculationMethod(rule),
+      status: 'not-matched',
+      conditions: [],
+      steps: []
+    };
+    const dependsOn = dependenciesByRule.get(rule.pricingRuleId);
+    if (dependsOn) {
+      trace.steps.push(`Priced after ${dependsOn.join(', ')} (its formula reads them)`);
+    }
+    ruleTraces.push(trace);
+    traceByRule.set(rule.pricingRuleId, trace);
+
     console.log(`\n--- Processing rule: ${rule.pricingRuleId} ---`);
     console.log('Rule details:', {
       pricingRuleId: rule.pricingRuleId,
@@ -375,7 +406,10 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
       active: rule.active
     });
 
-    if (!rule.active) continue;
+    if (!rule.active) {
+      trace.status = 'inactive';
+      continue;
+    }
 
     // ==========================================
     // PHASE 1: Evaluate if rule matches form data
@@ -386,15 +420,18 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     if (rule.serviceId === 'additional-services' && rule.pricingType === 'Add-on') {
       const specializedFilings = formData.additionalServices?.specializedFilings || [];
       ruleApplies = specializedFilings.includes(rule.serviceName);
+      trace.conditions.push({
+        source: 'trigger',
+        field: 'additionalServices.specializedFilings',
+        operator: 'includes',
+        expected: rule.serviceName,
+        actual: specializedFilings,
+        matched: ruleApplies
+      });
 
       // If this is an hourly service, add to hourlyServices array instead of totals
       if (ruleApplies && rule.perUnitPricing && rule.unitPrice && rule.unitName) {
-        hourlyServices.push({
-          name: rule.serviceName,
-          rate: rule.unitPrice,
-          unitName: rule.unitName,
-          billingFrequency: rule.billingFrequency
-        });
+        hourlyServices.push(buildHourlyService(rule, formData, rateCards, trace));
         continue; // Skip normal processing for hourly services
       }
     }
@@ -402,21 +439,48 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     // PHASE 2: Apply pricing type-specific logic
     // ==========================================
     else {
-      // Check if rule has trigger conditions
-      const hasTriggerCondition = rule.triggerFormField && rule.requiredFormValue && rule.comparisonLogic;
+      // Check if rule has trigger conditions: the single trigger field and/or
+      // the compound "Trigger Conditions" group (both must match when both are set)
+      const hasSingleTrigger = !!(rule.triggerFormField && rule.requiredFormValue && rule.comparisonLogic);
 
-      if (hasTriggerCondition) {
+      if (hasSingleTrigger || rule.triggerConditions) {
+        const conditionData = withCalendarFields(programData, getCalendar(rule.serviceId));
         // Evaluate the trigger condition with service context
-        const conditionMatches = evaluateCondition(
-          formData,
-          rule.triggerFormField,
-          rule.requiredFormValue,
-          rule.comparisonLogic,
-          rule.serviceId  // Pass serviceId to help construct the correct field path
-        );
+        const singleTriggerMatches = rule.triggerFormField && rule.requiredFormValue && rule.comparisonLogic
+          ? evaluateCondition(
+              conditionData,
+              rule.triggerFormField,
+              rule.requiredFormValue,
+              rule.comparisonLogic,
+              rule.serviceId  // Pass serviceId to help construct the correct field path
+            )
+          : true;
+        const groupMatches = !rule.triggerConditions ||
+          evaluateConditionGroup(conditionData, rule.triggerConditions, rule.serviceId);
+        const conditionMatches = singleTriggerMatches && groupMatches;
+
+        if (rule.triggerFormField && rule.requiredFormValue && rule.comparisonLogic) {
+          trace.conditions.push({
+            source: 'trigger',
+            field: rule.triggerFormField,
+            operator: rule.comparisonLogic,
+            expected: rule.requiredFormValue,
+            actual: getFieldValueSmart(conditionData, rule.triggerFormField, rule.serviceId),
+            matched: singleTriggerMatches
+          });
+        }
+
+        if (rule.triggerConditions) {
+          trace.conditions.push(...traceConditionGroup(conditionData, rule.triggerConditions, rule.serviceId));
+          trace.steps.push(`Trigger Conditions ${describeConditionGroup(rule.triggerConditions)} ${groupMatches ? 'matched' : 'did not match'}`);
+        }
+
+        if (trace.conditions.some(condition => condition.field.startsWith(CALENDAR_PREFIX))) {
+          trace.steps.push(`Calendar ${describeCalendarFields(rule.serviceId, getCalendar(rule.serviceId))}`);
+        }
 
         // Enhanced debugging for Individual Tax Base Service rules
-        if (rule.serviceId === 'individual-tax' && rule.pricingType === 'Base Service') {
+        if (rule.triggerFormField && rule.serviceId === 'individual-tax' && rule.pricingType === 'Base Service') {
           const resolvedValue = getFieldValueSmart(formData, rule.triggerFormField, rule.serviceId);
           console.log(`\n=== INDIVIDUAL TAX BASE SERVICE RULE: ${rule.pricingRuleId} ===`);
           console.log('Service ID:', rule.serviceId);
@@ -431,7 +495,7 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
         }
 
         // Enhanced debugging for bookkeeping cleanup rule
-        if (rule.pricingRuleId === 'bookkeeping-cleanup') {
+        if (rule.triggerFormField && rule.pricingRuleId === 'bookkeeping-cleanup') {
           const resolvedTriggerValue = getFieldValueSmart(formData, rule.triggerFormField, rule.serviceId);
           const resolvedQuantityValue = rule.quantitySourceField
             ? getFieldValueSmart(formData, rule.quantitySourceField, rule.serviceId)
@@ -471,43 +535,76 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
           ruleApplies = true;
           console.log(`✅ Applied Base Service (no trigger): ${rule.serviceName} (+$${rule.basePrice})`);
         }
+        // Discount rules without triggers apply to whatever their targets match
+        if (rule.pricingType === 'Discount') {
+          ruleApplies = true;
+        }
+        // Requires Review rules without triggers take their whole service off automated pricing
+        if (rule.pricingType === 'Requires Review') {
+          ruleApplies = true;
+        }
         // Add-on rules without triggers do NOT apply automatically
         // (Add-ons should always have explicit conditions)
+        trace.steps.push(ruleApplies
+          ? 'No trigger conditions - applies by default'
+          : 'No trigger conditions - add-ons only apply when triggered');
       }
     }
 
     if (!ruleApplies) continue;
 
+    // Discounts are priced after every other rule (their targets may span several
+    // services, so the rule's own service doesn't need to be selected)
+    if (rule.pricingType === 'Discount') {
+      applicableDiscounts.push(rule);
+      trace.status = 'discount';
+      continue;
+    }
+
     // CRITICAL CHECK: Verify the service is actually selected by the user
     // This prevents rules from being applied for services that weren't chosen
     if (!formData.services.includes(rule.serviceId)) {
       console.log(`Skipping rule ${rule.pricingRuleId} - service ${rule.serviceId} not selected`);
+      trace.status = 'service-not-selected';
       continue;
     }
 
-    // DEFENSIVE CHECK: For entity-specific additional owner rules,
-    // verify entity type matches before applying the rule
-    if (rule.pricingRuleId?.startsWith('business-tax-additional-owners-')) {
-      const currentEntityType = formData.businessTax?.entityType?.trim();
-      let shouldApply = false;
-
-      if (rule.pricingRuleId === 'business-tax-additional-owners-partnership') {
-        shouldApply = currentEntityType === 'Partnership';
-      } else if (rule.pricingRuleId === 'business-tax-additional-owners-llc') {
-        shouldApply = currentEntityType === 'LLC';
-      } else if (rule.pricingRuleId === 'business-tax-additional-owners-scorp') {
-        shouldApply = currentEntityType === 'S-Corporation';
-      } else if (rule.pricingRuleId === 'business-tax-additional-owners-ccorp') {
-        shouldApply = currentEntityType === 'C-Corporation';
-      }
+    // Call for pricing: flag the service (or the whole quote) instead of pricing the rule
+    if (rule.pricingType === 'Requires Review') {
+      const flag: ReviewFlag = {
+        ruleId: rule.pricingRuleId,
+        serviceId: rule.serviceId,
+        scope: rule.reviewScope || 'service',
+        reason: rule.reviewReason || rule.serviceName
+      };
+      reviewFlags.push(flag);
+      trace.status = 'review';
+      trace.steps.push(`Needs review - ${flag.scope === 'quote' ? 'every price on the quote is' : `${flag.serviceId} prices are`} hidden from the client: ${flag.reason}`);
+      continue;
+    }
 
-      if (!shouldApply) {
-        continue;
-      }
+    // Rules with Estimated Hours (or billed Hourly) are hourly services - quoted as a rate
+    // or a range, not added to totals
+    if (rule.estimatedHours || isHourlyBillingFrequency(rule.billingFrequency)) {
+      hourlyServices.push(buildHourlyService(rule, formData, rateCards, trace));
+      continue;
     }
 
     // Calculate price for this rule
-    const rulePrice = calculateRulePrice(rule, formData, hasAdvisoryService, calculatedPrices, serviceConfig, priceMetadata);
+    // A formula that can't be evaluated for this client's answers (e.g. dividing by a
+    // field that's still 0) skips the rule rather than blanking the whole quote
+    let rulePrice: Money;
+    try {
+      rulePrice = calculateRulePrice(rule, programData, activePrograms, calculatedPrices, serviceConfig, priceMetadata, rateCards, trace);
+    } catch (error) {
+      if (!(error instanceof FormulaEvaluationError)) throw error;
+      trace.status = 'error';
+      trace.steps.push(`Skipped - ${error.message} at column ${error.position + 1} of ${error.expression}`);
+      skippedRules.push(rule.pricingRuleId);
+      continue;
+    }
+    trace.price = toDollars(rulePrice);
+    trace.status = rulePrice > 0 ? 'applied' : 'zero';
 
     // Store calculated price for this rule (formula evaluator needs access to all entries)
     calculatedPrices.set(rule.pricingRuleId, rulePrice);
@@ -517,45 +614,56 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
       price: rulePrice,
       serviceId: rule.serviceId,
       pricingType: rule.pricingType,
-      billingFrequency: rule.billingFrequency
+      billingFrequency: rule.billingFrequency,
+      formulaVariables: getRuleFormulaVariables(rule)
     });
 
-    if (rulePrice > 0) {
-      console.log(`💰 ${rule.pricingRuleId}: $${rulePrice} (method: ${rule.calculationMethod || 'simple'})`);
+    // Only a known billing frequency has a quote total to add to - checked before the
+    // rule joins its service group, so an unknown one can't reach the totals
+    if (!isBillingFrequency(rule.billingFrequency)) {
+      trace.status = 'error';
+      trace.steps.push(`Billing frequency ${JSON.stringify(rule.billingFrequency)} isn't one of ${BILLING_FREQUENCIES.join(', ')} - not added to the quote`);
+      continue;
     }
 
-    if (rulePrice <= 0) continue;
+    // Remember the service's monthly floor - enforced once every rule is summed
+    if (rule.applyMinimumFee) {
+      const floor = advisoryRates && rule.minimumMonthlyFeeWithAdvisory !== undefined
+        ? rule.minimumMonthlyFeeWithAdvisory
+        : rule.minimumMonthlyFee;
+      if (floor !== undefined && toMoney(floor) > (minimumFees[rule.serviceId]?.amount ?? ZERO_MONEY)) {
+        minimumFees[rule.serviceId] = { amount: toMoney(floor), rule };
+      }
+      if (floor !== undefined) {
+        trace.steps.push(`Sets a ${formatDollars(floor)}/mo minimum for ${rule.serviceId}${advisoryRates && rule.minimumMonthlyFeeWithAdvisory !== undefined ? ' (advisory rate)' : ''}`);
+      }
+    }
+
+    // A $0 rule carrying the floor still goes in the group so the service gets a card
+    if (rulePrice <= 0 && !rule.applyMinimumFee) continue;
 
     // Initialize service group if it doesn't exist
     if (!serviceGroups[rule.serviceId]) {
       serviceGroups[rule.serviceId] = {
         rules: [],
-        totalMonthlyFees: 0,
-        totalOneTimeFees: 0
+        ...emptyFeeTotals()
       };
     }
 
     serviceGroups[rule.serviceId].rules.push(rule);
 
     // Add to appropriate totals based on billing frequency
-    if (rule.billingFrequency === 'Monthly') {
-      serviceGroups[rule.serviceId].totalMonthlyFees += rulePrice;
-      totalMonthlyFees += rulePrice;
-    } else if (rule.billingFrequency === 'One-Time Fee') {
-      serviceGroups[rule.serviceId].totalOneTimeFees += rulePrice;
-      totalOneTimeFees += rulePrice;
-
-      // Enhanced debugging for bookkeeping cleanup fee
-      if (rule.pricingRuleId === 'bookkeeping-cleanup') {
-        console.log('=== BOOKKEEPING CLEANUP FEE ADDED ===');
-        console.log('Cleanup Fee Amount:', rulePrice);
-        console.log('Added to One-Time Fees');
-        console.log('Total One-Time Fees Now:', totalOneTimeFees);
-        console.log('====================================');
-      }
-    } else if (rule.billingFrequency === 'Annual') {
-      serviceGroups[rule.serviceId].totalOneTimeFees += rulePrice;
-      totalOneTimeFees += rulePrice;
+    const group = serviceGroups[rule.serviceId];
+    const feeTotal = FEE_TOTAL_BY_FREQUENCY[rule.billingFrequency];
+    group[feeTotal] = addMoney(group[feeTotal], rulePrice);
+
+    // Enhanced debugging for bookkeeping cleanup fee
+    if (rule.pricingRuleId === 'bookkeeping-cleanup' && rule.billingFrequency === 'One-Time Fee') {
+      console.log('=== BOOKKEEPING CLEANUP FEE ADDED ===');
+      console.log('Cleanup Fee Amount:', toDollars(rulePrice));
+      console.log('Added to One-Time Fees');
+      console.log('Service One-Time Fees Now:', toDollars(group.totalOneTimeFees));
+      console.log('====================================');
     }
   }
   
@@ -563,28 +671,30 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
   console.log('\n=== SERVICE GROUPS TOTALS ===');
   for (const [serviceId, group] of Object.entries(serviceGroups)) {
     // Calculate Base Service vs Add-on breakdown
-    let baseServiceTotal = 0;
-    let addOnTotal = 0;
+    let baseServiceTotal = ZERO_MONEY;
+    let addOnTotal = ZERO_MONEY;
     const baseServiceRules: string[] = [];
     const addOnRules: string[] = [];
 
     for (const rule of group.rules) {
-      const rulePrice = calculatedPrices.get(rule.pricingRuleId) || 0;
+      const rulePrice = calculatedPrices.get(rule.pricingRuleId) ?? ZERO_MONEY;
       if (rule.pricingType === 'Base Service') {
-        baseServiceTotal += rulePrice;
-        baseServiceRules.push(`${rule.pricingRuleId} ($${rulePrice})`);
+        baseServiceTotal = addMoney(baseServiceTotal, rulePrice);
+        baseServiceRules.push(`${rule.pricingRuleId} ($${toDollars(rulePrice)})`);
       } else if (rule.pricingType === 'Add-on') {
-        addOnTotal += rulePrice;
-        addOnRules.push(`${rule.pricingRuleId} ($${rulePrice})`);
+        addOnTotal = addMoney(addOnTotal, rulePrice);
+        addOnRules.push(`${rule.pricingRuleId} ($${toDollars(rulePrice)})`);
       }
     }
 
     console.log(`${serviceId}:`, {
-      totalMonthlyFees: group.totalMonthlyFees,
-      totalOneTimeFees: group.totalOneTimeFees,
-      baseServiceTotal: baseServiceTotal,
-      addOnTotal: addOnTotal,
-      combinedTotal: baseServiceTotal + addOnTotal,
+      totalMonthlyFees: toDollars(group.totalMonthlyFees),
+      totalQuarterlyFees: toDollars(group.totalQuarterlyFees),
+      totalSemiAnnualFees: toDollars(group.totalSemiAnnualFees),
+      totalOneTimeFees: toDollars(group.totalOneTimeFees),
+      baseServiceTotal: toDollars(baseServiceTotal),
+      addOnTotal: toDollars(addOnTotal),
+      combinedTotal: toDollars(addMoney(baseServiceTotal, addOnTotal)),
       rulesCount: group.rules.length
     });
     if (baseServiceRules.length > 0) {
@@ -599,74 +709,227 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     }
   }
 
-  // Apply minimum fee enforcement for bookkeeping service
-  if (formData.services.includes('bookkeeping') && serviceGroups['bookkeeping']) {
-    const bookkeepingGroup = serviceGroups['bookkeeping'];
+  // Enforce per-service monthly minimums (after every rule and the discount programs are summed)
+  const minimumFeeAdjustments: MoneyAdjustment[] = [];
+  for (const [serviceId, minimum] of Object.entries(minimumFees)) {
+    const group = serviceGroups[serviceId];
+    const monthlyTotal = toDollars(group.totalMonthlyFees);
+    const minimumAmount = toDollars(minimum.amount);
+    const shortfall = subtractMoney(minimum.amount, group.totalMonthlyFees);
+
+    if (shortfall <= 0) {
+      traceByRule.get(minimum.rule.pricingRuleId)?.steps.push(
+        `${serviceId} monthly total ${formatDollars(monthlyTotal)} meets the ${formatDollars(minimumAmount)} minimum`
+      );
+      continue;
+    }
 
-    // Find the minimum fee rule (from Airtable or defaults)
-    const minimumFeeRule = pricingConfig.find(r =>
-      r.serviceId === 'bookkeeping' &&
-      r.pricingRuleId === 'bookkeeping-minimum-fee' &&
-      r.active
+    const adjustment: MoneyAdjustment = {
+      type: 'minimum-fee',
+      ruleId: minimum.rule.pricingRuleId,
+      label: 'Minimum fee adjustment',
+      serviceId,
+      billingFrequency: 'Monthly',
+      amount: shortfall
+    };
+    minimumFeeAdjustments.push(adjustment);
+    adjustmentTraces.push({
+      adjustment: toQuoteAdjustment(adjustment),
+      explanation: `${serviceId} monthly total ${formatDollars(monthlyTotal)} is below the ${formatDollars(minimumAmount)} minimum` +
+        ` set by ${minimum.rule.pricingRuleId} - topped up by ${formatDollars(toDollars(shortfall))}`
+    });
+    group.totalMonthlyFees = addMoney(group.totalMonthlyFees, shortfall);
+  }
+
+  // An entered promo/referral code is one more discount rule, taken after the tenant's own
+  let promoCode: AppliedPromoCode | undefined;
+  let promoRuleId: string | undefined;
+  if (options.promoCode?.trim()) {
+    const { result, promo } = checkPromoCode(options.promoCodes || [], options.promoCode, pricingDate, options.redeemedPromoCode);
+    promoCode = result;
+    if (promo) {
+      const promoRule = toPromoDiscountRule(promo, formData.services);
+      promoRuleId = promoRule.pricingRuleId;
+      applicableDiscounts.push(promoRule);
+    } else {
+      traceNotes.push(`Promo code: ${result.message}`);
+    }
+  }
+
+  // Apply discount rules to the priced charges (including minimum fee top-ups)
+  let discountAdjustments: MoneyAdjustment[] = [];
+  if (applicableDiscounts.length > 0) {
+    const charges: DiscountableCharge[] = [];
+    for (const [serviceId, group] of Object.entries(serviceGroups)) {
+      for (const rule of group.rules) {
+        charges.push({
+          ruleId: rule.pricingRuleId,
+          serviceId,
+          billingFrequency: rule.billingFrequency,
+          amount: calculatedPrices.get(rule.pricingRuleId) ?? ZERO_MONEY
+        });
+      }
+    }
+
+    // Top-ups count as part of the rule that set the minimum
+    const addToCharge = (ruleId: string, serviceId: string, amount: Money) => {
+      const existing = charges.find(charge => charge.ruleId === ruleId && charge.billingFrequency === 'Monthly');
+      if (existing) {
+        existing.amount = addMoney(existing.amount, amount);
+      } else {
+        charges.push({ ruleId, serviceId, billingFrequency: 'Monthly', amount });
+      }
+    };
+
+    minimumFeeAdjustments.forEach(adjustment => addToCharge(adjustment.ruleId, adjustment.serviceId, adjustment.amount));
+
+    const discountExplanations = new Map<string, string>();
+    discountAdjustments = applyDiscounts(applicableDiscounts, charges, (rule, message) => {
+      traceByRule.get(rule.pricingRuleId)?.steps.push(message);
+      discountExplanations.set(rule.pricingRuleId, message);
+    });
+
+    discountAdjustments = discountAdjustments.map(adjustment =>
+      adjustment.ruleId === promoRuleId ? { ...adjustment, type: 'promo-code' as const } : adjustment
     );
+    if (promoCode && promoRuleId) {
+      const explanation = discountExplanations.get(promoRuleId);
+      if (!discountAdjustments.some(adjustment => adjustment.ruleId === promoRuleId)) {
+        promoCode = { ...promoCode, status: 'not-eligible', message: describeUnusedPromoCode(promoCode.code, explanation) };
+      }
+      traceNotes.push(`Promo code: ${promoCode.message}${explanation ? ` (${explanation})` : ''}`);
+    }
 
-    if (minimumFeeRule) {
-      // Separate the base fee components from add-ons like service frequency and inventory
-      const baseFeeRuleIds = [
-        'bookkeeping-transaction-fee',
-        'bookkeeping-bank-account',
-        'bookkeeping-credit-card',
-        'bookkeeping-business-loan',
-        'bookkeeping-fixed-assets'
-      ];
-
-      // Calculate just the base fee components (the 5 unit-based pricing rules)
-      let calculatedBaseFee = 0;
-      let addOnFees = 0;
-
-      for (const rule of bookkeepingGroup.rules) {
-        const rulePrice = calculateRulePrice(rule, formData, hasAdvisoryService, calculatedPrices, serviceConfig, priceMetadata);
-
-        if (baseFeeRuleIds.includes(rule.pricingRuleId) && rule.billingFrequency === 'Monthly') {
-          calculatedBaseFee += rulePrice;
-        } else if (rule.billingFrequency === 'Monthly' && rule.pricingRuleId !== 'bookkeeping-minimum-fee') {
-          addOnFees += rulePrice;
-        }
+    for (const adjustment of discountAdjustments) {
+      adjustmentTraces.push({ adjustment: toQuoteAdjustment(adjustment), explanation: discountExplanations.get(adjustment.ruleId) || '' });
+      const discountTrace = traceByRule.get(adjustment.ruleId);
+      if (discountTrace) {
+        discountTrace.price = toDollars(addMoney(toMoney(discountTrace.price || 0), adjustment.amount));
       }
 
-      // Calculate the minimum fee with advisory discount applied if applicable
-      let minimumFee = minimumFeeRule.basePrice;
+      const group = serviceGroups[adjustment.serviceId];
+      const feeTotal = FEE_TOTAL_BY_FREQUENCY[adjustment.billingFrequency];
+      group[feeTotal] = addMoney(group[feeTotal], adjustment.amount);
+    }
+  }
 
-      if (hasAdvisoryService && minimumFeeRule.advisoryDiscountEligible && minimumFeeRule.advisoryDiscountPercentage > 0) {
-        minimumFee = minimumFee * (1 - minimumFeeRule.advisoryDiscountPercentage);
+  // Annual prepay: each service's monthly fees (after minimums and discounts) are
+  // billed for the year up front, less the tenant's prepay discount
+  const billingChoice: BillingChoice = options.annualPrepayDiscount !== undefined ? 'annual-prepay' : 'monthly';
+  const prepayAdjustments: MoneyAdjustment[] = [];
+  if (options.annualPrepayDiscount !== undefined) {
+    const discountPercentage = options.annualPrepayDiscount;
+    const percentLabel = `${Number((discountPercentage * 100).toFixed(2))}%`;
+
+    for (const [serviceId, group] of Object.entries(serviceGroups)) {
+      if (group.totalMonthlyFees <= 0) continue;
+
+      const monthlyFees = group.totalMonthlyFees;
+      const yearOfMonthlyFees = multiplyMoney(monthlyFees, BILLINGS_PER_YEAR['Monthly']);
+      const discount = multiplyMoney(yearOfMonthlyFees, -discountPercentage);
+      group.totalAnnualPrepayFees = addMoney(yearOfMonthlyFees, discount);
+      group.totalMonthlyFees = ZERO_MONEY;
+
+      const explanation = `${serviceId} monthly fees ${formatDollars(toDollars(monthlyFees))} × 12 = ${formatDollars(toDollars(yearOfMonthlyFees))}` +
+        ` prepaid for the year, less the ${percentLabel} prepay discount → ${formatDollars(toDollars(group.totalAnnualPrepayFees))}`;
+
+      if (discount === ZERO_MONEY) {
+        traceNotes.push(explanation);
+        continue;
       }
+      const adjustment: MoneyAdjustment = {
+        type: 'prepay-discount',
+        ruleId: 'annual-prepay',
+        label: `Annual prepay discount (${percentLabel})`,
+        serviceId,
+        billingFrequency: 'Annual',
+        amount: discount
+      };
+      prepayAdjustments.push(adjustment);
+      adjustmentTraces.push({ adjustment: toQuoteAdjustment(adjustment), explanation });
+    }
+  }
 
-      console.log('\n=== BOOKKEEPING FEE CALCULATION ===');
-      console.log('Calculated base fee (5 components):', calculatedBaseFee);
-      console.log('Add-on fees (service frequency, inventory, etc.):', addOnFees);
-      console.log('Has advisory service:', hasAdvisoryService);
-      console.log('Minimum fee base price:', minimumFeeRule.basePrice);
-      console.log('Advisory discount applied:', hasAdvisoryService && minimumFeeRule.advisoryDiscountEligible);
-      console.log('Minimum fee after discount:', minimumFee);
-
-      // Determine the bookkeeping base monthly fee: use the higher of calculated or minimum
-      const finalBaseFee = Math.max(calculatedBaseFee, minimumFee);
-      const originalBookkeepingTotal = bookkeepingGroup.totalMonthlyFees;
-      const newBookkeepingTotal = finalBaseFee + addOnFees;
-
-      console.log('Final base fee (max of calculated vs minimum):', finalBaseFee);
-      console.log('Total monthly bookkeeping fee (base + add-ons):', newBookkeepingTotal);
-
-      // Adjust totalMonthlyFees by the difference
-      const adjustmentNeeded = newBookkeepingTotal - originalBookkeepingTotal;
-      bookkeepingGroup.totalMonthlyFees = newBookkeepingTotal;
-      totalMonthlyFees += adjustmentNeeded;
-
-      console.log('Adjustment to total monthly fees:', adjustmentNeeded);
-      console.log('Final bookkeeping monthly fee:', bookkeepingGroup.totalMonthlyFees);
-      console.log('=====================================');
+  const adjustments = [...minimumFeeAdjustments, ...discountAdjustments, ...prepayAdjustments].map(toQuoteAdjustment);
+
+  // Round each service's fees and the quote totals by the tenant's rounding
+  // policy - the lines always add up to the totals (additional services count
+  // towards the totals but are shown in their own section)
+  const lineServiceIds = Object.keys(serviceGroups);
+  const roundedLines = new Map(lineServiceIds.map(serviceId => [serviceId, emptyFeeTotals()]));
+  const roundedTotals = emptyFeeTotals();
+  for (const feeTotal of FEE_TOTALS) {
+    const reconciled = reconcileLines(lineServiceIds.map(serviceId => serviceGroups[serviceId][feeTotal]), roundingPolicy);
+    lineServiceIds.forEach((serviceId, index) => {
+      roundedLines.get(serviceId)![feeTotal] = reconciled.lines[index];
+    });
+    roundedTotals[feeTotal] = reconciled.total;
+  }
+  const totalMonthlyFees = toDollars(roundedTotals.totalMonthlyFees);
+  const totalQuarterlyFees = toDollars(roundedTotals.totalQuarterlyFees);
+  const totalSemiAnnualFees = toDollars(roundedTotals.totalSemiAnnualFees);
+  const totalOneTimeFees = toDollars(roundedTotals.totalOneTimeFees);
+  const totalAnnualPrepayFees = toDollars(roundedTotals.totalAnnualPrepayFees);
+  const totalAnnual = toDollars(annualizeFees(roundedTotals));
+
+  // Price-range mode: each line is shown as its fee ± the price-weighted variance
+  // of the rules behind it; the totals' bounds are the sums of the lines' bounds
+  const lineRanges = new Map<string, { low: FeeTotals; high: FeeTotals }>();
+  let priceRange: QuotePriceRange | undefined;
+  if (options.priceRangeVariance !== undefined) {
+    const defaultVariance = options.priceRangeVariance;
+    const lowTotals = emptyFeeTotals();
+    const highTotals = emptyFeeTotals();
+    for (const serviceId of lineServiceIds) {
+      const line = roundedLines.get(serviceId)!;
+      const low = emptyFeeTotals();
+      const high = emptyFeeTotals();
+      for (const feeTotal of FEE_TOTALS) {
+        // Prepaid fees come from the monthly rules
+        const rules = serviceGroups[serviceId].rules.filter(rule => feeTotal === 'totalAnnualPrepayFees'
+          ? rule.billingFrequency === 'Monthly'
+          : FEE_TOTAL_BY_FREQUENCY[rule.billingFrequency] === feeTotal);
+        const prices = rules.map(rule => calculatedPrices.get(rule.pricingRuleId) ?? ZERO_MONEY);
+        const weight = addMoney(...prices);
+        const variance = weight > 0
+          ? rules.reduce((sum, rule, index) => sum + prices[index] * (rule.priceVariance ?? defaultVariance), 0) / weight
+          : defaultVariance;
+        low[feeTotal] = roundMoney(multiplyMoney(line[feeTotal], 1 - variance), roundingPolicy.unit);
+        high[feeTotal] = roundMoney(multiplyMoney(line[feeTotal], 1 + variance), roundingPolicy.unit);
+        lowTotals[feeTotal] = addMoney(lowTotals[feeTotal], low[feeTotal]);
+        highTotals[feeTotal] = addMoney(highTotals[feeTotal], high[feeTotal]);
+      }
+      lineRanges.set(serviceId, { low, high });
     }
+    priceRange = toQuotePriceRange(lowTotals, highTotals);
+    traceNotes.push(
+      `Price range display (default ±${Math.round(defaultVariance * 10000) / 100}%): annual total ${formatDollars(totalAnnual)}` +
+      ` shown as ${formatDollarRange(priceRange.totalAnnual.low, priceRange.totalAnnual.high)}`
+    );
+  }
+
+  // Estimated total band: the first year plus the hourly work expected in it
+  // (estimates are per billing period, so monthly hourly work counts 12 times)
+  const hourlyEstimates = hourlyServices.filter(hourlyService => hourlyService.estimatedCost);
+  let estimatedTotal: EstimateRange | undefined;
+  if (hourlyEstimates.length > 0) {
+    const firstYearCost = (end: keyof EstimateRange): Money => addMoney(...hourlyEstimates.map(hourlyService => multiplyMoney(
+      toMoney(hourlyService.estimatedCost![end]),
+      isBillingFrequency(hourlyService.billingFrequency) ? BILLINGS_PER_YEAR[hourlyService.billingFrequency] : 1
+    )));
+    estimatedTotal = {
+      low: toDollars(addMoney(annualizeFees(roundedTotals), firstYearCost('low'))),
+      high: toDollars(addMoney(annualizeFees(roundedTotals), firstYearCost('high')))
+    };
+    traceNotes.push(`Estimated total ${formatDollars(estimatedTotal.low)}-${formatDollars(estimatedTotal.high)}: annual total plus ${hourlyEstimates.map(hourlyService => hourlyService.name).join(', ')}`);
+  }
+  if (skippedRules.length > 0) {
+    traceNotes.push(`Skipped ${skippedRules.join(', ')} - formula couldn't be evaluated for these answers (see the rule for the error)`);
+  }
+  if (reviewFlags.length > 0) {
+    traceNotes.push(`Needs review: ${getReviewReasons(reviewFlags).join('; ')} - the client sees a consultation offer instead of these prices`);
   }
+  traceNotes.push(`Rounded ${roundingPolicy.mode} to the ${roundingPolicy.unit}: monthly ${formatDollars(totalMonthlyFees)}, quarterly ${formatDollars(totalQuarterlyFees)}, semi-annual ${formatDollars(totalSemiAnnualFees)}, one-time ${formatDollars(totalOneTimeFees)}, annual prepay ${formatDollars(totalAnnualPrepayFees)}`);
 
   // Convert service groups to ServiceQuote objects in the correct order
   // Use serviceConfig order as the base, then apply conditional reordering
@@ -713,6 +976,8 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     }
 
     if (!group || group.rules.length === 0) continue;
+    const line = roundedLines.get(serviceId)!;
+    const reviewReasons = getReviewReasons(reviewFlags, serviceId);
 
     // SELECT PRIMARY SERVICE CONFIG ROW for display metadata
     // Priority: Monthly billing frequency > lowest service order > first occurrence
@@ -723,15 +988,18 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     console.log(`\n=== PROCESSING SERVICE: ${serviceId} ===`);
     console.log(`Primary config: ${primaryConfig.title}`);
     console.log(`Config rows available: ${configRows.length}`);
-    console.log(`Monthly fees: $${group.totalMonthlyFees}`);
-    console.log(`One-time fees: $${group.totalOneTimeFees}`);
+    console.log(`Monthly fees: $${toDollars(group.totalMonthlyFees)}`);
+    console.log(`Quarterly fees: $${toDollars(group.totalQuarterlyFees)}`);
+    console.log(`Semi-annual fees: $${toDollars(group.totalSemiAnnualFees)}`);
+    console.log(`One-time fees: $${toDollars(group.totalOneTimeFees)}`);
+    console.log(`Annual prepay fees: $${toDollars(group.totalAnnualPrepayFees)}`);
 
     // Get the main service name and description from primary config or fallback
     const baseRule = group.rules.find(r => r.pricingType === 'Base Service') || group.rules[0];
 
-    // Determine included features from pricing rules
+    // Determine included features from pricing rules (priced add-ons, at the price calculated above)
     const includedFeatures: string[] = group.rules
-      .filter(r => r.pricingType === 'Base Service' || (r.pricingType === 'Add-on' && calculateRulePrice(r, formData, hasAdvisoryService, calculatedPrices, serviceConfig, priceMetadata) > 0))
+      .filter(r => r.pricingType === 'Base Service' || (r.pricingType === 'Add-on' && (calculatedPrices.get(r.pricingRuleId) ?? 0) > 0))
       .map(r => r.serviceName);
 
     // Generate pricing factors for individual tax service
@@ -760,14 +1028,22 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
     const serviceQuote: ServiceQuote = {
       name: primaryConfig?.title || getServiceDisplayName(serviceId),
       description: primaryConfig?.description || baseRule.description || getServiceDescription(serviceId),
-      monthlyFee: Math.round(group.totalMonthlyFees),
-      oneTimeFee: Math.round(group.totalOneTimeFees),
-      annualPrice: Math.round(group.totalMonthlyFees * 12 + group.totalOneTimeFees),
+      monthlyFee: toDollars(line.totalMonthlyFees),
+      quarterlyFee: toDollars(line.totalQuarterlyFees),
+      semiAnnualFee: toDollars(line.totalSemiAnnualFees),
+      oneTimeFee: toDollars(line.totalOneTimeFees),
+      annualPrepayFee: toDollars(line.totalAnnualPrepayFees),
+      annualPrice: toDollars(annualizeFees(line)),
       included: includedFeatures,
       addOns: group.rules
-        .filter(r => r.pricingType === 'Add-on' && calculateRulePrice(r, formData, hasAdvisoryService, calculatedPrices, serviceConfig, priceMetadata) === 0)
+        .filter(r => r.pricingType === 'Add-on' && (calculatedPrices.get(r.pricingRuleId) ?? 0) === 0)
         .map(r => `${r.serviceName} (+$${r.basePrice || r.unitPrice})`),
-      pricingFactors: pricingFactors.length > 0 ? pricingFactors : undefined
+      pricingFactors: pricingFactors.length > 0 ? pricingFactors : undefined,
+      adjustments: adjustments.filter(adjustment => adjustment.serviceId === serviceId),
+      priceRange: lineRanges.has(serviceId)
+        ? toServicePriceRange(lineRanges.get(serviceId)!.low, lineRanges.get(serviceId)!.high)
+        : undefined,
+      reviewReasons: reviewReasons.length > 0 ? reviewReasons : undefined
     };
 
     console.log(`Created service quote card: ${serviceQuote.name}`);
@@ -794,67 +1070,52 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
   }
   
 
-  // Determine complexity based on business details
-  const getComplexityScore = (): number => {
-    let score = 0;
-    
-    // Revenue impact from business tax or bookkeeping details
-    const businessRevenue = formData.businessTax?.annualRevenue || formData.bookkeeping?.annualRevenue || '';
-    if (businessRevenue.includes('Over $5,000,000')) score += 4;
-    else if (businessRevenue.includes('$1,000,000 - $5,000,000')) score += 3;
-    else if (businessRevenue.includes('$500,000 - $1,000,000')) score += 2;
-    else if (businessRevenue.includes('$250,000 - $500,000')) score += 1;
-    
-    // Business type impact from business tax or bookkeeping details
-    const businessType = formData.businessTax?.businessType || formData.bookkeeping?.businessType || '';
-    if (businessType === 'C-Corporation') score += 2;
-    else if (businessType === 'S-Corporation') score += 1;
-    else if (businessType === 'Partnership') score += 1;
-    
-    // Employee count impact from business tax or bookkeeping details
-    const numberOfEmployees = formData.businessTax?.numberOfEmployees || formData.bookkeeping?.numberOfEmployees || '';
-    if (numberOfEmployees.includes('Over 100')) score += 3;
-    else if (numberOfEmployees.includes('51-100')) score += 2;
-    else if (numberOfEmployees.includes('26-50')) score += 1;
-    
-    // Additional complexity factors from service-specific details
-    if (formData.businessTax?.otherSituations?.includes('Multi-state operations')) score += 1;
-    if (formData.businessTax?.otherSituations?.includes('International transactions')) score += 2;
-    if (formData.individualTax?.additionalConsiderations?.includes('Income from multiple states')) score += 1;
-    
-    return score;
-  };
-
-  const complexityScore = getComplexityScore();
-  
-  if (complexityScore >= 8) complexity = 'very-high';
-  else if (complexityScore >= 5) complexity = 'high';
-  else if (complexityScore >= 2) complexity = 'medium';
-  else complexity = 'low';
-
-
-  // Generate recommendations based on selections and business profile
-  if (!hasAdvisoryService && complexityScore >= 3) {
-    recommendations.push('Consider adding Advisory Services for strategic guidance as your business grows');
-  }
-  
-  if (formData.services.includes('bookkeeping') && !formData.services.includes('business-tax')) {
-    recommendations.push('Bundle with Business Tax Services for 15% savings on tax preparation');
-  }
-  
-  if (hasAdvisoryService) {
-    recommendations.push('Advisory services provide the highest ROI for your business growth');
-  }
-  
-  if (formData.bookkeeping?.additionalConsiderations?.includes('QuickBooks setup or training')) {
-    recommendations.push('QuickBooks setup and training included at no additional cost');
+  // Determine complexity from the tenant's complexity factors
+  const { complexity, breakdown: complexityBreakdown } = scoreComplexity(formData, complexityModel);
+  const complexityScore = complexityBreakdown.score;
+  traceNotes.push(
+    `Complexity ${complexity} (score ${complexityScore}` +
+    `${complexityBreakdown.factors.length > 0 ? `: ${complexityBreakdown.factors.map(factor => `${factor.label} +${factor.points}`).join(', ')}` : ''})`
+  );
+
+  // Estimate potential savings from the tenant's savings formulas
+  const savingsEstimate = estimateSavings(savingsEstimators, {
+    formData,
+    quote: {
+      totalMonthlyFees,
+      totalOneTimeFees,
+      totalAnnual,
+      complexityScore
+    },
+    calculatedPrices,
+    serviceConfig,
+    priceMetadata,
+    rateCards
+  });
+  traceNotes.push(savingsEstimate
+    ? `Potential savings ${formatDollars(savingsEstimate.total)}/yr: ${savingsEstimate.lines.map(line => `${line.label} ${formatDollars(line.amount)}`).join(', ')}`
+    : savingsEstimators.length === 0
+      ? 'No savings estimate (no savings estimators configured, or turned off for this tenant)'
+      : 'No savings estimate (no savings estimator applies to the selected services)');
+
+  // Recommendations from the tenant's rules (conditions can test the totals under `quote.`)
+  const recommendations = evaluateRecommendations(recommendationRules, {
+    formData,
+    quote: {
+      totalMonthlyFees,
+      totalOneTimeFees,
+      totalAnnual,
+      complexity,
+      complexityScore
+    },
+    pricingConfig,
+    serviceConfig,
+    calculatedPrices
+  });
+  if (recommendations.length > 0) {
+    traceNotes.push(`Recommendations: ${recommendations.map(recommendation => recommendation.recommendationId).join(', ')}`);
   }
 
-  // Calculate potential savings
-  const potentialSavings = Math.round((totalMonthlyFees * 12 + totalOneTimeFees) * 0.3); // Estimate 30% savings from tax optimization
-
-  const finalTotalAnnual = totalMonthlyFees * 12 + totalOneTimeFees;
-
   console.log('');
   console.log('╔══════════════════════════════════════════════════════╗');
   console.log('║         QUOTE CALCULATION COMPLETE                   ║');
@@ -865,12 +1126,31 @@ export const calculateQuote = (formData: FormData, pricingConfig: PricingConfig[
   return {
     services,
     hourlyServices,
-    totalMonthlyFees: Math.round(totalMonthlyFees),
-    totalOneTimeFees: Math.round(totalOneTimeFees),
-    totalAnnual: Math.round(finalTotalAnnual),
-    potentialSavings,
+    totalMonthlyFees,
+    totalQuarterlyFees,
+    totalSemiAnnualFees,
+    totalOneTimeFees,
+    totalAnnualPrepayFees,
+    totalAnnual,
+    billingChoice,
+    discountPrograms: activePrograms,
+    priceRange,
+    estimatedTotal,
+    promoCode,
+    reviewFlags: reviewFlags.length > 0 ? reviewFlags : undefined,
+    potentialSavings: savingsEstimate?.total || 0,
+    savingsEstimate,
     recommendations,
-    complexity
+    complexity,
+    complexityBreakdown,
+    adjustments,
+    trace: {
+      rules: ruleTraces,
+      adjustments: adjustmentTraces,
+      notes: traceNotes
+    },
+    pricingVersion,
+    pricingDate
   };
 };
 
@@ -898,50 +1178,19 @@ const getServiceDescription = (serviceId: string): string => {
 };
 
 // Fallback function with original hardcoded logic
-const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceConfig[] = []): QuoteData => {
+const calculateQuoteWithDefaults = (
+  formData: FormData,
+  serviceConfig: ServiceConfig[] = [],
+  complexityModel: ComplexityModel = defaultComplexityModel,
+  recommendationRules: RecommendationRule[] = defaultRecommendationRules,
+  pricingDate: string = toPricingDate(new Date())
+): QuoteData => {
   const services: ServiceQuote[] = [];
   let totalMonthlyFees = 0;
   let totalOneTimeFees = 0;
-  let complexity: 'low' | 'medium' | 'high' | 'very-high' = 'low';
-  const recommendations: string[] = [];
-
-  // Determine complexity based on business details
-  const getComplexityScore = (): number => {
-    let score = 0;
-    
-    // Revenue impact from business tax or bookkeeping details
-    const businessRevenue = formData.businessTax?.annualRevenue || formData.bookkeeping?.annualRevenue || '';
-    if (businessRevenue.includes('Over $5,000,000')) score += 4;
-    else if (businessRevenue.includes('$1,000,000 - $5,000,000')) score += 3;
-    else if (businessRevenue.includes('$500,000 - $1,000,000')) score += 2;
-    else if (businessRevenue.includes('$250,000 - $500,000')) score += 1;
-    
-    // Business type impact from business tax or bookkeeping details
-    const businessType = formData.businessTax?.businessType || formData.bookkeeping?.businessType || '';
-    if (businessType === 'C-Corporation') score += 2;
-    else if (businessType === 'S-Corporation') score += 1;
-    else if (businessType === 'Partnership') score += 1;
-    
-    // Employee count impact from business tax or bookkeeping details
-    const numberOfEmployees = formData.businessTax?.numberOfEmployees || formData.bookkeeping?.numberOfEmployees || '';
-    if (numberOfEmployees.includes('Over 100')) score += 3;
-    else if (numberOfEmployees.includes('51-100')) score += 2;
-    else if (numberOfEmployees.includes('26-50')) score += 1;
-    
-    // Additional complexity factors from service-specific details
-    if (formData.businessTax?.otherSituations?.includes('Multi-state operations')) score += 1;
-    if (formData.businessTax?.otherSituations?.includes('International transactions')) score += 2;
-    if (formData.individualTax?.additionalConsiderations?.includes('Income from multiple states')) score += 1;
-    
-    return score;
-  };
 
-  const complexityScore = getComplexityScore();
-  
-  if (complexityScore >= 8) complexity = 'very-high';
-  else if (complexityScore >= 5) complexity = 'high';
-  else if (complexityScore >= 2) complexity = 'medium';
-  else complexity = 'low';
+  // Determine complexity from the tenant's complexity factors
+  const { complexity, breakdown: complexityBreakdown } = scoreComplexity(formData, complexityModel);
 
   // Calculate pricing multipliers based on complexity
   const getMultiplier = (): number => {
@@ -964,7 +1213,10 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
       name: 'Advisory Services',
       description: 'Strategic financial guidance and business consulting',
       monthlyFee: advisoryPrice,
+      quarterlyFee: 0,
+      semiAnnualFee: 0,
       oneTimeFee: 0,
+      annualPrepayFee: 0,
       annualPrice: advisoryPrice * 12,
       included: [
         'Monthly financial review and analysis',
@@ -985,8 +1237,6 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
     
     services.push(advisoryService);
     totalMonthlyFees += advisoryPrice;
-    
-    recommendations.push('Advisory services will provide the highest ROI for your business growth');
   }
 
   // Individual Tax Preparation
@@ -1003,7 +1253,10 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
       name: 'Individual Tax Preparation',
       description: 'Comprehensive personal tax preparation and planning',
       monthlyFee: 0,
+      quarterlyFee: 0,
+      semiAnnualFee: 0,
       oneTimeFee: taxPrice,
+      annualPrepayFee: 0,
       annualPrice: taxPrice,
       included: [
         'Federal and state tax return preparation',
@@ -1034,7 +1287,10 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
       name: 'Business Tax Services',
       description: 'Complete business tax preparation and compliance',
       monthlyFee: 0,
+      quarterlyFee: 0,
+      semiAnnualFee: 0,
       oneTimeFee: businessTaxPrice,
+      annualPrepayFee: 0,
       annualPrice: businessTaxPrice,
       included: [
         'Business tax return preparation',
@@ -1072,7 +1328,10 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
       name: 'Bookkeeping Services',
       description: 'Professional monthly bookkeeping and financial reporting',
       monthlyFee: bookkeepingPrice,
+      quarterlyFee: 0,
+      semiAnnualFee: 0,
       oneTimeFee: 0,
+      annualPrepayFee: 0,
       annualPrice: bookkeepingPrice * 12,
       included: [
         'Monthly bank reconciliation',
@@ -1092,34 +1351,46 @@ const calculateQuoteWithDefaults = (formData: FormData, serviceConfig: ServiceCo
     
     services.push(bookkeepingService);
     totalMonthlyFees += bookkeepingPrice;
-    
-    if (formData.bookkeeping?.additionalConsiderations?.includes('QuickBooks setup or training')) {
-      recommendations.push('QuickBooks setup and training included at no additional cost');
-    }
   }
 
-  // Generate recommendations based on selections and business profile
-  if (!formData.services.includes('advisory') && getComplexityScore() >= 3) {
-    recommendations.push('Consider adding Advisory Services for strategic guidance as your business grows');
-  }
-  
-  if (formData.services.includes('bookkeeping') && !formData.services.includes('business-tax')) {
-    recommendations.push('Bundle with Business Tax Services for 15% savings on tax preparation');
-  }
-
-  // Calculate potential savings
-  const potentialSavings = Math.round((totalMonthlyFees * 12 + totalOneTimeFees) * 0.3); // Estimate 30% savings from tax optimization
-
   const totalAnnual = totalMonthlyFees * 12 + totalOneTimeFees;
 
+  // No pricing rules means no discounts, so {{discount.x}} recommendations are skipped
+  const recommendations = evaluateRecommendations(recommendationRules, {
+    formData,
+    quote: {
+      totalMonthlyFees: Math.round(totalMonthlyFees),
+      totalOneTimeFees: Math.round(totalOneTimeFees),
+      totalAnnual: Math.round(totalAnnual),
+      complexity,
+      complexityScore: complexityBreakdown.score
+    },
+    pricingConfig: [],
+    serviceConfig
+  });
+
   return {
     services,
     hourlyServices: [],
     totalMonthlyFees: Math.round(totalMonthlyFees),
+    totalQuarterlyFees: 0,
+    totalSemiAnnualFees: 0,
     totalOneTimeFees: Math.round(totalOneTimeFees),
+    totalAnnualPrepayFees: 0,
     totalAnnual: Math.round(totalAnnual),
-    potentialSavings,
+    billingChoice: 'monthly',
+    discountPrograms: [], // The default prices have the Advisory discount built in
+    potentialSavings: 0, // Savings estimators need the tenant's pricing config
     recommendations,
-    complexity
+    complexity,
+    complexityBreakdown,
+    adjustments: [],
+    trace: {
+      rules: [],
+      adjustments: [],
+      notes: [`No pricing rules loaded - built-in default prices used (complexity ${complexity}, ×${multiplier})`]
+    },
+    pricingVersion: BUILT_IN_PRICING_VERSION,
+    pricingDate
   };
 };
\ No newline at end of file
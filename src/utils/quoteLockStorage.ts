@@ -0,0 +1,51 @@
+import { FormData, QuoteData } from '../types/quote';
+import { PricingVersionSnapshot, QuoteLock } from './pricingVersions';
+
+/**
+ * The client's submitted quote, kept in the browser so it can be reopened.
+ * The pricing it was priced with is read back from its Client Quotes record
+ * (see pricingVersions.ts); lock and pricing here are only used for a quote
+ * without a record.
+ */
+export interface OpenQuote {
+  tenantId: string;
+  quoteId: string;
+  recordId?: string; // Client Quotes record, when the quote was written to Airtable
+  formData: FormData;
+  quote: QuoteData;
+  lock: QuoteLock;
+  pricing: PricingVersionSnapshot;
+}
+
+// Also cleared by "Start over" in QuoteCalculator
+const OPEN_QUOTE_STORAGE_KEY = 'currentQuote';
+
+export const saveOpenQuote = (openQuote: OpenQuote): void => {
+  try {
+    localStorage.setItem(OPEN_QUOTE_STORAGE_KEY, JSON.stringify(openQuote));
+  } catch (error) {
+    // Storage full or disabled - the quote still works, it just can't be reopened
+    console.warn('⚠️ Could not save the quote for reopening:', error);
+  }
+};
+
+/**
+ * The tenant's open quote, or null (none saved, another tenant's, or unreadable)
+ */
+export const loadOpenQuote = (tenantId: string): OpenQuote | null => {
+  try {
+    const stored = localStorage.getItem(OPEN_QUOTE_STORAGE_KEY);
+    if (!stored) return null;
+
+    const openQuote = JSON.parse(stored) as OpenQuote;
+    if (openQuote.tenantId !== tenantId || !openQuote.lock || !openQuote.pricing) return null;
+    return openQuote;
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable saved quote:', error);
+    return null;
+  }
+};
+
+export const clearOpenQuote = (): void => {
+  localStorage.removeItem(OPEN_QUOTE_STORAGE_KEY);
+};
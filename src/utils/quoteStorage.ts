@@ -2,6 +2,9 @@ import { supabase, Quote } from './supabaseClient';
 import { FormData, QuoteData } from '../types/quote';
 import { saveQuoteToAirtable } from './airtableQuoteStorage';
 import { TenantConfig } from './tenantService';
+import { normalizePromoCode } from './promoCodes';
+import { getCachedFormFields } from './formFieldsService';
+import { resolveContactDetails } from './airtableWriteService';
 
 export interface SaveQuoteParams {
   tenantId: string;
@@ -17,6 +20,23 @@ const generateQuoteNumber = (): string => {
   return `Q-${timestamp}-${random}`;
 };
 
+// The contact step fills formData.contactInfo from the tenant's contact-info form fields, not the legacy top-level fields
+const getContactDetails = async (formData: FormData, tenant: TenantConfig) => {
+  try {
+    const contactFields = await getCachedFormFields(
+      {
+        baseId: tenant.airtable.servicesBaseId || tenant.airtable.pricingBaseId,
+        apiKey: tenant.airtable.servicesApiKey || tenant.airtable.pricingApiKey,
+      },
+      'contact-info'
+    );
+    return resolveContactDetails(formData, contactFields);
+  } catch (error) {
+    console.error('Error loading contact-info fields for the quote copy:', error);
+    return resolveContactDetails(formData, []);
+  }
+};
+
 export const saveQuote = async (params: SaveQuoteParams): Promise<any> => {
   const { tenantId, formData, quoteData, tenant, quoteId } = params;
 
@@ -42,12 +62,38 @@ export const saveQuote = async (params: SaveQuoteParams): Promise<any> => {
       console.log('Quote ID stored with Airtable record:', quoteId);
     }
 
-    return {
+    const savedQuote = {
       id: airtableResult.recordId,
       quote_number: airtableResult.quoteNumber,
       quote_id: quoteId || airtableResult.quoteNumber,
       airtable_record_id: airtableResult.recordId,
     };
+
+    // Keep a copy in Supabase for reporting (e.g. quotes per promo code) - a failure here doesn't fail the save
+    const contact = await getContactDetails(formData, tenant);
+    if (!contact.email) {
+      console.warn('Quote not saved to Supabase: no contact email on the form');
+      return savedQuote;
+    }
+
+    const { error: supabaseError } = await supabase.from('quotes').insert({
+      tenant_id: tenantId,
+      quote_number: quoteId || airtableResult.quoteNumber || generateQuoteNumber(),
+      customer_email: contact.email,
+      customer_name: contact.name,
+      form_data: formData,
+      quote_data: quoteData,
+      total_monthly_fees: quoteData.totalMonthlyFees,
+      total_one_time_fees: quoteData.totalOneTimeFees,
+      total_annual: quoteData.totalAnnual,
+      services_selected: formData.services,
+      promo_code: quoteData.promoCode?.status === 'applied' ? quoteData.promoCode.code : null,
+    });
+    if (supabaseError) {
+      console.error('Failed to save quote to Supabase:', supabaseError);
+    }
+
+    return savedQuote;
   } catch (error) {
     console.error('Unexpected error saving quote:', error);
     return null;
@@ -101,6 +147,32 @@ export const getQuotesByEmail = async (
   }
 };
 
+export const getQuotesByPromoCode = async (
+  tenantId: string,
+  promoCode: string,
+  limit: number = 50
+): Promise<Quote[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('promo_code', normalizePromoCode(promoCode))
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching quotes by promo code:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Unexpected error fetching quotes by promo code:', error);
+    return [];
+  }
+};
+
 export const getQuoteById = async (quoteId: string): Promise<Quote | null> => {
   try {
     const { data, error } = await supabase
@@ -0,0 +1,190 @@
+import { RateCard, RateCardRow } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { RATE_CARD_FALLBACK } from './rateCards';
+
+// Rate cards live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_RATE_CARDS_TABLE_NAME = 'Rate Cards';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one entry of a rate card
+export interface AirtableRateCardRecord {
+  id: string;
+  fields: {
+    'Rate Card': string;          // Card name, referenced as {{lookup.<name>}}
+    'Source Field': string;       // Form field the card is keyed by, e.g. bookkeeping.annualRevenue
+    'Match Value'?: string;       // Exact form value, or "*" for the fallback row
+    'Min'?: number | string;      // Numeric range (inclusive) when Match Value is empty
+    'Max'?: number | string;
+    'Value': number | string;     // Price or multiplier
+    'Active'?: boolean;
+  };
+}
+
+// Default rate cards (fallback if Airtable is unavailable)
+const defaultRateCards: RateCard[] = [
+  {
+    name: 'revenueMultiplier',
+    sourceField: 'bookkeeping.annualRevenue',
+    rows: [
+      { matchValue: 'Under $50,000', value: 0.8 },
+      { matchValue: '$50,000 - $100,000', value: 1.0 },
+      { matchValue: '$100,000 - $250,000', value: 1.2 },
+      { matchValue: '$250,000 - $500,000', value: 1.4 },
+      { matchValue: '$500,000 - $1,000,000', value: 1.6 },
+      { matchValue: '$1,000,000 - $5,000,000', value: 2.0 },
+      { matchValue: 'Over $5,000,000', value: 3.0 },
+      { matchValue: RATE_CARD_FALLBACK, value: 1.0 }
+    ]
+  }
+];
+
+const parseNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,\s]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Group Airtable rows into rate cards (keeping row order)
+ * Problems that make a card unusable are appended to `issues`
+ */
+export const buildRateCards = (records: AirtableRateCardRecord[], issues: string[]): RateCard[] => {
+  const cards = new Map<string, RateCard>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const name = fields['Rate Card']?.trim();
+    if (!name) {
+      issues.push(`Rate Cards row ${record.id}: Rate Card name is empty`);
+      continue;
+    }
+
+    const sourceField = fields['Source Field']?.trim() || '';
+    const card = cards.get(name) || { name, sourceField, rows: [] };
+    if (!card.sourceField) card.sourceField = sourceField;
+    if (sourceField && sourceField !== card.sourceField) {
+      issues.push(`Rate card "${name}": rows use different Source Fields ("${card.sourceField}" and "${sourceField}")`);
+    }
+
+    const value = parseNumber(fields['Value']);
+    const matchValue = fields['Match Value'] !== undefined && String(fields['Match Value']).trim() !== ''
+      ? String(fields['Match Value']).trim()
+      : undefined;
+    const row: RateCardRow = {
+      matchValue,
+      min: parseNumber(fields['Min']),
+      max: parseNumber(fields['Max']),
+      value: value ?? 0
+    };
+
+    if (value === undefined) {
+      issues.push(`Rate card "${name}": row ${matchValue ?? record.id} has no numeric Value`);
+    }
+    if (row.matchValue === undefined && row.min === undefined && row.max === undefined) {
+      issues.push(`Rate card "${name}": row ${record.id} needs a Match Value ("*" for the fallback) or a Min/Max range`);
+    }
+
+    card.rows.push(row);
+    cards.set(name, card);
+  }
+
+  cards.forEach(card => {
+    if (!card.sourceField) {
+      issues.push(`Rate card "${card.name}": Source Field is empty`);
+    }
+  });
+
+  return Array.from(cards.values());
+};
+
+// Fetch rate cards from Airtable
+export const fetchRateCards = async (airtableConfig?: AirtableConfig): Promise<RateCard[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // Return default rate cards if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. Using default rate cards.');
+    return defaultRateCards;
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_RATE_CARDS_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Rate cards are optional - tenants without the table simply have none
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Rate Cards table in pricing base - rate card lookups disabled');
+      return [];
+    }
+
+    if (!response.ok) {
+      console.error(`Airtable API error: ${response.status} ${response.statusText}`);
+      console.log('Falling back to default rate cards');
+      return defaultRateCards;
+    }
+
+    const data = await response.json();
+    const issues: string[] = [];
+    const rateCards = buildRateCards(data.records || [], issues);
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid rows in Rate Cards table:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched ${rateCards.length} rate card(s) from Airtable:`, rateCards.map(card => card.name));
+    return rateCards;
+
+  } catch (error) {
+    // Broken rate cards must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching rate cards from Airtable:', error);
+    console.log('Falling back to default rate cards');
+    return defaultRateCards;
+  }
+};
+
+// Cache rate cards to avoid repeated API calls (tenant-scoped)
+const rateCardCache = new Map<string, { rateCards: RateCard[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedRateCards = async (airtableConfig?: AirtableConfig): Promise<RateCard[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = rateCardCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.rateCards;
+  }
+
+  const rateCards = await fetchRateCards(airtableConfig);
+  rateCardCache.set(cacheKey, { rateCards, timestamp: now });
+
+  return rateCards;
+};
+
+// Clear rate card cache (useful for testing or manual refresh)
+export const clearRateCardCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    rateCardCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    rateCardCache.clear();
+  }
+};
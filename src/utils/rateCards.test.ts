@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { RateCard } from '../types/quote';
+import { calculateQuote } from './quoteCalculator';
+import { RateCardLookupError, lookupRateCard, resolveRateCard, validateRateCardReferences } from './rateCards';
+import { businessTaxDetails, pricingRule, quoteForm } from './testFixtures';
+
+const entityPrices: RateCard = {
+  name: 'entityBasePrice',
+  sourceField: 'businessTax.entityType',
+  rows: [{ matchValue: 'S-Corporation', value: 900 }, { matchValue: 'Partnership', value: 800 }, { matchValue: '*', value: 600 }]
+};
+
+const statesMultiplier: RateCard = {
+  name: 'statesMultiplier',
+  sourceField: 'businessTax.additionalStateCount',
+  rows: [{ min: 0, max: 0, value: 1 }, { min: 1, max: 3, value: 1.2 }, { min: 4, value: 1.5 }]
+};
+
+const businessForm = (entityType: string, additionalStateCount = 0) =>
+  quoteForm({ services: ['business-tax'], businessTax: businessTaxDetails({ entityType, additionalStateCount }) });
+
+describe('lookupRateCard', () => {
+  it('matches dropdown values case-insensitively and falls back to the "*" row', () => {
+    expect(lookupRateCard(entityPrices, businessForm(' s-corporation'), 'business-tax').value).toBe(900);
+    expect(lookupRateCard(entityPrices, businessForm('Sole Proprietor'), 'business-tax')).toMatchObject({ value: 600, row: { matchValue: '*' } });
+  });
+
+  it('matches numbers against min/max ranges, both ends included', () => {
+    expect(lookupRateCard(statesMultiplier, businessForm('LLC', 0), 'business-tax').value).toBe(1);
+    expect(lookupRateCard(statesMultiplier, businessForm('LLC', 3), 'business-tax').value).toBe(1.2);
+    expect(lookupRateCard(statesMultiplier, businessForm('LLC', 12), 'business-tax').value).toBe(1.5);
+  });
+
+  it('gives 0 and no row when nothing matches and there is no "*" row', () => {
+    const card: RateCard = { ...entityPrices, rows: entityPrices.rows.filter(row => row.matchValue !== '*') };
+    expect(lookupRateCard(card, businessForm('Sole Proprietor'), 'business-tax')).toEqual({ value: 0, sourceValue: 'Sole Proprietor' });
+  });
+
+  it('refuses a card that does not exist', () => {
+    expect(() => resolveRateCard([entityPrices], 'missing', businessForm('LLC'))).toThrow(RateCardLookupError);
+  });
+});
+
+describe('rate cards in a quote', () => {
+  it('prices a rule from its Rate Card and a formula from {{lookup.x}}', () => {
+    const rules = [
+      pricingRule('business-tax-base', { serviceId: 'business-tax', pricingType: 'Base Service', billingFrequency: 'One-Time Fee', rateCard: 'entityBasePrice' }),
+      pricingRule('business-tax-states', {
+        serviceId: 'business-tax',
+        pricingType: 'Base Service',
+        billingFrequency: 'One-Time Fee',
+        calculationMethod: 'formula',
+        formulaExpression: '{{pricingRule.business-tax-base}} * ({{lookup.statesMultiplier}} - 1)'
+      })
+    ];
+    const quote = calculateQuote(businessForm('Partnership', 2), rules, [], { rateCards: [entityPrices, statesMultiplier] });
+
+    expect(quote.totalOneTimeFees).toBe(800 + 160);
+  });
+});
+
+describe('validateRateCardReferences', () => {
+  it('reports every reference to a card that is not loaded', () => {
+    expect(validateRateCardReferences([
+      pricingRule('a', { rateCard: 'entityBasePrice' }),
+      pricingRule('b', { rateCard: 'missingCard' }),
+      pricingRule('c', { calculationMethod: 'formula', formulaExpression: '{{lookup.statesMultiplier}} * {{lookup.otherCard}}' }),
+      pricingRule('d', { includedUnits: { source: 'lookup', rateCard: 'ownersIncluded' } })
+    ], [entityPrices, statesMultiplier])).toEqual([
+      'Rule "b": Rate Card "missingCard" does not exist',
+      'Rule "c": formula references unknown rate card {{lookup.otherCard}}',
+      'Rule "d": Included Units references unknown rate card lookup.ownersIncluded'
+    ]);
+  });
+});
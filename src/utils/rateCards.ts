@@ -0,0 +1,134 @@
+import { FormData, PricingConfig, RateCard, RateCardRow } from '../types/quote';
+import { FormulaError, getFormulaVariables, parseFormula } from './formulaParser';
+import { getFieldValueSmart } from './pricingConditions';
+
+/**
+ * Rate card lookups - a named table mapping a form value to a number
+ *
+ * Used by:
+ * - formulas:  {{lookup.revenueMultiplier}} * 400
+ * - rules:     "Rate Card" column replaces Base Price (simple) / Unit Price (per-unit)
+ *
+ * Loading from Airtable lives in rateCardService.ts; this module has no
+ * environment dependencies.
+ */
+
+export const LOOKUP_PREFIX = 'lookup.';
+export const RATE_CARD_FALLBACK = '*';
+
+/**
+ * Thrown when a formula or rule references a rate card that doesn't exist
+ */
+export class RateCardLookupError extends Error {
+  rateCard: string;
+
+  constructor(rateCard: string) {
+    super(`Unknown rate card "${rateCard}" (check the Rate Cards table)`);
+    this.name = 'RateCardLookupError';
+    this.rateCard = rateCard;
+  }
+}
+
+export interface RateCardLookupResult {
+  value: number;
+  sourceValue: unknown;
+  row?: RateCardRow;
+}
+
+export const findRateCard = (rateCards: RateCard[], name: string): RateCard | undefined =>
+  rateCards.find(card => card.name === name);
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  return parseFloat(String(value).replace(/[$,\s]/g, ''));
+};
+
+const rowMatches = (row: RateCardRow, sourceValue: unknown): boolean => {
+  if (sourceValue === undefined || sourceValue === null || sourceValue === '') return false;
+
+  if (row.matchValue !== undefined) {
+    return row.matchValue !== RATE_CARD_FALLBACK &&
+      String(sourceValue).trim().toLowerCase() === row.matchValue.trim().toLowerCase();
+  }
+
+  if (row.min === undefined && row.max === undefined) return false;
+  const numeric = toNumber(sourceValue);
+  if (isNaN(numeric)) return false;
+  return (row.min === undefined || numeric >= row.min) && (row.max === undefined || numeric <= row.max);
+};
+
+/**
+ * Look up the form's value in a rate card
+ * First matching row wins; the "*" row is the fallback. With no match and no
+ * fallback the lookup is 0 (no row in the result), so give multiplier cards a "*" row of 1.
+ */
+export const lookupRateCard = (card: RateCard, formData: FormData, serviceId?: string): RateCardLookupResult => {
+  const sourceValue = getFieldValueSmart(formData, card.sourceField, serviceId);
+
+  const row = card.rows.find(candidate => rowMatches(candidate, sourceValue)) ||
+    card.rows.find(candidate => candidate.matchValue === RATE_CARD_FALLBACK);
+
+  if (!row) {
+    return { value: 0, sourceValue };
+  }
+
+  return { value: row.value, sourceValue, row };
+};
+
+/**
+ * Resolve a rate card by name and look the form value up in it
+ * Throws RateCardLookupError if the card doesn't exist.
+ */
+export const resolveRateCard = (
+  rateCards: RateCard[],
+  name: string,
+  formData: FormData,
+  serviceId?: string
+): RateCardLookupResult => {
+  const card = findRateCard(rateCards, name);
+  if (!card) throw new RateCardLookupError(name);
+  return lookupRateCard(card, formData, serviceId);
+};
+
+/**
+ * Check that every {{lookup.x}} in a formula, rule "Rate Card" and lookup.x
+ * "Included Units" / "Estimated Hours" names a loaded card
+ * Returns one message per missing reference.
+ */
+export const validateRateCardReferences = (pricingConfig: PricingConfig[], rateCards: RateCard[]): string[] => {
+  const issues: string[] = [];
+  const known = new Set(rateCards.map(card => card.name));
+
+  for (const rule of pricingConfig) {
+    if (rule.rateCard && !known.has(rule.rateCard)) {
+      issues.push(`Rule "${rule.pricingRuleId}": Rate Card "${rule.rateCard}" does not exist`);
+    }
+    if (rule.includedUnits?.source === 'lookup' && !known.has(rule.includedUnits.rateCard)) {
+      issues.push(`Rule "${rule.pricingRuleId}": Included Units references unknown rate card ${LOOKUP_PREFIX}${rule.includedUnits.rateCard}`);
+    }
+    for (const [end, hours] of Object.entries(rule.estimatedHours || {})) {
+      if (hours.source === 'lookup' && !known.has(hours.rateCard)) {
+        issues.push(`Rule "${rule.pricingRuleId}": Estimated Hours ${end === 'low' ? 'Low' : 'High'} references unknown rate card ${LOOKUP_PREFIX}${hours.rateCard}`);
+      }
+    }
+
+    if (rule.calculationMethod !== 'formula' || !rule.formulaExpression?.trim()) continue;
+
+    let variables: string[];
+    try {
+      variables = getFormulaVariables(parseFormula(rule.formulaExpression.trim()));
+    } catch (error) {
+      // Syntax errors are reported by validatePricingFormulas
+      if (error instanceof FormulaError) continue;
+      throw error;
+    }
+
+    variables
+      .filter(variable => variable.startsWith(LOOKUP_PREFIX))
+      .map(variable => variable.slice(LOOKUP_PREFIX.length))
+      .filter(name => !known.has(name))
+      .forEach(name => issues.push(`Rule "${rule.pricingRuleId}": formula references unknown rate card {{${LOOKUP_PREFIX}${name}}}`));
+  }
+
+  return issues;
+};
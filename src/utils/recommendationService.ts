@@ -0,0 +1,167 @@
+import { RecommendationRule } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { ConditionSyntaxError, parseConditionGroup } from './pricingConditions';
+import { DEFAULT_RECOMMENDATION_PRIORITY, defaultRecommendationRules } from './recommendations';
+
+// Recommendations live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_RECOMMENDATIONS_TABLE_NAME = 'Recommendations';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one recommendation
+export interface AirtableRecommendationRecord {
+  id: string;
+  fields: {
+    'Recommendation ID': string;
+    'Message': string;              // May use {{variables}}
+    'Conditions'?: string;          // JSON condition group, same format as Trigger Conditions
+    'Priority'?: number | string;   // Lower shows first (default 100)
+    'Suggested Service'?: string;   // Service ID offered as "add this service"
+    'Active'?: boolean;
+  };
+}
+
+/**
+ * Convert Recommendations rows into rules
+ * Problems that make a recommendation unusable are appended to `issues`
+ */
+export const buildRecommendationRules = (records: AirtableRecommendationRecord[], issues: string[]): RecommendationRule[] => {
+  const rules: RecommendationRule[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const recommendationId = fields['Recommendation ID']?.trim();
+    if (!recommendationId) {
+      issues.push(`Recommendations row ${record.id}: Recommendation ID is empty`);
+      continue;
+    }
+    if (seen.has(recommendationId)) {
+      issues.push(`Recommendation "${recommendationId}" is defined more than once`);
+      continue;
+    }
+    seen.add(recommendationId);
+
+    const message = fields['Message']?.trim();
+    if (!message) {
+      issues.push(`Recommendation "${recommendationId}": Message is empty`);
+      continue;
+    }
+
+    const rawPriority = fields['Priority'];
+    const priority = rawPriority === undefined || rawPriority === ''
+      ? DEFAULT_RECOMMENDATION_PRIORITY
+      : typeof rawPriority === 'number' ? rawPriority : parseFloat(rawPriority);
+    if (isNaN(priority)) {
+      issues.push(`Recommendation "${recommendationId}": Priority must be a number`);
+      continue;
+    }
+
+    try {
+      const conditionsJson = fields['Conditions']?.trim();
+      rules.push({
+        recommendationId,
+        message,
+        conditions: conditionsJson ? parseConditionGroup(conditionsJson) : undefined,
+        priority,
+        suggestedServiceId: fields['Suggested Service']?.trim() || undefined
+      });
+    } catch (error) {
+      if (error instanceof ConditionSyntaxError) {
+        issues.push(`Recommendation "${recommendationId}": Conditions - ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return rules;
+};
+
+// Fetch recommendation rules from Airtable
+export const fetchRecommendationRules = async (airtableConfig?: AirtableConfig): Promise<RecommendationRule[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // Return the default rules if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. Using default recommendations.');
+    return defaultRecommendationRules;
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_RECOMMENDATIONS_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Tenants without the table keep the built-in recommendations
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Recommendations table in pricing base - using default recommendations');
+      return defaultRecommendationRules;
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const issues: string[] = [];
+    const rules = buildRecommendationRules(data.records || [], issues);
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid recommendations:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched ${rules.length} recommendation(s) from Airtable`);
+    return rules;
+
+  } catch (error) {
+    // Broken recommendations must surface to the pricing admin, not be masked by defaults
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching recommendations from Airtable:', error);
+    console.log('Falling back to default recommendations');
+    return defaultRecommendationRules;
+  }
+};
+
+// Cache recommendation rules to avoid repeated API calls (tenant-scoped)
+const recommendationCache = new Map<string, { rules: RecommendationRule[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedRecommendationRules = async (airtableConfig?: AirtableConfig): Promise<RecommendationRule[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = recommendationCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.rules;
+  }
+
+  const rules = await fetchRecommendationRules(airtableConfig);
+  recommendationCache.set(cacheKey, { rules, timestamp: now });
+
+  return rules;
+};
+
+// Clear recommendation cache (useful for testing or manual refresh)
+export const clearRecommendationCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    recommendationCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    recommendationCache.clear();
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { FormData, RecommendationRule } from '../types/quote';
+import { toMoney } from './money';
+import { RecommendationContext, defaultRecommendationRules, evaluateRecommendations, renderRecommendationMessage } from './recommendations';
+import { bookkeepingDetails, pricingRule, quoteForm, serviceRow } from './testFixtures';
+
+const bundleDiscount = pricingRule('business-tax-bundle', {
+  serviceId: 'business-tax',
+  pricingType: 'Discount',
+  discountType: 'percentage',
+  discountValue: 0.15
+});
+
+const context = (formData: FormData, overrides: Partial<RecommendationContext> = {}): RecommendationContext => ({
+  formData,
+  quote: { totalMonthlyFees: 1250, totalOneTimeFees: 0, totalAnnual: 15000, complexity: 'low', complexityScore: 1 },
+  pricingConfig: [bundleDiscount],
+  serviceConfig: [],
+  ...overrides
+});
+
+const bookkeepingForm = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails() });
+
+describe('renderRecommendationMessage', () => {
+  it('fills in quote totals, discounts, rule prices and form fields', () => {
+    const message = renderRecommendationMessage(
+      'At {{quote.totalMonthlyFees}}/month with {{bookkeeping.bankAccounts}} accounts, save {{discount.business-tax}} ({{pricingRule.bookkeeping-base}} base)',
+      context(quoteForm({ bookkeeping: bookkeepingDetails({ bankAccounts: 3 }) }), { calculatedPrices: new Map([['bookkeeping-base', toMoney(400)]]) })
+    );
+
+    expect(message).toBe('At $1,250/month with 3 accounts, save 15% ($400 base)');
+  });
+
+  it('gives null when a variable has no value', () => {
+    expect(renderRecommendationMessage('Save {{discount.payroll}}', context(bookkeepingForm))).toBeNull();
+  });
+});
+
+describe('evaluateRecommendations', () => {
+  it('shows the default rules that match, lowest priority first', () => {
+    const form = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails({ additionalConsiderations: ['QuickBooks setup or training'] }) });
+
+    expect(evaluateRecommendations(defaultRecommendationRules, context(form)).map(rec => rec.message)).toEqual([
+      'Bundle with Business Tax Services for 15% savings on tax preparation',
+      'QuickBooks setup and training included at no additional cost'
+    ]);
+  });
+
+  it('tests the calculated quote under quote.', () => {
+    const growing = context(bookkeepingForm, { quote: { ...context(bookkeepingForm).quote, complexity: 'high', complexityScore: 5 } });
+
+    expect(evaluateRecommendations(defaultRecommendationRules, growing).map(rec => rec.recommendationId))
+      .toEqual(['advisory-for-growth', 'bundle-business-tax']);
+  });
+
+  it('only suggests a service that is offered and not already selected', () => {
+    const rule: RecommendationRule = { recommendationId: 'add-payroll', message: 'Add payroll', priority: 1, suggestedServiceId: 'payroll' };
+
+    expect(evaluateRecommendations([rule], context(bookkeepingForm))).toEqual([
+      { recommendationId: 'add-payroll', message: 'Add payroll', priority: 1, suggestedServiceId: 'payroll', suggestedServiceName: undefined }
+    ]);
+    expect(evaluateRecommendations([rule], context(bookkeepingForm, { serviceConfig: [serviceRow('payroll', { title: 'Payroll' })] }))[0].suggestedServiceName)
+      .toBe('Payroll');
+    expect(evaluateRecommendations([rule], context(bookkeepingForm, { serviceConfig: [serviceRow('bookkeeping')] }))).toEqual([]);
+    expect(evaluateRecommendations([rule], context(quoteForm({ services: ['payroll'] })))).toEqual([]);
+  });
+
+  it('skips a recommendation whose message cannot be filled in', () => {
+    const rule: RecommendationRule = { recommendationId: 'payroll-bundle', message: 'Save {{discount.payroll}}', priority: 1 };
+
+    expect(evaluateRecommendations([rule], context(bookkeepingForm))).toEqual([]);
+  });
+});
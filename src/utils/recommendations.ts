@@ -0,0 +1,177 @@
+import { FormData, PricingConfig, QuoteData, QuoteRecommendation, RecommendationRule, ServiceConfig } from '../types/quote';
+import { evaluateConditionGroup, getFieldValueSmart } from './pricingConditions';
+import { Money, toDollars } from './money';
+
+/**
+ * Recommendations - QuoteData.recommendations
+ *
+ * Each rule is a condition group (the same engine and JSON format as pricing rule
+ * Trigger Conditions) plus a message template. Conditions can test form fields and
+ * the calculated quote under `quote.` (e.g. quote.complexityScore, quote.totalMonthlyFees).
+ *
+ * Loading the rules from Airtable lives in recommendationService.ts; this module has
+ * no environment dependencies.
+ */
+
+export const DEFAULT_RECOMMENDATION_PRIORITY = 100;
+
+// Default rules (fallback if the tenant has no Recommendations table)
+export const defaultRecommendationRules: RecommendationRule[] = [
+  {
+    recommendationId: 'advisory-for-growth',
+    message: 'Consider adding Advisory Services for strategic guidance as your business grows',
+    conditions: { all: [{ field: 'quote.complexityScore', operator: 'greaterThanOrEqual', value: 3 }] },
+    priority: 10,
+    suggestedServiceId: 'advisory'
+  },
+  {
+    recommendationId: 'bundle-business-tax',
+    message: 'Bundle with Business Tax Services for {{discount.business-tax}} savings on tax preparation',
+    conditions: { all: [{ field: 'services', operator: 'hasItem', value: 'bookkeeping' }] },
+    priority: 20,
+    suggestedServiceId: 'business-tax'
+  },
+  {
+    recommendationId: 'advisory-roi',
+    message: 'Advisory services provide the highest ROI for your business growth',
+    conditions: { all: [{ field: 'services', operator: 'hasItem', value: 'advisory' }] },
+    priority: 30
+  },
+  {
+    recommendationId: 'quickbooks-setup',
+    message: 'QuickBooks setup and training included at no additional cost',
+    conditions: { all: [{ field: 'bookkeeping.additionalConsiderations', operator: 'contains', value: 'QuickBooks setup or training' }] },
+    priority: 40
+  }
+];
+
+/**
+ * Everything a recommendation can test or mention
+ */
+export interface RecommendationContext {
+  formData: FormData;
+  quote: Pick<QuoteData, 'totalMonthlyFees' | 'totalOneTimeFees' | 'totalAnnual' | 'complexity'> & { complexityScore: number };
+  pricingConfig: PricingConfig[];
+  serviceConfig: ServiceConfig[];
+  calculatedPrices?: Map<string, Money>;
+}
+
+const formatDollars = (amount: number): string =>
+  `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+// {{discount.x}}: the discount rule with ID x, or else the first active discount targeting service x
+const resolveDiscount = (key: string, pricingConfig: PricingConfig[]): string | undefined => {
+  const discounts = pricingConfig.filter(rule => rule.active && rule.pricingType === 'Discount' && rule.discountValue);
+  const discount = discounts.find(rule => rule.pricingRuleId === key) ||
+    discounts.find(rule => (rule.discountTargets?.services || [rule.serviceId]).includes(key));
+
+  if (!discount?.discountValue) return undefined;
+  return discount.discountType === 'fixed'
+    ? formatDollars(discount.discountValue)
+    : `${Math.round(discount.discountValue * 100)}%`;
+};
+
+const resolveVariable = (variable: string, context: RecommendationContext): string | undefined => {
+  const [prefix, ...rest] = variable.split('.');
+  const key = rest.join('.');
+
+  if (prefix === 'quote' && key) {
+    const value = (context.quote as Record<string, unknown>)[key];
+    if (typeof value === 'number') {
+      return key === 'complexityScore' ? String(value) : formatDollars(value);
+    }
+    return value === undefined ? undefined : String(value);
+  }
+
+  if (prefix === 'discount' && key) {
+    return resolveDiscount(key, context.pricingConfig);
+  }
+
+  if (prefix === 'pricingRule' && key) {
+    const price = context.calculatedPrices?.get(key);
+    return price === undefined ? undefined : formatDollars(toDollars(price));
+  }
+
+  const value = getFieldValueSmart(context.formData, variable);
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : undefined;
+  }
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+};
+
+/**
+ * Fill in a message template's {{variables}}
+ * Returns null when a variable has no value, so the recommendation can be skipped
+ * rather than shown with a gap in it.
+ */
+export const renderRecommendationMessage = (template: string, context: RecommendationContext): string | null => {
+  let missing: string | null = null;
+
+  const message = template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, variable: string) => {
+    const value = resolveVariable(variable, context);
+    if (value === undefined) {
+      missing = missing || variable;
+      return match;
+    }
+    return value;
+  });
+
+  if (missing) {
+    console.warn(`⚠️ Recommendation message "${template}" skipped: {{${missing}}} has no value`);
+    return null;
+  }
+  return message;
+};
+
+/**
+ * Evaluate recommendation rules for a quote
+ *
+ * A rule is shown when its conditions match, its message renders, and (if it
+ * suggests a service) that service is offered and not already selected.
+ * Results are ordered by priority (lower first).
+ */
+export const evaluateRecommendations = (
+  rules: RecommendationRule[],
+  context: RecommendationContext
+): QuoteRecommendation[] => {
+  // Conditions see the form plus the calculated quote under `quote.`
+  const conditionData = { ...context.formData, quote: context.quote } as unknown as FormData;
+  const offeredServices = context.serviceConfig.filter(service => service.active);
+
+  const recommendations: QuoteRecommendation[] = [];
+
+  [...rules]
+    .sort((a, b) => a.priority - b.priority)
+    .forEach(rule => {
+      if (rule.conditions && !evaluateConditionGroup(conditionData, rule.conditions)) {
+        return;
+      }
+
+      let suggestedServiceName: string | undefined;
+      if (rule.suggestedServiceId) {
+        if (context.formData.services.includes(rule.suggestedServiceId)) {
+          return;
+        }
+        // Without a service config (default pricing) every service is offered
+        const service = offeredServices.find(s => s.serviceId === rule.suggestedServiceId);
+        if (offeredServices.length > 0 && !service) {
+          return;
+        }
+        suggestedServiceName = service?.title;
+      }
+
+      const message = renderRecommendationMessage(rule.message, context);
+      if (message === null) {
+        return;
+      }
+
+      recommendations.push({
+        recommendationId: rule.recommendationId,
+        message,
+        priority: rule.priority,
+        suggestedServiceId: rule.suggestedServiceId,
+        suggestedServiceName
+      });
+    });
+  return recommendations;
+};
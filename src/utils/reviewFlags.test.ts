@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewFlag } from '../types/quote';
+import { calculateQuote } from './quoteCalculator';
+import { describeReviewReasons, getReviewReasons, isServiceUnderReview, needsReview } from './reviewFlags';
+import { bookkeepingDetails, businessTaxDetails, pricingRule, quoteForm, serviceRow } from './testFixtures';
+
+const form = quoteForm({
+  services: ['bookkeeping', 'business-tax'],
+  bookkeeping: bookkeepingDetails(),
+  businessTax: businessTaxDetails({ numberOfOwners: 12 })
+});
+
+const services = [serviceRow('bookkeeping'), serviceRow('business-tax')];
+
+const rules = [
+  pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 }),
+  pricingRule('business-tax-base', { serviceId: 'business-tax', pricingType: 'Base Service', billingFrequency: 'One-Time Fee', basePrice: 1200 })
+];
+
+const manyOwners = pricingRule('business-tax-many-owners', {
+  serviceId: 'business-tax',
+  serviceName: 'Many owners',
+  pricingType: 'Requires Review',
+  triggerConditions: { all: [{ field: 'businessTax.numberOfOwners', operator: 'greaterThan', value: 10 }] },
+  reviewReason: 'More than 10 owners'
+});
+
+describe('review flags in a quote', () => {
+  it('flags the service whose Requires Review rule matched and still prices it for staff', () => {
+    const quote = calculateQuote(form, [...rules, manyOwners], services);
+
+    expect(quote.reviewFlags).toEqual([{ ruleId: 'business-tax-many-owners', serviceId: 'business-tax', scope: 'service', reason: 'More than 10 owners' }]);
+    expect(quote.totalOneTimeFees).toBe(1200);
+    expect(needsReview(quote)).toBe(true);
+    expect(isServiceUnderReview(quote, 'business-tax')).toBe(true);
+    expect(isServiceUnderReview(quote, 'bookkeeping')).toBe(false);
+    expect(quote.trace.rules.find(rule => rule.ruleId === 'business-tax-many-owners')?.steps)
+      .toContain('Needs review - business-tax prices are hidden from the client: More than 10 owners');
+  });
+
+  it('puts every service under review for a Whole Quote flag', () => {
+    const quote = calculateQuote(form, [...rules, { ...manyOwners, reviewScope: 'quote' }], services);
+
+    expect(isServiceUnderReview(quote, 'bookkeeping')).toBe(true);
+    expect(describeReviewReasons(quote)).toEqual(['More than 10 owners']);
+  });
+
+  it('uses the rule name when the rule has no Review Reason', () => {
+    const quote = calculateQuote(form, [...rules, { ...manyOwners, reviewReason: undefined }], services);
+
+    expect(describeReviewReasons(quote)).toEqual(['Many owners']);
+  });
+
+  it('leaves the quote alone when the conditions do not match', () => {
+    const quote = calculateQuote({ ...form, businessTax: businessTaxDetails({ numberOfOwners: 2 }) }, [...rules, manyOwners], services);
+
+    expect(quote.reviewFlags).toBeUndefined();
+    expect(needsReview(quote)).toBe(false);
+  });
+});
+
+describe('getReviewReasons', () => {
+  const flags: ReviewFlag[] = [
+    { ruleId: 'a', serviceId: 'business-tax', scope: 'service', reason: 'More than 10 owners' },
+    { ruleId: 'b', serviceId: 'business-tax', scope: 'service', reason: 'More than 10 owners' },
+    { ruleId: 'c', serviceId: 'payroll', scope: 'quote', reason: 'Multi-country payroll' }
+  ];
+
+  it('gives a service its own reasons and the whole-quote ones, once each', () => {
+    expect(getReviewReasons(flags, 'business-tax')).toEqual(['More than 10 owners', 'Multi-country payroll']);
+    expect(getReviewReasons(flags, 'bookkeeping')).toEqual(['Multi-country payroll']);
+    expect(getReviewReasons(flags)).toEqual(['More than 10 owners', 'Multi-country payroll']);
+    expect(getReviewReasons(undefined)).toEqual([]);
+  });
+});
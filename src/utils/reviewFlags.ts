@@ -0,0 +1,38 @@
+import { QuoteData, ReviewFlag } from '../types/quote';
+
+/**
+ * Call for pricing
+ *
+ * A "Requires Review" rule prices nothing: when its conditions match (it applies
+ * by default when it has none, like a Base Service), calculateQuote records a
+ * review flag with the rule's Review Reason. The exact prices are still
+ * calculated and kept with the quote for staff, but the client doesn't see an
+ * automated number:
+ * - a flag on a service hides that service's fees
+ * - a flag on the whole quote (Review Scope "Whole Quote") hides every fee
+ * - either way the totals are hidden, since they include the flagged fees, and
+ *   the client is offered a consultation instead of accepting the quote
+ */
+
+// Client Quotes "Quote Status" of a quote that was flagged
+export const NEEDS_REVIEW_STATUS = 'Needs Review';
+
+// "Price Display" of a flagged quote - the fees sent with it were never shown to the client
+export const PRICES_NOT_SHOWN_DISPLAY = 'Not Shown';
+
+export const needsReview = (quote: QuoteData): boolean => (quote.reviewFlags?.length ?? 0) > 0;
+
+/**
+ * Reasons that hide a service's fees (flags on the service plus whole-quote
+ * flags), once each; without a service, every reason on the quote
+ */
+export const getReviewReasons = (reviewFlags: ReviewFlag[] | undefined, serviceId?: string): string[] =>
+  [...new Set((reviewFlags || [])
+    .filter(flag => serviceId === undefined || flag.scope === 'quote' || flag.serviceId === serviceId)
+    .map(flag => flag.reason))];
+
+export const isServiceUnderReview = (quote: QuoteData, serviceId: string): boolean =>
+  getReviewReasons(quote.reviewFlags, serviceId).length > 0;
+
+// Why the quote needs review (as shown to the client and recorded with the quote)
+export const describeReviewReasons = (quote: QuoteData): string[] => getReviewReasons(quote.reviewFlags);
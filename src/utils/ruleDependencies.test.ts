@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { PricingConfig } from '../types/quote';
+import { PricingRuleCycleError, buildRuleDependencyGraph, sortRulesByDependency } from './ruleDependencies';
+import { pricingRule, serviceRow } from './testFixtures';
+
+const rule = (pricingRuleId: string, formulaExpression?: string, overrides: Partial<PricingConfig> = {}): PricingConfig =>
+  pricingRule(pricingRuleId, {
+    serviceId: pricingRuleId.split('-')[0],
+    basePrice: 100,
+    calculationMethod: formulaExpression ? 'formula' : 'simple',
+    formulaExpression,
+    ...overrides
+  });
+
+const ids = (rules: PricingConfig[]) => rules.map(candidate => candidate.pricingRuleId);
+
+const monthlyBookkeeping = [serviceRow('bookkeeping', { billingFrequency: 'Monthly', totalVariableName: 'monthly_bookkeeping_fee' })];
+
+describe('buildRuleDependencyGraph', () => {
+  it('links {{pricingRule.x}} references and ignores self references', () => {
+    const rules = [
+      rule('tax-base'),
+      rule('tax-surcharge', '{{pricingRule.tax-base}} * 0.1 + {{pricingRule.tax-surcharge}}')
+    ];
+    expect(buildRuleDependencyGraph(rules)).toEqual([[], [{ index: 0, variable: 'pricingRule.tax-base' }]]);
+  });
+
+  it('links a service total to the rules of that service and billing frequency', () => {
+    const rules = [
+      rule('bookkeeping-base'),
+      rule('bookkeeping-cleanup', undefined, { billingFrequency: 'One-Time Fee' }),
+      rule('advisory-retainer', '{{monthly_bookkeeping_fee}} * 0.2')
+    ];
+    expect(buildRuleDependencyGraph(rules, monthlyBookkeeping)[2]).toEqual([{ index: 0, variable: 'monthly_bookkeeping_fee' }]);
+  });
+
+  it('leaves inactive rules and rules never in effect with the formula out of a service total', () => {
+    const rules = [
+      rule('bookkeeping-base'),
+      rule('bookkeeping-retired', undefined, { active: false }),
+      rule('bookkeeping-2025', undefined, { effectiveTo: '2025-12-31' }),
+      rule('bookkeeping-review', '{{monthly_bookkeeping_fee}} * 0.1', { effectiveFrom: '2026-01-01' })
+    ];
+    expect(buildRuleDependencyGraph(rules, monthlyBookkeeping)[3]).toEqual([{ index: 0, variable: 'monthly_bookkeeping_fee' }]);
+  });
+
+  it('leaves a formula with a syntax error without edges', () => {
+    expect(buildRuleDependencyGraph([rule('tax-broken', 'max(1, ')])).toEqual([[]]);
+  });
+});
+
+describe('sortRulesByDependency', () => {
+  it('puts each rule after the rules it reads and keeps the rest in order', () => {
+    const rules = [
+      rule('tax-total', '{{pricingRule.tax-base}} + {{pricingRule.tax-states}}'),
+      rule('tax-states'),
+      rule('tax-base'),
+      rule('tax-other')
+    ];
+    expect(ids(sortRulesByDependency(rules))).toEqual(['tax-states', 'tax-base', 'tax-total', 'tax-other']);
+  });
+
+  it('explains which rules each formula waits for', () => {
+    const explained: string[] = [];
+    sortRulesByDependency([
+      rule('tax-total', '{{pricingRule.tax-base}} * 2 + {{pricingRule.tax-base}}'),
+      rule('tax-base')
+    ], [], (sorted, dependsOn) => explained.push(`${sorted.pricingRuleId} <- ${dependsOn.join(', ')}`));
+
+    expect(explained).toEqual(['tax-total <- tax-base']);
+  });
+
+  it('does not treat two formulas reading the same service total as a cycle', () => {
+    const rules = [
+      rule('bookkeeping-review', '{{monthly_bookkeeping_fee}} * 0.1'),
+      rule('bookkeeping-payroll', '{{monthly_bookkeeping_fee}} * 0.2'),
+      rule('bookkeeping-base')
+    ];
+    expect(ids(sortRulesByDependency(rules, monthlyBookkeeping))).toEqual(['bookkeeping-base', 'bookkeeping-review', 'bookkeeping-payroll']);
+  });
+
+  it('names the rules and variables of a cycle', () => {
+    const rules = [
+      rule('tax-a', '{{pricingRule.tax-b}} + 1'),
+      rule('tax-b', '{{pricingRule.tax-a}} + 1'),
+      rule('tax-c')
+    ];
+
+    try {
+      sortRulesByDependency(rules);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PricingRuleCycleError);
+      expect((error as PricingRuleCycleError).cycle).toEqual(['tax-a', 'tax-b', 'tax-a']);
+      expect((error as PricingRuleCycleError).message).toContain('tax-b (via {{pricingRule.tax-b}})');
+    }
+  });
+});
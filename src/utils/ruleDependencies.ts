@@ -0,0 +1,214 @@
+import { PricingConfig, ServiceConfig } from '../types/quote';
+import { FormulaError, getFormulaVariables, parseFormula } from './formulaParser';
+import { effectiveRangesOverlap } from './pricingVersions';
+
+/**
+ * Rule dependency graph for formula pricing
+ *
+ * Every {{...}} reference in a formula becomes an edge to the rule(s) whose
+ * price it reads:
+ * - {{pricingRule.rule-id}}        -> that rule
+ * - {{individualTaxTotal}} etc.    -> every rule feeding that service total
+ *                                    (same serviceId, and same billing frequency
+ *                                    when the Services row specifies one)
+ * - {{monthlyBookkeepingRate}}     -> every bookkeeping rule
+ *
+ * Only active rules that can be in effect together with the formula feed a
+ * total, and a formula that reads a total never counts towards that same
+ * total - two formulas reading {{monthly_bookkeeping_fee}} don't depend on
+ * each other.
+ *
+ * Rules are then evaluated in topological order so a formula never reads a
+ * price that hasn't been calculated yet, regardless of Airtable row order.
+ */
+
+// Edge from a formula rule to a rule it reads (index into the rules array)
+export interface RuleDependencyEdge {
+  index: number;
+  variable: string;
+}
+
+/**
+ * Thrown when formulas reference each other in a loop
+ * `cycle` lists the rule IDs in order, ending with the rule it started from.
+ */
+export class PricingRuleCycleError extends Error {
+  cycle: string[];
+
+  constructor(cycle: string[], variables: string[]) {
+    const path = cycle
+      .map((ruleId, index) => index === 0 ? ruleId : `${ruleId} (via {{${variables[index - 1]}}})`)
+      .join(' → ');
+    super(`Circular formula dependency: ${path}`);
+    this.name = 'PricingRuleCycleError';
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Variables read by a rule's formula ([] for other methods and syntax errors)
+ */
+export const getRuleFormulaVariables = (rule: PricingConfig): string[] => {
+  if (rule.calculationMethod !== 'formula' || !rule.formulaExpression?.trim()) {
+    return [];
+  }
+
+  try {
+    return getFormulaVariables(parseFormula(rule.formulaExpression.trim()));
+  } catch (error) {
+    // Syntax errors are reported by the pricing loader / evaluator with positions
+    if (error instanceof FormulaError) return [];
+    throw error;
+  }
+};
+
+/**
+ * Build the dependency list for each rule (keyed by index in `rules`)
+ * A rule never depends on itself - a formula that reads its own service total
+ * sees the total of the other rules.
+ */
+export const buildRuleDependencyGraph = (
+  rules: PricingConfig[],
+  serviceConfig: ServiceConfig[] = []
+): RuleDependencyEdge[][] => {
+  const indexesByRuleId = new Map<string, number[]>();
+  rules.forEach((rule, index) => {
+    const existing = indexesByRuleId.get(rule.pricingRuleId) || [];
+    existing.push(index);
+    indexesByRuleId.set(rule.pricingRuleId, existing);
+  });
+
+  const formulaVariables = rules.map(getRuleFormulaVariables);
+
+  return rules.map((rule, ruleIndex) => {
+    const variables = formulaVariables[ruleIndex];
+    const edges: RuleDependencyEdge[] = [];
+    const addEdge = (index: number, variable: string) => {
+      if (index !== ruleIndex && !edges.some(edge => edge.index === index)) {
+        edges.push({ index, variable });
+      }
+    };
+    const feedsTotal = (index: number, variable: string) =>
+      rules[index].active &&
+      effectiveRangesOverlap(rules[index], rule) &&
+      !formulaVariables[index].includes(variable);
+
+    for (const variable of variables) {
+      if (variable.startsWith('pricingRule.')) {
+        const referencedId = variable.slice('pricingRule.'.length);
+        (indexesByRuleId.get(referencedId) || []).forEach(index => addEdge(index, variable));
+        continue;
+      }
+
+      if (variable === 'monthlyBookkeepingRate') {
+        rules.forEach((candidate, index) => {
+          if (candidate.pricingRuleId?.includes('bookkeeping') && feedsTotal(index, variable)) {
+            addEdge(index, variable);
+          }
+        });
+        continue;
+      }
+
+      serviceConfig
+        .filter(service => service.totalVariableName === variable)
+        .forEach(service => {
+          rules.forEach((candidate, index) => {
+            const frequencyMatches = !service.billingFrequency || candidate.billingFrequency === service.billingFrequency;
+            if (candidate.serviceId === service.serviceId && frequencyMatches && feedsTotal(index, variable)) {
+              addEdge(index, variable);
+            }
+          });
+        });
+    }
+
+    return edges;
+  });
+};
+
+/**
+ * Find one concrete cycle among the unresolved rules for the error message
+ */
+const findCycle = (
+  rules: PricingConfig[],
+  graph: RuleDependencyEdge[][],
+  unresolved: Set<number>
+): PricingRuleCycleError => {
+  const visiting: number[] = [];
+  const visited = new Set<number>();
+
+  const visit = (index: number): PricingRuleCycleError | null => {
+    const position = visiting.indexOf(index);
+    if (position !== -1) {
+      const loop = [...visiting.slice(position), index];
+      const variables = loop.slice(1).map((next, i) =>
+        graph[loop[i]].find(edge => edge.index === next)?.variable || '?'
+      );
+      return new PricingRuleCycleError(loop.map(i => rules[i].pricingRuleId), variables);
+    }
+    if (visited.has(index)) return null;
+
+    visiting.push(index);
+    for (const edge of graph[index]) {
+      if (!unresolved.has(edge.index)) continue;
+      const found = visit(edge.index);
+      if (found) return found;
+    }
+    visiting.pop();
+    visited.add(index);
+    return null;
+  };
+
+  for (const index of unresolved) {
+    const found = visit(index);
+    if (found) return found;
+  }
+
+  // Unreachable: unresolved nodes after a topological sort always contain a cycle
+  return new PricingRuleCycleError(Array.from(unresolved).map(i => rules[i].pricingRuleId), []);
+};
+
+/**
+ * Order pricing rules so every rule comes after the rules its formula reads
+ * Rules without dependencies keep their original (Airtable) order; `explain`
+ * receives each rule that depends on others with the IDs of the rules it reads.
+ * Throws PricingRuleCycleError naming the rules involved if formulas form a loop.
+ */
+export const sortRulesByDependency = (
+  rules: PricingConfig[],
+  serviceConfig: ServiceConfig[] = [],
+  explain: (rule: PricingConfig, dependsOn: string[]) => void = () => {}
+): PricingConfig[] => {
+  const graph = buildRuleDependencyGraph(rules, serviceConfig);
+  const remainingDependencies = graph.map(edges => edges.length);
+  const dependents: number[][] = rules.map(() => []);
+  graph.forEach((edges, index) => edges.forEach(edge => dependents[edge.index].push(index)));
+
+  const ordered: number[] = [];
+  const unresolved = new Set(rules.map((_, index) => index));
+
+  // Kahn's algorithm, always taking the earliest ready rule to keep the order stable
+  while (unresolved.size > 0) {
+    let next = -1;
+    for (const index of unresolved) {
+      if (remainingDependencies[index] === 0 && (next === -1 || index < next)) {
+        next = index;
+      }
+    }
+    if (next === -1) break;
+
+    unresolved.delete(next);
+    ordered.push(next);
+    dependents[next].forEach(dependent => remainingDependencies[dependent]--);
+  }
+
+  if (unresolved.size > 0) {
+    throw findCycle(rules, graph, unresolved);
+  }
+
+  ordered.forEach(index => {
+    const dependsOn = Array.from(new Set(graph[index].map(edge => rules[edge.index].pricingRuleId)));
+    if (dependsOn.length > 0) explain(rules[index], dependsOn);
+  });
+
+  return ordered.map(index => rules[index]);
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { FormData, RateCard, SavingsEstimator } from '../types/quote';
+import { FormulaError } from './formulaParser';
+import { calculateQuote } from './quoteCalculator';
+import { SavingsContext, estimateSavings } from './savingsEstimates';
+import { bookkeepingDetails, businessTaxDetails, pricingRule, quoteForm } from './testFixtures';
+
+const hoursSaved: SavingsEstimator = {
+  estimatorId: 'bookkeeping-hours',
+  serviceId: 'bookkeeping',
+  label: 'Time saved on bookkeeping',
+  formula: '{{bookkeeping.bankAccounts}} * 4 * 12 * 50',
+  disclaimer: 'Based on 4 hours a month per account at $50/hour'
+};
+
+const entityTaxSavings: RateCard = {
+  name: 'entityTaxSavings',
+  sourceField: 'businessTax.entityType',
+  rows: [{ matchValue: 'S-Corporation', value: 3000 }, { matchValue: '*', value: 500 }]
+};
+
+const taxSavings: SavingsEstimator = {
+  estimatorId: 'business-tax-planning',
+  serviceId: 'business-tax',
+  label: 'Tax planning',
+  formula: '{{lookup.entityTaxSavings}}',
+  conditions: { all: [{ field: 'quote.hasAdvisory', operator: 'equals', value: true }] },
+  disclaimer: 'Estimates only; actual savings depend on your return'
+};
+
+const context = (formData: FormData): SavingsContext => ({
+  formData,
+  quote: { totalMonthlyFees: 0, totalOneTimeFees: 0, totalAnnual: 0, complexityScore: 0 },
+  calculatedPrices: new Map(),
+  serviceConfig: [],
+  priceMetadata: new Map(),
+  rateCards: [entityTaxSavings]
+});
+
+const form = (services: string[]) => quoteForm({
+  services,
+  bookkeeping: bookkeepingDetails({ bankAccounts: 2 }),
+  businessTax: businessTaxDetails({ entityType: 'S-Corporation' })
+});
+
+describe('estimateSavings', () => {
+  it('adds up the estimators of the selected services', () => {
+    expect(estimateSavings([hoursSaved, taxSavings], context(form(['bookkeeping', 'business-tax', 'advisory'])))).toEqual({
+      total: 4800 + 3000,
+      lines: [
+        { estimatorId: 'bookkeeping-hours', serviceId: 'bookkeeping', label: 'Time saved on bookkeeping', amount: 4800 },
+        { estimatorId: 'business-tax-planning', serviceId: 'business-tax', label: 'Tax planning', amount: 3000 }
+      ],
+      disclaimers: ['Based on 4 hours a month per account at $50/hour', 'Estimates only; actual savings depend on your return']
+    });
+  });
+
+  it('skips estimators whose conditions do not match, including quote.hasAdvisory', () => {
+    expect(estimateSavings([hoursSaved, taxSavings], context(form(['bookkeeping', 'business-tax'])))?.lines.map(line => line.estimatorId))
+      .toEqual(['bookkeeping-hours']);
+  });
+
+  it('gives undefined when no estimator applies', () => {
+    expect(estimateSavings([hoursSaved], context(form(['business-tax'])))).toBeUndefined();
+    expect(estimateSavings([], context(form(['bookkeeping'])))).toBeUndefined();
+  });
+
+  it('rounds to whole dollars and counts a negative result as $0', () => {
+    const rounded = { ...hoursSaved, formula: '{{bookkeeping.bankAccounts}} * 100.6' };
+    const negative = { ...hoursSaved, estimatorId: 'negative', formula: '0 - 250' };
+
+    expect(estimateSavings([rounded, negative], context(form(['bookkeeping'])))?.lines.map(line => line.amount)).toEqual([201, 0]);
+  });
+
+  it('tags a broken formula with the estimator ID', () => {
+    let thrown: unknown;
+    try {
+      estimateSavings([{ ...hoursSaved, formula: '{{bookkeeping.bankAccounts}} *' }], context(form(['bookkeeping'])));
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(FormulaError);
+    expect(thrown).toMatchObject({ ruleId: 'bookkeeping-hours' });
+  });
+});
+
+describe('savings in a quote', () => {
+  it('sets potentialSavings from the tenant\'s estimators', () => {
+    const rule = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 });
+    const quote = calculateQuote(form(['bookkeeping']), [rule], [], { savingsEstimators: [hoursSaved] });
+
+    expect(quote.potentialSavings).toBe(4800);
+    expect(quote.savingsEstimate?.disclaimers).toEqual([hoursSaved.disclaimer]);
+  });
+
+  it('carries no savings figure without estimators', () => {
+    const rule = pricingRule('bookkeeping-base', { pricingType: 'Base Service', basePrice: 400 });
+    const quote = calculateQuote(form(['bookkeeping']), [rule]);
+
+    expect(quote.potentialSavings).toBe(0);
+    expect(quote.savingsEstimate).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import { FormData, QuoteData, RateCard, SavingsEstimate, SavingsEstimator, ServiceConfig } from '../types/quote';
+import { FormulaError } from './formulaParser';
+import { CalculatedPriceMetadata, FormulaEvaluator } from './formulaEvaluator';
+import { Money } from './money';
+import { evaluateConditionGroup } from './pricingConditions';
+
+/**
+ * Savings estimates - QuoteData.potentialSavings
+ *
+ * Each estimator belongs to a service and is a formula (the pricing formula
+ * language) returning the annual dollars saved. Assumptions such as tax rates or
+ * income midpoints come from the tenant's rate cards ({{lookup.x}}) or constants in
+ * the formula, so every number behind the estimate is the tenant's own.
+ *
+ * There are no built-in estimators: without a Savings Estimators table the quote
+ * carries no savings figure. Loading lives in savingsService.ts; this module has no
+ * environment dependencies.
+ */
+
+/**
+ * Everything a savings formula can use
+ */
+export interface SavingsContext {
+  formData: FormData;
+  quote: Pick<QuoteData, 'totalMonthlyFees' | 'totalOneTimeFees' | 'totalAnnual'> & { complexityScore: number };
+  calculatedPrices: Map<string, Money>;
+  serviceConfig: ServiceConfig[];
+  priceMetadata: Map<string, CalculatedPriceMetadata>;
+  rateCards: RateCard[];
+}
+
+/**
+ * Estimate annual savings for the selected services
+ * Returns undefined when no estimator applies. Negative results count as $0.
+ * Throws FormulaError (tagged with the estimator ID) for a broken formula.
+ */
+export const estimateSavings = (
+  estimators: SavingsEstimator[],
+  context: SavingsContext
+): SavingsEstimate | undefined => {
+  const { formData } = context;
+
+  // Formulas and conditions also see the calculated quote under `quote.`
+  const savingsData = {
+    ...formData,
+    quote: { ...context.quote, hasAdvisory: formData.services.includes('advisory') }
+  } as unknown as FormData;
+  const evaluator = new FormulaEvaluator(
+    savingsData,
+    context.calculatedPrices,
+    context.serviceConfig,
+    context.priceMetadata,
+    context.rateCards
+  );
+
+  const lines: SavingsEstimate['lines'] = [];
+  const disclaimers: string[] = [];
+
+  estimators
+    .filter(estimator => formData.services.includes(estimator.serviceId))
+    .filter(estimator => !estimator.conditions || evaluateConditionGroup(savingsData, estimator.conditions, estimator.serviceId))
+    .forEach(estimator => {
+      let result: number;
+      try {
+        result = evaluator.evaluateExpression(estimator.formula, estimator.serviceId).result;
+      } catch (error) {
+        if (error instanceof FormulaError) {
+          error.ruleId = estimator.estimatorId;
+        }
+        throw error;
+      }
+
+      const amount = Math.max(0, Math.round(result));
+      lines.push({ estimatorId: estimator.estimatorId, serviceId: estimator.serviceId, label: estimator.label, amount });
+
+      if (estimator.disclaimer && !disclaimers.includes(estimator.disclaimer)) {
+        disclaimers.push(estimator.disclaimer);
+      }
+    });
+
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  return {
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    lines,
+    disclaimers
+  };
+};
@@ -0,0 +1,173 @@
+import { SavingsEstimator } from '../types/quote';
+import { PricingConfigError } from './pricingService';
+import { ConditionSyntaxError, parseConditionGroup } from './pricingConditions';
+import { FormulaError, parseFormula } from './formulaParser';
+
+// Savings estimators live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_SAVINGS_ESTIMATORS_TABLE_NAME = 'Savings Estimators';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one estimator
+export interface AirtableSavingsEstimatorRecord {
+  id: string;
+  fields: {
+    'Estimator ID': string;
+    'Service ID': string;
+    'Label'?: string;
+    'Formula': string;              // Annual dollars saved, pricing formula language
+    'Conditions'?: string;          // JSON condition group, same format as Trigger Conditions
+    'Disclaimer'?: string;
+    'Active'?: boolean;
+  };
+}
+
+/**
+ * Convert Savings Estimators rows into estimators
+ * Problems that make an estimator unusable (including formula syntax errors) are
+ * appended to `issues`
+ */
+export const buildSavingsEstimators = (records: AirtableSavingsEstimatorRecord[], issues: string[]): SavingsEstimator[] => {
+  const estimators: SavingsEstimator[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const fields = record.fields;
+    const estimatorId = fields['Estimator ID']?.trim();
+    if (!estimatorId) {
+      issues.push(`Savings Estimators row ${record.id}: Estimator ID is empty`);
+      continue;
+    }
+    if (seen.has(estimatorId)) {
+      issues.push(`Savings estimator "${estimatorId}" is defined more than once`);
+      continue;
+    }
+    seen.add(estimatorId);
+
+    const serviceId = fields['Service ID']?.trim();
+    if (!serviceId) {
+      issues.push(`Savings estimator "${estimatorId}": Service ID is empty`);
+      continue;
+    }
+
+    const formula = fields['Formula']?.trim();
+    if (!formula) {
+      issues.push(`Savings estimator "${estimatorId}": Formula is empty`);
+      continue;
+    }
+
+    try {
+      parseFormula(formula);
+      const conditionsJson = fields['Conditions']?.trim();
+      estimators.push({
+        estimatorId,
+        serviceId,
+        label: fields['Label']?.trim() || estimatorId,
+        formula,
+        conditions: conditionsJson ? parseConditionGroup(conditionsJson) : undefined,
+        disclaimer: fields['Disclaimer']?.trim() || undefined
+      });
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        error.ruleId = estimatorId;
+        issues.push(error.toDetailedString());
+        continue;
+      }
+      if (error instanceof ConditionSyntaxError) {
+        issues.push(`Savings estimator "${estimatorId}": Conditions - ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return estimators;
+};
+
+// Fetch savings estimators from Airtable
+export const fetchSavingsEstimators = async (airtableConfig?: AirtableConfig): Promise<SavingsEstimator[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  // No estimators (and so no savings figure) if Airtable is not configured
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. No savings estimate will be shown.');
+    return [];
+  }
+
+  try {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_SAVINGS_ESTIMATORS_TABLE_NAME)}?filterByFormula={Active}=TRUE()`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Tenants without the table don't show a savings figure
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Savings Estimators table in pricing base - no savings estimate');
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const issues: string[] = [];
+    const estimators = buildSavingsEstimators(data.records || [], issues);
+
+    if (issues.length > 0) {
+      console.error('❌ Invalid savings estimators:');
+      issues.forEach(issue => console.error(issue));
+      throw new PricingConfigError(issues);
+    }
+
+    console.log(`Successfully fetched ${estimators.length} savings estimator(s) from Airtable`);
+    return estimators;
+
+  } catch (error) {
+    // Broken estimators must surface to the pricing admin, not be masked
+    if (error instanceof PricingConfigError) {
+      throw error;
+    }
+
+    console.error('Network error fetching savings estimators from Airtable:', error);
+    console.log('No savings estimate will be shown');
+    return [];
+  }
+};
+
+// Cache savings estimators to avoid repeated API calls (tenant-scoped)
+const savingsEstimatorCache = new Map<string, { estimators: SavingsEstimator[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCachedSavingsEstimators = async (airtableConfig?: AirtableConfig): Promise<SavingsEstimator[]> => {
+  const cacheKey = airtableConfig ? `${airtableConfig.baseId}:${airtableConfig.apiKey}` : 'default';
+  const now = Date.now();
+
+  const cached = savingsEstimatorCache.get(cacheKey);
+  if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+    return cached.estimators;
+  }
+
+  const estimators = await fetchSavingsEstimators(airtableConfig);
+  savingsEstimatorCache.set(cacheKey, { estimators, timestamp: now });
+
+  return estimators;
+};
+
+// Clear savings estimator cache (useful for testing or manual refresh)
+export const clearSavingsEstimatorCache = (airtableConfig?: AirtableConfig): void => {
+  if (airtableConfig) {
+    savingsEstimatorCache.delete(`${airtableConfig.baseId}:${airtableConfig.apiKey}`);
+  } else {
+    savingsEstimatorCache.clear();
+  }
+};
@@ -1,4 +1,5 @@
 import { ServiceConfig } from '../types/quote';
+import { formatConfigIssue, validateConfigRecords } from './configSchema';
 
 // Airtable configuration for services (fallback to env vars for development)
 const AIRTABLE_SERVICES_BASE_ID = import.meta.env.VITE_AIRTABLE_SERVICES_BASE_ID || '';
@@ -143,6 +144,22 @@ const convertAirtableServiceRecord = (record: AirtableServiceRecord): ServiceCon
   };
 };
 
+/**
+ * Convert Services rows (from the API or a CSV export) in Service Order
+ * Rows that don't match the Services schema are quarantined (reported, not shown)
+ */
+export const buildServiceConfig = (records: AirtableServiceRecord[]): ServiceConfig[] => {
+  const schemaReport = validateConfigRecords('Services', records);
+  schemaReport.issues.forEach(issue =>
+    issue.severity === 'error' ? console.error(`❌ ${formatConfigIssue(issue)}`) : console.warn(`⚠️ ${formatConfigIssue(issue)}`)
+  );
+
+  return records
+    .filter(record => !schemaReport.quarantined.includes(record.id))
+    .map(record => convertAirtableServiceRecord(record))
+    .sort((a, b) => (a.serviceOrder ?? 999) - (b.serviceOrder ?? 999));
+};
+
 // Fetch service configuration from Airtable
 export const fetchServiceConfig = async (airtableConfig?: AirtableConfig): Promise<ServiceConfig[]> => {
   // Use tenant-specific config or fall back to environment variables
@@ -177,9 +194,11 @@ export const fetchServiceConfig = async (airtableConfig?: AirtableConfig): Promi
       return defaultServiceConfig;
     }
 
-    const serviceConfig = data.records.map((record: AirtableServiceRecord) => 
-      convertAirtableServiceRecord(record)
-    ).sort((a, b) => a.serviceOrder - b.serviceOrder);
+    const serviceConfig = buildServiceConfig(data.records);
+    if (serviceConfig.length === 0) {
+      console.warn('Every service record failed validation. Using default services.');
+      return defaultServiceConfig;
+    }
 
     console.log('Successfully fetched service configuration from Airtable:', serviceConfig);
     return serviceConfig;
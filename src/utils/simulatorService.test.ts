@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { PricingConfigError } from './pricingService';
+import { buildPricingSnapshot, buildScenariosFromExport, detectExportTable, parseTableExport } from './simulatorService';
+
+const pricingCsv = [
+  'Service ID,Pricing Rule ID,Rule Name,Pricing Type,Base Price,Billing Frequency,Active',
+  'bookkeeping,bookkeeping-base,Bookkeeping,Base Service,$400,Monthly,checked',
+  'bookkeeping,bookkeeping-old,Old bookkeeping,Base Service,$350,Monthly,'
+].join('\n');
+
+const scenarioRow = (id: string, fields: Record<string, unknown>) => ({
+  id,
+  fields: { 'Scenario ID': id, 'Form Data': '{"services": ["bookkeeping"]}', 'Active': true, ...fields }
+});
+
+describe('detectExportTable', () => {
+  it('reads the table from Airtable download names and plain exports', () => {
+    expect(detectExportTable('Downloads/Pricing Variables-Grid view (46).csv')).toBe('Pricing Variables');
+    expect(detectExportTable('Complexity Tiers.json')).toBe('Complexity Tiers');
+    expect(detectExportTable('pricing.csv')).toBeUndefined();
+  });
+});
+
+describe('parseTableExport', () => {
+  it('reads CSV rows and both JSON shapes', () => {
+    expect(parseTableExport('Pricing Variables.csv', pricingCsv)[0]).toEqual({
+      id: 'row 2',
+      fields: {
+        'Service ID': 'bookkeeping',
+        'Pricing Rule ID': 'bookkeeping-base',
+        'Rule Name': 'Bookkeeping',
+        'Pricing Type': 'Base Service',
+        'Base Price': '$400',
+        'Billing Frequency': 'Monthly',
+        'Active': 'checked'
+      }
+    });
+    expect(parseTableExport('Services.json', '{"records": [{"id": "rec1", "fields": {"Service ID": "bookkeeping"}}]}'))
+      .toEqual([{ id: 'rec1', fields: { 'Service ID': 'bookkeeping' } }]);
+    expect(parseTableExport('Services.json', '[{"fields": {}}]')).toEqual([{ id: 'record 1', fields: {} }]);
+    expect(() => parseTableExport('Services.json', '{"rows": []}')).toThrow('Services.json: expected an array of records or {"records": [...]}');
+  });
+});
+
+describe('buildPricingSnapshot', () => {
+  it('builds the pricing from the active rows of the exports', () => {
+    const snapshot = buildPricingSnapshot({ 'Pricing Variables': parseTableExport('Pricing Variables.csv', pricingCsv) });
+
+    expect(snapshot.pricingConfig.map(rule => [rule.pricingRuleId, rule.basePrice])).toEqual([['bookkeeping-base', 400]]);
+    expect(snapshot.options.rateCards).toEqual([]);
+  });
+
+  it('lays a draft table over the live snapshot', () => {
+    const live = buildPricingSnapshot({ 'Pricing Variables': parseTableExport('Pricing Variables.csv', pricingCsv) });
+    const draft = buildPricingSnapshot({
+      'Services': [{ id: 'rec1', fields: { 'Service ID': 'bookkeeping', 'Title': 'Bookkeeping', 'Active': true } }]
+    }, live);
+
+    expect(draft.pricingConfig).toBe(live.pricingConfig);
+    expect(draft.serviceConfig.map(service => service.serviceId)).toEqual(['bookkeeping']);
+  });
+
+  it('lists every problem instead of dropping broken rows', () => {
+    const run = () => buildPricingSnapshot({
+      'Pricing Variables': parseTableExport('Pricing Variables.csv', [
+        pricingCsv.split('\n')[0] + ',Rate Card,Calculation Method',
+        'bookkeeping,bookkeeping-base,Bookkeeping,Base Service,,Monthly,checked,entityPrices,',
+        'bookkeeping,bookkeeping-formula,Formula,Add-on,,Monthly,checked,,formula'
+      ].join('\n'))
+    });
+
+    expect(run).toThrow(PricingConfigError);
+    expect(run).toThrow('Calculation Method is "formula" but Formula Expression is empty');
+    expect(run).toThrow('Rate Card "entityPrices" does not exist');
+  });
+
+  it('needs the pricing rules when there is no live snapshot', () => {
+    expect(() => buildPricingSnapshot({})).toThrow('No Pricing Variables export - the simulator needs the pricing rules');
+  });
+});
+
+describe('buildScenariosFromExport', () => {
+  it('reads the active scenarios', () => {
+    expect(buildScenariosFromExport([
+      scenarioRow('monthly', { 'Name': 'Monthly bookkeeping', 'Expected Quote': '{"totalMonthlyFees": 400}' }),
+      scenarioRow('retired', { 'Active': '' })
+    ])).toEqual([{
+      scenarioId: 'monthly',
+      name: 'Monthly bookkeeping',
+      formData: { services: ['bookkeeping'] },
+      expected: { totalMonthlyFees: 400 },
+      notes: undefined
+    }]);
+  });
+
+  it('refuses scenarios it cannot run', () => {
+    const run = () => buildScenariosFromExport([
+      scenarioRow('no-services', { 'Form Data': '{}' }),
+      scenarioRow('bad-json', { 'Form Data': '{services' }),
+      scenarioRow('monthly', {}),
+      scenarioRow('monthly', {})
+    ]);
+
+    expect(run).toThrow('Scenario "no-services": Form Data needs a "services" list');
+    expect(run).toThrow('Scenario "bad-json": Form Data is not valid JSON');
+    expect(run).toThrow('Scenario "monthly": Scenario ID is used more than once');
+  });
+});
@@ -0,0 +1,333 @@
+import { FormData } from '../types/quote';
+import { TenantConfig } from './tenantService';
+import { PricingScenario, PricingSnapshot } from './pricingSimulator';
+import { AirtablePricingRecord, PricingConfigError, buildPricingConfig, fetchPricingConfig } from './pricingService';
+import { AirtableServiceRecord, buildServiceConfig, fetchServiceConfig } from './serviceConfigService';
+import { AirtableRateCardRecord, buildRateCards, fetchRateCards } from './rateCardService';
+import {
+  AirtableComplexityFactorRecord,
+  AirtableComplexityTierRecord,
+  buildComplexityFactors,
+  buildComplexityThresholds,
+  fetchComplexityModel
+} from './complexityService';
+import { AirtableRecommendationRecord, buildRecommendationRules, fetchRecommendationRules } from './recommendationService';
+import { AirtableSavingsEstimatorRecord, buildSavingsEstimators, fetchSavingsEstimators } from './savingsService';
+import { AirtableFilingDeadlineRecord, buildFilingDeadlines, fetchFilingDeadlines } from './filingDeadlineService';
+import { defaultFilingDeadlines } from './filingCalendar';
+import { AirtableDiscountProgramRecord, buildDiscountPrograms, fetchDiscountPrograms } from './discountProgramService';
+import { defaultDiscountPrograms } from './discountPrograms';
+import { defaultComplexityModel, validateComplexityModel } from './complexityScoring';
+import { defaultRecommendationRules } from './recommendations';
+import { validateRateCardReferences } from './rateCards';
+import { sortRulesByDependency } from './ruleDependencies';
+import { parseCsvRecords } from './csv';
+import { RawConfigRecord, readConfigText } from './configSchema';
+
+/**
+ * Pricing Simulator Service
+ * Loads saved scenarios and the pricing they run against - live from Airtable,
+ * or from CSV / JSON exports of the pricing tables (draft pricing in the admin
+ * screen, or the headless simulate-pricing CLI with no Airtable at all)
+ */
+
+// Scenarios live in the pricing base (fallback to env vars for development)
+const AIRTABLE_PRICING_BASE_ID = import.meta.env.VITE_AIRTABLE_PRICING_BASE_ID || '';
+const AIRTABLE_PRICING_API_KEY = import.meta.env.VITE_AIRTABLE_PRICING_API_KEY || '';
+const AIRTABLE_SCENARIOS_TABLE_NAME = 'Pricing Scenarios';
+
+export interface AirtableConfig {
+  baseId: string;
+  apiKey: string;
+}
+
+// One Airtable row = one scenario
+export interface AirtablePricingScenarioRecord {
+  id: string;
+  fields: {
+    'Scenario ID': string;
+    'Name'?: string;
+    'Form Data': string;        // JSON FormData, as sent to calculateQuote
+    'Expected Quote'?: string;  // JSON QuoteData (whole or partial); empty = no baseline yet
+    'Notes'?: string;
+    'Active'?: boolean | string;
+  };
+}
+
+// Tables a pricing snapshot is built from
+export const PRICING_EXPORT_TABLES = [
+  'Pricing Variables',
+  'Services',
+  'Rate Cards',
+  'Complexity Factors',
+  'Complexity Tiers',
+  'Recommendations',
+  'Savings Estimators',
+  'Filing Deadlines',
+  'Discount Programs',
+  'Pricing Scenarios'
+] as const;
+
+export type PricingExportTable = typeof PRICING_EXPORT_TABLES[number];
+
+export type PricingExportTables = { [table in PricingExportTable]?: RawConfigRecord[] };
+
+// Tables whose loaders only read active rows (exports contain every row)
+const ACTIVE_ONLY_TABLES: PricingExportTable[] = [
+  'Pricing Variables',
+  'Services',
+  'Rate Cards',
+  'Complexity Factors',
+  'Recommendations',
+  'Savings Estimators',
+  'Filing Deadlines',
+  'Discount Programs',
+  'Pricing Scenarios'
+];
+
+const isActive = (record: RawConfigRecord): boolean => {
+  const value = record.fields['Active'];
+  return value === true || ['checked', 'true', '1', 'yes'].includes((readConfigText(value) || '').toLowerCase());
+};
+
+/**
+ * Work out which table an export belongs to from its file name
+ * Airtable names downloads "<Table>-<View>.csv", e.g. "Pricing Variables-Grid view (46).csv"
+ */
+export const detectExportTable = (fileName: string): PricingExportTable | undefined => {
+  const baseName = fileName.split(/[\\/]/).pop() || fileName;
+  return [...PRICING_EXPORT_TABLES]
+    .sort((a, b) => b.length - a.length)
+    .find(table => baseName === `${table}.csv` || baseName === `${table}.json` || baseName.startsWith(`${table}-`));
+};
+
+/**
+ * Parse an exported table: a CSV download, or JSON as returned by the API
+ * ({"records": [...]}) or a plain array of records
+ */
+export const parseTableExport = (fileName: string, text: string): RawConfigRecord[] => {
+  if (!fileName.toLowerCase().endsWith('.json')) {
+    return parseCsvRecords(text);
+  }
+
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed.records;
+  if (!Array.isArray(records)) {
+    throw new Error(`${fileName}: expected an array of records or {"records": [...]}`);
+  }
+  return records.map((record, index) => ({
+    id: record.id || `record ${index + 1}`,
+    fields: record.fields || {}
+  }));
+};
+
+/**
+ * Convert Pricing Scenarios rows into scenarios
+ * Problems that make a scenario unusable are appended to `issues`
+ */
+export const buildPricingScenarios = (records: AirtablePricingScenarioRecord[], issues: string[]): PricingScenario[] => {
+  const scenarios: PricingScenario[] = [];
+  const seen = new Set<string>();
+
+  const parseJson = (scenarioId: string, column: string, value: string | undefined): Record<string, unknown> | undefined => {
+    if (!value || !String(value).trim()) return undefined;
+    try {
+      const parsed = JSON.parse(String(value));
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) return parsed;
+      issues.push(`Scenario "${scenarioId}": ${column} must be a JSON object`);
+    } catch (error) {
+      issues.push(`Scenario "${scenarioId}": ${column} is not valid JSON (${(error as Error).message})`);
+    }
+    return undefined;
+  };
+
+  for (const record of records) {
+    const fields = record.fields;
+    const scenarioId = fields['Scenario ID']?.trim();
+    if (!scenarioId) {
+      issues.push(`Pricing Scenarios row ${record.id}: Scenario ID is empty`);
+      continue;
+    }
+    if (seen.has(scenarioId)) {
+      issues.push(`Scenario "${scenarioId}": Scenario ID is used more than once`);
+      continue;
+    }
+    seen.add(scenarioId);
+
+    const formData = parseJson(scenarioId, 'Form Data', fields['Form Data']);
+    if (!formData) {
+      if (!fields['Form Data']) issues.push(`Scenario "${scenarioId}": Form Data is empty`);
+      continue;
+    }
+    if (!Array.isArray(formData.services)) {
+      issues.push(`Scenario "${scenarioId}": Form Data needs a "services" list`);
+      continue;
+    }
+
+    scenarios.push({
+      scenarioId,
+      name: fields['Name']?.trim() || scenarioId,
+      formData: formData as unknown as FormData,
+      expected: parseJson(scenarioId, 'Expected Quote', fields['Expected Quote']),
+      notes: fields['Notes']?.trim() || undefined
+    });
+  }
+
+  return scenarios;
+};
+
+// Fetch saved scenarios from Airtable (none if the base has no Pricing Scenarios table)
+export const fetchPricingScenarios = async (airtableConfig?: AirtableConfig): Promise<PricingScenario[]> => {
+  // Use tenant-specific config or fall back to environment variables
+  const baseId = airtableConfig?.baseId || AIRTABLE_PRICING_BASE_ID;
+  const apiKey = airtableConfig?.apiKey || AIRTABLE_PRICING_API_KEY;
+
+  if (!baseId || !apiKey) {
+    console.warn('Airtable pricing configuration not found. No pricing scenarios to run.');
+    return [];
+  }
+
+  const records: AirtablePricingScenarioRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const url = `https://api.airtable.com/v0/${baseId}/${encodeURIComponent(AIRTABLE_SCENARIOS_TABLE_NAME)}?filterByFormula={Active}=TRUE()${offset ? `&offset=${offset}` : ''}`;
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (response.status === 403 || response.status === 404) {
+      console.log('No Pricing Scenarios table in pricing base - no scenarios to run');
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Airtable API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  const issues: string[] = [];
+  const scenarios = buildPricingScenarios(records, issues);
+  if (issues.length > 0) {
+    console.error('❌ Invalid pricing scenarios:');
+    issues.forEach(issue => console.error(issue));
+    throw new PricingConfigError(issues);
+  }
+
+  console.log(`Successfully fetched ${scenarios.length} pricing scenario(s) from Airtable`);
+  return scenarios;
+};
+
+/**
+ * Build a pricing snapshot from exported tables
+ * Tables that are present replace the matching part of `base` (draft pricing over
+ * the live snapshot); without a base, missing tables fall back the same way the
+ * loaders do when a base has no such table. Pricing Variables is required then.
+ * Throws PricingConfigError listing every problem - stricter than the pricing
+ * loader, which drops broken rows, so a draft is fixed before it goes live.
+ */
+export const buildPricingSnapshot = (tables: PricingExportTables, base?: PricingSnapshot): PricingSnapshot => {
+  const issues: string[] = [];
+  const rows = <T>(table: PricingExportTable): T[] | undefined => {
+    const records = tables[table];
+    if (!records) return undefined;
+    return (ACTIVE_ONLY_TABLES.includes(table) ? records.filter(isActive) : records) as unknown as T[];
+  };
+
+  const pricingRows = rows<AirtablePricingRecord>('Pricing Variables');
+  const serviceRows = rows<AirtableServiceRecord>('Services');
+  const rateCardRows = rows<AirtableRateCardRecord>('Rate Cards');
+  const factorRows = rows<AirtableComplexityFactorRecord>('Complexity Factors');
+  const tierRows = rows<AirtableComplexityTierRecord>('Complexity Tiers');
+  const recommendationRows = rows<AirtableRecommendationRecord>('Recommendations');
+  const savingsRows = rows<AirtableSavingsEstimatorRecord>('Savings Estimators');
+  const deadlineRows = rows<AirtableFilingDeadlineRecord>('Filing Deadlines');
+  const programRows = rows<AirtableDiscountProgramRecord>('Discount Programs');
+
+  if (!pricingRows && !base) {
+    throw new PricingConfigError(['No Pricing Variables export - the simulator needs the pricing rules']);
+  }
+
+  const baseModel = base?.options.complexityModel || defaultComplexityModel;
+  const complexityModel = {
+    factors: factorRows ? buildComplexityFactors(factorRows, issues) : baseModel.factors,
+    thresholds: tierRows ? buildComplexityThresholds(tierRows, issues) : baseModel.thresholds
+  };
+  const snapshot: PricingSnapshot = {
+    pricingConfig: pricingRows ? buildPricingConfig(pricingRows, issues) : base?.pricingConfig || [],
+    serviceConfig: serviceRows ? buildServiceConfig(serviceRows) : base?.serviceConfig || [],
+    options: {
+      rateCards: rateCardRows ? buildRateCards(rateCardRows, issues) : base?.options.rateCards || [],
+      complexityModel,
+      recommendationRules: recommendationRows
+        ? buildRecommendationRules(recommendationRows, issues)
+        : base?.options.recommendationRules || defaultRecommendationRules,
+      savingsEstimators: savingsRows ? buildSavingsEstimators(savingsRows, issues) : base?.options.savingsEstimators || [],
+      filingDeadlines: deadlineRows
+        ? buildFilingDeadlines(deadlineRows, issues)
+        : base?.options.filingDeadlines || defaultFilingDeadlines,
+      discountPrograms: programRows
+        ? buildDiscountPrograms(programRows, issues)
+        : base?.options.discountPrograms || defaultDiscountPrograms
+    }
+  };
+
+  issues.push(...validateComplexityModel(complexityModel));
+  issues.push(...validateRateCardReferences(snapshot.pricingConfig, snapshot.options.rateCards || []));
+  if (issues.length > 0) {
+    throw new PricingConfigError(issues);
+  }
+
+  // Surface circular formula references before any scenario runs
+  sortRulesByDependency(snapshot.pricingConfig, snapshot.serviceConfig);
+  return snapshot;
+};
+
+/**
+ * Build the scenarios in a Pricing Scenarios export
+ */
+export const buildScenariosFromExport = (records: RawConfigRecord[]): PricingScenario[] => {
+  const issues: string[] = [];
+  const scenarios = buildPricingScenarios(records.filter(isActive) as unknown as AirtablePricingScenarioRecord[], issues);
+  if (issues.length > 0) {
+    throw new PricingConfigError(issues);
+  }
+  return scenarios;
+};
+
+/**
+ * Load the tenant's current pricing straight from Airtable (bypassing the 5-minute caches)
+ */
+export const fetchPricingSnapshot = async (tenant: TenantConfig): Promise<PricingSnapshot> => {
+  const pricingConfig = { baseId: tenant.airtable.pricingBaseId, apiKey: tenant.airtable.pricingApiKey };
+  const servicesConfig = { baseId: tenant.airtable.servicesBaseId, apiKey: tenant.airtable.servicesApiKey };
+
+  const [pricing, services, rateCards, complexityModel, recommendationRules, savingsEstimators, filingDeadlines, discountPrograms] = await Promise.all([
+    fetchPricingConfig(pricingConfig),
+    fetchServiceConfig(servicesConfig),
+    fetchRateCards(pricingConfig),
+    fetchComplexityModel(pricingConfig),
+    fetchRecommendationRules(pricingConfig),
+    fetchSavingsEstimators(pricingConfig),
+    fetchFilingDeadlines(pricingConfig),
+    fetchDiscountPrograms(pricingConfig)
+  ]);
+
+  const issues = validateRateCardReferences(pricing, rateCards);
+  if (issues.length > 0) {
+    throw new PricingConfigError(issues);
+  }
+  sortRulesByDependency(pricing, services);
+
+  return {
+    pricingConfig: pricing,
+    serviceConfig: services,
+    options: { rateCards, complexityModel, recommendationRules, savingsEstimators, filingDeadlines, discountPrograms }
+  };
+};
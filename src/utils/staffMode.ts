@@ -0,0 +1,26 @@
+/**
+ * Staff mode - shows internal views (e.g. the "Explain this price" panel) in the calculator
+ *
+ * Open the calculator with ?staff=1 to turn it on (remembered in this browser) and
+ * ?staff=0 to turn it off. This only keeps internal views out of clients' way; it
+ * is not access control - the quote trace is calculated in the browser either way.
+ */
+
+const STAFF_MODE_STORAGE_KEY = 'staffMode';
+
+export const isStaffMode = (): boolean => {
+  const staffParam = new URLSearchParams(window.location.search).get('staff');
+
+  try {
+    if (staffParam === '1') {
+      localStorage.setItem(STAFF_MODE_STORAGE_KEY, 'true');
+    } else if (staffParam === '0') {
+      localStorage.removeItem(STAFF_MODE_STORAGE_KEY);
+    }
+    return localStorage.getItem(STAFF_MODE_STORAGE_KEY) === 'true';
+  } catch (error) {
+    // Storage can be blocked (private browsing, iframes) - fall back to the URL alone
+    console.warn('Staff mode: localStorage unavailable, using the URL parameter only', error);
+    return staffParam === '1';
+  }
+};
@@ -39,6 +39,7 @@ export interface Quote {
   total_one_time_fees: number;
   total_annual: number;
   services_selected: string[];
+  promo_code: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,96 @@
+import { FormData, PricingConfig, ServiceConfig } from '../types/quote';
+
+/**
+ * Typed builders for unit test fixtures
+ * Each returns a complete row with neutral defaults so tests only spell out
+ * the fields they are about.
+ */
+
+type BusinessTaxDetails = NonNullable<FormData['businessTax']>;
+type BookkeepingDetails = NonNullable<FormData['bookkeeping']>;
+
+// A simple, active Monthly rule priced at $0 unless overridden
+export const pricingRule = (pricingRuleId: string, overrides: Partial<PricingConfig> = {}): PricingConfig => ({
+  serviceId: 'bookkeeping',
+  pricingRuleId,
+  serviceName: pricingRuleId,
+  description: '',
+  pricingType: 'Add-on',
+  basePrice: 0,
+  billingFrequency: 'Monthly',
+  active: true,
+  perUnitPricing: false,
+  advisoryDiscountEligible: false,
+  advisoryDiscountPercentage: 0,
+  includedFeatures: [],
+  addOns: [],
+  calculationMethod: 'simple',
+  ...overrides
+});
+
+export const serviceRow = (serviceId: string, overrides: Partial<ServiceConfig> = {}): ServiceConfig => ({
+  serviceId,
+  title: serviceId,
+  description: '',
+  iconName: '',
+  color: '',
+  featured: false,
+  benefits: [],
+  active: true,
+  ...overrides
+});
+
+// Empty contact details and no services selected
+export const quoteForm = (overrides: Partial<FormData> = {}): FormData => ({
+  contactInfo: {},
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  services: [],
+  ...overrides
+});
+
+export const businessTaxDetails = (overrides: Partial<BusinessTaxDetails> = {}): BusinessTaxDetails => ({
+  entityType: '',
+  businessIndustry: '',
+  numberOfOwners: 1,
+  otherSituations: [],
+  additionalConsiderations: [],
+  additionalStateCount: 0,
+  fixedAssetAcquisitionCount: 0,
+  taxYear: '',
+  complexity: '',
+  taxSituations: [],
+  isFirstYearEntity: false,
+  hasOwnershipChanges: false,
+  hasFixedAssetAcquisitions: false,
+  timeline: '',
+  previousPreparer: '',
+  specialCircumstances: '',
+  ...overrides
+});
+
+export const bookkeepingDetails = (overrides: Partial<BookkeepingDetails> = {}): BookkeepingDetails => ({
+  currentStatus: '',
+  monthsBehind: '',
+  bankAccounts: 0,
+  creditCards: 0,
+  bankLoans: 0,
+  transactionVolume: 0,
+  monthlyTransactions: 0,
+  servicesNeeded: [],
+  frequency: '',
+  servicefrequency: '',
+  additionalConsiderations: [],
+  needsCleanup: false,
+  hasThirdPartyIntegration: false,
+  hasFixedAssets: false,
+  fixedAssetsCount: 0,
+  fixedassets: 0,
+  cleanuphours: 0,
+  hasInventory: false,
+  startTimeline: '',
+  challenges: '',
+  ...overrides
+});
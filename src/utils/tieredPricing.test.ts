@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { TierTable } from '../types/quote';
+import { calculateQuote } from './quoteCalculator';
+import { TierTableSyntaxError, calculateTieredPrice, describeTier, parseTierTable } from './tieredPricing';
+import { bookkeepingDetails, pricingRule, quoteForm } from './testFixtures';
+
+const graduated: TierTable = {
+  style: 'graduated',
+  tiers: [{ upTo: 100, flatPrice: 250 }, { upTo: 250, unitPrice: 1.5 }, { unitPrice: 1 }]
+};
+
+const volume: TierTable = {
+  style: 'volume',
+  tiers: [{ upTo: 100, unitPrice: 2 }, { upTo: 250, unitPrice: 1.5 }, { flatPrice: 50, unitPrice: 1 }]
+};
+
+describe('calculateTieredPrice', () => {
+  it('graduated: prices each unit at the rate of its tier, plus the flat price of every tier reached', () => {
+    expect(calculateTieredPrice(graduated, 0)).toBe(250);
+    expect(calculateTieredPrice(graduated, 100)).toBe(250);
+    expect(calculateTieredPrice(graduated, 150)).toBe(250 + 50 * 1.5);
+    expect(calculateTieredPrice(graduated, 300)).toBe(250 + 150 * 1.5 + 50);
+  });
+
+  it('volume: prices every unit at the rate of the tier the quantity falls in', () => {
+    expect(calculateTieredPrice(volume, 100)).toBe(200);
+    expect(calculateTieredPrice(volume, 101)).toBe(151.5);
+    expect(calculateTieredPrice(volume, 300)).toBe(50 + 300);
+  });
+
+  it('prices a negative quantity as none', () => {
+    expect(calculateTieredPrice(volume, -5)).toBe(0);
+  });
+
+  it('describes the tier a quantity falls in', () => {
+    expect(describeTier(graduated, 150)).toBe('101-250 @ $1.5/unit (graduated)');
+    expect(describeTier(volume, 300)).toBe('251+ @ $50 flat + $1/unit (volume)');
+  });
+});
+
+describe('parseTierTable', () => {
+  it('reads the Tier Table column, graduated by default', () => {
+    expect(parseTierTable('{"tiers": [{"upTo": 100, "flatPrice": 250}, {"upTo": 250, "unitPrice": 1.5}, {"unitPrice": 1}]}')).toEqual(graduated);
+  });
+
+  it('points at the tier that is wrong', () => {
+    expect(() => parseTierTable('{tiers: []}')).toThrow(TierTableSyntaxError);
+    expect(() => parseTierTable('{"style": "stepped", "tiers": [{"unitPrice": 1}]}')).toThrow('style: expected "graduated" or "volume"');
+    expect(() => parseTierTable('{"tiers": []}')).toThrow('tiers: expected a non-empty array');
+    expect(() => parseTierTable('{"tiers": [{"unitPrice": 1}, {"unitPrice": 2}]}')).toThrow('tiers[0].upTo: only the last tier may leave upTo empty');
+    expect(() => parseTierTable('{"tiers": [{"upTo": 50, "unitPrice": 1}, {"upTo": 50, "unitPrice": 2}]}')).toThrow('tiers[1].upTo: tiers must be in ascending order (50 follows 50)');
+    expect(() => parseTierTable('{"tiers": [{"upTo": 50}]}')).toThrow('tiers[0]: needs a unitPrice and/or flatPrice');
+  });
+});
+
+describe('tiered rules in a quote', () => {
+  it('prices the quantity field against the rule\'s tier table', () => {
+    const rule = pricingRule('bookkeeping-transactions', {
+      pricingType: 'Base Service',
+      calculationMethod: 'tiered',
+      quantitySourceField: 'bookkeeping.monthlyTransactions',
+      tierTable: graduated
+    });
+    const form = quoteForm({ services: ['bookkeeping'], bookkeeping: bookkeepingDetails({ monthlyTransactions: 150 }) });
+    const quote = calculateQuote(form, [rule]);
+
+    expect(quote.totalMonthlyFees).toBe(325);
+    expect(quote.trace.rules[0].steps).toContain('Quantity bookkeeping.monthlyTransactions = 150 → tier 101-250 @ $1.5/unit (graduated) = $325');
+  });
+});
@@ -0,0 +1,145 @@
+import { TierTable, PriceTier } from '../types/quote';
+
+/**
+ * Tiered (bracket) pricing - calculation method "tiered"
+ *
+ * The tier table comes from the Pricing Variables "Tier Table" JSON column:
+ * {"style": "graduated", "tiers": [
+ *   {"upTo": 100, "flatPrice": 250},
+ *   {"upTo": 250, "unitPrice": 1.5},
+ *   {"unitPrice": 1}
+ * ]}
+ *
+ * Each tier covers quantities above the previous tier's upTo, up to and including
+ * its own upTo. The last tier may omit upTo (no upper limit).
+ *
+ * - volume:    the tier containing the quantity prices every unit
+ *              price = flatPrice + quantity × unitPrice
+ * - graduated: each unit is priced at the rate of the tier it falls in, and the
+ *              flatPrice of every tier reached is added (the first tier always is)
+ */
+
+/**
+ * Thrown when a "Tier Table" JSON value isn't a valid tier table
+ */
+export class TierTableSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TierTableSyntaxError';
+  }
+}
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Parse and validate the "Tier Table" JSON column
+ * Throws TierTableSyntaxError describing the first problem found.
+ */
+export const parseTierTable = (json: string): TierTable => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new TierTableSyntaxError(`invalid JSON (${(error as Error).message})`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new TierTableSyntaxError('expected an object with "style" and "tiers"');
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const style = record.style ?? 'graduated';
+  if (style !== 'graduated' && style !== 'volume') {
+    throw new TierTableSyntaxError(`style: expected "graduated" or "volume", got ${JSON.stringify(style)}`);
+  }
+
+  const rawTiers = record.tiers;
+  if (!Array.isArray(rawTiers) || rawTiers.length === 0) {
+    throw new TierTableSyntaxError('tiers: expected a non-empty array');
+  }
+
+  let previousUpTo = -Infinity;
+  const tiers: PriceTier[] = rawTiers.map((tier: unknown, index: number) => {
+    const path = `tiers[${index}]`;
+    if (!tier || typeof tier !== 'object' || Array.isArray(tier)) {
+      throw new TierTableSyntaxError(`${path}: expected an object`);
+    }
+
+    const { upTo, unitPrice, flatPrice } = tier as Record<string, unknown>;
+    const isLast = index === rawTiers.length - 1;
+
+    if (upTo === undefined || upTo === null) {
+      if (!isLast) {
+        throw new TierTableSyntaxError(`${path}.upTo: only the last tier may leave upTo empty`);
+      }
+    } else if (!isNonNegativeNumber(upTo)) {
+      throw new TierTableSyntaxError(`${path}.upTo: expected a number of at least 0`);
+    } else if (upTo <= previousUpTo) {
+      throw new TierTableSyntaxError(`${path}.upTo: tiers must be in ascending order (${upTo} follows ${previousUpTo})`);
+    }
+
+    if (unitPrice !== undefined && !isNonNegativeNumber(unitPrice)) {
+      throw new TierTableSyntaxError(`${path}.unitPrice: expected a number of at least 0`);
+    }
+    if (flatPrice !== undefined && !isNonNegativeNumber(flatPrice)) {
+      throw new TierTableSyntaxError(`${path}.flatPrice: expected a number of at least 0`);
+    }
+    if (unitPrice === undefined && flatPrice === undefined) {
+      throw new TierTableSyntaxError(`${path}: needs a unitPrice and/or flatPrice`);
+    }
+
+    previousUpTo = typeof upTo === 'number' ? upTo : Infinity;
+    return {
+      upTo: typeof upTo === 'number' ? upTo : undefined,
+      unitPrice: unitPrice as number | undefined,
+      flatPrice: flatPrice as number | undefined
+    };
+  });
+
+  return { style, tiers };
+};
+
+/**
+ * Price a quantity against a tier table
+ * Quantities above the last tier's upTo are priced by the last tier.
+ */
+export const calculateTieredPrice = (table: TierTable, quantity: number): number => {
+  const units = Math.max(0, quantity);
+
+  if (table.style === 'volume') {
+    const tier = table.tiers.find(t => t.upTo === undefined || units <= t.upTo) || table.tiers[table.tiers.length - 1];
+    return (tier.flatPrice || 0) + units * (tier.unitPrice || 0);
+  }
+
+  let price = 0;
+  let lowerBound = 0;
+  for (const [index, tier] of table.tiers.entries()) {
+    if (index > 0 && units <= lowerBound) break;
+
+    const upper = tier.upTo === undefined ? Infinity : tier.upTo;
+    const isLast = index === table.tiers.length - 1;
+    const unitsInTier = Math.max(0, (isLast ? units : Math.min(units, upper)) - lowerBound);
+
+    price += (tier.flatPrice || 0) + unitsInTier * (tier.unitPrice || 0);
+    lowerBound = upper;
+  }
+
+  return price;
+};
+
+/**
+ * Human-readable tier for logs, e.g. "101-250 @ $1.5/unit"
+ */
+export const describeTier = (table: TierTable, quantity: number): string => {
+  const index = table.tiers.findIndex(t => t.upTo === undefined || quantity <= t.upTo);
+  const tierIndex = index === -1 ? table.tiers.length - 1 : index;
+  const tier = table.tiers[tierIndex];
+  const lower = tierIndex === 0 ? 0 : (table.tiers[tierIndex - 1].upTo as number) + 1;
+  const range = tier.upTo === undefined ? `${lower}+` : `${lower}-${tier.upTo}`;
+  const parts = [
+    tier.flatPrice ? `$${tier.flatPrice} flat` : '',
+    tier.unitPrice ? `$${tier.unitPrice}/unit` : ''
+  ].filter(Boolean);
+  return `${range} @ ${parts.join(' + ') || '$0'} (${table.style})`;
+};
@@ -1,5 +1,11 @@
-import { FormData, QuoteData, ServiceQuote, PricingConfig } from '../types/quote';
+import { FormData, QuoteData, ServiceQuote, PricingConfig, DiscountProgram } from '../types/quote';
 import { FormField } from './formFieldsService';
+import { BILLING_CHOICE_LABELS, BILLING_FREQUENCY_SUFFIXES } from './billingFrequencies';
+import { addMoney, formatDollarRange, formatDollars, multiplyMoney, roundToCents, toDollars, toMoney } from './money';
+import { applyDiscountPrograms, defaultDiscountPrograms, selectDiscountPrograms } from './discountPrograms';
+import { getPromoCodeDiscount } from './promoCodes';
+import { describeHourlyEstimates } from './hourlyEstimates';
+import { PRICES_NOT_SHOWN_DISPLAY, describeReviewReasons, needsReview } from './reviewFlags';
 
 // Zapier webhook configuration (fallback to env var for development)
 const ZAPIER_WEBHOOK_URL = import.meta.env.VITE_ZAPIER_WEBHOOK_URL || '';
@@ -53,7 +59,7 @@ const convertPricingRulesToServiceNames = (pricingRuleIds: string[]): string[] =
 const extractAdditionalServicePricing = (
   formData: FormData,
   pricingConfig: PricingConfig[],
-  hasAdvisory: boolean
+  discountPrograms: DiscountProgram[]
 ): {
   arManagementFee: number;
   arManagementBillingType: string;
@@ -92,7 +98,7 @@ const extractAdditionalServicePricing = (
 
   console.log('=== ADDITIONAL SERVICE PRICING EXTRACTION ===');
   console.log('Selected Services:', selectedServices);
-  console.log('Has Advisory:', hasAdvisory);
+  console.log('Discount Programs:', discountPrograms.map(program => program.programId));
   console.log('Tax Planning Consultation (boolean):', formData.additionalServices?.taxPlanningConsultation);
 
   // Filter pricing rules for additional services from specializedFilings array
@@ -143,16 +149,17 @@ const extractAdditionalServicePricing = (
       // Hourly rate services (alternative billing frequency from Airtable)
       price = rule.unitPrice || rule.basePrice || 0;
       billingType = `Hourly (per ${rule.unitName || 'hour'})`;
-    } else if (rule.billingFrequency === 'Annual') {
-      // Annual service - use base price
+    } else if (rule.billingFrequency === 'Quarterly' || rule.billingFrequency === 'Semi-Annual' || rule.billingFrequency === 'Annual') {
+      // Quarterly, semi-annual or annual service - use base price
       price = rule.basePrice || 0;
-      billingType = 'Annual';
+      billingType = rule.billingFrequency;
     }
 
-    // Apply advisory discount if applicable
-    if (hasAdvisory && rule.advisoryDiscountEligible && rule.advisoryDiscountPercentage > 0) {
-      price = price * (1 - rule.advisoryDiscountPercentage);
-      console.log(`Advisory discount applied to ${rule.serviceName}: ${rule.advisoryDiscountPercentage * 100}%`);
+    // Apply the quote's discount programs (the Advisory discount by default)
+    const discounted = applyDiscountPrograms(discountPrograms, rule, toMoney(price));
+    if (discounted.steps.length > 0) {
+      price = toDollars(discounted.price);
+      console.log(`Discount programs applied to ${rule.serviceName}: ${discounted.steps.join('; ')}`);
     }
 
     // Map to specific fee fields based on service name
@@ -288,7 +295,7 @@ const extractIndividualServiceFees = (services: ServiceQuote[], formData: FormDa
       unitPrice = unitPrice * 0.5; // 50% discount = multiply by 0.5
     }
 
-    fees.bookkeepingCleanupFee = monthsBehindNum * unitPrice;
+    fees.bookkeepingCleanupFee = toDollars(multiplyMoney(toMoney(unitPrice), monthsBehindNum));
 
     console.log('=== ZAPIER CLEANUP FEE EXTRACTION ===');
     console.log('Months Behind:', monthsBehindNum);
@@ -382,14 +389,15 @@ export const sendQuoteToZapierWebhook = async (
     console.log('Generated new Quote ID - will create new Airtable record');
   }
 
-  // Check if advisory service is selected
-  const hasAdvisory = formData.services.includes('advisory');
+  // Discount programs the quote was priced with (quotes saved before programs had the Advisory discount only)
+  const discountPrograms = quote.discountPrograms ?? selectDiscountPrograms(defaultDiscountPrograms, formData);
+  const appliedPromoCode = quote.promoCode?.status === 'applied' ? quote.promoCode : undefined;
 
   // Extract individual service fees
   const individualFees = extractIndividualServiceFees(quote.services, formData, quote);
 
   // Extract individual Additional Service pricing
-  const additionalServicePricing = extractAdditionalServicePricing(formData, pricingConfig, hasAdvisory);
+  const additionalServicePricing = extractAdditionalServicePricing(formData, pricingConfig, discountPrograms);
 
   // Build dynamic form fields payload from Form Fields table if available
   const dynamicFormFields = formFields ? buildDynamicFormFields(formFields, formData) : {};
@@ -481,14 +489,65 @@ export const sendQuoteToZapierWebhook = async (
 
     // Advisory Pricing Flag
     applyAdvisoryPricing: formData.services.includes('advisory'),
+    discountPrograms: discountPrograms.map(program => program.label).join(', '),
 
     // Quote Summary - Total Fees
-    quoteMonthlyFees: quote.totalMonthlyFees || 0,
-    quoteOneTimeFees: quote.totalOneTimeFees || 0,
-    quoteTotalAnnual: quote.totalAnnual || 0,
+    // Already rounded by the tenant's rounding policy - sent as exact cents
+    quoteMonthlyFees: roundToCents(quote.totalMonthlyFees || 0),
+    quoteQuarterlyFees: roundToCents(quote.totalQuarterlyFees || 0),
+    quoteSemiAnnualFees: roundToCents(quote.totalSemiAnnualFees || 0),
+    quoteOneTimeFees: roundToCents(quote.totalOneTimeFees || 0),
+    quoteAnnualPrepayFees: roundToCents(quote.totalAnnualPrepayFees || 0),
+    quoteTotalAnnual: roundToCents(quote.totalAnnual || 0),
+    billingChoice: BILLING_CHOICE_LABELS[quote.billingChoice || 'monthly'],
+    prepayDiscount: toDollars(addMoney(...quote.adjustments
+      .filter(adjustment => adjustment.type === 'prepay-discount')
+      .map(adjustment => toMoney(adjustment.amount)))),
+    // Promo/referral code - only filled in when the code was applied
+    promoCode: appliedPromoCode?.code || '',
+    promoCodeType: appliedPromoCode?.kind || '',
+    promoCampaign: appliedPromoCode?.campaign || '',
+    promoDiscount: getPromoCodeDiscount(quote),
+    // Hourly estimates (rules with Estimated Hours) and the estimated total band they give
+    hourlyEstimates: describeHourlyEstimates(quote.hourlyServices).join('; '),
+    estimatedTotalLow: quote.estimatedTotal ? roundToCents(quote.estimatedTotal.low) : null,
+    estimatedTotalHigh: quote.estimatedTotal ? roundToCents(quote.estimatedTotal.high) : null,
+    // Call for pricing - the client wasn't shown prices (Requires Review rules matched)
+    needsReview: needsReview(quote),
+    reviewReasons: describeReviewReasons(quote).join('; '),
+    // What the client was shown: no prices when the quote needs review, otherwise ranges
+    // (Firm Info "Price Display" = Range) or exact fees; the quote* fees above are always exact
+    priceDisplay: needsReview(quote) ? PRICES_NOT_SHOWN_DISPLAY : quote.priceRange ? 'Range' : 'Exact',
+    quoteMonthlyFeesLow: quote.priceRange ? roundToCents(quote.priceRange.totalMonthlyFees.low) : null,
+    quoteMonthlyFeesHigh: quote.priceRange ? roundToCents(quote.priceRange.totalMonthlyFees.high) : null,
+    quoteOneTimeFeesLow: quote.priceRange ? roundToCents(quote.priceRange.totalOneTimeFees.low) : null,
+    quoteOneTimeFeesHigh: quote.priceRange ? roundToCents(quote.priceRange.totalOneTimeFees.high) : null,
+    quoteTotalAnnualLow: quote.priceRange ? roundToCents(quote.priceRange.totalAnnual.low) : null,
+    quoteTotalAnnualHigh: quote.priceRange ? roundToCents(quote.priceRange.totalAnnual.high) : null,
+    pricingVersion: quote.pricingVersion,
+    pricingDate: quote.pricingDate,
     quoteComplexity: quote.complexity || 'low',
+    complexityScore: quote.complexityBreakdown.score,
+    complexityFactors: quote.complexityBreakdown.factors
+      .map(factor => `${factor.label} (+${factor.points})`)
+      .join('; '),
     potentialSavings: quote.potentialSavings || 0,
-    recommendations: quote.recommendations.join('; '),
+    savingsBreakdown: (quote.savingsEstimate?.lines || [])
+      .map(line => `${line.label} (${line.serviceId}): ${line.amount}`)
+      .join('; '),
+    savingsDisclaimers: (quote.savingsEstimate?.disclaimers || []).join(' '),
+    recommendations: quote.recommendations.map(rec => rec.message).join('; '),
+    discounts: quote.adjustments
+      .filter(adjustment => adjustment.type === 'discount')
+      .map(adjustment => `${adjustment.label} (${adjustment.serviceId}, ${adjustment.billingFrequency}): ${adjustment.amount}`)
+      .join('; '),
+    totalDiscounts: toDollars(addMoney(...quote.adjustments
+      .filter(adjustment => adjustment.type === 'discount')
+      .map(adjustment => toMoney(adjustment.amount)))),
+    minimumFeeAdjustments: quote.adjustments
+      .filter(adjustment => adjustment.type === 'minimum-fee')
+      .map(adjustment => `${adjustment.serviceId}: +${adjustment.amount}/mo`)
+      .join('; '),
 
     // Individual Service Fees - Advisory Services
     advisoryServicesMonthlyFee: individualFees.advisoryServicesMonthlyFee,
@@ -549,7 +608,10 @@ export const sendQuoteToZapierWebhook = async (
       name: service.name,
       description: service.description,
       monthlyFee: service.monthlyFee,
+      quarterlyFee: service.quarterlyFee || 0,
+      semiAnnualFee: service.semiAnnualFee || 0,
       oneTimeFee: service.oneTimeFee,
+      annualPrepayFee: service.annualPrepayFee || 0,
       annualPrice: service.annualPrice,
       included: service.included.join('; '),
       addOns: service.addOns?.join('; ') || ''
@@ -727,14 +789,15 @@ Contact Information:
 Services Requested: ${formData.services.join(', ')}
 
 Quote Summary:
-- Monthly Fees: $${quote.totalMonthlyFees.toLocaleString()}
-- One-Time Fees: $${quote.totalOneTimeFees.toLocaleString()}
-- Annual Total: $${quote.totalAnnual.toLocaleString()}
-- Complexity: ${quote.complexity}
-- Potential Savings: $${quote.potentialSavings.toLocaleString()}
+${needsReview(quote) ? `- NEEDS REVIEW (prices not shown to the client): ${describeReviewReasons(quote).join('; ')}\n` : ''}- Billing: ${BILLING_CHOICE_LABELS[quote.billingChoice || 'monthly']}
+${quote.discountPrograms?.length ? `- Discount Programs: ${quote.discountPrograms.map(program => program.label).join(', ')}\n` : ''}${quote.promoCode?.status === 'applied' ? `- Promo Code: ${quote.promoCode.code}${quote.promoCode.campaign ? ` (${quote.promoCode.campaign})` : ''}\n` : ''}${quote.totalAnnualPrepayFees > 0 ? `- Annual Prepay Fees: ${formatDollars(quote.totalAnnualPrepayFees)}\n` : ''}- Monthly Fees: ${formatDollars(quote.totalMonthlyFees)}
+${quote.totalQuarterlyFees > 0 ? `- Quarterly Fees: ${formatDollars(quote.totalQuarterlyFees)}\n` : ''}${quote.totalSemiAnnualFees > 0 ? `- Semi-Annual Fees: ${formatDollars(quote.totalSemiAnnualFees)}\n` : ''}- One-Time Fees: ${formatDollars(quote.totalOneTimeFees)}
+- Annual Total: ${formatDollars(quote.totalAnnual)}
+${quote.priceRange ? `- Shown to client as: ${formatDollarRange(quote.priceRange.totalMonthlyFees.low, quote.priceRange.totalMonthlyFees.high)}/month, ${formatDollarRange(quote.priceRange.totalOneTimeFees.low, quote.priceRange.totalOneTimeFees.high)} one-time, ${formatDollarRange(quote.priceRange.totalAnnual.low, quote.priceRange.totalAnnual.high)}/year\n` : ''}${quote.estimatedTotal ? `- Estimated Total (with hourly estimates): ${formatDollars(quote.estimatedTotal.low)} - ${formatDollars(quote.estimatedTotal.high)}\n${describeHourlyEstimates(quote.hourlyServices).map(line => `  - ${line}`).join('\n')}\n` : ''}- Complexity: ${quote.complexity} (score ${quote.complexityBreakdown.score}${quote.complexityBreakdown.factors.length > 0 ? `: ${quote.complexityBreakdown.factors.map(factor => factor.label).join(', ')}` : ''})
+${quote.savingsEstimate ? `- Potential Savings: $${quote.savingsEstimate.total.toLocaleString()}/yr (${quote.savingsEstimate.lines.map(line => line.label).join(', ')})\n` : ''}${quote.adjustments.map(adjustment => `- ${adjustment.label} (${adjustment.serviceId}): ${adjustment.amount < 0 ? '-' : '+'}${formatDollars(Math.abs(adjustment.amount))}${BILLING_FREQUENCY_SUFFIXES[adjustment.billingFrequency]}`).join('\n')}
 
 Recommendations:
-${quote.recommendations.map(rec => `- ${rec}`).join('\n')}
-
+${quote.recommendations.map(rec => `- ${rec.message}`).join('\n')}
+${quote.savingsEstimate && quote.savingsEstimate.disclaimers.length > 0 ? `\n${quote.savingsEstimate.disclaimers.join('\n')}\n` : ''}
   `.trim();
 };
\ No newline at end of file
@@ -43,6 +43,7 @@
   - `total_one_time_fees` (numeric) - Total one-time fees
   - `total_annual` (numeric) - Total annual cost
   - `services_selected` (text[]) - Array of selected service IDs
+  - `promo_code` (text, nullable) - Promo/referral code applied to the quote
   - `created_at` (timestamptz) - When quote was generated
   - `updated_at` (timestamptz) - When quote was last modified
 
@@ -68,6 +69,7 @@
   - `quotes.tenant_id` - Fast quote filtering by tenant
   - `quotes.customer_email` - Fast customer quote lookup
   - `quotes.created_at` - Efficient time-based queries
+  - `quotes.promo_code` - Quotes per promo/referral code
 
   ## Instructions
   1. Go to your Supabase Dashboard (https://supabase.com/dashboard)
@@ -138,10 +140,14 @@ CREATE TABLE IF NOT EXISTS quotes (
   total_one_time_fees numeric(10,2) DEFAULT 0,
   total_annual numeric(10,2) DEFAULT 0,
   services_selected text[] DEFAULT '{}',
+  promo_code text,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
 
+-- Add columns introduced after the first release (safe to re-run)
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS promo_code text;
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_tenants_subdomain ON tenants(subdomain);
 CREATE INDEX IF NOT EXISTS idx_tenants_custom_domain ON tenants(custom_domain);
@@ -149,6 +155,7 @@ CREATE INDEX IF NOT EXISTS idx_tenants_active ON tenants(active);
 CREATE INDEX IF NOT EXISTS idx_quotes_tenant_id ON quotes(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_quotes_customer_email ON quotes(customer_email);
 CREATE INDEX IF NOT EXISTS idx_quotes_created_at ON quotes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quotes_promo_code ON quotes(tenant_id, promo_code) WHERE promo_code IS NOT NULL;
 
 -- Enable Row Level Security
 ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;